@@ -6,6 +6,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HybridTaskProvider } from "./context/TaskContext";
 import { PWAProvider } from "./context/PWAContext";
+import { AuthProvider } from "./context/AuthContext";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -17,16 +18,18 @@ const App = () => (
     <TooltipProvider>
       <BrowserRouter>
         <ErrorBoundary>
-          <HybridTaskProvider>
-            <PWAProvider>
-              <Toaster />
-              <Sonner />
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </PWAProvider>
-          </HybridTaskProvider>
+          <AuthProvider>
+            <HybridTaskProvider>
+              <PWAProvider>
+                <Toaster />
+                <Sonner />
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </PWAProvider>
+            </HybridTaskProvider>
+          </AuthProvider>
         </ErrorBoundary>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { useAuthContext } from '@/context/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Mail, LogIn } from 'lucide-react';
+import { toast } from 'sonner';
+
+const AuthForm: React.FC = () => {
+  const { signInWithPassword, signUp, sendMagicLink } = useAuthContext();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  // Errors are already surfaced as toasts by the auth service
+  const runAction = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    await runAction(() => signInWithPassword(email.trim(), password));
+  };
+
+  const handleSignUp = async () => {
+    if (!email.trim() || !password) return;
+    const success = await runAction(() => signUp(email.trim(), password));
+    if (success) {
+      toast.success('Account created. Check your email to confirm it.');
+    }
+  };
+
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    const success = await runAction(() => sendMagicLink(email.trim()));
+    if (success) {
+      setMagicLinkSent(true);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md shadow-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-orange-600">Khonja</CardTitle>
+          <CardDescription>
+            Sign in to see your projects and tasks on every device.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="password">
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="magic-link">Magic link</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handleSignIn} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="auth-email">Email</Label>
+                  <Input
+                    id="auth-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auth-password">Password</Label>
+                  <Input
+                    id="auth-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1" disabled={submitting}>
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Sign in
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={handleSignUp}
+                    disabled={submitting}
+                  >
+                    Create account
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              {magicLinkSent ? (
+                <div className="text-sm space-y-2 py-2">
+                  <p>
+                    We sent a sign-in link to <span className="font-medium">{email}</span>.
+                  </p>
+                  <p className="text-muted-foreground">
+                    Open it on this device to finish signing in.
+                  </p>
+                  <Button variant="link" className="px-0" onClick={() => setMagicLinkSent(false)}>
+                    Use a different email
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleMagicLink} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-magic-email">Email</Label>
+                    <Input
+                      id="auth-magic-email"
+                      type="email"
+                      autoComplete="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="you@example.com"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={submitting}>
+                    <Mail className="h-4 w-4 mr-2" />
+                    Email me a sign-in link
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthForm;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { claimAnonymousData, forgetAnonymousUserId } from '@/services/authService';
+
+interface ClaimAnonymousDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClaimComplete: () => void;
+}
+
+const ClaimAnonymousDataDialog: React.FC<ClaimAnonymousDataDialogProps> = ({
+  open,
+  onOpenChange,
+  onClaimComplete
+}) => {
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      const claimedCount = await claimAnonymousData();
+      toast({
+        title: "Data claimed",
+        description: claimedCount > 0
+          ? `Moved ${claimedCount} item${claimedCount !== 1 ? 's' : ''} to your account.`
+          : "There was nothing left to move to your account.",
+      });
+      onClaimComplete();
+      onOpenChange(false);
+    } catch (error) {
+      // handleSupabaseError already showed a toast; keep the dialog open to retry
+      console.error("Claim error:", error);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    forgetAnonymousUserId();
+    toast({
+      title: "Anonymous data left behind",
+      description: "Your previous anonymous data was not moved to this account.",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Claim Your Existing Data</DialogTitle>
+          <DialogDescription>
+            This browser has projects and tasks you created before signing in.
+            Would you like to move them to your account?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2">
+          <p className="text-sm text-muted-foreground mb-2">
+            Claiming will move your:
+          </p>
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            <li>Projects</li>
+            <li>Tasks and subtasks</li>
+            <li>Time tracking entries</li>
+            <li>Calendar time blocks</li>
+          </ul>
+          <p className="mt-4 text-sm">
+            This can only be done once. Data you don't claim stays unreachable.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleDiscard}
+            disabled={isClaiming}
+          >
+            Don't claim
+          </Button>
+          <Button
+            onClick={handleClaim}
+            disabled={isClaiming}
+          >
+            {isClaiming ? "Claiming..." : "Claim my data"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClaimAnonymousDataDialog;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Task } from '@/context/TaskTypes';
+import { useTaskContext } from '@/context/TaskContext';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent } from '@/components/ui/sheet';
+import TaskDetailsContent from '@/components/tasks/TaskDetailsContent';
+import TaskLabels from '@/components/tasks/TaskLabels';
+import { CalendarDays, ListTree, Lock } from 'lucide-react';
+import { format } from 'date-fns';
+import { getPriorityColor, getPriorityLabel } from '@/lib/priority-utils';
+import { getTasksById, isTaskBlocked } from '@/lib/dependency-utils';
+
+interface BoardCardProps {
+  task: Task;
+  showProject?: boolean;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ task, showProject = false }) => {
+  const { tasks, projects } = useTaskContext();
+  const [isDragging, setIsDragging] = useState(false);
+  const [showTaskDetails, setShowTaskDetails] = useState(false);
+
+  const priorityColor = getPriorityColor(task.priority);
+  const isBlocked = isTaskBlocked(task, getTasksById(tasks));
+  const projectName = projects.find(project => project.id === task.projectId)?.name;
+
+  return (
+    <>
+      <div
+        className={`rounded-md border bg-card p-2 text-sm shadow-sm cursor-pointer space-y-1 ${isDragging ? 'opacity-50' : ''} ${task.completed ? 'opacity-60' : ''}`}
+        onClick={() => setShowTaskDetails(true)}
+        draggable
+        onDragStart={(e) => {
+          setIsDragging(true);
+          e.dataTransfer.setData('text/plain', task.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => setIsDragging(false)}
+      >
+        <div className="flex items-start gap-1">
+          <span className={`flex-1 ${task.completed ? 'line-through text-muted-foreground' : ''}`}>
+            {task.title}
+          </span>
+          {isBlocked && <Lock className="h-3 w-3 text-red-600 flex-shrink-0 mt-0.5" />}
+        </div>
+
+        {showProject && projectName && (
+          <p className="text-xs text-muted-foreground truncate">{projectName}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1">
+          <Badge className={`${priorityColor.bg} ${priorityColor.text} text-xs px-1.5 py-0`}>
+            {getPriorityLabel(task.priority)}
+          </Badge>
+          {task.dueDate && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CalendarDays className="h-3 w-3" />
+              {format(new Date(task.dueDate), 'MMM d')}
+              {task.timeSlot && ` ${task.timeSlot}`}
+            </span>
+          )}
+          {task.children.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <ListTree className="h-3 w-3" />
+              {task.children.filter(child => child.completed).length}/{task.children.length}
+            </span>
+          )}
+        </div>
+
+        <TaskLabels labelIds={task.labelIds} size="xs" />
+      </div>
+
+      <Sheet open={showTaskDetails} onOpenChange={setShowTaskDetails}>
+        <SheetContent>
+          <TaskDetailsContent task={task} />
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+export default BoardCard;
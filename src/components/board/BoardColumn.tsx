@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { BoardColumn as BoardColumnData } from '@/utils/filters';
+import BoardCard from './BoardCard';
+
+interface BoardColumnProps {
+  column: BoardColumnData;
+  showProject?: boolean;
+  onTaskDrop: (taskId: string, columnId: string) => void;
+}
+
+const BoardColumn: React.FC<BoardColumnProps> = ({ column, showProject = false, onTaskDrop }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!column.acceptsDrop) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    const taskId = e.dataTransfer.getData('text/plain');
+    if (taskId) {
+      onTaskDrop(taskId, column.id);
+    }
+  };
+
+  return (
+    <div
+      className={`flex flex-col w-72 shrink-0 rounded-md border bg-muted/40 ${isDragOver ? 'ring-2 ring-primary' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center gap-2 p-3">
+        {column.color && (
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: column.color }} />
+        )}
+        <h3 className="text-sm font-bold">{column.title}</h3>
+        <Badge variant="outline" className="ml-auto">{column.tasks.length}</Badge>
+      </div>
+
+      <div className="flex-1 space-y-2 px-2 pb-2 min-h-[80px]">
+        {column.tasks.map(task => (
+          <BoardCard key={task.id} task={task} showProject={showProject} />
+        ))}
+        {column.tasks.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {column.acceptsDrop ? 'Drop tasks here' : 'No tasks'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoardColumn;
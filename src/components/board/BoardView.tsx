@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { useTaskContext } from '@/context/TaskContext';
+import { GroupBy, useFilterContext } from '@/context/FilterContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FilterButton from '@/components/filters/FilterButton';
+import FilterPills from '@/components/filters/FilterPills';
+import { BoardColumnBy, filterTasks, getBoardColumns, moveTaskToColumn, sortTasks } from '@/utils/filters';
+import { getTasksById } from '@/lib/dependency-utils';
+import { syncTaskStatus } from '@/lib/status-utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { toast } from 'sonner';
+import BoardColumn from './BoardColumn';
+
+const ALL_PROJECTS = 'all';
+
+const boardColumnOptions: { value: BoardColumnBy; label: string }[] = [
+  { value: GroupBy.STATUS, label: 'Status' },
+  { value: GroupBy.PRIORITY, label: 'Priority' },
+  { value: GroupBy.DATE, label: 'Due date' },
+];
+
+const BoardView: React.FC = () => {
+  const { projects, tasks, projectStatuses, updateTask } = useTaskContext();
+  const { activeFilters, sortBy, sortDirection, excludeCompleted } = useFilterContext();
+  const isMobile = useIsMobile();
+
+  const [columnBy, setColumnBy] = useState<BoardColumnBy>(() => {
+    const saved = localStorage.getItem('quire-board-columns');
+    return boardColumnOptions.some(option => option.value === saved)
+      ? saved as BoardColumnBy
+      : GroupBy.STATUS;
+  });
+  const [projectId, setProjectId] = useState<string>(ALL_PROJECTS);
+
+  useEffect(() => {
+    localStorage.setItem('quire-board-columns', columnBy);
+  }, [columnBy]);
+
+  // Subtasks stay on their parent's card
+  const boardTasks = tasks.filter(task =>
+    !task.parentId && (projectId === ALL_PROJECTS || task.projectId === projectId)
+  );
+  const tasksById = getTasksById(tasks);
+  const filteredTasks = filterTasks(boardTasks, activeFilters, excludeCompleted, tasksById, projectStatuses);
+  const sortedTasks = sortTasks(filteredTasks, sortBy, sortDirection);
+
+  const projectIds = projectId === ALL_PROJECTS ? projects.map(project => project.id) : [projectId];
+  const columns = getBoardColumns(sortedTasks, columnBy, projectIds, projectStatuses);
+
+  const handleTaskDrop = (taskId: string, columnId: string) => {
+    const task = boardTasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const movedTask = moveTaskToColumn(task, columnBy, columnId, projectStatuses);
+    if (!movedTask) {
+      const column = columns.find(c => c.id === columnId);
+      toast.error(`"${task.title}" can't be moved to ${column?.title ?? 'this column'}`);
+      return;
+    }
+
+    updateTask(syncTaskStatus(movedTask, task, projectStatuses));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+        <h2 className="text-2xl font-bold">Board</h2>
+        <div className="flex flex-wrap gap-2">
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={columnBy} onValueChange={(value) => setColumnBy(value as BoardColumnBy)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Columns" />
+            </SelectTrigger>
+            <SelectContent>
+              {boardColumnOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FilterButton forMobile={isMobile} />
+        </div>
+      </div>
+
+      <FilterPills />
+
+      <div className="flex gap-4 overflow-x-auto pb-4 items-start">
+        {columns.map(column => (
+          <BoardColumn
+            key={column.id}
+            column={column}
+            showProject={projectId === ALL_PROJECTS}
+            onTaskDrop={handleTaskDrop}
+          />
+        ))}
+      </div>
+
+      {projects.length === 0 && (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground mb-4">No projects yet. Create your first project to get started!</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoardView;
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { useTaskContext, useTimeTrackingContext, Task } from '@/context/TaskContext';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext, Task } from '@/context/TaskContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { formatMinutes } from '@/lib/time-utils';
+import { fromCalendarDay } from '@/lib/timezone-utils';
+import { DEFAULT_SNAP_MINUTES, MINUTES_PER_DAY, generateTimeSlots, minutesToTimeSlot } from '@/lib/calendar-utils';
 import { Switch } from '@/components/ui/switch';
 
 interface AddTimeBlockDialogProps {
@@ -13,32 +15,28 @@ interface AddTimeBlockDialogProps {
   onOpenChange: (open: boolean) => void;
   task: Task;
   date: Date;
+  snapMinutes?: number;
 }
 
-const generateTimeSlots = () => {
-  const slots = [];
-  for (let hour = 8; hour < 21; hour++) {
-    const hourStr = hour % 12 === 0 ? 12 : hour % 12;
-    const meridiem = hour < 12 ? 'AM' : 'PM';
-    
-    slots.push(`${hourStr}:00 ${meridiem}`);
-    slots.push(`${hourStr}:30 ${meridiem}`);
-  }
-  return slots;
+// Times are stored as "HH:MM" and shown in 12-hour format
+const formatTimeSlotLabel = (timeSlot: string) => {
+  const [hours, minutes] = timeSlot.split(':').map(Number);
+  return format(new Date(2000, 0, 1, hours, minutes), 'h:mm a');
 };
 
-const timeSlots = generateTimeSlots();
-
 const AddTimeBlockDialog: React.FC<AddTimeBlockDialogProps> = ({ 
   open, 
   onOpenChange, 
   task,
-  date
+  date,
+  snapMinutes = DEFAULT_SNAP_MINUTES
 }) => {
   const { addTimeBlock, timeTrackings } = useTimeTrackingContext();
+  const { timeZone } = useViewModeContext();
+  const timeSlots = generateTimeSlots(snapMinutes);
   
-  const [startTime, setStartTime] = useState(timeSlots[0]);
-  const [endTime, setEndTime] = useState(timeSlots[2]);
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('10:00');
   const [useTrackedTime, setUseTrackedTime] = useState(false);
   
   const taskDayTrackings = timeTrackings.filter(tracking => 
@@ -71,39 +69,28 @@ const AddTimeBlockDialog: React.FC<AddTimeBlockDialogProps> = ({
         }
       });
       
-      const startHour = new Date(earliestTracking.startTime).getHours();
-      const startMinute = new Date(earliestTracking.startTime).getMinutes();
-      const roundedStartMinute = startMinute < 30 ? 0 : 30;
-      
-      const endTime = latestTracking.endTime ? new Date(latestTracking.endTime) : new Date();
-      const endHour = endTime.getHours();
-      const endMinute = endTime.getMinutes();
-      const roundedEndMinute = endMinute < 30 ? 0 : 30;
-      const roundUpEndHour = endMinute > 30 ? endHour + 1 : endHour;
-      
-      const formattedStartHour = startHour % 12 === 0 ? 12 : startHour % 12;
-      const startMeridiem = startHour < 12 ? 'AM' : 'PM';
-      const suggestedStart = `${formattedStartHour}:${roundedStartMinute === 0 ? '00' : '30'} ${startMeridiem}`;
+      const start = new Date(earliestTracking.startTime);
+      const end = latestTracking.endTime ? new Date(latestTracking.endTime) : new Date();
       
-      const formattedEndHour = roundUpEndHour % 12 === 0 ? 12 : roundUpEndHour % 12;
-      const endMeridiem = roundUpEndHour < 12 ? 'AM' : 'PM';
-      const suggestedEnd = `${formattedEndHour}:${roundedEndMinute === 0 ? '00' : '30'} ${endMeridiem}`;
+      // Widen the tracked time to the grid
+      const startMinutes = Math.floor((start.getHours() * 60 + start.getMinutes()) / snapMinutes) * snapMinutes;
+      const endMinutes = Math.ceil((end.getHours() * 60 + end.getMinutes()) / snapMinutes) * snapMinutes;
       
-      const closestStartSlot = timeSlots.find(slot => slot === suggestedStart) || timeSlots[0];
-      const closestEndSlot = timeSlots.find(slot => slot === suggestedEnd) || 
-                            timeSlots[Math.min(timeSlots.indexOf(closestStartSlot) + 1, timeSlots.length - 1)];
+      const lastStartMinutes = MINUTES_PER_DAY - 2 * snapMinutes;
       
-      setStartTime(closestStartSlot);
-      setEndTime(closestEndSlot);
+      setStartTime(minutesToTimeSlot(Math.min(startMinutes, lastStartMinutes)));
+      setEndTime(minutesToTimeSlot(Math.min(Math.max(endMinutes, startMinutes + snapMinutes), lastStartMinutes + snapMinutes)));
     }
-  }, [useTrackedTime, taskDayTrackings, hasTrackedTime]);
+  }, [useTrackedTime, taskDayTrackings, hasTrackedTime, snapMinutes]);
 
   const handleAddTimeBlock = () => {
+    // The times are picked in the viewer's zone
     addTimeBlock({
       taskId: task.id,
-      date,
+      date: fromCalendarDay(date, timeZone),
       startTime,
-      endTime
+      endTime,
+      timeZone
     });
     
     onOpenChange(false);
@@ -154,7 +141,7 @@ const AddTimeBlockDialog: React.FC<AddTimeBlockDialogProps> = ({
                 <SelectContent>
                   {timeSlots.map((time) => (
                     <SelectItem key={time} value={time}>
-                      {time}
+                      {formatTimeSlotLabel(time)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -172,9 +159,9 @@ const AddTimeBlockDialog: React.FC<AddTimeBlockDialogProps> = ({
                     <SelectItem 
                       key={time} 
                       value={time}
-                      disabled={timeSlots.indexOf(time) <= timeSlots.indexOf(startTime)}
+                      disabled={time <= startTime}
                     >
-                      {time}
+                      {formatTimeSlotLabel(time)}
                     </SelectItem>
                   ))}
                 </SelectContent>
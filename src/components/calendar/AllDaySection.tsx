@@ -10,6 +10,7 @@ interface AllDaySectionProps {
   onDragLeave: (e: React.DragEvent) => void;
   onDrop: (e: React.DragEvent) => void;
   onTaskClick: (task: Task) => void;
+  onTaskMove?: (task: Task, days: number, minutes: number) => void;
   activeTimeTrackingTaskId?: string | null;
 }
 
@@ -20,6 +21,7 @@ const AllDaySection: React.FC<AllDaySectionProps> = ({
   onDragLeave,
   onDrop,
   onTaskClick,
+  onTaskMove,
   activeTimeTrackingTaskId
 }) => {
   return (
@@ -38,6 +40,7 @@ const AllDaySection: React.FC<AllDaySectionProps> = ({
             task={task}
             onClick={() => onTaskClick(task)}
             activeTaskId={activeTimeTrackingTaskId}
+            onMove={onTaskMove && ((days) => onTaskMove(task, days, 0))}
           />
         ))}
       </div>
@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext } from '@/context/TaskContext';
+import { Task } from '@/context/TaskTypes';
+import { generateTimeSlots } from '@/lib/calendar-utils';
+import { getTasksById } from '@/lib/dependency-utils';
+import { generateRecurringTaskInstances } from '@/lib/recurrence-utils';
+import {
+  ProposedTimeBlock,
+  UnscheduledReason,
+  WorkingHours,
+  createAutoSchedule,
+  getWorkingHours,
+  saveWorkingHours,
+} from '@/lib/scheduler-utils';
+import { formatMinutes, parseTimeToMinutes } from '@/lib/time-utils';
+import { fromCalendarDay } from '@/lib/timezone-utils';
+import { toast } from 'sonner';
+
+const HORIZON_OPTIONS = [7, 14, 28];
+const CHUNK_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+// Monday first, as in the calendar
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const UNSCHEDULED_REASONS: Record<UnscheduledReason, string> = {
+  'blocked': 'Waits on a task that is not planned',
+  'no-time': 'Not enough free time before the due date',
+};
+
+const getProposalKey = (block: ProposedTimeBlock) =>
+  `${block.taskId}-${format(block.date, 'yyyy-MM-dd')}-${block.startTime}`;
+
+interface AutoPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AutoPlanDialog: React.FC<AutoPlanDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { tasks } = useTaskContext();
+  const { timeBlocks, addTimeBlock } = useTimeTrackingContext();
+  const { timeZone } = useViewModeContext();
+  const [workingHours, setWorkingHours] = useState<WorkingHours>(getWorkingHours);
+  const [horizonDays, setHorizonDays] = useState(14);
+  const [maxChunkMinutes, setMaxChunkMinutes] = useState(120);
+  const [now, setNow] = useState(() => new Date());
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  const [isAdding, setIsAdding] = useState(false);
+
+  const timeSlots = generateTimeSlots(30);
+  const tasksById = getTasksById(tasks);
+
+  // Plan from the moment the dialog is opened, with every proposal selected
+  useEffect(() => {
+    if (open) {
+      setNow(new Date());
+      setExcludedKeys(new Set());
+    }
+  }, [open]);
+
+  useEffect(() => {
+    saveWorkingHours(workingHours);
+  }, [workingHours]);
+
+  // Timed occurrences of recurring tasks take up time too
+  const getTasksWithOccurrences = (): Task[] => {
+    const horizonEnd = addDays(now, horizonDays);
+    const occurrences = tasks
+      .filter(task => task.isRecurring && task.recurrencePattern && task.dueDate)
+      .flatMap(template => generateRecurringTaskInstances(template, now, horizonEnd));
+
+    return [...tasks, ...occurrences];
+  };
+
+  const schedule = open
+    ? createAutoSchedule(getTasksWithOccurrences(), timeBlocks, {
+        workingHours,
+        timeZone,
+        now,
+        horizonDays,
+        maxChunkMinutes,
+      })
+    : { blocks: [], unscheduled: [] };
+
+  const selectedBlocks = schedule.blocks.filter(block => !excludedKeys.has(getProposalKey(block)));
+  const hasValidHours = parseTimeToMinutes(workingHours.endTime) > parseTimeToMinutes(workingHours.startTime);
+
+  const proposalsByDay = schedule.blocks.reduce<Map<string, ProposedTimeBlock[]>>((byDay, block) => {
+    const key = format(block.date, 'yyyy-MM-dd');
+    byDay.set(key, [...(byDay.get(key) || []), block]);
+    return byDay;
+  }, new Map());
+
+  const toggleProposal = (block: ProposedTimeBlock, selected: boolean) => {
+    setExcludedKeys(keys => {
+      const next = new Set(keys);
+      if (selected) {
+        next.delete(getProposalKey(block));
+      } else {
+        next.add(getProposalKey(block));
+      }
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    let added = 0;
+
+    try {
+      // Planned in the viewer's zone
+      for (const block of selectedBlocks) {
+        const timeBlock = await addTimeBlock({
+          taskId: block.taskId,
+          date: fromCalendarDay(block.date, timeZone),
+          startTime: block.startTime,
+          endTime: block.endTime,
+          timeZone
+        });
+        if (timeBlock) added++;
+      }
+    } finally {
+      setIsAdding(false);
+    }
+
+    const label = (count: number) => `${count} time block${count !== 1 ? 's' : ''}`;
+    if (added === selectedBlocks.length) {
+      toast.success(`Added ${label(added)}`);
+      onOpenChange(false);
+    } else {
+      // The plan stays open, so the rest can be tried again
+      toast.error(`Added ${added} of ${label(selectedBlocks.length)}`);
+    }
+  };
+
+  // Tasks split into chunks show which part a block is
+  const getPartLabel = (block: ProposedTimeBlock) => {
+    const parts = schedule.blocks.filter(other => other.taskId === block.taskId);
+    if (parts.length < 2) return '';
+    return ` (${parts.indexOf(block) + 1}/${parts.length})`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Auto-plan</DialogTitle>
+          <DialogDescription>
+            Propose time blocks for open tasks with an estimate and no time of their own, in the
+            free working hours of the coming days. Nothing is added until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Start</Label>
+              <Select
+                value={workingHours.startTime}
+                onValueChange={(startTime) => setWorkingHours({ ...workingHours, startTime })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeSlots.map(slot => (
+                    <SelectItem key={slot} value={slot}>{slot}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>End</Label>
+              <Select
+                value={workingHours.endTime}
+                onValueChange={(endTime) => setWorkingHours({ ...workingHours, endTime })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeSlots.map(slot => (
+                    <SelectItem key={slot} value={slot}>{slot}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Plan ahead</Label>
+              <Select value={horizonDays.toString()} onValueChange={(value) => setHorizonDays(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HORIZON_OPTIONS.map(days => (
+                    <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Longest block</Label>
+              <Select value={maxChunkMinutes.toString()} onValueChange={(value) => setMaxChunkMinutes(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHUNK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={minutes.toString()}>{formatMinutes(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Working days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={workingHours.days.map(String)}
+              onValueChange={(days) => setWorkingHours({ ...workingHours, days: days.map(Number) })}
+            >
+              {WEEKDAYS.map(day => {
+                const date = addDays(startOfWeek(now), day);
+                return (
+                  <ToggleGroupItem key={day} value={day.toString()} aria-label={format(date, 'EEEE')}>
+                    {format(date, 'EEEEEE')}
+                  </ToggleGroupItem>
+                );
+              })}
+            </ToggleGroup>
+          </div>
+
+          {!hasValidHours ? (
+            <p className="text-sm text-destructive">Working hours must end after they start.</p>
+          ) : schedule.blocks.length === 0 && schedule.unscheduled.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no unplanned tasks with an estimate.</p>
+          ) : (
+            <ScrollArea className="h-72 border rounded-md">
+              <div className="divide-y">
+                {[...proposalsByDay].map(([day, blocks]) => (
+                  <div key={day} className="p-2 space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">
+                      {format(blocks[0].date, 'EEEE, MMM d')}
+                    </div>
+                    {blocks.map(block => (
+                      <label key={getProposalKey(block)} className="flex items-center gap-3 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={!excludedKeys.has(getProposalKey(block))}
+                          onCheckedChange={(checked) => toggleProposal(block, checked === true)}
+                        />
+                        <span className="text-green-700 font-mono text-xs shrink-0">
+                          + {block.startTime}-{block.endTime}
+                        </span>
+                        <span className="truncate">
+                          {tasksById.get(block.taskId)?.title}{getPartLabel(block)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+
+                {schedule.unscheduled.length > 0 && (
+                  <div className="p-2 space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">Not planned</div>
+                    {schedule.unscheduled.map(({ taskId, reason }) => (
+                      <div key={taskId} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="truncate">{tasksById.get(taskId)?.title}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">{UNSCHEDULED_REASONS[reason]}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={!hasValidHours || selectedBlocks.length === 0 || isAdding}>
+            {isAdding ? 'Adding...' : `Add ${selectedBlocks.length} time block${selectedBlocks.length !== 1 ? 's' : ''}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutoPlanDialog;
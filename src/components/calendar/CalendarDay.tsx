@@ -7,6 +7,11 @@ interface CalendarDayProps {
   date: Date;
   tasks: Task[];
   onTaskDrop?: (task: Task, timeSlot?: string) => void;
+  onTaskMove?: (task: Task, date: Date, timeSlot?: string) => void;
+  onTaskResize?: (task: Task, estimatedTime: number) => void;
+  onTimeBlockMove?: (timeBlockId: string, date: Date, startTime?: string) => void;
+  onTimeBlockResize?: (timeBlockId: string, durationMinutes: number) => void;
+  snapMinutes?: number;
   oneHourSlots?: boolean;
 }
 
@@ -14,6 +19,11 @@ const CalendarDay: React.FC<CalendarDayProps> = ({
   date, 
   tasks, 
   onTaskDrop, 
+  onTaskMove,
+  onTaskResize,
+  onTimeBlockMove,
+  onTimeBlockResize,
+  snapMinutes,
   oneHourSlots 
 }) => {
   return (
@@ -21,6 +31,11 @@ const CalendarDay: React.FC<CalendarDayProps> = ({
       date={date}
       tasks={tasks}
       onTaskDrop={onTaskDrop}
+      onTaskMove={onTaskMove}
+      onTaskResize={onTaskResize}
+      onTimeBlockMove={onTimeBlockMove}
+      onTimeBlockResize={onTimeBlockResize}
+      snapMinutes={snapMinutes}
       oneHourSlots={oneHourSlots}
     />
   );
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { format } from 'date-fns';
-import { useTaskContext, useTimeTrackingContext, Task } from '@/context/TaskContext';
+import { addDays, format, isSameDay } from 'date-fns';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext, Task, TimeBlock } from '@/context/TaskContext';
 import AddTimeBlockDialog from './AddTimeBlockDialog';
 import AllDaySection from './AllDaySection';
 import TimeSlotGrid from './TimeSlotGrid';
@@ -10,11 +10,18 @@ import TimeBlockDisplay from './TimeBlockDisplay';
 import TimeTrackingDisplay from './TimeTrackingDisplay';
 import { findTaskById } from '@/context/TaskHelpers';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { getTaskScheduleInZone, getTimeBlockInZone } from '@/lib/timezone-utils';
+import { DEFAULT_SNAP_MINUTES, TIME_BLOCK_DRAG_TYPE, getTimeSlotAtOffset, shiftTimeSlot } from '@/lib/calendar-utils';
 
 interface CalendarDayContainerProps {
   date: Date;
   tasks: Task[];
   onTaskDrop?: (task: Task, timeSlot?: string) => void;
+  onTaskMove?: (task: Task, date: Date, timeSlot?: string) => void;
+  onTaskResize?: (task: Task, estimatedTime: number) => void;
+  onTimeBlockMove?: (timeBlockId: string, date: Date, startTime?: string) => void;
+  onTimeBlockResize?: (timeBlockId: string, durationMinutes: number) => void;
+  snapMinutes?: number;
   oneHourSlots?: boolean;
 }
 
@@ -26,41 +33,37 @@ const getHourlySlots = () => {
   return slots;
 };
 
-const snapToNearestHalfHour = (timeStr: string) => {
-  const [hourStr, minStr] = timeStr.split(':');
-  let h = parseInt(hourStr, 10);
-  let m = parseInt(minStr, 10);
-
-  if (isNaN(h) || isNaN(m)) return "00:00";
-
-  let snapMins = m < 15 ? 0 : m < 45 ? 30 : 0;
-  let snapHour = h + (m >= 45 ? 1 : 0);
-
-  if (snapHour > 23) snapHour = 23;
-  return `${snapHour.toString().padStart(2, '0')}:${snapMins === 0 ? '00' : '30'}`;
-};
-
 const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({ 
   date, 
   tasks, 
   onTaskDrop, 
+  onTaskMove,
+  onTaskResize,
+  onTimeBlockMove,
+  onTimeBlockResize,
+  snapMinutes = DEFAULT_SNAP_MINUTES,
   oneHourSlots 
 }) => {
   const { timeBlocks, timeTrackings, activeTimeTracking } = useTimeTrackingContext();
+  const { timeZone } = useViewModeContext();
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isAddingTimeBlock, setIsAddingTimeBlock] = useState(false);
   const [draggedOverSlot, setDraggedOverSlot] = useState<string | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const isMobile = useIsMobile();
   
+  const getViewerTimeSlot = (task: Task) => getTaskScheduleInZone(task, timeZone)?.timeSlot;
+  
   const allDayTasks = tasks.filter(task => !task.timeSlot);
   const timeSlottedTasks = tasks.filter(task => task.timeSlot).sort((a, b) => 
-    (a.timeSlot || '').localeCompare(b.timeSlot || '')
+    (getViewerTimeSlot(a) || '').localeCompare(getViewerTimeSlot(b) || '')
   );
   
-  const dayTimeBlocks = timeBlocks.filter(block => 
-    block.date && format(block.date, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
-  );
+  // Time blocks are shown at their times in the viewer's zone
+  const dayTimeBlocks = timeBlocks
+    .filter(block => block.date)
+    .map(block => ({ ...block, ...getTimeBlockInZone(block, timeZone) }))
+    .filter(block => isSameDay(block.date, date));
   
   const dayTimeTrackings = timeTrackings.filter(tracking => 
     format(new Date(tracking.startTime), 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
@@ -85,6 +88,24 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
     setIsAddingTimeBlock(true);
   };
 
+  // Keyboard moves, relative to where the item is shown in the viewer's zone
+  const handleTaskMove = (task: Task, days: number, minutes: number) => {
+    const timeSlot = getViewerTimeSlot(task);
+    const movedTimeSlot = timeSlot ? shiftTimeSlot(timeSlot, minutes, snapMinutes) : undefined;
+    if (days === 0 && movedTimeSlot === timeSlot) return;
+    onTaskMove?.(task, addDays(date, days), movedTimeSlot);
+  };
+
+  const handleTimeBlockMove = (block: TimeBlock, days: number, minutes: number) => {
+    const startTime = shiftTimeSlot(block.startTime, minutes, snapMinutes);
+    if (days === 0 && startTime === block.startTime) return;
+    onTimeBlockMove?.(block.id, addDays(date, days), startTime);
+  };
+
+  // Time blocks carry their own drag type; anything else is a task id
+  const getDraggedTimeBlockId = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes(TIME_BLOCK_DRAG_TYPE) ? e.dataTransfer.getData(TIME_BLOCK_DRAG_TYPE) : null;
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -102,6 +123,13 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
     setDraggedOverSlot(null);
     
     try {
+      // A time block dropped on the day keeps its times
+      const timeBlockId = getDraggedTimeBlockId(e);
+      if (timeBlockId) {
+        onTimeBlockMove?.(timeBlockId, date);
+        return;
+      }
+      
       const taskId = e.dataTransfer.getData('text/plain');
       if (!taskId) return;
       
@@ -126,11 +154,13 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
     if (!oneHourSlots) return;
 
     setIsDragOver(true);
-    const rect = (e.target as HTMLElement).getBoundingClientRect();
-    const y = e.clientY - rect.top;
-    const snapMinute = y < rect.height / 2 ? 0 : 30;
-    const timeSlot = `${hour.toString().padStart(2, '0')}:${snapMinute === 0 ? '00' : '30'}`;
-    setDraggedOverSlot(timeSlot);
+    setDraggedOverSlot(getHourSlotTime(e, hour));
+  };
+
+  // The time under the pointer, snapped to the grid; the hour row is the current target
+  const getHourSlotTime = (e: React.DragEvent, hour: number) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    return getTimeSlotAtOffset(hour, e.clientY - rect.top, rect.height, snapMinutes);
   };
 
   const handleHourSlotDragLeave = (e: React.DragEvent) => {
@@ -144,12 +174,17 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
     setDraggedOverSlot(null);
 
     try {
+      const snappedTime = getHourSlotTime(e, hour);
+      
+      const timeBlockId = getDraggedTimeBlockId(e);
+      if (timeBlockId) {
+        onTimeBlockMove?.(timeBlockId, date, snappedTime);
+        return;
+      }
+      
       const taskId = e.dataTransfer.getData('text/plain');
       if (!taskId) return;
 
-      let snappedTime = draggedOverSlot || `${hour.toString().padStart(2, '0')}:00`;
-      snappedTime = snapToNearestHalfHour(snappedTime);
-
       if (onTaskDrop) {
         let droppedTask = tasks.find(t => t.id === taskId);
         
@@ -208,6 +243,7 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
             onOpenChange={setIsAddingTimeBlock}
             task={selectedTask}
             date={date}
+            snapMinutes={snapMinutes}
           />
         )}
       </div>
@@ -226,6 +262,7 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
         onTaskClick={handleTaskClick}
+        onTaskMove={handleTaskMove}
         activeTimeTrackingTaskId={activeTimeTracking?.taskId}
       />
       
@@ -235,11 +272,16 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
         timeBlocks={dayTimeBlocks}
         timeTrackings={dayTimeTrackings}
         draggedOverSlot={draggedOverSlot}
+        snapMinutes={snapMinutes}
         onHourSlotDragOver={handleHourSlotDragOver}
         onHourSlotDragLeave={handleHourSlotDragLeave}
         onHourSlotDrop={handleHourSlotDrop}
         getTaskById={getTaskById}
         onTaskClick={handleTaskClick}
+        onTaskMove={handleTaskMove}
+        onTaskResize={(task, estimatedTime) => onTaskResize?.(task, estimatedTime)}
+        onTimeBlockMove={handleTimeBlockMove}
+        onTimeBlockResize={(block, durationMinutes) => onTimeBlockResize?.(block.id, durationMinutes)}
         activeTimeTrackingTaskId={activeTimeTracking?.taskId}
       />
       
@@ -249,6 +291,7 @@ const CalendarDayContainer: React.FC<CalendarDayContainerProps> = ({
           onOpenChange={setIsAddingTimeBlock}
           task={selectedTask}
           date={date}
+          snapMinutes={snapMinutes}
         />
       )}
     </div>
@@ -1,25 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
-import { useTaskContext, useViewModeContext, Task } from '@/context/TaskContext';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext, Task } from '@/context/TaskContext';
+import { findTaskById } from '@/context/TaskHelpers';
 import { toast } from "sonner";
-import { isSameDay, format } from 'date-fns';
+import { format } from 'date-fns';
 import FilterPills from '@/components/filters/FilterPills';
 import { useFilterContext, FilterType } from '@/context/FilterContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { generateRecurringTaskInstances } from '@/lib/recurrence-utils';
+import { getTasksById, isTaskBlocked } from '@/lib/dependency-utils';
+import { getTaskStatus } from '@/lib/status-utils';
+import { getTaskScheduleInZone, getTimeBlockInZone, scheduleTaskInZone, scheduleTimeBlockInZone } from '@/lib/timezone-utils';
+import { DEFAULT_SNAP_MINUTES, SNAP_INTERVALS, getEndTimeSlot, getTimeSlotDuration } from '@/lib/calendar-utils';
 
 import CalendarGrid from './grid/CalendarGrid';
+import MonthGrid from './grid/MonthGrid';
+import YearGrid from './grid/YearGrid';
 import TaskList from './tasks/TaskList';
 import CalendarViewHeader from './header/CalendarViewHeader';
 import { useCalendarNavigation } from './hooks/useCalendarNavigation';
 
 const CalendarView: React.FC = () => {
-  const { tasks, updateTask } = useTaskContext();
-  const { selectedDate: contextSelectedDate, setSelectedDate: setContextSelectedDate } = useViewModeContext();
+  const { tasks, projectStatuses, updateTask } = useTaskContext();
+  const { timeBlocks, updateTimeBlock } = useTimeTrackingContext();
+  const { selectedDate: contextSelectedDate, setSelectedDate: setContextSelectedDate, timeZone } = useViewModeContext();
   const { activeFilters } = useFilterContext();
   const [showTaskList, setShowTaskList] = useState(true);
   const [showMiniCalendar, setShowMiniCalendar] = useState(false);
+  const [snapMinutes, setSnapMinutes] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('quire-calendar-snap'));
+    return SNAP_INTERVALS.includes(saved) ? saved : DEFAULT_SNAP_MINUTES;
+  });
   const isMobile = useIsMobile();
+  const tasksById = getTasksById(tasks);
   
   const {
     selectedDate,
@@ -29,6 +42,7 @@ const CalendarView: React.FC = () => {
     navigatePrevious,
     navigateNext,
     navigateToday,
+    navigateToDate,
     daysToDisplay
   } = useCalendarNavigation(contextSelectedDate);
   
@@ -37,12 +51,17 @@ const CalendarView: React.FC = () => {
   }, [selectedDate, setContextSelectedDate]);
   
   useEffect(() => {
-    window.___allTasks = tasks;
+    localStorage.setItem('quire-calendar-snap', snapMinutes.toString());
+  }, [snapMinutes]);
+  
+  useEffect(() => {
+    // Generated occurrences are included so they can be dropped on another day
+    window.___allTasks = getExpandedTasks();
     
     return () => {
       delete window.___allTasks;
     };
-  }, [tasks]);
+  });
   
   // Generate recurring task instances
   const getExpandedTasks = () => {
@@ -72,9 +91,8 @@ const CalendarView: React.FC = () => {
     return [...regularTasks, ...recurringInstances];
   };
   
-  const getUndatedTasks = () => {
-    let expandedTasks = getExpandedTasks();
-    let filteredTasks = [...expandedTasks.filter(task => !task.recurrenceParentId)]; // Show only original non-recurring tasks
+  const filterTasks = (tasksToFilter: Task[]) => {
+    let filteredTasks = [...tasksToFilter];
     
     activeFilters.forEach(filter => {
       switch (filter.type) {
@@ -84,62 +102,71 @@ const CalendarView: React.FC = () => {
         case FilterType.PROJECT:
           filteredTasks = filteredTasks.filter(task => task.projectId === filter.value);
           break;
+        case FilterType.LABEL:
+          filteredTasks = filteredTasks.filter(task => task.labelIds?.includes(filter.value));
+          break;
+        case FilterType.IS_BLOCKED:
+          filteredTasks = filteredTasks.filter(task => isTaskBlocked(task, tasksById) === filter.value);
+          break;
+        case FilterType.STATUS:
+          filteredTasks = filteredTasks.filter(task => getTaskStatus(task, projectStatuses).key === filter.value);
+          break;
       }
     });
     
-    return filteredTasks.filter(task => !task.dueDate);
+    return filteredTasks;
+  };
+  
+  const getUndatedTasks = () => {
+    // Show only original non-recurring tasks
+    return filterTasks(getExpandedTasks().filter(task => !task.recurrenceParentId))
+      .filter(task => !task.dueDate);
   };
 
-  const getTasksForDate = (date: Date) => {
-    let expandedTasks = getExpandedTasks();
-    let filteredTasks = [...expandedTasks];
+  // Indexed once per render; a year has too many days to filter the tasks for each
+  const getTasksByDay = () => {
+    const tasksByDay = new Map<string, Task[]>();
     
-    activeFilters.forEach(filter => {
-      switch (filter.type) {
-        case FilterType.PRIORITY:
-          filteredTasks = filteredTasks.filter(task => task.priority === filter.value);
-          break;
-        case FilterType.PROJECT:
-          filteredTasks = filteredTasks.filter(task => task.projectId === filter.value);
-          break;
+    for (const task of filterTasks(getExpandedTasks())) {
+      // Timed tasks are shown on the day they fall on in the viewer's zone
+      const schedule = getTaskScheduleInZone(task, timeZone);
+      if (!schedule) continue;
+      
+      const key = format(schedule.date, 'yyyy-MM-dd');
+      const dayTasks = tasksByDay.get(key);
+      if (dayTasks) {
+        dayTasks.push(task);
+      } else {
+        tasksByDay.set(key, [task]);
       }
-    });
+    }
     
-    return filteredTasks.filter(task => task.dueDate && isSameDay(task.dueDate, date));
+    return tasksByDay;
   };
+  
+  const tasksByDay = getTasksByDay();
+  
+  const getTasksForDate = (date: Date) => tasksByDay.get(format(date, 'yyyy-MM-dd')) || [];
 
   const handleTaskDrop = (task: Task, date: Date, timeSlot?: string) => {
     try {
-      // If this is a recurring instance, handle it differently
-      if (task.recurrenceParentId) {
-        const updatedTask = {
+      // The drop target is in the viewer's zone; the task keeps its own
+      const schedule = scheduleTaskInZone(task, date, timeSlot || undefined, timeZone);
+      
+      // A generated occurrence is moved on its own; the rest of the series stays put
+      if (task.recurrenceParentId && task.recurrenceDate) {
+        updateTask({
           ...task,
-          dueDate: date,
-          timeSlot: timeSlot || undefined,
-          recurrenceParentId: undefined // Detach from recurrence
-        };
-        
-        // Add the date to exceptions in the parent task
-        const originalTask = tasks.find(t => t.id === task.recurrenceParentId);
-        if (originalTask && originalTask.isRecurring && task.dueDate) {
-          updateTask({
-            ...originalTask,
-            recurrenceExceptions: [
-              ...(originalTask.recurrenceExceptions || []),
-              task.dueDate
-            ]
-          });
-        }
-        
-        // Add as a regular task
-        updateTask(updatedTask);
-        toast.success(`Recurring task "${task.title}" moved to ${format(date, 'MMM d, yyyy')}${timeSlot ? ` at ${timeSlot}` : ''} and detached from recurrence`);
+          dueDate: schedule.dueDate,
+          timeSlot: schedule.timeSlot
+        });
+        toast.success(`Occurrence of "${task.title}" moved to ${format(date, 'MMM d, yyyy')}${timeSlot ? ` at ${timeSlot}` : ''}`);
       } else {
         // Regular task update
         const updatedTask = {
           ...task,
-          dueDate: date,
-          timeSlot: timeSlot || undefined
+          dueDate: schedule.dueDate,
+          timeSlot: schedule.timeSlot
         };
         
         updateTask(updatedTask);
@@ -152,6 +179,50 @@ const CalendarView: React.FC = () => {
     }
   };
 
+  const handleTaskResize = (task: Task, estimatedTime: number) => {
+    // Occurrences have no estimate of their own; it is the series' estimate
+    if (task.recurrenceParentId && task.recurrenceDate) {
+      const template = findTaskById(task.recurrenceParentId, tasks);
+      if (template) {
+        updateTask({ ...template, estimatedTime });
+      }
+      return;
+    }
+    
+    updateTask({ ...task, estimatedTime });
+  };
+
+  // Time blocks are moved and resized in the viewer's zone and stay in their own
+  const rescheduleTimeBlock = (timeBlockId: string, getTimes: (shown: { date: Date; startTime: string; endTime: string }) => {
+    date: Date;
+    startTime: string;
+    endTime: string;
+  }) => {
+    const block = timeBlocks.find(tb => tb.id === timeBlockId);
+    if (!block) return;
+    
+    const { date, startTime, endTime } = getTimes(getTimeBlockInZone(block, timeZone));
+    updateTimeBlock({
+      ...block,
+      ...scheduleTimeBlockInZone(block, date, startTime, endTime, timeZone)
+    });
+  };
+
+  const handleTimeBlockMove = (timeBlockId: string, date: Date, startTime?: string) => {
+    rescheduleTimeBlock(timeBlockId, (shown) => {
+      const newStartTime = startTime ?? shown.startTime;
+      const duration = Math.max(getTimeSlotDuration(shown.startTime, shown.endTime), snapMinutes);
+      return { date, startTime: newStartTime, endTime: getEndTimeSlot(newStartTime, duration) };
+    });
+  };
+
+  const handleTimeBlockResize = (timeBlockId: string, durationMinutes: number) => {
+    rescheduleTimeBlock(timeBlockId, (shown) => ({
+      ...shown,
+      endTime: getEndTimeSlot(shown.startTime, durationMinutes)
+    }));
+  };
+
   const renderTaskList = () => {
     return <TaskList tasks={getUndatedTasks()} />;
   };
@@ -168,9 +239,12 @@ const CalendarView: React.FC = () => {
         navigatePrevious={navigatePrevious}
         navigateNext={navigateNext}
         navigateToday={navigateToday}
+        navigateToDate={navigateToDate}
         showTaskList={showTaskList}
         setShowTaskList={setShowTaskList}
         renderTaskList={renderTaskList}
+        snapMinutes={snapMinutes}
+        setSnapMinutes={setSnapMinutes}
       />
       
       <FilterPills />
@@ -178,12 +252,32 @@ const CalendarView: React.FC = () => {
       <div className="flex flex-col md:flex-row gap-4">
         {showTaskList && !isMobile && renderTaskList()}
         
-        <CalendarGrid
-          daysToDisplay={daysToDisplay}
-          getTasksForDate={getTasksForDate}
-          handleTaskDrop={handleTaskDrop}
-          view={view}
-        />
+        {view === 'month' ? (
+          <MonthGrid
+            selectedDate={selectedDate}
+            daysToDisplay={daysToDisplay}
+            getTasksForDate={getTasksForDate}
+            handleTaskDrop={handleTaskDrop}
+            onSelectDay={(date) => navigateToDate(date, 'day')}
+          />
+        ) : view === 'year' ? (
+          <YearGrid
+            selectedDate={selectedDate}
+            getTasksForDate={getTasksForDate}
+            onSelectDay={(date) => navigateToDate(date, 'day')}
+          />
+        ) : (
+          <CalendarGrid
+            daysToDisplay={daysToDisplay}
+            getTasksForDate={getTasksForDate}
+            handleTaskDrop={handleTaskDrop}
+            handleTaskResize={handleTaskResize}
+            handleTimeBlockMove={handleTimeBlockMove}
+            handleTimeBlockResize={handleTimeBlockResize}
+            snapMinutes={snapMinutes}
+            view={view}
+          />
+        )}
       </div>
     </div>
   );
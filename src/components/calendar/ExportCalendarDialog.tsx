@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskContext, useTimeTrackingContext } from '@/context/TaskContext';
+import { createICalendar } from '@/lib/ical-utils';
+import { toast } from 'sonner';
+
+const ALL_PROJECTS = 'all';
+
+interface ExportCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ExportCalendarDialog: React.FC<ExportCalendarDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { tasks, projects } = useTaskContext();
+  const { timeBlocks } = useTimeTrackingContext();
+  const [projectId, setProjectId] = useState(ALL_PROJECTS);
+  const [range, setRange] = useState<DateRange | undefined>();
+
+  const formatRange = () => {
+    if (!range?.from) return 'All dates';
+    if (!range.to) return `From ${format(range.from, 'MMM d, yyyy')}`;
+    return `${format(range.from, 'MMM d, yyyy')} - ${format(range.to, 'MMM d, yyyy')}`;
+  };
+
+  const handleExport = () => {
+    const project = projects.find(p => p.id === projectId);
+    const data = createICalendar(tasks, timeBlocks, projects, {
+      projectId: project?.id,
+      from: range?.from,
+      to: range?.to,
+      calendarName: project ? `Khonja - ${project.name}` : 'Khonja',
+    });
+
+    const blob = new Blob([data], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `khonja-${format(new Date(), 'yyyyMMdd')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast.success('Calendar exported');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Calendar</DialogTitle>
+          <DialogDescription>
+            Download scheduled tasks and time blocks as an .ics file for other calendar apps.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Dates</Label>
+            <div className="flex items-center gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="flex-1 justify-start text-left">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formatRange()}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    initialFocus
+                    className="p-3 pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {range?.from && (
+                <Button variant="ghost" size="sm" onClick={() => setRange(undefined)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportCalendarDialog;
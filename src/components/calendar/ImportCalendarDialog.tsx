@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext } from '@/context/TaskContext';
+import { flattenTasks } from '@/lib/dependency-utils';
+import {
+  ICalImportItem,
+  canImportAsTimeBlock,
+  parseICalendarItems,
+  toImportedTask,
+  toImportedTimeBlock,
+} from '@/lib/ical-utils';
+import { getCalendarDay } from '@/lib/timezone-utils';
+import { toast } from 'sonner';
+
+type ImportKind = 'task' | 'timeBlock';
+
+interface ImportRow {
+  item: ICalImportItem;
+  selected: boolean;
+  kind: ImportKind;
+}
+
+interface ImportCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImportCalendarDialog: React.FC<ImportCalendarDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { tasks, projects, addTask, updateTask } = useTaskContext();
+  const { timeBlocks, addTimeBlock, updateTimeBlock } = useTimeTrackingContext();
+  const { timeZone } = useViewModeContext();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [timeBlockTaskId, setTimeBlockTaskId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const allTasks = flattenTasks(tasks);
+  const projectTasks = allTasks.filter(task => task.projectId === projectId && !task.recurrenceParentId);
+
+  // Items exported from here carry the task or block id as their UID
+  const findExistingTask = (uid: string) => allTasks.find(task => task.icalUid === uid || task.id === uid);
+  const findExistingTimeBlock = (uid: string) => timeBlocks.find(block => block.icalUid === uid || block.id === uid);
+
+  useEffect(() => {
+    if (!open) {
+      setRows([]);
+      setTimeBlockTaskId('');
+    } else if (!projectId && projects.length > 0) {
+      setProjectId(projects[0].id);
+    }
+  }, [open, projectId, projects]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const items = parseICalendarItems(await file.text(), timeZone);
+      if (items.length === 0) {
+        toast.error('No events or to-dos found in the file');
+      }
+      setRows(items.map(item => ({
+        item,
+        selected: true,
+        kind: findExistingTimeBlock(item.uid) ? 'timeBlock' : 'task',
+      })));
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      toast.error('The file is not a valid iCalendar (.ics) file');
+      setRows([]);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = rows.filter(row => row.selected);
+  const needsTimeBlockTask = selectedRows.some(row => row.kind === 'timeBlock' && !findExistingTimeBlock(row.item.uid));
+  const canImport = selectedRows.length > 0 && !!projectId && (!needsTimeBlockTask || !!timeBlockTaskId);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    let created = 0;
+    let updated = 0;
+
+    try {
+      for (const { item, kind } of selectedRows) {
+        if (kind === 'timeBlock') {
+          const existingBlock = findExistingTimeBlock(item.uid);
+          if (existingBlock) {
+            await updateTimeBlock({ ...existingBlock, ...toImportedTimeBlock(item, existingBlock.taskId) });
+            updated++;
+          } else {
+            await addTimeBlock(toImportedTimeBlock(item, timeBlockTaskId));
+            created++;
+          }
+          continue;
+        }
+
+        // Re-imported tasks are refreshed where they are now
+        const existingTask = findExistingTask(item.uid);
+        if (existingTask) {
+          updateTask({ ...existingTask, ...toImportedTask(item, existingTask.projectId), icalUid: existingTask.icalUid });
+          updated++;
+        } else {
+          await addTask(toImportedTask(item, projectId));
+          created++;
+        }
+      }
+
+      toast.success(`Imported ${created} new and updated ${updated} existing item${created + updated !== 1 ? 's' : ''}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      toast.error('Failed to import some items');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatWhen = (item: ICalImportItem) => {
+    const day = format(getCalendarDay(item.dueDate, item.timeZone), 'MMM d, yyyy');
+    if (!item.timeSlot) return day;
+    const times = item.endTime ? `${item.timeSlot}-${item.endTime}` : item.timeSlot;
+    return `${day} ${times}${item.timeZone !== timeZone ? ` (${item.timeZone})` : ''}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Calendar</DialogTitle>
+          <DialogDescription>
+            Create tasks or time blocks from the events and to-dos of an .ics file. Items
+            imported before are updated instead of added again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Input type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+
+          {rows.length > 0 && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Add new tasks to</Label>
+                  <Select value={projectId} onValueChange={(value) => {
+                    setProjectId(value);
+                    setTimeBlockTaskId('');
+                  }}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map(project => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {needsTimeBlockTask && (
+                  <div className="space-y-2">
+                    <Label>Add new time blocks to</Label>
+                    <Select value={timeBlockTaskId} onValueChange={setTimeBlockTaskId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select task" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {projectTasks.map(task => (
+                          <SelectItem key={task.id} value={task.id}>
+                            {task.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <ScrollArea className="h-72 border rounded-md">
+                <div className="divide-y">
+                  {rows.map((row, index) => (
+                    <div key={`${row.item.uid}-${index}`} className="flex items-start gap-3 p-2">
+                      <Checkbox
+                        checked={row.selected}
+                        onCheckedChange={(checked) => updateRow(index, { selected: checked === true })}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1 text-sm font-medium">
+                          <span className="truncate">{row.item.title}</span>
+                          {row.item.recurrencePattern && <Repeat size={12} className="text-primary shrink-0" />}
+                          {(row.kind === 'task' ? findExistingTask(row.item.uid) : findExistingTimeBlock(row.item.uid)) && (
+                            <Badge variant="secondary" className="shrink-0">Update</Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{formatWhen(row.item)}</div>
+                        {row.item.warnings.map(warning => (
+                          <div key={warning} className="text-xs text-amber-600">{warning}</div>
+                        ))}
+                      </div>
+                      <Select
+                        value={row.kind}
+                        onValueChange={(value) => updateRow(index, { kind: value as ImportKind })}
+                      >
+                        <SelectTrigger className="w-[130px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="task">Task</SelectItem>
+                          <SelectItem value="timeBlock" disabled={!canImportAsTimeBlock(row.item)}>
+                            Time block
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || isImporting}>
+            {isImporting ? 'Importing...' : `Import ${selectedRows.length || ''}`.trim()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportCalendarDialog;
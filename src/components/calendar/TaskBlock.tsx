@@ -1,35 +1,71 @@
 
 import React, { useState } from 'react';
-import { Play, Clock, Repeat } from 'lucide-react';
+import { Play, Clock, Repeat, Globe } from 'lucide-react';
 import { Task } from '@/context/TaskTypes';
+import { useViewModeContext } from '@/context/TaskContext';
+import { formatTimeZone, getTaskScheduleInZone } from '@/lib/timezone-utils';
 import { formatMinutes } from '@/lib/time-utils';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import TaskDetailsContent from '@/components/tasks/TaskDetailsContent';
 import { getPriorityColor } from '@/lib/priority-utils';
+import TaskLabels from '@/components/tasks/TaskLabels';
+import { DEFAULT_SNAP_MINUTES, MINUTE_HEIGHT } from '@/lib/calendar-utils';
+import { useCalendarKeyboard } from './hooks/useCalendarKeyboard';
+import { useCalendarResize } from './hooks/useCalendarResize';
+
+// Length shown for tasks in the time grid without an estimate
+const DEFAULT_TASK_MINUTES = 30;
 
 interface TaskBlockProps {
   task: Task;
   onClick?: () => void;
   showTimeSlot?: boolean;
   activeTaskId?: string | null;
+  snapMinutes?: number;
+  maxMinutes?: number; // Longest estimate resizing allows, e.g. up to the end of the day
+  onMove?: (days: number, minutes: number) => void;
+  onResize?: (estimatedTime: number) => void;
 }
 
 const TaskBlock: React.FC<TaskBlockProps> = ({ 
   task, 
   onClick, 
   showTimeSlot = false,
-  activeTaskId 
+  activeTaskId,
+  snapMinutes = DEFAULT_SNAP_MINUTES,
+  maxMinutes = 24 * 60,
+  onMove,
+  onResize
 }) => {
   const [showTaskDetails, setShowTaskDetails] = useState(false);
+  const { timeZone } = useViewModeContext();
+  
+  // Shown in the viewer's zone; tasks due in another zone are marked
+  const viewerTimeSlot = getTaskScheduleInZone(task, timeZone)?.timeSlot;
+  const isInOtherTimeZone = !!task.timeZone && task.timeZone !== timeZone;
+  
+  const durationMinutes = task.estimatedTime || DEFAULT_TASK_MINUTES;
+  const { isResizing, displayMinutes, resizeHandleProps } = useCalendarResize(
+    durationMinutes,
+    snapMinutes,
+    maxMinutes,
+    (minutes) => onResize?.(minutes)
+  );
+  const keyboardProps = useCalendarKeyboard({
+    itemId: task.id,
+    durationMinutes,
+    snapMinutes,
+    onOpen: () => handleClick(),
+    onMove,
+    onResize,
+  });
 
   // Calculate task block height based on estimated time
   const getTaskHeight = () => {
-    if (!task.estimatedTime) return 24; // Default minimum height in pixels
+    if (!task.estimatedTime && !isResizing) return 24; // Default minimum height in pixels
     
-    // Each hour slot is 48px, so calculate proportional height
-    // 1 minute = 48px / 60 = 0.8px
-    const heightInPixels = Math.max((task.estimatedTime * 0.8), 24); // Minimum 24px height
-    return heightInPixels;
+    // Each hour slot is 48px, so the height is proportional to the minutes
+    return Math.max(displayMinutes * MINUTE_HEIGHT, 24); // Minimum 24px height
   };
 
   const getPriorityClass = (priority: string) => {
@@ -45,7 +81,7 @@ const TaskBlock: React.FC<TaskBlockProps> = ({
     }
   };
 
-  const handleClick = (e: React.MouseEvent) => {
+  const handleClick = () => {
     if (onClick) {
       onClick();
     }
@@ -55,10 +91,13 @@ const TaskBlock: React.FC<TaskBlockProps> = ({
   return (
     <>
       <div 
-        className={`calendar-task ${getPriorityClass(task.priority)} p-1 rounded-sm text-xs cursor-pointer`}
+        {...keyboardProps}
+        className={`calendar-task relative ${getPriorityClass(task.priority)} p-1 rounded-sm text-xs cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-primary`}
         style={{ height: `${getTaskHeight()}px`, overflow: 'hidden' }}
         onClick={handleClick}
-        draggable
+        aria-label={`${task.title}${viewerTimeSlot ? ` at ${viewerTimeSlot}` : ''}`}
+        aria-keyshortcuts={onMove ? 'ArrowUp ArrowDown ArrowLeft ArrowRight Shift+ArrowUp Shift+ArrowDown Enter' : 'Enter'}
+        draggable={!isResizing}
         onDragStart={(e) => {
           e.dataTransfer.setData('text/plain', task.id);
           e.dataTransfer.effectAllowed = 'move';
@@ -70,20 +109,33 @@ const TaskBlock: React.FC<TaskBlockProps> = ({
             {task.isRecurring || task.recurrenceParentId ? (
               <Repeat size={10} className="inline-block ml-1 text-primary" />
             ) : null}
+            {isInOtherTimeZone && (
+              <span title={`${task.timeSlot ? `${task.timeSlot} ` : ''}${formatTimeZone(task.timeZone!, task.dueDate)}`}>
+                <Globe size={10} className="inline-block ml-1 text-muted-foreground" />
+              </span>
+            )}
           </span>
-          {showTimeSlot && task.timeSlot && (
-            <span className="text-xs text-muted-foreground ml-1">{task.timeSlot}</span>
+          {showTimeSlot && viewerTimeSlot && (
+            <span className="text-xs text-muted-foreground ml-1">{viewerTimeSlot}</span>
           )}
           {activeTaskId === task.id && (
             <Play size={10} className="text-green-600 animate-pulse flex-shrink-0 ml-1" />
           )}
         </div>
-        {task.estimatedTime > 0 && (
+        {(task.estimatedTime > 0 || isResizing) && (
           <div className="text-xs text-gray-600 flex items-center gap-1">
             <Clock size={10} />
-            Est: {formatMinutes(task.estimatedTime)}
+            Est: {formatMinutes(displayMinutes)}
           </div>
         )}
+        <TaskLabels labelIds={task.labelIds} size="xs" className="mt-0.5" />
+        {onResize && (
+          <div
+            {...resizeHandleProps}
+            className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize touch-none hover:bg-black/10"
+            aria-hidden="true"
+          />
+        )}
       </div>
 
       <Sheet open={showTaskDetails} onOpenChange={setShowTaskDetails}>
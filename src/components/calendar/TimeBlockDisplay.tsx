@@ -1,22 +1,72 @@
 
 import React from 'react';
 import { TimeBlock, Task } from '@/context/TaskTypes';
+import {
+  DEFAULT_SNAP_MINUTES,
+  MINUTES_PER_DAY,
+  MINUTE_HEIGHT,
+  TIME_BLOCK_DRAG_TYPE,
+  getEndTimeSlot,
+  getTimeSlotDuration,
+} from '@/lib/calendar-utils';
+import { parseTimeToMinutes } from '@/lib/time-utils';
+import { useCalendarKeyboard } from './hooks/useCalendarKeyboard';
+import { useCalendarResize } from './hooks/useCalendarResize';
 
 interface TimeBlockDisplayProps {
   block: TimeBlock;
   task: Task | undefined;
+  snapMinutes?: number;
+  onMove?: (days: number, minutes: number) => void;
+  onResize?: (durationMinutes: number) => void; // Also sizes the block to its length
 }
 
-const TimeBlockDisplay: React.FC<TimeBlockDisplayProps> = ({ block, task }) => {
+const TimeBlockDisplay: React.FC<TimeBlockDisplayProps> = ({
+  block,
+  task,
+  snapMinutes = DEFAULT_SNAP_MINUTES,
+  onMove,
+  onResize
+}) => {
+  const durationMinutes = Math.max(getTimeSlotDuration(block.startTime, block.endTime), snapMinutes);
+  const { isResizing, displayMinutes, resizeHandleProps } = useCalendarResize(
+    durationMinutes,
+    snapMinutes,
+    MINUTES_PER_DAY - 1 - parseTimeToMinutes(block.startTime),
+    (minutes) => onResize?.(minutes)
+  );
+  const keyboardProps = useCalendarKeyboard({
+    itemId: block.id,
+    durationMinutes,
+    snapMinutes,
+    onMove,
+    onResize,
+  });
+
   if (!task) return null;
-  
+
   return (
-    <div 
+    <div
       key={block.id}
-      className="calendar-task bg-primary/10 border-l-2 border-primary text-xs p-1 rounded-sm"
+      {...(onMove ? keyboardProps : {})}
+      className="calendar-task relative bg-primary/10 border-l-2 border-primary text-xs p-1 rounded-sm overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+      style={onResize ? { height: `${Math.max(displayMinutes * MINUTE_HEIGHT, 24)}px` } : undefined}
+      aria-label={`Time block for ${task.title}, ${block.startTime} - ${block.endTime}`}
+      draggable={!!onMove && !isResizing}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(TIME_BLOCK_DRAG_TYPE, block.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
     >
-      <div className="font-medium">{task.title}</div>
-      <div>{block.startTime} - {block.endTime}</div>
+      <div className="font-medium truncate">{task.title}</div>
+      <div>{block.startTime} - {isResizing ? getEndTimeSlot(block.startTime, displayMinutes) : block.endTime}</div>
+      {onResize && (
+        <div
+          {...resizeHandleProps}
+          className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize touch-none hover:bg-primary/20"
+          aria-hidden="true"
+        />
+      )}
     </div>
   );
 };
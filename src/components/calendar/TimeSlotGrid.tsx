@@ -2,6 +2,10 @@
 import React from 'react';
 import { format } from 'date-fns';
 import { Task, TimeBlock, TimeTracking } from '@/context/TaskTypes';
+import { useViewModeContext } from '@/context/TaskContext';
+import { getTaskScheduleInZone } from '@/lib/timezone-utils';
+import { HOUR_HEIGHT, MINUTES_PER_DAY, MINUTE_HEIGHT } from '@/lib/calendar-utils';
+import { parseTimeToMinutes } from '@/lib/time-utils';
 import TaskBlock from './TaskBlock';
 import TimeBlockDisplay from './TimeBlockDisplay';
 import TimeTrackingDisplay from './TimeTrackingDisplay';
@@ -12,11 +16,16 @@ interface TimeSlotGridProps {
   timeBlocks: TimeBlock[];
   timeTrackings: TimeTracking[];
   draggedOverSlot: string | null;
+  snapMinutes: number;
   onHourSlotDragOver: (e: React.DragEvent, hour: number) => void;
   onHourSlotDragLeave: (e: React.DragEvent) => void;
   onHourSlotDrop: (e: React.DragEvent, hour: number) => void;
   getTaskById: (taskId: string) => Task | undefined;
   onTaskClick: (task: Task) => void;
+  onTaskMove: (task: Task, days: number, minutes: number) => void;
+  onTaskResize: (task: Task, estimatedTime: number) => void;
+  onTimeBlockMove: (block: TimeBlock, days: number, minutes: number) => void;
+  onTimeBlockResize: (block: TimeBlock, durationMinutes: number) => void;
   activeTimeTrackingTaskId?: string | null;
 }
 
@@ -26,24 +35,36 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
   timeBlocks,
   timeTrackings,
   draggedOverSlot,
+  snapMinutes,
   onHourSlotDragOver,
   onHourSlotDragLeave,
   onHourSlotDrop,
   getTaskById,
   onTaskClick,
+  onTaskMove,
+  onTaskResize,
+  onTimeBlockMove,
+  onTimeBlockResize,
   activeTimeTrackingTaskId
 }) => {
+  const { timeZone } = useViewModeContext();
+  const getViewerTimeSlot = (task: Task) => getTaskScheduleInZone(task, timeZone)?.timeSlot;
+
+  // Position within the hour row of a time slot
+  const getMinuteOffset = (timeSlot: string) => (parseInt(timeSlot.split(':')[1]) || 0) * MINUTE_HEIGHT;
+
   return (
     <div className="flex flex-col relative">
       {hours.map((hour) => {
-        const hourStr = hour.toString().padStart(2, '0') + ':00';
-        
-        const hourTasks = tasks.filter(task => 
-          task.timeSlot && task.timeSlot.startsWith(hour.toString().padStart(2, '0'))
+        const hourPrefix = hour.toString().padStart(2, '0');
+        const hourStr = hourPrefix + ':00';
+
+        const hourTasks = tasks.filter(task =>
+          getViewerTimeSlot(task)?.startsWith(hourPrefix)
         );
 
-        const hourBlocks = timeBlocks.filter(tb => 
-          tb.startTime && tb.startTime.startsWith(hourStr)
+        const hourBlocks = timeBlocks.filter(tb =>
+          tb.startTime && tb.startTime.startsWith(hourPrefix)
         );
 
         const trackings = timeTrackings.filter(trk => {
@@ -51,13 +72,13 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
           return startTime === hourStr;
         });
 
+        const isDraggedOver = !!draggedOverSlot && draggedOverSlot.startsWith(hourPrefix);
+
         return (
           <div
             key={hour}
-            className={`border-b relative transition-all ${
-              draggedOverSlot && draggedOverSlot.startsWith(hourStr) ? 'bg-primary/15' : ''
-            }`}
-            style={{ height: '48px', minHeight: '48px' }} 
+            className={`border-b relative transition-all ${isDraggedOver ? 'bg-primary/15' : ''}`}
+            style={{ height: `${HOUR_HEIGHT}px`, minHeight: `${HOUR_HEIGHT}px` }}
             onDragOver={e => onHourSlotDragOver(e, hour)}
             onDragLeave={onHourSlotDragLeave}
             onDrop={e => onHourSlotDrop(e, hour)}
@@ -65,33 +86,51 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
             <div className="absolute left-0 top-1/2 -translate-y-1/2 text-xs text-muted-foreground w-8 pl-1 select-none">
               {hourStr}
             </div>
-            {draggedOverSlot && draggedOverSlot.startsWith(hourStr) && (
-              <div className="absolute inset-0 bg-primary/15 pointer-events-none z-10" />
+            {isDraggedOver && (
+              <div
+                className="absolute left-9 right-2 border-t-2 border-primary pointer-events-none z-20"
+                style={{ top: getMinuteOffset(draggedOverSlot!) }}
+              >
+                <span className="absolute -top-4 right-0 text-[10px] text-primary bg-background px-0.5">
+                  {draggedOverSlot}
+                </span>
+              </div>
             )}
             <div className="ml-9 pr-2 h-full relative">
-              {hourTasks.map((task) => (
-                <div key={task.id} className="absolute left-0 right-0" style={{
-                  // Position task based on its minute within the hour
-                  top: task.timeSlot ? 
-                    (parseInt(task.timeSlot.split(':')[1]) / 60) * 48 : 0
-                }}>
-                  <TaskBlock
-                    task={task}
-                    onClick={() => onTaskClick(task)}
-                    showTimeSlot
-                    activeTaskId={activeTimeTrackingTaskId}
+              {hourTasks.map((task) => {
+                const viewerTimeSlot = getViewerTimeSlot(task)!;
+
+                return (
+                  <div key={task.id} className="absolute left-0 right-0" style={{
+                    // Position task based on its minute within the hour
+                    top: getMinuteOffset(viewerTimeSlot)
+                  }}>
+                    <TaskBlock
+                      task={task}
+                      onClick={() => onTaskClick(task)}
+                      showTimeSlot
+                      activeTaskId={activeTimeTrackingTaskId}
+                      snapMinutes={snapMinutes}
+                      maxMinutes={MINUTES_PER_DAY - parseTimeToMinutes(viewerTimeSlot)}
+                      onMove={(days, minutes) => onTaskMove(task, days, minutes)}
+                      onResize={(minutes) => onTaskResize(task, minutes)}
+                    />
+                  </div>
+                );
+              })}
+
+              {hourBlocks.map((block) => (
+                <div key={block.id} className="absolute left-0 right-0" style={{ top: getMinuteOffset(block.startTime) }}>
+                  <TimeBlockDisplay
+                    block={block}
+                    task={getTaskById(block.taskId)}
+                    snapMinutes={snapMinutes}
+                    onMove={(days, minutes) => onTimeBlockMove(block, days, minutes)}
+                    onResize={(minutes) => onTimeBlockResize(block, minutes)}
                   />
                 </div>
               ))}
-              
-              {hourBlocks.map((block) => (
-                <TimeBlockDisplay
-                  key={block.id}
-                  block={block}
-                  task={getTaskById(block.taskId)}
-                />
-              ))}
-              
+
               {trackings.map((tracking) => (
                 <TimeTrackingDisplay
                   key={tracking.id}
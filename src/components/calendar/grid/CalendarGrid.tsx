@@ -3,18 +3,27 @@ import React from 'react';
 import { format, isSameDay } from 'date-fns';
 import { Task } from '@/context/TaskTypes';
 import CalendarDay from '../CalendarDay';
+import { CalendarViewType } from '../hooks/useCalendarNavigation';
 
 interface CalendarGridProps {
   daysToDisplay: Date[];
   getTasksForDate: (date: Date) => Task[];
   handleTaskDrop: (task: Task, date: Date, timeSlot?: string) => void;
-  view: 'day' | 'week' | 'month';
+  handleTaskResize: (task: Task, estimatedTime: number) => void;
+  handleTimeBlockMove: (timeBlockId: string, date: Date, startTime?: string) => void;
+  handleTimeBlockResize: (timeBlockId: string, durationMinutes: number) => void;
+  snapMinutes: number;
+  view: CalendarViewType;
 }
 
 const CalendarGrid: React.FC<CalendarGridProps> = ({ 
   daysToDisplay, 
   getTasksForDate, 
   handleTaskDrop,
+  handleTaskResize,
+  handleTimeBlockMove,
+  handleTimeBlockResize,
+  snapMinutes,
   view
 }) => {
   return (
@@ -37,6 +46,11 @@ const CalendarGrid: React.FC<CalendarGridProps> = ({
             date={day} 
             tasks={getTasksForDate(day)} 
             onTaskDrop={(task, timeSlot) => handleTaskDrop(task, day, timeSlot)}
+            onTaskMove={handleTaskDrop}
+            onTaskResize={handleTaskResize}
+            onTimeBlockMove={handleTimeBlockMove}
+            onTimeBlockResize={handleTimeBlockResize}
+            snapMinutes={snapMinutes}
             oneHourSlots={true}
           />
         ))}
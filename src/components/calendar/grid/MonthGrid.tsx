@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { format, getISOWeek, isSameDay, isSameMonth, startOfWeek, addDays } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { Task } from '@/context/TaskTypes';
+import { useViewModeContext } from '@/context/TaskContext';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Sheet, SheetContent } from '@/components/ui/sheet';
+import TaskDetailsContent from '@/components/tasks/TaskDetailsContent';
+import { getPriorityColor } from '@/lib/priority-utils';
+import { getTaskScheduleInZone } from '@/lib/timezone-utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { WEEK_STARTS_ON } from '../hooks/useCalendarNavigation';
+
+interface MonthGridProps {
+  selectedDate: Date;
+  daysToDisplay: Date[];
+  getTasksForDate: (date: Date) => Task[];
+  handleTaskDrop: (task: Task, date: Date, timeSlot?: string) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+interface MonthTaskItemProps {
+  task: Task;
+  timeSlot?: string;
+}
+
+const MonthTaskItem: React.FC<MonthTaskItemProps> = ({ task, timeSlot }) => {
+  const [showTaskDetails, setShowTaskDetails] = useState(false);
+  const colors = getPriorityColor(task.priority);
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`w-full flex items-center gap-1 ${colors.bg} border-l-2 ${colors.border} px-1 rounded-sm text-[10px] md:text-xs text-left truncate cursor-pointer ${task.completed ? 'line-through opacity-60' : ''}`}
+        onClick={() => setShowTaskDetails(true)}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', task.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+      >
+        {timeSlot && <span className="text-muted-foreground shrink-0">{timeSlot}</span>}
+        <span className="truncate">{task.title}</span>
+        {(task.isRecurring || task.recurrenceParentId) && <Repeat size={10} className="shrink-0 text-primary" />}
+      </button>
+
+      <Sheet open={showTaskDetails} onOpenChange={setShowTaskDetails}>
+        <SheetContent>
+          <TaskDetailsContent task={task} />
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+interface MonthDayCellProps {
+  day: Date;
+  selectedDate: Date;
+  tasks: Task[];
+  maxVisibleTasks: number;
+  handleTaskDrop: (task: Task, date: Date, timeSlot?: string) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+const MonthDayCell: React.FC<MonthDayCellProps> = ({
+  day,
+  selectedDate,
+  tasks,
+  maxVisibleTasks,
+  handleTaskDrop,
+  onSelectDay
+}) => {
+  const { timeZone } = useViewModeContext();
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const getViewerTimeSlot = (task: Task) => getTaskScheduleInZone(task, timeZone)?.timeSlot;
+
+  // All-day tasks first, then by time
+  const sortedTasks = [...tasks].sort((a, b) =>
+    (getViewerTimeSlot(a) || '').localeCompare(getViewerTimeSlot(b) || '')
+  );
+  const visibleTasks = sortedTasks.slice(0, maxVisibleTasks);
+  const hiddenCount = sortedTasks.length - visibleTasks.length;
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    try {
+      const taskId = e.dataTransfer.getData('text/plain');
+      if (!taskId) return;
+
+      const allTasks = window.___allTasks || [];
+      const droppedTask = allTasks.find((t: Task) => t.id === taskId);
+      // Moving to another day keeps the time
+      if (droppedTask) {
+        handleTaskDrop(droppedTask, day, getViewerTimeSlot(droppedTask));
+      }
+    } catch (error) {
+      console.error('Error handling month day drop:', error);
+    }
+  };
+
+  return (
+    <div
+      className={`border-t border-l min-h-[72px] md:min-h-[110px] p-0.5 md:p-1 flex flex-col gap-0.5 min-w-0 ${
+        isDragOver ? 'bg-primary/10' : isSameMonth(day, selectedDate) ? 'bg-background' : 'bg-muted/30'
+      } ${isSameMonth(day, selectedDate) ? '' : 'text-muted-foreground'}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <button
+        type="button"
+        className={`self-end text-xs md:text-sm w-6 h-6 rounded-full flex items-center justify-center hover:bg-muted ${
+          isSameDay(day, new Date()) ? 'bg-primary text-primary-foreground hover:bg-primary/90' : ''
+        }`}
+        onClick={() => onSelectDay(day)}
+        aria-label={format(day, 'EEEE, MMMM d, yyyy')}
+      >
+        {format(day, 'd')}
+      </button>
+
+      {visibleTasks.map(task => (
+        <MonthTaskItem key={task.id} task={task} timeSlot={getViewerTimeSlot(task)} />
+      ))}
+
+      {hiddenCount > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button type="button" className="text-[10px] md:text-xs text-muted-foreground hover:text-foreground text-left px-1">
+              +{hiddenCount} more
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-2 space-y-1" align="start">
+            <div className="text-sm font-medium mb-1">{format(day, 'EEEE, MMM d')}</div>
+            {sortedTasks.map(task => (
+              <MonthTaskItem key={task.id} task={task} timeSlot={getViewerTimeSlot(task)} />
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+const MonthGrid: React.FC<MonthGridProps> = ({
+  selectedDate,
+  daysToDisplay,
+  getTasksForDate,
+  handleTaskDrop,
+  onSelectDay
+}) => {
+  const isMobile = useIsMobile();
+
+  const weeks: Date[][] = [];
+  for (let i = 0; i < daysToDisplay.length; i += 7) {
+    weeks.push(daysToDisplay.slice(i, i + 7));
+  }
+
+  const weekStart = startOfWeek(selectedDate, { weekStartsOn: WEEK_STARTS_ON });
+  const weekdays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="flex-1 border rounded-md overflow-hidden">
+      <div className="grid" style={{ gridTemplateColumns: 'auto repeat(7, minmax(0, 1fr))' }}>
+        <div className="px-1 py-1 md:py-2 text-[10px] md:text-xs text-muted-foreground text-center self-end" title="ISO week">
+          Wk
+        </div>
+        {weekdays.map(day => (
+          <div key={day.toString()} className="text-center p-1 md:p-2 text-xs md:text-sm font-medium">
+            {format(day, isMobile ? 'EEEEE' : 'EEE')}
+          </div>
+        ))}
+
+        {weeks.map(week => (
+          <React.Fragment key={week[0].toString()}>
+            <div className="border-t px-1 pt-1.5 text-[10px] md:text-xs text-muted-foreground text-center">
+              {getISOWeek(week[0])}
+            </div>
+            {week.map(day => (
+              <MonthDayCell
+                key={day.toString()}
+                day={day}
+                selectedDate={selectedDate}
+                tasks={getTasksForDate(day)}
+                maxVisibleTasks={isMobile ? 2 : 3}
+                handleTaskDrop={handleTaskDrop}
+                onSelectDay={onSelectDay}
+              />
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MonthGrid;
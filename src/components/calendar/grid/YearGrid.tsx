@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  addDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfYear,
+  format,
+  getDay,
+  isSameDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear
+} from 'date-fns';
+import { Task } from '@/context/TaskTypes';
+import { WEEK_STARTS_ON } from '../hooks/useCalendarNavigation';
+
+interface YearGridProps {
+  selectedDate: Date;
+  getTasksForDate: (date: Date) => Task[];
+  onSelectDay: (date: Date) => void;
+}
+
+// Shade a day by how many tasks it has
+const getDensityClass = (count: number): string => {
+  if (count === 0) return '';
+  if (count === 1) return 'bg-primary/20';
+  if (count <= 3) return 'bg-primary/50';
+  return 'bg-primary/80 text-primary-foreground';
+};
+
+interface MiniMonthProps {
+  month: Date;
+  getTasksForDate: (date: Date) => Task[];
+  onSelectDay: (date: Date) => void;
+}
+
+const MiniMonth: React.FC<MiniMonthProps> = ({ month, getTasksForDate, onSelectDay }) => {
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+  const leadingBlanks = (getDay(days[0]) - WEEK_STARTS_ON + 7) % 7;
+
+  const weekStart = startOfWeek(month, { weekStartsOn: WEEK_STARTS_ON });
+  const weekdays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="border rounded-md p-2">
+      <button
+        type="button"
+        className="text-sm font-medium mb-1 hover:text-primary"
+        onClick={() => onSelectDay(startOfMonth(month))}
+      >
+        {format(month, 'MMMM')}
+      </button>
+      <div className="grid grid-cols-7 gap-0.5 text-center">
+        {weekdays.map(day => (
+          <div key={day.toString()} className="text-[10px] text-muted-foreground">
+            {format(day, 'EEEEE')}
+          </div>
+        ))}
+
+        {Array.from({ length: leadingBlanks }, (_, i) => (
+          <div key={`blank-${i}`} />
+        ))}
+
+        {days.map(day => {
+          const count = getTasksForDate(day).length;
+
+          return (
+            <button
+              key={day.toString()}
+              type="button"
+              className={`text-[10px] md:text-xs aspect-square rounded-sm flex items-center justify-center hover:ring-1 hover:ring-primary ${getDensityClass(count)} ${
+                isSameDay(day, new Date()) ? 'ring-1 ring-primary font-semibold' : ''
+              }`}
+              title={`${format(day, 'EEEE, MMM d')}: ${count} ${count === 1 ? 'task' : 'tasks'}`}
+              onClick={() => onSelectDay(day)}
+            >
+              {format(day, 'd')}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const YearGrid: React.FC<YearGridProps> = ({ selectedDate, getTasksForDate, onSelectDay }) => {
+  const months = eachMonthOfInterval({ start: startOfYear(selectedDate), end: endOfYear(selectedDate) });
+
+  return (
+    <div className="flex-1 grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 content-start">
+      {months.map(month => (
+        <MiniMonth
+          key={month.toString()}
+          month={month}
+          getTasksForDate={getTasksForDate}
+          onSelectDay={onSelectDay}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default YearGrid;
@@ -1,26 +1,42 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
-import { ChevronLeft, ChevronRight, List, Calendar as CalendarIcon } from 'lucide-react';
+import { ChevronLeft, ChevronRight, List, Calendar as CalendarIcon, Download, Upload, Magnet, Wand2 } from 'lucide-react';
 import FilterButton from '@/components/filters/FilterButton';
 import { Drawer, DrawerContent, DrawerTrigger } from '@/components/ui/drawer';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { SNAP_INTERVALS } from '@/lib/calendar-utils';
+import AutoPlanDialog from '../AutoPlanDialog';
+import ExportCalendarDialog from '../ExportCalendarDialog';
+import ImportCalendarDialog from '../ImportCalendarDialog';
+import { CalendarViewType } from '../hooks/useCalendarNavigation';
+
+const VIEW_OPTIONS: { value: CalendarViewType; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+];
 
 interface CalendarViewHeaderProps {
   selectedDate: Date;
-  view: 'day' | 'week' | 'month';
+  view: CalendarViewType;
   daysToDisplay: Date[];
   showMiniCalendar: boolean;
   setShowMiniCalendar: (show: boolean) => void;
-  setView: (view: 'day' | 'week' | 'month') => void;
+  setView: (view: CalendarViewType) => void;
   navigatePrevious: () => void;
   navigateNext: () => void;
   navigateToday: () => void;
+  navigateToDate: (date: Date) => void;
   showTaskList: boolean;
   setShowTaskList: (show: boolean) => void;
   renderTaskList: () => React.ReactNode;
+  snapMinutes: number;
+  setSnapMinutes: (minutes: number) => void;
 }
 
 const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
@@ -33,11 +49,30 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
   navigatePrevious,
   navigateNext,
   navigateToday,
+  navigateToDate,
   showTaskList,
   setShowTaskList,
-  renderTaskList
+  renderTaskList,
+  snapMinutes,
+  setSnapMinutes
 }) => {
   const isMobile = useIsMobile();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  const getTitle = () => {
+    switch (view) {
+      case 'day':
+        return format(selectedDate, 'MMM d, yyyy');
+      case 'month':
+        return format(selectedDate, 'MMMM yyyy');
+      case 'year':
+        return format(selectedDate, 'yyyy');
+      default:
+        return `${format(daysToDisplay[0], 'MMM d')} - ${format(daysToDisplay[daysToDisplay.length - 1], 'MMM d')}`;
+    }
+  };
 
   return (
     <div className="flex justify-between items-center flex-wrap gap-2">
@@ -68,30 +103,17 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
         )}
         
         <div className="flex border rounded-md overflow-hidden">
-          <Button 
-            variant={view === 'day' ? 'default' : 'ghost'} 
-            size={isMobile ? "sm" : "sm"}
-            onClick={() => setView('day')}
-            className={`rounded-none px-2 md:px-4 ${isMobile ? "text-xs" : ""}`}
-          >
-            Day
-          </Button>
-          <Button 
-            variant={view === 'week' ? 'default' : 'ghost'} 
-            size={isMobile ? "sm" : "sm"}
-            onClick={() => setView('week')}
-            className={`rounded-none px-2 md:px-4 ${isMobile ? "text-xs" : ""}`}
-          >
-            Week
-          </Button>
-          <Button 
-            variant={view === 'month' ? 'default' : 'ghost'} 
-            size={isMobile ? "sm" : "sm"}
-            onClick={() => setView('month')}
-            className={`rounded-none px-2 md:px-4 ${isMobile ? "text-xs" : ""}`}
-          >
-            Month
-          </Button>
+          {VIEW_OPTIONS.map(option => (
+            <Button 
+              key={option.value}
+              variant={view === option.value ? 'default' : 'ghost'} 
+              size="sm"
+              onClick={() => setView(option.value)}
+              className={`rounded-none px-2 md:px-4 ${isMobile ? "text-xs" : ""}`}
+            >
+              {option.label}
+            </Button>
+          ))}
         </div>
         <div className="flex items-center gap-1">
           <Button variant="outline" size="icon" className="h-8 w-8" onClick={navigatePrevious}>
@@ -104,10 +126,7 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
             Today
           </Button>
           <span className="ml-1 md:ml-2 text-sm md:text-lg font-medium hidden xs:inline">
-            {view === 'day' 
-              ? format(selectedDate, 'MMM d, yyyy') 
-              : `${format(daysToDisplay[0], 'MMM d')} - ${format(daysToDisplay[daysToDisplay.length - 1], 'MMM d')}`
-            }
+            {getTitle()}
           </span>
         </div>
         
@@ -129,7 +148,7 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
                   selected={selectedDate}
                   onSelect={(date) => {
                     if (date) {
-                      navigateToday();
+                      navigateToDate(date);
                       setShowMiniCalendar(false);
                     }
                   }}
@@ -157,7 +176,7 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
                   selected={selectedDate}
                   onSelect={(date) => {
                     if (date) {
-                      navigateToday();
+                      navigateToDate(date);
                     }
                   }}
                   className="rounded-md border p-2"
@@ -167,8 +186,54 @@ const CalendarViewHeader: React.FC<CalendarViewHeaderProps> = ({
           </Drawer>
         )}
         
+        <Select value={snapMinutes.toString()} onValueChange={(value) => setSnapMinutes(Number(value))}>
+          <SelectTrigger className={`w-[100px] ${isMobile ? "h-8 text-xs" : ""}`} aria-label="Snap to grid">
+            <Magnet className="h-4 w-4 mr-1 shrink-0" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SNAP_INTERVALS.map(minutes => (
+              <SelectItem key={minutes} value={minutes.toString()}>
+                {minutes} min
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <Button
+          variant="outline"
+          size="icon"
+          className={isMobile ? "h-8 w-8" : ""}
+          onClick={() => setIsPlanning(true)}
+          aria-label="Auto-plan"
+        >
+          <Wand2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className={isMobile ? "h-8 w-8" : ""}
+          onClick={() => setIsImporting(true)}
+          aria-label="Import calendar"
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className={isMobile ? "h-8 w-8" : ""}
+          onClick={() => setIsExporting(true)}
+          aria-label="Export calendar"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        
         <FilterButton />
       </div>
+      
+      <ExportCalendarDialog open={isExporting} onOpenChange={setIsExporting} />
+      <ImportCalendarDialog open={isImporting} onOpenChange={setIsImporting} />
+      <AutoPlanDialog open={isPlanning} onOpenChange={setIsPlanning} />
     </div>
   );
 };
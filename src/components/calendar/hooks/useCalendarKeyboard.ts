@@ -0,0 +1,57 @@
+/**
+ * Keyboard equivalents of dragging and resizing a focused task or time block:
+ * the arrow keys move it by one grid interval or one day, Shift+Up/Down make it
+ * shorter or longer and Enter opens it.
+ */
+export const useCalendarKeyboard = ({
+  itemId,
+  durationMinutes,
+  snapMinutes,
+  onOpen,
+  onMove,
+  onResize,
+}: {
+  itemId: string;
+  durationMinutes: number;
+  snapMinutes: number;
+  onOpen?: () => void;
+  onMove?: (days: number, minutes: number) => void;
+  onResize?: (durationMinutes: number) => void;
+}) => {
+  // The item is rendered again in its new place, so focus follows it there
+  const refocus = () => {
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-calendar-item="${itemId}"]`)?.focus();
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.target !== e.currentTarget) return;
+
+    if ((e.key === 'Enter' || e.key === ' ') && onOpen) {
+      e.preventDefault();
+      onOpen();
+      return;
+    }
+
+    const step = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+    const days = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+
+    if (step && e.shiftKey && onResize) {
+      e.preventDefault();
+      const minutes = Math.max(durationMinutes + step * snapMinutes, snapMinutes);
+      if (minutes !== durationMinutes) onResize(minutes);
+      refocus();
+    } else if ((step || days) && !e.shiftKey && onMove) {
+      e.preventDefault();
+      onMove(days, step * snapMinutes);
+      refocus();
+    }
+  };
+
+  return {
+    tabIndex: 0,
+    'data-calendar-item': itemId,
+    onKeyDown: handleKeyDown,
+  };
+};
@@ -1,63 +1,87 @@
 
 import { useState } from 'react';
-import { addDays, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns';
-import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  addDays,
+  addMonths,
+  addYears,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  eachDayOfInterval
+} from 'date-fns';
 
-type CalendarViewType = 'day' | 'week' | 'month';
+export type CalendarViewType = 'day' | 'week' | 'month' | 'year';
+
+// Weeks start on Monday, as ISO week numbers do
+export const WEEK_STARTS_ON = 1;
 
 export const useCalendarNavigation = (initialDate: Date) => {
   const [selectedDate, setSelectedDate] = useState<Date>(initialDate);
   const [view, setView] = useState<CalendarViewType>('week');
-  const isMobile = useIsMobile();
-  
+
   const getDaysToDisplay = () => {
     if (view === 'day') {
       return [selectedDate];
     } else if (view === 'week') {
       return eachDayOfInterval({
-        start: startOfWeek(selectedDate, { weekStartsOn: 1 }),
-        end: endOfWeek(selectedDate, { weekStartsOn: 1 })
+        start: startOfWeek(selectedDate, { weekStartsOn: WEEK_STARTS_ON }),
+        end: endOfWeek(selectedDate, { weekStartsOn: WEEK_STARTS_ON })
+      });
+    } else if (view === 'month') {
+      // Whole weeks, so the month is led and trailed by days of its neighbours
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(selectedDate), { weekStartsOn: WEEK_STARTS_ON }),
+        end: endOfWeek(endOfMonth(selectedDate), { weekStartsOn: WEEK_STARTS_ON })
       });
     } else {
-      const startDay = startOfWeek(selectedDate, { weekStartsOn: 1 });
-      // For mobile, show just 7 days in month view
-      return Array.from({ length: isMobile ? 7 : 28 }, (_, i) => addDays(startDay, i));
+      return eachDayOfInterval({
+        start: startOfYear(selectedDate),
+        end: endOfYear(selectedDate)
+      });
     }
   };
 
-  const navigatePrevious = () => {
+  const navigateBy = (amount: number) => {
     if (view === 'day') {
-      setSelectedDate(addDays(selectedDate, -1));
+      setSelectedDate(addDays(selectedDate, amount));
     } else if (view === 'week') {
-      setSelectedDate(addDays(selectedDate, -7));
+      setSelectedDate(addDays(selectedDate, amount * 7));
+    } else if (view === 'month') {
+      setSelectedDate(addMonths(selectedDate, amount));
     } else {
-      setSelectedDate(addDays(selectedDate, isMobile ? -7 : -28));
+      setSelectedDate(addYears(selectedDate, amount));
     }
   };
 
-  const navigateNext = () => {
-    if (view === 'day') {
-      setSelectedDate(addDays(selectedDate, 1));
-    } else if (view === 'week') {
-      setSelectedDate(addDays(selectedDate, 7));
-    } else {
-      setSelectedDate(addDays(selectedDate, isMobile ? 7 : 28));
-    }
-  };
+  const navigatePrevious = () => navigateBy(-1);
+
+  const navigateNext = () => navigateBy(1);
 
   const navigateToday = () => {
     setSelectedDate(new Date());
   };
-  
+
+  // Open a day, e.g. from the month grid or the year overview
+  const navigateToDate = (date: Date, newView?: CalendarViewType) => {
+    setSelectedDate(date);
+    if (newView) {
+      setView(newView);
+    }
+  };
+
   return {
     selectedDate,
     setSelectedDate,
     view,
     setView,
     getDaysToDisplay,
-    navigatePrevious, 
+    navigatePrevious,
     navigateNext,
     navigateToday,
+    navigateToDate,
     daysToDisplay: getDaysToDisplay()
   };
 };
@@ -0,0 +1,64 @@
+import { useRef, useState } from 'react';
+import { MINUTE_HEIGHT, snapToGrid } from '@/lib/calendar-utils';
+
+/**
+ * Drag the bottom edge of a task or time block in the time grid to change its
+ * length. The length is previewed while dragging and committed on release;
+ * the item should not be draggable itself while isResizing.
+ */
+export const useCalendarResize = (
+  durationMinutes: number,
+  snapMinutes: number,
+  maxMinutes: number,
+  onResize: (durationMinutes: number) => void
+) => {
+  const [previewMinutes, setPreviewMinutes] = useState<number | null>(null);
+  const startRef = useRef<{ y: number; minutes: number } | null>(null);
+
+  const getMinutes = (clientY: number) => {
+    const start = startRef.current!;
+    const minutes = snapToGrid(start.minutes + (clientY - start.y) / MINUTE_HEIGHT, snapMinutes);
+    return Math.min(Math.max(minutes, snapMinutes), maxMinutes);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = { y: e.clientY, minutes: durationMinutes };
+    setPreviewMinutes(durationMinutes);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!startRef.current) return;
+    setPreviewMinutes(getMinutes(e.clientY));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    if (!startRef.current) return;
+    const minutes = getMinutes(e.clientY);
+    startRef.current = null;
+    setPreviewMinutes(null);
+    if (minutes !== durationMinutes) {
+      onResize(minutes);
+    }
+  };
+
+  const handlePointerCancel = () => {
+    startRef.current = null;
+    setPreviewMinutes(null);
+  };
+
+  return {
+    isResizing: previewMinutes !== null,
+    displayMinutes: previewMinutes ?? durationMinutes,
+    resizeHandleProps: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerCancel,
+      // Releasing the handle must not open the item
+      onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    },
+  };
+};
@@ -7,10 +7,17 @@ import {
   DropdownMenuLabel
 } from '@/components/ui/dropdown-menu';
 import { useFilterContext, FilterType, FilterOperator, DateGroup } from '@/context/FilterContext';
-import { Priority } from '@/context/TaskContext';
+import { Priority, Label, useTaskContext } from '@/context/TaskContext';
+import { defaultStatuses } from '@/lib/status-utils';
 
 export const FilterOptions = () => {
   const { addFilter } = useFilterContext();
+  const { labels, projectStatuses } = useTaskContext();
+  
+  // Statuses with the same key are one filter across projects
+  const statusOptions = [...defaultStatuses, ...projectStatuses].filter(
+    (status, index, all) => all.findIndex(other => other.key === status.key) === index
+  );
 
   const handleAddPriorityFilter = (priority: Priority) => {
     addFilter({
@@ -21,12 +28,30 @@ export const FilterOptions = () => {
     });
   };
 
-  const handleAddStatusFilter = (status: string) => {
+  const handleAddStatusFilter = (status: { key: string; name: string }) => {
     addFilter({
       type: FilterType.STATUS,
-      value: status,
+      value: status.key,
+      operator: FilterOperator.EQUALS,
+      label: `Status: ${status.name}`
+    });
+  };
+
+  const handleAddBlockedFilter = (isBlocked: boolean) => {
+    addFilter({
+      type: FilterType.IS_BLOCKED,
+      value: isBlocked,
+      operator: FilterOperator.EQUALS,
+      label: isBlocked ? 'Blocked' : 'Not blocked'
+    });
+  };
+
+  const handleAddLabelFilter = (label: Label) => {
+    addFilter({
+      type: FilterType.LABEL,
+      value: label.id,
       operator: FilterOperator.EQUALS,
-      label: `Status: ${status}`
+      label: `Label: ${label.name}`
     });
   };
 
@@ -92,16 +117,43 @@ export const FilterOptions = () => {
       
       <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
       <DropdownMenuGroup>
-        <DropdownMenuItem onClick={() => handleAddStatusFilter('todo')}>
-          To Do
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => handleAddStatusFilter('in-progress')}>
-          In Progress
+        {statusOptions.map(status => (
+          <DropdownMenuItem key={status.key} onClick={() => handleAddStatusFilter(status)}>
+            {status.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuGroup>
+      
+      <DropdownMenuSeparator />
+      
+      <DropdownMenuLabel>Filter by Dependencies</DropdownMenuLabel>
+      <DropdownMenuGroup>
+        <DropdownMenuItem onClick={() => handleAddBlockedFilter(true)}>
+          Blocked
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => handleAddStatusFilter('done')}>
-          Done
+        <DropdownMenuItem onClick={() => handleAddBlockedFilter(false)}>
+          Not Blocked
         </DropdownMenuItem>
       </DropdownMenuGroup>
+      
+      {labels.length > 0 && (
+        <>
+          <DropdownMenuSeparator />
+          
+          <DropdownMenuLabel>Filter by Label</DropdownMenuLabel>
+          <DropdownMenuGroup>
+            {labels.map(label => (
+              <DropdownMenuItem key={label.id} onClick={() => handleAddLabelFilter(label)}>
+                <span
+                  className="mr-2 h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: label.color }}
+                />
+                {label.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuGroup>
+        </>
+      )}
     </>
   );
 };
@@ -2,8 +2,10 @@ import React from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import ProjectView from '@/components/projects/ProjectView';
 import CalendarView from '@/components/calendar/CalendarView';
+import BoardView from '@/components/board/BoardView';
+import ReportsView from '@/components/reports/ReportsView';
 import { useTaskContext, useViewModeContext } from '@/context/TaskContext';
-import { Plus, Calendar, CheckSquare } from 'lucide-react';
+import { Plus, Calendar, CheckSquare, Columns3, LogOut, User, Globe, Rss, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
@@ -16,15 +18,32 @@ import { OfflineStatusBar } from '@/components/pwa/OfflineStatusBar';
 import { InstallPrompt } from '@/components/pwa/InstallPrompt';
 import { NotificationSettings } from '@/components/pwa/NotificationSettings';
 import { usePWAContext } from '@/context/PWAContext';
+import { useAuthContext } from '@/context/AuthContext';
+import AuthForm from '@/components/auth/AuthForm';
+import ClaimAnonymousDataDialog from '@/components/auth/ClaimAnonymousDataDialog';
+import TimeZoneSettingsDialog from '@/components/settings/TimeZoneSettingsDialog';
+import CalendarFeedsDialog from '@/components/settings/CalendarFeedsDialog';
+import IdleTimeDialog from '@/components/time-tracking/IdleTimeDialog';
+import { hasAnonymousData } from '@/services/authService';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 const AppLayout = () => {
   const { isPWA } = usePWAContext();
+  const { user, loading: authLoading, signOut, reloadUserData } = useAuthContext();
   
   // Use the unified task context which automatically picks the correct provider
   const context = useTaskContext();
   const { addProject } = context;
   
-  const { selectedView, setSelectedView } = useViewModeContext();
+  const { selectedView, setSelectedView, timeZone } = useViewModeContext();
   
   const [isAddingProject, setIsAddingProject] = React.useState(false);
   const [isAddingTask, setIsAddingTask] = React.useState(false);
@@ -33,8 +52,27 @@ const AppLayout = () => {
     description: ''
   });
   
+  const [isClaimingData, setIsClaimingData] = React.useState(false);
+  const [isEditingTimeZone, setIsEditingTimeZone] = React.useState(false);
+  const [isManagingFeeds, setIsManagingFeeds] = React.useState(false);
+  
   const isMobile = useIsMobile();
   
+  // Offer to claim data from the pre-authentication anonymous user once signed in
+  React.useEffect(() => {
+    if (user && hasAnonymousData()) {
+      setIsClaimingData(true);
+    }
+  }, [user]);
+  
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      // The auth service already surfaced the error
+    }
+  };
+  
   const handleAddProject = () => {
     if (newProject.name.trim()) {
       addProject(newProject);
@@ -47,36 +85,58 @@ const AppLayout = () => {
   };
   
   const handleTabChange = (value: string) => {
-    if (value === 'projects' || value === 'calendar') {
+    if (value === 'projects' || value === 'board' || value === 'calendar' || value === 'reports') {
       setSelectedView(value);
     }
   };
   
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <LoadingSpinner className="h-8 w-8" />
+      </div>
+    );
+  }
+  
+  if (!user) {
+    return <AuthForm />;
+  }
+  
   return (
     <ErrorBoundary>
       <div className="flex flex-col min-h-screen">
-        <OfflineStatusBar />
+        <div className="print:hidden">
+          <OfflineStatusBar />
+        </div>
         
         <div className="container mx-auto md:py-6 space-y-4 md:space-y-8 md:px-6 px-0 py-[20px] flex-1">
           {/* PWA Prompts and Settings */}
-          <div className="space-y-4">
+          <div className="space-y-4 print:hidden">
             {!isPWA && <InstallPrompt />}
             <NotificationSettings />
           </div>
           
           <Tabs defaultValue="projects" value={selectedView} onValueChange={handleTabChange}>
-            <header className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <header className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between print:hidden">
               <div className="flex items-center w-full gap-2 md:gap-4">
                 <h1 className="text-xl md:text-3xl font-bold mr-2 md:mr-4 text-orange-600">Khonja</h1>
-                <TabsList className="grid grid-cols-2 w-40 md:w-48 shrink-0">
+                <TabsList className="grid grid-cols-4 w-80 md:w-96 shrink-0">
                   <TabsTrigger value="projects" className="flex items-center">
                     <CheckSquare className="h-4 w-4 mr-1 md:mr-2" />
                     <span className={isMobile ? "text-xs" : ""}>All tasks</span>
                   </TabsTrigger>
+                  <TabsTrigger value="board" className="flex items-center">
+                    <Columns3 className="h-4 w-4 mr-1 md:mr-2" />
+                    <span className={isMobile ? "text-xs" : ""}>Board</span>
+                  </TabsTrigger>
                   <TabsTrigger value="calendar" className="flex items-center">
                     <Calendar className="h-4 w-4 mr-1 md:mr-2" />
                     <span className={isMobile ? "text-xs" : ""}>Calendar</span>
                   </TabsTrigger>
+                  <TabsTrigger value="reports" className="flex items-center">
+                    <BarChart3 className="h-4 w-4 mr-1 md:mr-2" />
+                    <span className={isMobile ? "text-xs" : ""}>Reports</span>
+                  </TabsTrigger>
                 </TabsList>
                 <span className="flex-1" />
                 <div className="flex gap-1 md:gap-2">
@@ -122,6 +182,31 @@ const AppLayout = () => {
                       </div>
                     </DialogContent>
                   </Dialog>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size={isMobile ? "sm" : "default"}>
+                        <User className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="font-normal text-sm truncate max-w-[220px]">
+                        {user.email}
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setIsEditingTimeZone(true)}>
+                        <Globe className="h-4 w-4 mr-2" />
+                        <span className="truncate max-w-[180px]">{timeZone}</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setIsManagingFeeds(true)}>
+                        <Rss className="h-4 w-4 mr-2" />
+                        Calendar feeds
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleSignOut}>
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Sign out
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </div>
             </header>
@@ -129,11 +214,35 @@ const AppLayout = () => {
             <TabsContent value="projects" className="mt-4 md:mt-6">
               <ProjectView />
             </TabsContent>
+            <TabsContent value="board" className="mt-4 md:mt-6">
+              <BoardView />
+            </TabsContent>
             <TabsContent value="calendar" className="mt-4 md:mt-6">
               <CalendarView />
             </TabsContent>
+            <TabsContent value="reports" className="mt-4 md:mt-6">
+              <ReportsView />
+            </TabsContent>
           </Tabs>
         </div>
+        
+        <ClaimAnonymousDataDialog
+          open={isClaimingData}
+          onOpenChange={setIsClaimingData}
+          onClaimComplete={reloadUserData}
+        />
+        
+        <TimeZoneSettingsDialog
+          open={isEditingTimeZone}
+          onOpenChange={setIsEditingTimeZone}
+        />
+        
+        <CalendarFeedsDialog
+          open={isManagingFeeds}
+          onOpenChange={setIsManagingFeeds}
+        />
+        
+        <IdleTimeDialog />
       </div>
     </ErrorBoundary>
   );
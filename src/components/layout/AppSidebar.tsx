@@ -1,5 +1,5 @@
 import React from 'react';
-import { CalendarIcon, CheckSquare } from 'lucide-react';
+import { CalendarIcon, CheckSquare, Columns3 } from 'lucide-react';
 import {
   Sidebar,
   SidebarContent,
@@ -87,6 +87,15 @@ export function AppSidebar() {
                   <span>Projects & Tasks</span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton 
+                  onClick={() => setSelectedView('board')}
+                  className={selectedView === 'board' ? 'bg-sidebar-accent' : ''}
+                >
+                  <Columns3 size={18} />
+                  <span>Board</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
               <SidebarMenuItem>
                 <SidebarMenuButton 
                   onClick={() => setSelectedView('calendar')}
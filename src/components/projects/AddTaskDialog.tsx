@@ -178,6 +178,7 @@ const AddTaskDialog: React.FC<AddTaskDialogProps> = ({
               onEnabledChange={setIsRecurring}
               pattern={recurrencePattern}
               onPatternChange={setRecurrencePattern}
+              startDate={dueDate}
             />
           )}
           
@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { Task } from '@/context/TaskTypes';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, Repeat } from 'lucide-react';
+import { Calendar, Clock, Lock, Repeat } from 'lucide-react';
 import { format } from 'date-fns';
 import { formatMinutes } from '@/lib/time-utils';
 import { useIsMobile } from '@/hooks/use-mobile';
@@ -11,6 +11,7 @@ import { EditableDateTime } from '@/components/tasks/EditableDateTime';
 import { EditablePriority } from '@/components/tasks/EditablePriority';
 import { EditableEstimatedTime } from '@/components/tasks/EditableEstimatedTime';
 import { useTaskContext } from '@/context/TaskContext';
+import { getOpenBlockers, getTasksById } from '@/lib/dependency-utils';
 
 interface EditableTaskItemDetailProps {
   task: Task;
@@ -24,8 +25,9 @@ const EditableTaskItemDetail: React.FC<EditableTaskItemDetailProps> = ({
   onEditStateChange
 }) => {
   const isMobile = useIsMobile();
-  const { updateTask } = useTaskContext();
+  const { tasks, updateTask } = useTaskContext();
   const [editingField, setEditingField] = useState<EditingField>(null);
+  const openBlockers = task.completed ? [] : getOpenBlockers(task, getTasksById(tasks));
 
   // Update the setEditingField to also call onEditStateChange if provided
   const setEditingFieldWithCallback = (field: EditingField) => {
@@ -160,6 +162,17 @@ const EditableTaskItemDetail: React.FC<EditableTaskItemDetailProps> = ({
             {formatMinutes(task.timeTracked)}
           </Badge>
         )}
+        
+        {openBlockers.length > 0 && (
+          <Badge 
+            variant="outline" 
+            className="text-[10px] md:text-xs flex items-center gap-1 shrink-0 border-red-300 text-red-700"
+            title={`Blocked by ${openBlockers.map(blocker => blocker.title).join(', ')}`}
+          >
+            <Lock size={isMobile ? 10 : 12} />
+            Blocked
+          </Badge>
+        )}
       </div>
     </div>
   );
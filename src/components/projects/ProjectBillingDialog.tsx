@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Project, useTaskContext } from '@/context/TaskContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/invoice-utils';
+
+interface ProjectBillingDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ProjectBillingDialog: React.FC<ProjectBillingDialogProps> = ({ project, open, onOpenChange }) => {
+  const { updateProject } = useTaskContext();
+  const [rate, setRate] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+
+  useEffect(() => {
+    if (!open) return;
+    setRate(project.hourlyRate !== undefined ? project.hourlyRate.toString() : '');
+    setCurrency(project.currency || DEFAULT_CURRENCY);
+  }, [open, project.hourlyRate, project.currency]);
+
+  const handleSave = () => {
+    const hourlyRate = rate.trim() ? Number(rate) : undefined;
+    if (hourlyRate !== undefined && (isNaN(hourlyRate) || hourlyRate < 0)) {
+      toast.error('Enter a rate of 0 or more');
+      return;
+    }
+
+    updateProject({ ...project, hourlyRate, currency });
+    toast.success(`Billing for "${project.name}" saved`);
+    onOpenChange(false);
+  };
+
+  // The project's currency is always offered, also when it is not a common one
+  const currencies = CURRENCIES.includes(currency) ? CURRENCIES : [currency, ...CURRENCIES];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Billing for {project.name}</DialogTitle>
+          <DialogDescription>
+            Billable time on the project is invoiced at this rate. Tasks can set a rate of their
+            own, which their subtasks use as well.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="project-hourly-rate">Hourly rate</Label>
+            <Input
+              id="project-hourly-rate"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No rate"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectBillingDialog;
@@ -1,12 +1,14 @@
 
 import React, { useState } from 'react';
 import { Project, Task } from '@/context/TaskContext';
-import { ChevronDown, ChevronUp, Plus } from 'lucide-react';
+import { ChevronDown, ChevronUp, Columns3, DollarSign, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { useTaskContext } from '@/context/TaskContext';
 import TaskItem from './TaskItem';
 import { Badge } from '@/components/ui/badge';
+import ProjectStatusesDialog from './ProjectStatusesDialog';
+import ProjectBillingDialog from './ProjectBillingDialog';
 
 interface ProjectItemProps {
   project: Project;
@@ -25,6 +27,8 @@ const ProjectItem: React.FC<ProjectItemProps> = ({
 }) => {
   const { tasks, toggleProjectExpanded } = useTaskContext();
   const [isExpanded, setIsExpanded] = useState(!hideChildrenInitially);
+  const [isEditingWorkflow, setIsEditingWorkflow] = useState(false);
+  const [isEditingBilling, setIsEditingBilling] = useState(false);
   
   const projectTasks = tasks
     .filter(task => task.projectId === project.id && !task.parentId)
@@ -71,14 +75,34 @@ const ProjectItem: React.FC<ProjectItemProps> = ({
             <CardTitle className="text-lg">{project.name}</CardTitle>
             <Badge variant="outline">{filteredTasks.length}</Badge>
           </div>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="p-1 h-8 w-8"
-            onClick={() => onAddTask(project.id)}
-          >
-            <Plus size={20} />
-          </Button>
+          <div className="flex items-center">
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="p-1 h-8 w-8"
+              onClick={() => setIsEditingWorkflow(true)}
+              title="Edit workflow"
+            >
+              <Columns3 size={18} />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="p-1 h-8 w-8"
+              onClick={() => setIsEditingBilling(true)}
+              title="Edit billing"
+            >
+              <DollarSign size={18} />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="p-1 h-8 w-8"
+              onClick={() => onAddTask(project.id)}
+            >
+              <Plus size={20} />
+            </Button>
+          </div>
         </CardHeader>
       )}
       
@@ -97,6 +121,17 @@ const ProjectItem: React.FC<ProjectItemProps> = ({
           )}
         </CardContent>
       )}
+      
+      <ProjectStatusesDialog 
+        project={project}
+        open={isEditingWorkflow}
+        onOpenChange={setIsEditingWorkflow}
+      />
+      <ProjectBillingDialog
+        project={project}
+        open={isEditingBilling}
+        onOpenChange={setIsEditingBilling}
+      />
     </Card>
   );
 };
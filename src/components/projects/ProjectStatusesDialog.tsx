@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Project, TaskStatus, useTaskContext } from '@/context/TaskContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { labelColors } from '@/lib/label-utils';
+import { createStatusKey, getProjectStatuses } from '@/lib/status-utils';
+
+interface ProjectStatusesDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ProjectStatusesDialog: React.FC<ProjectStatusesDialogProps> = ({ project, open, onOpenChange }) => {
+  const { projectStatuses, updateProjectStatuses } = useTaskContext();
+  const [draft, setDraft] = useState<TaskStatus[]>([]);
+
+  // The default workflow has placeholder IDs; give every status a real one before it is saved
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      getProjectStatuses(project.id, projectStatuses).map(status =>
+        status.id.startsWith('default-') ? { ...status, id: uuidv4() } : status
+      )
+    );
+  }, [open, project.id, projectStatuses]);
+
+  const updateStatus = (index: number, changes: Partial<TaskStatus>) => {
+    setDraft(prev => prev.map((status, i) => (i === index ? { ...status, ...changes } : status)));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    setDraft(prev => [
+      ...prev,
+      {
+        id: uuidv4(),
+        projectId: project.id,
+        key: createStatusKey('New status', prev.map(status => status.key)),
+        name: 'New status',
+        color: labelColors[prev.length % labelColors.length],
+        position: prev.length,
+        isDone: false,
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (draft.some(status => !status.name.trim())) {
+      toast.error('Every status needs a name');
+      return;
+    }
+    if (!draft.some(status => status.isDone) || !draft.some(status => !status.isDone)) {
+      toast.error('Keep at least one open status and one status that counts as done');
+      return;
+    }
+
+    updateProjectStatuses(
+      project.id,
+      draft.map((status, index) => ({ ...status, name: status.name.trim(), position: index }))
+    );
+    toast.success(`Workflow for "${project.name}" saved`);
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    updateProjectStatuses(project.id, []);
+    toast.success(`"${project.name}" uses the default workflow again`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Workflow for {project.name}</DialogTitle>
+          <DialogDescription>
+            Statuses are shown in this order. Tasks in a status marked as done count as completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {draft.map((status, index) => (
+            <div key={status.id} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-4 w-6"
+                  onClick={() => moveStatus(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-4 w-6"
+                  onClick={() => moveStatus(index, 1)}
+                  disabled={index === draft.length - 1}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+
+              <button
+                type="button"
+                className="h-5 w-5 rounded-full flex-shrink-0 border"
+                style={{ backgroundColor: status.color }}
+                onClick={() => {
+                  const next = labelColors[(labelColors.indexOf(status.color) + 1) % labelColors.length];
+                  updateStatus(index, { color: next });
+                }}
+                aria-label="Change color"
+              />
+
+              <Input
+                value={status.name}
+                onChange={(e) => updateStatus(index, { name: e.target.value })}
+                className="h-8"
+              />
+
+              <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+                <Checkbox
+                  checked={status.isDone}
+                  onCheckedChange={(checked) => updateStatus(index, { isDone: checked === true })}
+                />
+                Done
+              </label>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                disabled={draft.length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" size="sm" onClick={handleAdd} className="w-fit">
+          <Plus className="h-4 w-4 mr-1" />
+          Add status
+        </Button>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="ghost" onClick={handleReset} className="sm:mr-auto">
+            Use default workflow
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectStatusesDialog;
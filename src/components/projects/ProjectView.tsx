@@ -8,13 +8,16 @@ import FilterButton from '@/components/filters/FilterButton';
 import FilterPills from '@/components/filters/FilterPills';
 import { ChevronDown } from 'lucide-react';
 import { filterTasks, sortTasks, groupTasks } from '@/utils/filters';
+import { getTasksById } from '@/lib/dependency-utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import AddTaskDialog from './AddTaskDialog';
 
 const ProjectView: React.FC = () => {
   const {
     projects,
-    tasks
+    tasks,
+    labels,
+    projectStatuses
   } = useTaskContext();
   const {
     activeFilters,
@@ -27,10 +30,11 @@ const ProjectView: React.FC = () => {
   const [selectedProjectId, setSelectedProjectId] = React.useState<string | null>(null);
   const isMobile = useIsMobile();
 
-  const filteredTasks = filterTasks(tasks, activeFilters, excludeCompleted);
+  const tasksById = getTasksById(tasks);
+  const filteredTasks = filterTasks(tasks, activeFilters, excludeCompleted, tasksById, projectStatuses);
   const sortedTasks = sortTasks(filteredTasks, sortBy, sortDirection);
 
-  const taskGroups = groupTasks(sortedTasks, groupBy, projects);
+  const taskGroups = groupTasks(sortedTasks, groupBy, projects, labels, projectStatuses);
   const handleAddTask = (projectId: string) => {
     setSelectedProjectId(projectId);
     setIsAddTaskOpen(true);
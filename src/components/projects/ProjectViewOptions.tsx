@@ -98,6 +98,18 @@ const ProjectViewOptions = () => {
           >
             Priority
           </DropdownMenuItem>
+          <DropdownMenuItem 
+            onClick={() => setGroupBy(GroupBy.LABEL)}
+            className={groupBy === GroupBy.LABEL ? 'bg-accent' : ''}
+          >
+            Label
+          </DropdownMenuItem>
+          <DropdownMenuItem 
+            onClick={() => setGroupBy(GroupBy.STATUS)}
+            className={groupBy === GroupBy.STATUS ? 'bg-accent' : ''}
+          >
+            Status
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
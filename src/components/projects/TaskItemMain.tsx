@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import EditableTaskItemDetail from './EditableTaskItemDetail';
 import TaskItemActions from './TaskItemActions';
+import TaskLabels from '@/components/tasks/TaskLabels';
 import { useTaskContext } from '@/context/TaskContext';
 import { toast } from "sonner";
 import { priorityColors } from '@/lib/priority-utils';
@@ -128,10 +129,13 @@ const TaskItemMain: React.FC<TaskItemMainProps> = ({ task, level, onAddSubtask,
         </Button>
       )}
       
-      <EditableTaskItemDetail 
-        task={task} 
-        onEditStateChange={handleEditStateChange} 
-      />
+      <div className="flex-grow min-w-0">
+        <EditableTaskItemDetail 
+          task={task} 
+          onEditStateChange={handleEditStateChange} 
+        />
+        <TaskLabels labelIds={task.labelIds} size="xs" className="mt-1" />
+      </div>
       
       <TaskItemActions task={task} onAddSubtask={onAddSubtask} />
       
@@ -1,9 +1,12 @@
 import React from 'react';
 import { usePWAContext } from '@/context/PWAContext';
-import { WifiOff, CloudSun, Cloud, RefreshCcw, Wifi } from 'lucide-react';
+import { WifiOff, CloudSun, Cloud, RefreshCcw, Wifi, GitMerge, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { Progress } from '@/components/ui/progress';
+import { useOfflineSync } from '@/services/offlineSyncService';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import { SyncProblemsPanel } from './SyncProblemsPanel';
 
 export const OfflineStatusBar = () => {
   const { 
@@ -15,10 +18,27 @@ export const OfflineStatusBar = () => {
     updateServiceWorker
   } = usePWAContext();
   
+  const {
+    conflicts,
+    resolveConflict,
+    discardConflict,
+    failedOperations,
+    retryFailedOperation,
+    discardFailedOperation
+  } = useOfflineSync();
+  
   const [syncing, setSyncing] = React.useState(false);
+  const [conflictDialogOpen, setConflictDialogOpen] = React.useState(false);
+  const [problemsPanelOpen, setProblemsPanelOpen] = React.useState(false);
 
-  // Hide the bar if we're online and have no pending changes or updates
-  if (isOnline && pendingChangesCount === 0 && !newVersionAvailable) {
+  // Hide the bar if we're online and have no pending changes, conflicts, sync problems or updates
+  if (
+    isOnline &&
+    pendingChangesCount === 0 &&
+    conflicts.length === 0 &&
+    failedOperations.length === 0 &&
+    !newVersionAvailable
+  ) {
     return null;
   }
 
@@ -99,6 +119,8 @@ export const OfflineStatusBar = () => {
   const getBgColor = () => {
     if (!isOnline) return 'bg-red-50 text-red-800';
     if (newVersionAvailable) return 'bg-blue-50 text-blue-800';
+    if (conflicts.length > 0) return 'bg-orange-50 text-orange-800';
+    if (failedOperations.length > 0) return 'bg-red-50 text-red-800';
     if (pendingChangesCount > 0) return 'bg-amber-50 text-amber-800';
     return 'bg-gray-50 text-gray-800';
   };
@@ -107,6 +129,8 @@ export const OfflineStatusBar = () => {
   const getStatusIcon = () => {
     if (!isOnline) return <WifiOff size={18} className="text-red-600" />;
     if (newVersionAvailable) return <RefreshCcw size={18} className="text-blue-600" />;
+    if (conflicts.length > 0) return <GitMerge size={18} className="text-orange-600" />;
+    if (failedOperations.length > 0) return <AlertTriangle size={18} className="text-red-600" />;
     if (pendingChangesCount > 0) return <CloudSun size={18} className="text-amber-600" />;
     
     // Show connection quality icon when online
@@ -134,7 +158,11 @@ export const OfflineStatusBar = () => {
               ? "You're offline. Changes will sync when you're back online." 
               : newVersionAvailable
                 ? "A new version is available."
-                : `${pendingChangesCount} change${pendingChangesCount !== 1 ? 's' : ''} pending to sync.`
+                : conflicts.length > 0
+                  ? `${conflicts.length} change${conflicts.length !== 1 ? 's' : ''} conflict with edits made elsewhere.`
+                  : failedOperations.length > 0
+                    ? `${failedOperations.length} change${failedOperations.length !== 1 ? 's' : ''} could not be synced.`
+                    : `${pendingChangesCount} change${pendingChangesCount !== 1 ? 's' : ''} pending to sync.`
             }
           </span>
         </div>
@@ -153,6 +181,30 @@ export const OfflineStatusBar = () => {
               </Button>
             )}
             
+            {conflicts.length > 0 && (
+              <Button 
+                size="sm" 
+                variant="outline" 
+                className="text-xs bg-orange-100 border-orange-200 hover:bg-orange-200"
+                onClick={() => setConflictDialogOpen(true)}
+              >
+                <GitMerge className="h-3.5 w-3.5 mr-1" />
+                Review
+              </Button>
+            )}
+            
+            {failedOperations.length > 0 && (
+              <Button 
+                size="sm" 
+                variant="outline" 
+                className="text-xs bg-red-100 border-red-200 hover:bg-red-200"
+                onClick={() => setProblemsPanelOpen(true)}
+              >
+                <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+                Details
+              </Button>
+            )}
+            
             {pendingChangesCount > 0 && (
               <Button 
                 size="sm" 
@@ -200,6 +252,22 @@ export const OfflineStatusBar = () => {
           <Progress className="h-1" />
         </div>
       )}
+      
+      <SyncConflictDialog
+        open={conflictDialogOpen}
+        onOpenChange={setConflictDialogOpen}
+        conflicts={conflicts}
+        onResolve={resolveConflict}
+        onDiscard={discardConflict}
+      />
+      
+      <SyncProblemsPanel
+        open={problemsPanelOpen}
+        onOpenChange={setProblemsPanelOpen}
+        failedOperations={failedOperations}
+        onRetry={retryFailedOperation}
+        onDiscard={discardFailedOperation}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { useTaskContext } from '@/context/TaskContext';
+import { Task, RecurrencePattern } from '@/context/TaskTypes';
+import { PendingOperation } from '@/services/indexedDBService';
+import { applyConflictChoices, ConflictChoice } from '@/services/offline/conflictResolution';
+import { getProjectStatuses } from '@/lib/status-utils';
+import { formatRecurrencePattern } from '@/lib/recurrence-utils';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: PendingOperation[];
+  onResolve: (operationId: string, resolvedData: Task) => Promise<void>;
+  onDiscard: (operationId: string) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  dueDate: 'Due date',
+  priority: 'Priority',
+  projectId: 'Project',
+  parentId: 'Parent task',
+  notes: 'Notes',
+  estimatedTime: 'Estimated time',
+  timeTracked: 'Time tracked',
+  completed: 'Completed',
+  status: 'Status',
+  timeSlot: 'Time slot',
+  timeZone: 'Time zone',
+  isRecurring: 'Recurring',
+  recurrencePattern: 'Repeats',
+  isExpanded: 'Expanded',
+  labelIds: 'Labels',
+  blockedByIds: 'Blocked by',
+};
+
+const findTaskTitle = (tasks: Task[], taskId: string): string | undefined => {
+  for (const task of tasks) {
+    if (task.id === taskId) return task.title;
+    const childTitle = findTaskTitle(task.children, taskId);
+    if (childTitle) return childTitle;
+  }
+  return undefined;
+};
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+  open,
+  onOpenChange,
+  conflicts,
+  onResolve,
+  onDiscard
+}) => {
+  const { projects, tasks, labels, projectStatuses } = useTaskContext();
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const current = conflicts[0];
+  const local = current?.data as Task | undefined;
+
+  // Start every field on the local value whenever a new conflict comes up
+  useEffect(() => {
+    if (!current?.conflict) return;
+    setChoices(Object.fromEntries(current.conflict.fields.map(f => [f.field, 'local'])));
+  }, [current?.id, current?.conflict]);
+
+  useEffect(() => {
+    if (open && conflicts.length === 0) {
+      onOpenChange(false);
+    }
+  }, [open, conflicts.length, onOpenChange]);
+
+  if (!current?.conflict || !local) {
+    return null;
+  }
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'labelIds') {
+      const names = (value as string[])
+        .map(id => labels.find(label => label.id === id)?.name)
+        .filter(Boolean);
+      return names.length > 0 ? names.join(', ') : '—';
+    }
+    if (field === 'status') {
+      return getProjectStatuses(local.projectId, projectStatuses)
+        .find(status => status.key === value)?.name ?? String(value);
+    }
+    if (field === 'blockedByIds') {
+      const titles = (value as string[]).map(id => findTaskTitle(tasks, id) ?? id);
+      return titles.length > 0 ? titles.join(', ') : '—';
+    }
+    if (value instanceof Date) {
+      return field === 'dueDate' ? format(value, 'MMM d, yyyy') : format(value, 'MMM d, yyyy HH:mm');
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'projectId') {
+      return projects.find(p => p.id === value)?.name ?? String(value);
+    }
+    if (field === 'parentId') {
+      return findTaskTitle(tasks, String(value)) ?? String(value);
+    }
+    if (field === 'estimatedTime' || field === 'timeTracked') {
+      return `${value} min`;
+    }
+    if (field === 'recurrencePattern') {
+      return formatRecurrencePattern(value as RecurrencePattern);
+    }
+    return String(value);
+  };
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(current.conflict!.fields.map(f => [f.field, choice])));
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(current.id, applyConflictChoices(local, current.conflict!, choices));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsSaving(true);
+    try {
+      await onDiscard(current.id);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Resolve Sync Conflict</DialogTitle>
+          <DialogDescription>
+            "{local.title}" was changed on another device while you were offline.
+            Pick which value to keep for each field.
+            {conflicts.length > 1 && ` (1 of ${conflicts.length})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-[8rem_1fr_1fr] gap-x-4 gap-y-3 text-sm">
+            <div />
+            <div className="font-medium text-muted-foreground">Your change</div>
+            <div className="font-medium text-muted-foreground">On the server</div>
+
+            {current.conflict.fields.map(({ field, localValue, serverValue }) => (
+              <RadioGroup
+                key={field}
+                value={choices[field] ?? 'local'}
+                onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: value as ConflictChoice }))}
+                className="contents"
+              >
+                <div className="font-medium pt-0.5">{FIELD_LABELS[field] ?? field}</div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="local" id={`${field}-local`} className="mt-0.5" />
+                  <Label htmlFor={`${field}-local`} className="font-normal break-words">
+                    {formatValue(field, localValue)}
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="server" id={`${field}-server`} className="mt-0.5" />
+                  <Label htmlFor={`${field}-server`} className="font-normal break-words">
+                    {formatValue(field, serverValue)}
+                  </Label>
+                </div>
+              </RadioGroup>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="ghost" onClick={handleDiscard} disabled={isSaving} className="sm:mr-auto">
+            Discard my change
+          </Button>
+          <Button variant="outline" onClick={() => setAll('local')} disabled={isSaving}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" onClick={() => setAll('server')} disabled={isSaving}>
+            Keep all server
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Download, RotateCcw, Trash2, Eye, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { DeadLetterOperation } from '@/services/indexedDBService';
+
+interface SyncProblemsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  failedOperations: DeadLetterOperation[];
+  onRetry: (id: string, data?: unknown) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  task: 'Task',
+  project: 'Project',
+  timeTracking: 'Time entry',
+  timeBlock: 'Time block',
+};
+
+// JSON has no dates; turn ISO timestamps back into Date objects like processSupabaseData does
+const reviveDates = (_key: string, value: unknown) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value) : value;
+
+const describeOperation = (operation: DeadLetterOperation): string => {
+  const data = operation.data ?? {};
+  return data.title || data.name || data.notes || operation.entityId;
+};
+
+export const SyncProblemsPanel: React.FC<SyncProblemsPanelProps> = ({
+  open,
+  onOpenChange,
+  failedOperations,
+  onRetry,
+  onDiscard
+}) => {
+  const [inspectingId, setInspectingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = (operation: DeadLetterOperation) =>
+    runAction(operation.id, async () => {
+      await onRetry(operation.id);
+      toast.success('Change queued for another sync attempt.');
+    });
+
+  const handleDiscard = (operation: DeadLetterOperation) =>
+    runAction(operation.id, async () => {
+      await onDiscard(operation.id);
+      toast.success('Change discarded.');
+    });
+
+  const startEditing = (operation: DeadLetterOperation) => {
+    setInspectingId(null);
+    setEditingId(operation.id);
+    setDraft(JSON.stringify(operation.data, null, 2));
+  };
+
+  const handleSaveAndRetry = (operation: DeadLetterOperation) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(draft, reviveDates);
+    } catch (error) {
+      toast.error('That is not valid JSON.');
+      return;
+    }
+
+    runAction(operation.id, async () => {
+      await onRetry(operation.id, data);
+      setEditingId(null);
+      toast.success('Edited change queued for another sync attempt.');
+    });
+  };
+
+  const handleExport = () => {
+    const payload = {
+      exportedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      operations: failedOperations,
+    };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sync-problems-${format(new Date(), 'yyyyMMdd-HHmm')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Sync Problems</SheetTitle>
+          <SheetDescription>
+            These changes could not be saved to the server and are no longer retried automatically.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end my-4">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleExport}
+            disabled={failedOperations.length === 0}
+          >
+            <Download className="h-3.5 w-3.5 mr-1" />
+            Export JSON
+          </Button>
+        </div>
+
+        {failedOperations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No sync problems.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {failedOperations.map(operation => (
+              <div key={operation.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{ENTITY_LABELS[operation.entityType] ?? operation.entityType}</Badge>
+                  <Badge variant="outline">{operation.operation}</Badge>
+                  <span className="text-sm font-medium truncate">{describeOperation(operation)}</span>
+                </div>
+
+                <p className="text-sm text-red-700 break-words">
+                  {operation.lastError}
+                  {operation.lastErrorCode && ` (${operation.lastErrorCode})`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Failed {formatDistanceToNow(operation.failedAt, { addSuffix: true })} after {operation.attempts} attempt{operation.attempts !== 1 ? 's' : ''}
+                </p>
+
+                {inspectingId === operation.id && (
+                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-64">
+                    {JSON.stringify(operation.data, null, 2)}
+                  </pre>
+                )}
+
+                {editingId === operation.id && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      className="font-mono text-xs min-h-48"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSaveAndRetry(operation)}
+                        disabled={busyId === operation.id}
+                      >
+                        Save and retry
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {editingId !== operation.id && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setInspectingId(inspectingId === operation.id ? null : operation.id)}
+                    >
+                      <Eye className="h-3.5 w-3.5 mr-1" />
+                      {inspectingId === operation.id ? 'Hide' : 'Inspect'}
+                    </Button>
+                    {operation.operation !== 'delete' && (
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(operation)}>
+                        <Pencil className="h-3.5 w-3.5 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-auto"
+                      onClick={() => handleRetry(operation)}
+                      disabled={busyId === operation.id}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                      Retry
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-700"
+                      onClick={() => handleDiscard(operation)}
+                      disabled={busyId === operation.id}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
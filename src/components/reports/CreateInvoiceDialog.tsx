@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTaskContext, useViewModeContext } from '@/context/TaskContext';
+import { Invoice, TimeTracking } from '@/context/TaskTypes';
+import { createInvoiceDraft, formatCurrency, getNextInvoiceNumber } from '@/lib/invoice-utils';
+import { RoundingMode, formatMinutes } from '@/lib/time-utils';
+import { createInvoice } from '@/services/invoiceService';
+import { toast } from 'sonner';
+
+const ROUNDING_INTERVALS = [1, 6, 15, 30];
+
+interface CreateInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackings: TimeTracking[];
+  invoices: Invoice[];
+  initialRange: DateRange;
+  onCreated: () => void;
+}
+
+const CreateInvoiceDialog: React.FC<CreateInvoiceDialogProps> = ({
+  open,
+  onOpenChange,
+  trackings,
+  invoices,
+  initialRange,
+  onCreated
+}) => {
+  const { tasks, projects } = useTaskContext();
+  const { timeZone } = useViewModeContext();
+  // Null until dates are picked
+  const [pickedRange, setPickedRange] = useState<DateRange | undefined | null>(null);
+  const [projectId, setProjectId] = useState('');
+  const [number, setNumber] = useState('');
+  const [roundingInterval, setRoundingInterval] = useState(1);
+  const [roundingMode, setRoundingMode] = useState<RoundingMode>('up');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Start from the dates shown in the reports and the next free number
+  useEffect(() => {
+    if (!open) return;
+    setPickedRange(null);
+    setNumber(getNextInvoiceNumber(invoices));
+  }, [open, invoices]);
+
+  const range = pickedRange === null ? initialRange : pickedRange;
+  const from = range?.from;
+  const to = range?.to ?? range?.from;
+  const project = projects.find(p => p.id === projectId) ?? projects[0];
+
+  const draft = open && project && from && to
+    ? createInvoiceDraft(trackings, tasks, project, { from, to, roundingInterval, roundingMode, timeZone })
+    : undefined;
+  const totalMinutes = draft?.lineItems.reduce((sum, item) => sum + item.minutes, 0) ?? 0;
+
+  const formatRange = () => {
+    if (!from || !to) return 'Pick dates';
+    if (from.getTime() === to.getTime()) return format(from, 'MMM d, yyyy');
+    return `${format(from, 'MMM d, yyyy')} - ${format(to, 'MMM d, yyyy')}`;
+  };
+
+  const handleCreate = async () => {
+    if (!draft || !project || !from || !to) return;
+    if (!number.trim()) {
+      toast.error('Give the invoice a number');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await createInvoice(
+        project.id,
+        {
+          number: number.trim(),
+          periodStart: from,
+          periodEnd: to,
+          currency: draft.currency,
+          total: draft.total,
+          lineItems: draft.lineItems,
+        },
+        draft.timeTrackingIds
+      );
+      toast.success(`Invoice ${number.trim()} created`);
+      onCreated();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+          <DialogDescription>
+            Bills the billable time of a project that is not on an invoice yet. Entries on the
+            invoice are marked as invoiced, so they are not billed twice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={project?.id ?? ''} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No projects" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(p => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="invoice-number">Number</Label>
+              <Input
+                id="invoice-number"
+                value={number}
+                onChange={(e) => setNumber(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2 col-span-2">
+              <Label>Dates</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formatRange()}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setPickedRange}
+                    initialFocus
+                    className="p-3 pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Round each entry</Label>
+              <Select value={roundingMode} onValueChange={(value) => setRoundingMode(value as RoundingMode)} disabled={roundingInterval <= 1}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="nearest">To the nearest</SelectItem>
+                  <SelectItem value="up">Always up</SelectItem>
+                  <SelectItem value="down">Always down</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rounding interval</Label>
+              <Select value={roundingInterval.toString()} onValueChange={(value) => setRoundingInterval(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUNDING_INTERVALS.map(interval => (
+                    <SelectItem key={interval} value={interval.toString()}>
+                      {interval <= 1 ? 'No rounding' : `${interval} minutes`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft && draft.lineItems.length > 0 ? (
+            <div className="max-h-[40vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {draft.lineItems.map(item => (
+                    <TableRow key={item.taskId}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMinutes(item.minutes)}</TableCell>
+                      <TableCell className={`text-right tabular-nums ${draft.unpricedTaskIds.includes(item.taskId) ? 'text-red-600' : ''}`}>
+                        {formatCurrency(item.rate, draft.currency)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(item.amount, draft.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMinutes(totalMinutes)}</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right tabular-nums">{formatCurrency(draft.total, draft.currency)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No billable time left to invoice for this project in these dates.
+            </p>
+          )}
+
+          {draft && draft.unpricedTaskIds.length > 0 && (
+            <p className="text-sm text-red-600">
+              Some tasks have no hourly rate. Set one for the project or the task to bill them.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!draft || draft.lineItems.length === 0 || isCreating}>
+            {isCreating ? 'Creating...' : 'Create invoice'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateInvoiceDialog;
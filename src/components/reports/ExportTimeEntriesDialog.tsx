@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useTaskContext, useViewModeContext } from '@/context/TaskContext';
+import { TimeTracking } from '@/context/TaskTypes';
+import { flattenTasks } from '@/lib/dependency-utils';
+import { getTaskPath, getTimeExportEntries, toTimeEntriesCsv, toTimeEntriesJson } from '@/lib/time-export-utils';
+import { RoundingMode, formatMinutes } from '@/lib/time-utils';
+import { toast } from 'sonner';
+
+const ALL = 'all';
+
+type ExportFormat = 'csv' | 'json';
+
+const ROUNDING_INTERVALS = [1, 6, 15, 30];
+
+const ROUNDING_MODES: { value: RoundingMode; label: string }[] = [
+  { value: 'nearest', label: 'To the nearest' },
+  { value: 'up', label: 'Always up' },
+  { value: 'down', label: 'Always down' },
+];
+
+interface ExportTimeEntriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackings: TimeTracking[];
+  initialRange: DateRange;
+}
+
+const ExportTimeEntriesDialog: React.FC<ExportTimeEntriesDialogProps> = ({
+  open,
+  onOpenChange,
+  trackings,
+  initialRange
+}) => {
+  const { tasks, projects } = useTaskContext();
+  const { timeZone } = useViewModeContext();
+  // Null until dates are picked; undefined exports all dates
+  const [pickedRange, setPickedRange] = useState<DateRange | undefined | null>(null);
+  const [projectId, setProjectId] = useState(ALL);
+  const [taskId, setTaskId] = useState(ALL);
+  const [roundingInterval, setRoundingInterval] = useState(1);
+  const [roundingMode, setRoundingMode] = useState<RoundingMode>('nearest');
+  const [mergeAdjacent, setMergeAdjacent] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+
+  // Start from the dates shown in the reports
+  useEffect(() => {
+    if (open) {
+      setPickedRange(null);
+    }
+  }, [open]);
+
+  const range = pickedRange === null ? initialRange : pickedRange;
+
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+  const projectTasks = [...tasksById.values()]
+    .filter(task => task.projectId === projectId && !task.recurrenceParentId)
+    .map(task => ({ task, path: getTaskPath(task, tasksById) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const entries = open
+    ? getTimeExportEntries(trackings, tasks, projects, {
+        from: range?.from,
+        to: range?.to ?? range?.from,
+        projectId: projectId === ALL ? undefined : projectId,
+        taskId: taskId === ALL ? undefined : taskId,
+        roundingInterval,
+        roundingMode,
+        mergeAdjacent,
+        timeZone,
+      })
+    : [];
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+
+  const formatRange = () => {
+    if (!range?.from) return 'All dates';
+    if (!range.to) return format(range.from, 'MMM d, yyyy');
+    return `${format(range.from, 'MMM d, yyyy')} - ${format(range.to, 'MMM d, yyyy')}`;
+  };
+
+  const handleExport = () => {
+    const data = exportFormat === 'csv' ? toTimeEntriesCsv(entries) : toTimeEntriesJson(entries);
+    const type = exportFormat === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+
+    const blob = new Blob([data], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `khonja-time-${format(new Date(), 'yyyyMMdd')}.${exportFormat}`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast.success(`Exported ${entries.length} time entr${entries.length !== 1 ? 'ies' : 'y'}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Time Entries</DialogTitle>
+          <DialogDescription>
+            Download tracked time as CSV or JSON, e.g. for invoicing. Subtasks are included
+            with their task.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Dates</Label>
+            <div className="flex items-center gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="flex-1 justify-start text-left">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formatRange()}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setPickedRange}
+                    initialFocus
+                    className="p-3 pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {range?.from && (
+                <Button variant="ghost" size="sm" onClick={() => setPickedRange(undefined)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={(value) => {
+                setProjectId(value);
+                setTaskId(ALL);
+              }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All projects</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Task</Label>
+              <Select value={taskId} onValueChange={setTaskId} disabled={projectId === ALL}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tasks</SelectItem>
+                  {projectTasks.map(({ task, path }) => (
+                    <SelectItem key={task.id} value={task.id}>
+                      {path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Round</Label>
+              <Select value={roundingMode} onValueChange={(value) => setRoundingMode(value as RoundingMode)} disabled={roundingInterval <= 1}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUNDING_MODES.map(mode => (
+                    <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rounding interval</Label>
+              <Select value={roundingInterval.toString()} onValueChange={(value) => setRoundingInterval(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUNDING_INTERVALS.map(interval => (
+                    <SelectItem key={interval} value={interval.toString()}>
+                      {interval <= 1 ? 'No rounding' : `${interval} minutes`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2 self-end pb-2">
+              <Switch
+                id="merge-adjacent"
+                checked={mergeAdjacent}
+                onCheckedChange={setMergeAdjacent}
+              />
+              <Label htmlFor="merge-adjacent">Merge adjacent entries</Label>
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {entries.length} entr{entries.length !== 1 ? 'ies' : 'y'}, {formatMinutes(totalMinutes)} in total
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={entries.length === 0}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportTimeEntriesDialog;
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { FileSpreadsheet, FileText, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTaskContext } from '@/context/TaskContext';
+import { Invoice, TimeTracking } from '@/context/TaskTypes';
+import { formatCurrency, toInvoiceCsv, toInvoiceHtml } from '@/lib/invoice-utils';
+import { deleteInvoice, getInvoices } from '@/services/invoiceService';
+import { toast } from 'sonner';
+import CreateInvoiceDialog from './CreateInvoiceDialog';
+
+interface InvoicesCardProps {
+  trackings: TimeTracking[];
+  initialRange: DateRange;
+}
+
+const download = (data: string, type: string, fileName: string) => {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const InvoicesCard: React.FC<InvoicesCardProps> = ({ trackings, initialRange }) => {
+  const { projects } = useTaskContext();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadInvoices = useCallback(() => {
+    getInvoices()
+      .then(setInvoices)
+      .catch(error => console.error('Error loading invoices:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const getProjectName = (invoice: Invoice) =>
+    invoice.projectId ? projects.find(p => p.id === invoice.projectId)?.name || 'Deleted project' : 'Deleted project';
+
+  const handleDownloadHtml = (invoice: Invoice) => {
+    download(toInvoiceHtml(invoice, getProjectName(invoice)), 'text/html;charset=utf-8', `${invoice.number}.html`);
+  };
+
+  const handleDownloadCsv = (invoice: Invoice) => {
+    download(toInvoiceCsv(invoice), 'text/csv;charset=utf-8', `${invoice.number}.csv`);
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    try {
+      await deleteInvoice(invoice.id);
+      setInvoices(invoices.filter(i => i.id !== invoice.id));
+      toast.success(`Invoice ${invoice.number} deleted. Its time can be invoiced again.`);
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+    }
+  };
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Invoices</CardTitle>
+          <CardDescription>Billable time per project, at the project's or task's hourly rate</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New invoice
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading invoices...</p>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invoices yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead className="hidden md:table-cell">Project</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map(invoice => (
+                <TableRow key={invoice.id}>
+                  <TableCell className="font-medium">{invoice.number}</TableCell>
+                  <TableCell className="hidden md:table-cell text-muted-foreground">{getProjectName(invoice)}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(invoice.periodStart, 'MMM d')} - {format(invoice.periodEnd, 'MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(invoice.total, invoice.currency)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDownloadHtml(invoice)} title="Download as HTML">
+                      <FileText className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDownloadCsv(invoice)} title="Download as CSV">
+                      <FileSpreadsheet className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(invoice)} title="Delete invoice">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CreateInvoiceDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        trackings={trackings}
+        invoices={invoices}
+        initialRange={initialRange}
+        onCreated={loadInvoices}
+      />
+    </Card>
+  );
+};
+
+export default InvoicesCard;
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { endOfMonth, endOfWeek, startOfMonth, startOfWeek, subDays, subMonths, subWeeks } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTaskContext, useTimeTrackingContext, useViewModeContext } from '@/context/TaskContext';
+import {
+  ReportPeriod,
+  ReportRange,
+  getTotalsByPeriod,
+  getTotalsByProject,
+  getTotalsByTask,
+} from '@/lib/report-utils';
+import { formatMinutes } from '@/lib/time-utils';
+import { getCalendarDay } from '@/lib/timezone-utils';
+import ExportTimeEntriesDialog from './ExportTimeEntriesDialog';
+import InvoicesCard from './InvoicesCard';
+import WeeklyTimesheet from './WeeklyTimesheet';
+
+type RangePreset = 'this-week' | 'last-week' | 'this-month' | 'last-month' | 'last-90-days';
+
+const RANGE_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: 'this-week', label: 'This week' },
+  { value: 'last-week', label: 'Last week' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'last-90-days', label: 'Last 90 days' },
+];
+
+const PERIOD_OPTIONS: { value: ReportPeriod; label: string }[] = [
+  { value: 'day', label: 'By day' },
+  { value: 'week', label: 'By week' },
+  { value: 'month', label: 'By month' },
+];
+
+// Projects have no color of their own
+const PROJECT_COLORS = ['#f97316', '#3b82f6', '#22c55e', '#a855f7', '#ef4444', '#14b8a6', '#eab308', '#ec4899'];
+
+// Tasks compared in the estimate chart; the table lists all of them
+const MAX_COMPARED_TASKS = 10;
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+const getRange = (preset: RangePreset, today: Date): ReportRange => {
+  const weekOptions = { weekStartsOn: 1 } as const;
+
+  switch (preset) {
+    case 'last-week': {
+      const lastWeek = subWeeks(today, 1);
+      return { from: startOfWeek(lastWeek, weekOptions), to: endOfWeek(lastWeek, weekOptions) };
+    }
+    case 'this-month':
+      return { from: startOfMonth(today), to: endOfMonth(today) };
+    case 'last-month': {
+      const lastMonth = subMonths(today, 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    }
+    case 'last-90-days':
+      return { from: subDays(today, 89), to: today };
+    default:
+      return { from: startOfWeek(today, weekOptions), to: endOfWeek(today, weekOptions) };
+  }
+};
+
+const ReportsView: React.FC = () => {
+  const { tasks, projects } = useTaskContext();
+  const { timeTrackings, activeTimeTracking } = useTimeTrackingContext();
+  const { timeZone } = useViewModeContext();
+
+  const [preset, setPreset] = useState<RangePreset>(() => {
+    const saved = localStorage.getItem('quire-report-range');
+    return RANGE_OPTIONS.some(option => option.value === saved) ? saved as RangePreset : 'this-week';
+  });
+  const [period, setPeriod] = useState<ReportPeriod>(() => {
+    const saved = localStorage.getItem('quire-report-period');
+    return PERIOD_OPTIONS.some(option => option.value === saved) ? saved as ReportPeriod : 'day';
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('quire-report-range', preset);
+    localStorage.setItem('quire-report-period', period);
+  }, [preset, period]);
+
+  // The running entry counts up to now
+  const trackings = activeTimeTracking ? [...timeTrackings, activeTimeTracking] : timeTrackings;
+  const today = getCalendarDay(new Date(), timeZone);
+  const range = getRange(preset, today);
+
+  const periodTotals = getTotalsByPeriod(trackings, tasks, range, period, timeZone);
+  const taskTotals = getTotalsByTask(trackings, tasks, range, timeZone);
+  const projectTotals = getTotalsByProject(taskTotals);
+  const totalMinutes = taskTotals.reduce((sum, total) => sum + total.minutes, 0);
+
+  const reportedProjects = projects.filter(project => projectTotals[project.id]);
+  const getProjectKey = (projectId: string) => `project${projects.findIndex(project => project.id === projectId)}`;
+  const getProjectName = (projectId: string) => projects.find(project => project.id === projectId)?.name ?? 'Unknown project';
+
+  const periodChartConfig = reportedProjects.reduce<ChartConfig>((config, project, index) => {
+    config[getProjectKey(project.id)] = {
+      label: project.name,
+      color: PROJECT_COLORS[index % PROJECT_COLORS.length],
+    };
+    return config;
+  }, {});
+
+  const periodChartData = periodTotals.map(total => ({
+    label: total.label,
+    ...Object.fromEntries(
+      Object.entries(total.minutesByProject).map(([projectId, minutes]) => [getProjectKey(projectId), toHours(minutes)])
+    ),
+  }));
+
+  const estimateChartConfig: ChartConfig = {
+    estimated: { label: 'Estimated', color: '#94a3b8' },
+    actual: { label: 'Tracked', color: '#f97316' },
+  };
+
+  const estimateChartData = taskTotals
+    .filter(total => total.estimatedMinutes)
+    .slice(0, MAX_COMPARED_TASKS)
+    .map(total => ({
+      title: total.task.title,
+      estimated: toHours(total.estimatedMinutes!),
+      actual: toHours(total.totalMinutes),
+    }));
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex justify-between items-center flex-wrap gap-2 print:hidden">
+        <h2 className="text-xl md:text-2xl font-bold">Reports</h2>
+        <div className="flex items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setIsExporting(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 print:hidden">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Tracked time</CardTitle>
+            <CardDescription>{formatMinutes(totalMinutes)} in total, in hours per project</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {totalMinutes === 0 ? (
+              <p className="text-sm text-muted-foreground">No time tracked in this range.</p>
+            ) : (
+              <ChartContainer config={periodChartConfig} className="aspect-auto h-[260px] w-full">
+                <BarChart data={periodChartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {reportedProjects.map(project => (
+                    <Bar
+                      key={project.id}
+                      dataKey={getProjectKey(project.id)}
+                      stackId="projects"
+                      fill={`var(--color-${getProjectKey(project.id)})`}
+                    />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By project</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {reportedProjects.map((project, index) => (
+              <div key={project.id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="truncate">{project.name}</span>
+                  <span className="text-muted-foreground shrink-0">{formatMinutes(projectTotals[project.id])}</span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{
+                      width: `${(projectTotals[project.id] / totalMinutes) * 100}%`,
+                      backgroundColor: PROJECT_COLORS[index % PROJECT_COLORS.length],
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+            {reportedProjects.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nothing to show yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="text-base">Estimated vs. tracked</CardTitle>
+          <CardDescription>
+            Top-level tasks worked on in this range, with the time, estimates and focus sessions of their subtasks rolled up
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {estimateChartData.length > 0 && (
+            <ChartContainer config={estimateChartConfig} className="aspect-auto h-[240px] w-full">
+              <BarChart data={estimateChartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="title" tickLine={false} axisLine={false} interval={0} tickFormatter={(title: string) => title.length > 12 ? `${title.slice(0, 12)}…` : title} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="estimated" fill="var(--color-estimated)" radius={2} />
+                <Bar dataKey="actual" fill="var(--color-actual)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          )}
+
+          {taskTotals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time tracked in this range.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead className="hidden md:table-cell">Project</TableHead>
+                  <TableHead className="text-right">In range</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead className="hidden md:table-cell text-right">Focus sessions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taskTotals.map(total => {
+                  const difference = total.estimatedMinutes !== undefined
+                    ? total.totalMinutes - total.estimatedMinutes
+                    : undefined;
+
+                  return (
+                    <TableRow key={total.task.id}>
+                      <TableCell className="font-medium">{total.task.title}</TableCell>
+                      <TableCell className="hidden md:table-cell text-muted-foreground">{getProjectName(total.projectId)}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(total.minutes)}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(total.totalMinutes)}</TableCell>
+                      <TableCell className="text-right">
+                        {total.estimatedMinutes !== undefined ? formatMinutes(total.estimatedMinutes) : '-'}
+                      </TableCell>
+                      <TableCell className={`text-right ${difference !== undefined && difference > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                        {difference === undefined ? '-' : `${difference > 0 ? '+' : difference < 0 ? '-' : ''}${formatMinutes(Math.abs(difference))}`}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-right">{total.focusSessions || '-'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WeeklyTimesheet trackings={trackings} />
+
+      <InvoicesCard trackings={timeTrackings} initialRange={range} />
+
+      <ExportTimeEntriesDialog
+        open={isExporting}
+        onOpenChange={setIsExporting}
+        trackings={trackings}
+        initialRange={range}
+      />
+    </div>
+  );
+};
+
+export default ReportsView;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTaskContext, useViewModeContext } from '@/context/TaskContext';
+import { TimeTracking } from '@/context/TaskTypes';
+import { getWeeklyTimesheet } from '@/lib/report-utils';
+import { formatMinutes } from '@/lib/time-utils';
+import { getCalendarDay } from '@/lib/timezone-utils';
+
+interface WeeklyTimesheetProps {
+  trackings: TimeTracking[];
+}
+
+const formatCell = (minutes: number) => (minutes > 0 ? formatMinutes(minutes) : '');
+
+const WeeklyTimesheet: React.FC<WeeklyTimesheetProps> = ({ trackings }) => {
+  const { tasks, projects } = useTaskContext();
+  const { timeZone } = useViewModeContext();
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(getCalendarDay(new Date(), timeZone), { weekStartsOn: 1 })
+  );
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const rows = getWeeklyTimesheet(trackings, tasks, weekStart, timeZone);
+  const dayTotals = days.map((_, dayIndex) => rows.reduce((sum, row) => sum + row.minutesByDay[dayIndex], 0));
+  const weekTotal = dayTotals.reduce((sum, minutes) => sum + minutes, 0);
+
+  const getProjectName = (projectId: string) => projects.find(project => project.id === projectId)?.name ?? 'Unknown project';
+
+  return (
+    <Card className="print:border-0 print:shadow-none">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <CardTitle className="text-base">
+          Timesheet {format(weekStart, 'MMM d')} - {format(days[6], 'MMM d, yyyy')}
+        </CardTitle>
+        <div className="flex items-center gap-1 print:hidden">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(addWeeks(weekStart, -1))} aria-label="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(addWeeks(weekStart, 1))} aria-label="Next week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Task</TableHead>
+              {days.map(day => (
+                <TableHead key={day.toString()} className="text-right whitespace-nowrap">
+                  {format(day, 'EEE d')}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <React.Fragment key={row.task.id}>
+                {/* Rows are sorted by project, so each project gets a heading */}
+                {(index === 0 || rows[index - 1].projectId !== row.projectId) && (
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={9} className="py-1.5 text-xs font-medium text-muted-foreground">
+                      {getProjectName(row.projectId)}
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell>{row.task.title}</TableCell>
+                  {row.minutesByDay.map((minutes, dayIndex) => (
+                    <TableCell key={dayIndex} className="text-right tabular-nums">{formatCell(minutes)}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium tabular-nums">{formatMinutes(row.minutes)}</TableCell>
+                </TableRow>
+              </React.Fragment>
+            ))}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No time tracked this week
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              {dayTotals.map((minutes, dayIndex) => (
+                <TableCell key={dayIndex} className="text-right tabular-nums">{formatCell(minutes)}</TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums">{formatMinutes(weekTotal)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyTimesheet;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskContext } from '@/context/TaskContext';
+import { CalendarFeed } from '@/context/TaskTypes';
+import {
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getCalendarFeedUrl,
+  getCalendarFeeds,
+  regenerateCalendarFeedToken,
+} from '@/services/calendarFeedService';
+import { toast } from 'sonner';
+
+const ALL_PROJECTS = 'all';
+
+interface CalendarFeedsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CalendarFeedsDialog: React.FC<CalendarFeedsDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { projects } = useTaskContext();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [projectId, setProjectId] = useState(ALL_PROJECTS);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    getCalendarFeeds()
+      .then(setFeeds)
+      .catch(error => console.error('Error loading calendar feeds:', error))
+      .finally(() => setIsLoading(false));
+  }, [open]);
+
+  const getProjectName = (feed: CalendarFeed) =>
+    feed.projectId ? projects.find(p => p.id === feed.projectId)?.name || 'Deleted project' : 'All projects';
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const project = projects.find(p => p.id === projectId);
+      const feedName = name.trim() || (project ? `Khonja - ${project.name}` : 'Khonja');
+      const feed = await createCalendarFeed(feedName, project?.id);
+      setFeeds([...feeds, feed]);
+      setName('');
+      setProjectId(ALL_PROJECTS);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(feed));
+      toast.success('Feed URL copied');
+    } catch (error) {
+      toast.error('Could not copy the URL');
+    }
+  };
+
+  const handleRegenerate = async (feed: CalendarFeed) => {
+    try {
+      const updatedFeed = await regenerateCalendarFeedToken(feed.id);
+      setFeeds(feeds.map(f => (f.id === feed.id ? updatedFeed : f)));
+      toast.success('Feed URL reset. Subscribe again with the new URL.');
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error);
+    }
+  };
+
+  const handleDelete = async (feed: CalendarFeed) => {
+    try {
+      await deleteCalendarFeed(feed.id);
+      setFeeds(feeds.filter(f => f.id !== feed.id));
+      toast.success('Feed revoked');
+    } catch (error) {
+      console.error('Error deleting calendar feed:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Calendar Feeds</DialogTitle>
+          <DialogDescription>
+            Subscribe to these URLs in a calendar app to see your scheduled tasks and time
+            blocks there. Anyone with a URL can read its feed; reset or revoke it if it leaks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading feeds...</div>
+          ) : feeds.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No feeds yet.</div>
+          ) : (
+            <div className="space-y-3">
+              {feeds.map(feed => (
+                <div key={feed.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{feed.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {getProjectName(feed)} · {feed.lastAccessedAt
+                          ? `Last fetched ${formatDistanceToNow(feed.lastAccessedAt, { addSuffix: true })}`
+                          : 'Never fetched'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" title="Reset URL" onClick={() => handleRegenerate(feed)}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Revoke" onClick={() => handleDelete(feed)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input readOnly value={getCalendarFeedUrl(feed)} className="h-8 text-xs" onFocus={e => e.target.select()} />
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(feed)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-2">
+            <Label>New feed</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Name (optional)"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger className="sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreate} disabled={isCreating}>
+                {isCreating ? 'Creating...' : 'Create'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedsDialog;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatTimeZone, getTimeZones } from '@/lib/timezone-utils';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onValueChange: (timeZone: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({
+  value,
+  onValueChange,
+  disabled,
+  className
+}) => {
+  // Zones saved on another device may not be in this runtime's list
+  const timeZones = useMemo(() => {
+    const zones = getTimeZones();
+    return zones.includes(value) ? zones : [value, ...zones];
+  }, [value]);
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select time zone" />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {timeZones.map(timeZone => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {formatTimeZone(timeZone)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimeZoneSelect;
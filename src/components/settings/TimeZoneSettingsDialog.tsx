@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useViewModeContext } from '@/context/TaskContext';
+import { getBrowserTimeZone } from '@/lib/timezone-utils';
+import TimeZoneSelect from './TimeZoneSelect';
+
+interface TimeZoneSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TimeZoneSettingsDialog: React.FC<TimeZoneSettingsDialogProps> = ({
+  open,
+  onOpenChange
+}) => {
+  const { timeZone, setTimeZone } = useViewModeContext();
+  const [selectedTimeZone, setSelectedTimeZone] = useState(timeZone);
+  const browserTimeZone = getBrowserTimeZone();
+
+  useEffect(() => {
+    if (open) {
+      setSelectedTimeZone(timeZone);
+    }
+  }, [open, timeZone]);
+
+  const handleSave = () => {
+    setTimeZone(selectedTimeZone);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Time Zone</DialogTitle>
+          <DialogDescription>
+            The calendar is shown in this zone and new tasks are due in it. Tasks keep
+            the zone they were scheduled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Label>Default time zone</Label>
+          <TimeZoneSelect
+            value={selectedTimeZone}
+            onValueChange={setSelectedTimeZone}
+            className="w-full"
+          />
+          {selectedTimeZone !== browserTimeZone && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => setSelectedTimeZone(browserTimeZone)}
+            >
+              Use this device's zone ({browserTimeZone})
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimeZoneSettingsDialog;
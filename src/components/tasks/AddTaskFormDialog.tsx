@@ -25,6 +25,8 @@ import { CalendarIcon, Clock, Repeat } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import RecurrenceSettingsForm from './RecurrenceSettingsForm';
+import LabelPicker from './LabelPicker';
+import TaskLabels from './TaskLabels';
 import { RecurrencePattern } from '@/context/TaskTypes';
 import { Separator } from '../ui/separator';
 
@@ -49,6 +51,7 @@ const AddTaskFormDialog: React.FC<AddTaskFormDialogProps> = ({
   const [notes, setNotes] = useState('');
   const [estimatedHours, setEstimatedHours] = useState<number | ''>('');
   const [estimatedMinutes, setEstimatedMinutes] = useState<number | ''>('');
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   
   // Recurrence states
   const [isRecurring, setIsRecurring] = useState(false);
@@ -66,6 +69,7 @@ const AddTaskFormDialog: React.FC<AddTaskFormDialogProps> = ({
     setNotes('');
     setEstimatedHours('');
     setEstimatedMinutes('');
+    setLabelIds([]);
     setIsRecurring(false);
     setRecurrencePattern({
       frequency: 'daily',
@@ -91,6 +95,7 @@ const AddTaskFormDialog: React.FC<AddTaskFormDialogProps> = ({
       dueDate,
       notes,
       estimatedTime: totalMinutes > 0 ? totalMinutes : undefined,
+      labelIds,
       isRecurring: isRecurring,
       recurrencePattern: isRecurring ? recurrencePattern : undefined
     });
@@ -227,6 +232,14 @@ const AddTaskFormDialog: React.FC<AddTaskFormDialogProps> = ({
           </div>
         </div>
         
+        <div className="space-y-2">
+          <Label>Labels (Optional)</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <TaskLabels labelIds={labelIds} />
+            <LabelPicker selectedIds={labelIds} onChange={setLabelIds} />
+          </div>
+        </div>
+        
         <Separator />
         
         <RecurrenceSettingsForm
@@ -234,6 +247,7 @@ const AddTaskFormDialog: React.FC<AddTaskFormDialogProps> = ({
           onEnabledChange={setIsRecurring}
           pattern={recurrencePattern}
           onPatternChange={setRecurrencePattern}
+          startDate={dueDate}
         />
         
         <div className="space-y-2">
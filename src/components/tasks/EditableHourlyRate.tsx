@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, X } from 'lucide-react';
+
+interface EditableHourlyRateProps {
+  rate?: number;
+  currency: string;
+  onSave: (rate: number | undefined) => void;
+  onCancel: () => void;
+}
+
+export const EditableHourlyRate: React.FC<EditableHourlyRateProps> = ({
+  rate,
+  currency,
+  onSave,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(rate?.toString() || '');
+  const isValid = !value || parseFloat(value) >= 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-[120px]"
+        placeholder="Project rate"
+      />
+      <span className="text-sm text-muted-foreground">{currency} / hour</span>
+      <Button
+        size="icon"
+        variant="ghost"
+        disabled={!isValid}
+        onClick={() => onSave(value ? parseFloat(value) : undefined)}
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" onClick={onCancel}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
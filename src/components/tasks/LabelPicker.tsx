@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useTaskContext } from '@/context/TaskContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { Plus, Tag } from 'lucide-react';
+import { labelColors } from '@/lib/label-utils';
+import { cn } from '@/lib/utils';
+
+interface LabelPickerProps {
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+  triggerClassName?: string;
+}
+
+const LabelPicker: React.FC<LabelPickerProps> = ({ selectedIds, onChange, triggerClassName }) => {
+  const { labels, addLabel } = useTaskContext();
+  const [newLabelName, setNewLabelName] = useState('');
+  const [newLabelColor, setNewLabelColor] = useState(labelColors[0]);
+
+  // Label IDs are kept sorted so the same selection always compares equal
+  const setSelection = (labelIds: string[]) => {
+    onChange([...labelIds].sort());
+  };
+
+  const handleToggle = (labelId: string, checked: boolean) => {
+    setSelection(
+      checked
+        ? [...selectedIds, labelId]
+        : selectedIds.filter(id => id !== labelId)
+    );
+  };
+
+  const handleCreate = () => {
+    const name = newLabelName.trim();
+    if (!name) return;
+
+    const existing = labels.find(label => label.name.toLowerCase() === name.toLowerCase());
+    const label = existing ?? addLabel({ name, color: newLabelColor });
+
+    if (!selectedIds.includes(label.id)) {
+      setSelection([...selectedIds, label.id]);
+    }
+    setNewLabelName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className={cn('h-8', triggerClassName)}>
+          <Tag className="mr-2 h-4 w-4" />
+          {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Add labels'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="start">
+        {labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No labels yet.</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {labels.map(label => (
+              <label key={label.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selectedIds.includes(label.id)}
+                  onCheckedChange={(checked) => handleToggle(label.id, checked === true)}
+                />
+                <span
+                  className="h-2.5 w-2.5 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: label.color }}
+                />
+                <span className="truncate">{label.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <Separator className="my-3" />
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={newLabelName}
+              onChange={(e) => setNewLabelName(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter would otherwise submit the surrounding task form
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New label"
+              className="h-8"
+            />
+            <Button
+              type="button"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={handleCreate}
+              disabled={!newLabelName.trim()}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {labelColors.map(color => (
+              <button
+                key={color}
+                type="button"
+                className={cn(
+                  'h-5 w-5 rounded-full border-2',
+                  newLabelColor === color ? 'border-foreground' : 'border-transparent'
+                )}
+                style={{ backgroundColor: color }}
+                onClick={() => setNewLabelColor(color)}
+                aria-label={`Use color ${color}`}
+              />
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LabelPicker;
@@ -1,6 +1,5 @@
-
 import React, { useState, useEffect } from 'react';
-import { RecurrencePattern } from '@/context/TaskTypes';
+import { RecurrenceMode, RecurrencePattern } from '@/context/TaskTypes';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import {
@@ -18,13 +17,15 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { format } from 'date-fns';
 import { CalendarIcon, ChevronDown, ChevronUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { formatRecurrencePattern } from '@/lib/recurrence-utils';
+import { formatRecurrencePattern, getRecurrenceRule, toRecurrencePattern } from '@/lib/recurrence-utils';
+import { RRule, RRuleFrequency, RRuleWeekday, formatRRule, parseRRule } from '@/lib/rrule';
 
 interface RecurrenceSettingsFormProps {
   enabled: boolean;
   onEnabledChange: (enabled: boolean) => void;
   pattern?: RecurrencePattern;
   onPatternChange: (pattern: RecurrencePattern) => void;
+  startDate?: Date; // Due date of the task; the defaults of the rule follow it
 }
 
 const defaultPattern: RecurrencePattern = {
@@ -32,92 +33,150 @@ const defaultPattern: RecurrencePattern = {
   interval: 1
 };
 
+const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const months = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const WEEKDAYS: RRuleWeekday[] = [1, 2, 3, 4, 5].map(weekday => ({ weekday }));
+const WEEKEND_DAYS: RRuleWeekday[] = [6, 0].map(weekday => ({ weekday }));
+
+const ordinalOptions = [
+  { value: '1', label: 'first' },
+  { value: '2', label: 'second' },
+  { value: '3', label: 'third' },
+  { value: '4', label: 'fourth' },
+  { value: '-1', label: 'last' },
+];
+
+const monthDayOptions = [
+  ...Array.from({ length: 31 }, (_, i) => ({ value: String(i + 1), label: String(i + 1) })),
+  { value: '-1', label: 'Last day' },
+  { value: '-2', label: 'Second to last day' },
+];
+
+// Day choice for "on the <ordinal> <day>": a weekday number, or 'weekday' / 'weekend' picked with BYSETPOS
+type NthDayValue = string;
+
+const sameDays = (byDay: RRuleWeekday[] | undefined, set: RRuleWeekday[]) =>
+  !!byDay &&
+  byDay.length === set.length &&
+  byDay.every(day => !day.ordinal && set.some(setDay => setDay.weekday === day.weekday));
+
+// The "on the second Tuesday" reading of a rule, or null when the simple controls cannot show it
+const getNthDay = (rule: RRule): { ordinal: number; day: NthDayValue } | null => {
+  if (rule.byDay?.length === 1 && rule.byDay[0].ordinal && !rule.bySetPos && !rule.byMonthDay) {
+    return { ordinal: rule.byDay[0].ordinal, day: String(rule.byDay[0].weekday) };
+  }
+  if (rule.bySetPos?.length === 1 && !rule.byMonthDay) {
+    if (sameDays(rule.byDay, WEEKDAYS)) return { ordinal: rule.bySetPos[0], day: 'weekday' };
+    if (sameDays(rule.byDay, WEEKEND_DAYS)) return { ordinal: rule.bySetPos[0], day: 'weekend' };
+  }
+  return null;
+};
+
+const toNthDayRule = (ordinal: number, day: NthDayValue): Partial<RRule> => {
+  if (day === 'weekday') return { byDay: WEEKDAYS, bySetPos: [ordinal], byMonthDay: undefined };
+  if (day === 'weekend') return { byDay: WEEKEND_DAYS, bySetPos: [ordinal], byMonthDay: undefined };
+  return { byDay: [{ weekday: Number(day), ordinal }], bySetPos: undefined, byMonthDay: undefined };
+};
+
 const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
   enabled,
   onEnabledChange,
   pattern,
-  onPatternChange
+  onPatternChange,
+  startDate
 }) => {
-  const [localPattern, setLocalPattern] = useState<RecurrencePattern>(pattern || defaultPattern);
+  const [rule, setRule] = useState<RRule>(() => getRecurrenceRule(pattern || defaultPattern, startDate));
+  const [mode, setMode] = useState<RecurrenceMode>(pattern?.mode ?? 'schedule');
   const [showDetails, setShowDetails] = useState(false);
   const [endType, setEndType] = useState<'never' | 'on' | 'after'>('never');
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [rruleText, setRruleText] = useState(() => formatRRule(rule));
+  const [rruleError, setRruleError] = useState<string | null>(null);
 
   const [tempEndDate, setTempEndDate] = useState<Date | undefined>(pattern?.endDate);
   const [tempOccurrences, setTempOccurrences] = useState<number | undefined>(pattern?.occurrences);
 
   useEffect(() => {
-    if (pattern) {
-      setLocalPattern(pattern);
-      if (pattern.endDate) {
-        setEndType('on');
-        setTempEndDate(pattern.endDate);
-      } else if (pattern.occurrences) {
-        setEndType('after');
-        setTempOccurrences(pattern.occurrences);
-      } else {
-        setEndType('never');
-      }
+    const currentRule = getRecurrenceRule(pattern || defaultPattern, startDate);
+    setRule(currentRule);
+    setMode(pattern?.mode ?? 'schedule');
+    setRruleText(formatRRule(currentRule));
+    setRruleError(null);
+
+    if (currentRule.until) {
+      setEndType('on');
+      setTempEndDate(currentRule.until);
+    } else if (currentRule.count) {
+      setEndType('after');
+      setTempOccurrences(currentRule.count);
     } else {
-      setLocalPattern(defaultPattern);
+      setEndType('never');
     }
-  }, [pattern]);
+  }, [pattern, startDate]);
 
-  const updatePatternAndNotify = (updates: Partial<RecurrencePattern>) => {
-    const updatedPattern = { ...localPattern, ...updates };
-    setLocalPattern(updatedPattern);
-    onPatternChange(updatedPattern);
+  const applyRuleAndNotify = (updatedRule: RRule, updatedMode: RecurrenceMode = mode) => {
+    setRule(updatedRule);
+    setMode(updatedMode);
+    setRruleText(formatRRule(updatedRule));
+    setRruleError(null);
+    onPatternChange({ ...toRecurrencePattern(updatedRule), mode: updatedMode });
   };
 
-  const handleFrequencyChange = (frequency: 'daily' | 'weekly' | 'monthly' | 'yearly') => {
-    const updated = { ...localPattern, frequency };
-    
-    if (frequency !== 'weekly') {
-      delete updated.daysOfWeek;
-    }
-    
-    if (frequency !== 'monthly') {
-      delete updated.dayOfMonth;
-    }
-    
-    if (frequency !== 'yearly') {
-      delete updated.monthOfYear;
-      delete updated.dayOfMonth;
-    }
-    
-    updatePatternAndNotify(updated);
+  const updateRuleAndNotify = (updates: Partial<RRule>) => {
+    applyRuleAndNotify({ ...rule, ...updates });
+  };
+
+  const handleFrequencyChange = (freq: RRuleFrequency) => {
+    updateRuleAndNotify({
+      freq,
+      byDay: undefined,
+      byMonthDay: undefined,
+      byMonth: freq === 'YEARLY' && mode === 'schedule' && startDate ? [startDate.getMonth() + 1] : undefined,
+      bySetPos: undefined,
+      wkst: undefined,
+    });
+  };
+
+  const handleModeChange = (value: RecurrenceMode) => {
+    // Counting from the completion only uses the frequency and interval
+    const updatedRule = value === 'afterCompletion'
+      ? { ...rule, byDay: undefined, byMonthDay: undefined, byMonth: undefined, bySetPos: undefined, wkst: undefined }
+      : rule;
+    applyRuleAndNotify(updatedRule, value);
   };
 
   const handleToggleDay = (day: number) => {
-    const daysOfWeek = localPattern.daysOfWeek || [];
-    const updated = daysOfWeek.includes(day)
-      ? daysOfWeek.filter(d => d !== day)
-      : [...daysOfWeek, day].sort();
-      
-    updatePatternAndNotify({ daysOfWeek: updated });
+    const selectedDays = (rule.byDay || []).map(d => d.weekday);
+    const updated = selectedDays.includes(day)
+      ? selectedDays.filter(d => d !== day)
+      : [...selectedDays, day].sort();
+
+    updateRuleAndNotify({ byDay: updated.length > 0 ? updated.map(weekday => ({ weekday })) : undefined });
   };
 
   const handleEndTypeChange = (value: 'never' | 'on' | 'after') => {
     setEndType(value);
-    
-    let updates: Partial<RecurrencePattern> = {};
-    
-    delete updates.endDate;
-    delete updates.occurrences;
-    
+
+    const updates: Partial<RRule> = { until: undefined, count: undefined };
+
     if (value === 'on' && tempEndDate) {
-      updates.endDate = tempEndDate;
+      updates.until = tempEndDate;
     } else if (value === 'after' && tempOccurrences) {
-      updates.occurrences = tempOccurrences;
+      updates.count = tempOccurrences;
     }
-    
-    updatePatternAndNotify(updates);
+
+    updateRuleAndNotify(updates);
   };
 
   const handleEndDateChange = (date: Date | undefined) => {
     if (date) {
       setTempEndDate(date);
-      updatePatternAndNotify({ endDate: date, occurrences: undefined });
+      updateRuleAndNotify({ until: date, count: undefined });
     }
     setIsCalendarOpen(false);
   };
@@ -126,79 +185,187 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
     const occurrences = parseInt(value, 10);
     if (!isNaN(occurrences) && occurrences > 0) {
       setTempOccurrences(occurrences);
-      updatePatternAndNotify({ occurrences, endDate: undefined });
+      updateRuleAndNotify({ count: occurrences, until: undefined });
+    }
+  };
+
+  const handleRRuleCommit = () => {
+    if (rruleText === formatRRule(rule)) return;
+
+    try {
+      const parsedRule = parseRRule(rruleText);
+      setEndType(parsedRule.until ? 'on' : parsedRule.count ? 'after' : 'never');
+      setTempEndDate(parsedRule.until);
+      setTempOccurrences(parsedRule.count);
+      applyRuleAndNotify(parsedRule);
+    } catch (error) {
+      setRruleError(error instanceof Error ? error.message : 'Invalid RRULE');
     }
   };
 
+  const renderDayOfPeriodOptions = () => {
+    const nthDay = getNthDay(rule);
+    const isCustom = !nthDay && (!!rule.byDay || !!rule.bySetPos || (rule.byMonthDay?.length ?? 0) > 1);
+    const mode = nthDay ? 'nth' : 'day';
+    const defaultDay = startDate?.getDate() ?? 1;
+
+    if (isCustom) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          This rule uses options that can only be changed in the RRULE field below.
+        </p>
+      );
+    }
+
+    return (
+      <RadioGroup
+        value={mode}
+        onValueChange={(value) => {
+          if (value === 'nth') {
+            updateRuleAndNotify(toNthDayRule(1, String(startDate?.getDay() ?? 1)));
+          } else {
+            updateRuleAndNotify({ byDay: undefined, bySetPos: undefined, byMonthDay: [defaultDay] });
+          }
+        }}
+        className="space-y-2"
+      >
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="day" id="on-day" />
+          <Label htmlFor="on-day">On day</Label>
+          <Select
+            value={String(rule.byMonthDay?.[0] ?? defaultDay)}
+            onValueChange={(value) => updateRuleAndNotify({
+              byMonthDay: [parseInt(value, 10)],
+              byDay: undefined,
+              bySetPos: undefined
+            })}
+            disabled={mode !== 'day'}
+          >
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthDayOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="nth" id="on-nth" />
+          <Label htmlFor="on-nth">On the</Label>
+          <Select
+            value={String(nthDay?.ordinal ?? 1)}
+            onValueChange={(value) => updateRuleAndNotify(
+              toNthDayRule(parseInt(value, 10), nthDay?.day ?? String(startDate?.getDay() ?? 1))
+            )}
+            disabled={mode !== 'nth'}
+          >
+            <SelectTrigger className="w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ordinalOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={nthDay?.day ?? String(startDate?.getDay() ?? 1)}
+            onValueChange={(value) => updateRuleAndNotify(toNthDayRule(nthDay?.ordinal ?? 1, value))}
+            disabled={mode !== 'nth'}
+          >
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                <SelectItem key={day} value={String(day)}>{dayNames[day]}</SelectItem>
+              ))}
+              <SelectItem value="weekday">weekday</SelectItem>
+              <SelectItem value="weekend">weekend day</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </RadioGroup>
+    );
+  };
+
   const renderFrequencyOptions = () => {
-    const { frequency } = localPattern;
-    
-    switch (frequency) {
-      case 'weekly':
-        const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-        const selectedDays = localPattern.daysOfWeek || [];
-        
+    switch (rule.freq) {
+      case 'DAILY':
         return (
-          <div className="mt-4">
-            <Label className="mb-2">Repeat on</Label>
-            <div className="flex flex-wrap gap-2">
-              {days.map((day, index) => (
-                <Button
-                  key={day}
-                  type="button"
-                  variant={selectedDays.includes(index) ? "default" : "outline"}
-                  className="w-10 h-10 p-0"
-                  onClick={() => handleToggleDay(index)}
-                >
-                  {day}
-                </Button>
-              ))}
+          <div className="flex items-center space-x-2 mt-4">
+            <Switch
+              id="weekdays-only"
+              checked={sameDays(rule.byDay, WEEKDAYS)}
+              onCheckedChange={(checked) => updateRuleAndNotify({ byDay: checked ? WEEKDAYS : undefined })}
+            />
+            <Label htmlFor="weekdays-only" className="cursor-pointer">Only on weekdays</Label>
+          </div>
+        );
+
+      case 'WEEKLY': {
+        const selectedDays = (rule.byDay || []).map(day => day.weekday);
+
+        return (
+          <div className="space-y-4 mt-4">
+            <div>
+              <Label className="mb-2">Repeat on</Label>
+              <div className="flex flex-wrap gap-2">
+                {days.map((day, index) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    variant={selectedDays.includes(index) ? "default" : "outline"}
+                    className="w-10 h-10 p-0"
+                    onClick={() => handleToggleDay(index)}
+                  >
+                    {day}
+                  </Button>
+                ))}
+              </div>
             </div>
+
+            {rule.interval > 1 && (
+              <div>
+                <Label htmlFor="week-start">Weeks start on</Label>
+                <Select
+                  value={String(rule.wkst ?? 1)}
+                  onValueChange={(value) => updateRuleAndNotify({ wkst: parseInt(value, 10) })}
+                >
+                  <SelectTrigger id="week-start" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                      <SelectItem key={day} value={String(day)}>{dayNames[day]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         );
-        
-      case 'monthly':
+      }
+
+      case 'MONTHLY':
         return (
           <div className="mt-4">
-            <Label htmlFor="day-of-month">Day of month</Label>
-            <Input
-              id="day-of-month"
-              type="number"
-              min="1"
-              max="31"
-              value={localPattern.dayOfMonth || ''}
-              onChange={(e) => {
-                const value = parseInt(e.target.value, 10);
-                if (!isNaN(value) && value > 0 && value <= 31) {
-                  updatePatternAndNotify({
-                    ...localPattern,
-                    dayOfMonth: value
-                  });
-                }
-              }}
-              placeholder="Day of month"
-              className="mt-1"
-            />
+            {renderDayOfPeriodOptions()}
           </div>
         );
-        
-      case 'yearly':
-        const months = [
-          'January', 'February', 'March', 'April', 'May', 'June',
-          'July', 'August', 'September', 'October', 'November', 'December'
-        ];
-        
+
+      case 'YEARLY':
         return (
           <div className="space-y-4 mt-4">
             <div>
               <Label htmlFor="month-of-year">Month</Label>
               <Select
-                value={localPattern.monthOfYear?.toString() || '0'}
+                value={String((rule.byMonth?.[0] ?? (startDate ? startDate.getMonth() + 1 : 1)) - 1)}
                 onValueChange={(value) => {
-                  updatePatternAndNotify({
-                    ...localPattern,
-                    monthOfYear: parseInt(value, 10)
-                  });
+                  updateRuleAndNotify({ byMonth: [parseInt(value, 10) + 1] });
                 }}
               >
                 <SelectTrigger id="month-of-year" className="mt-1">
@@ -213,31 +380,11 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
                 </SelectContent>
               </Select>
             </div>
-            
-            <div>
-              <Label htmlFor="day-of-month-yearly">Day</Label>
-              <Input
-                id="day-of-month-yearly"
-                type="number"
-                min="1"
-                max="31"
-                value={localPattern.dayOfMonth || ''}
-                onChange={(e) => {
-                  const value = parseInt(e.target.value, 10);
-                  if (!isNaN(value) && value > 0 && value <= 31) {
-                    updatePatternAndNotify({
-                      ...localPattern,
-                      dayOfMonth: value
-                    });
-                  }
-                }}
-                placeholder="Day of month"
-                className="mt-1"
-              />
-            </div>
+
+            {renderDayOfPeriodOptions()}
           </div>
         );
-        
+
       default:
         return null;
     }
@@ -255,39 +402,54 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
           Recurring task
         </Label>
       </div>
-      
+
       {enabled && (
         <div className="space-y-4 pt-2">
-          <Button 
-            variant="outline" 
+          <Button
+            variant="outline"
             type="button"
             className="w-full flex justify-between"
             onClick={() => setShowDetails(!showDetails)}
           >
-            <span>{formatRecurrencePattern(localPattern)}</span>
+            <span>{formatRecurrencePattern({ ...toRecurrencePattern(rule), mode })}</span>
             {showDetails ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
           </Button>
-          
+
           {showDetails && (
             <div className="space-y-4 pt-2 border-t">
+              <RadioGroup
+                value={mode}
+                onValueChange={(value) => handleModeChange(value as RecurrenceMode)}
+                className="space-y-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="schedule" id="mode-schedule" />
+                  <Label htmlFor="mode-schedule">On a schedule</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="afterCompletion" id="mode-after-completion" />
+                  <Label htmlFor="mode-after-completion">After completion</Label>
+                </div>
+              </RadioGroup>
+
               <div>
                 <Label htmlFor="frequency">Repeat</Label>
                 <Select
-                  value={localPattern.frequency}
-                  onValueChange={(value) => handleFrequencyChange(value as any)}
+                  value={rule.freq}
+                  onValueChange={(value) => handleFrequencyChange(value as RRuleFrequency)}
                 >
                   <SelectTrigger id="frequency" className="mt-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="daily">Daily</SelectItem>
-                    <SelectItem value="weekly">Weekly</SelectItem>
-                    <SelectItem value="monthly">Monthly</SelectItem>
-                    <SelectItem value="yearly">Yearly</SelectItem>
+                    <SelectItem value="DAILY">Daily</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                    <SelectItem value="YEARLY">Yearly</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              
+
               <div>
                 <Label htmlFor="interval">Every</Label>
                 <div className="flex items-center space-x-2 mt-1">
@@ -296,30 +458,31 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
                     type="number"
                     min="1"
                     max="999"
-                    value={localPattern.interval}
+                    value={rule.interval}
                     onChange={(e) => {
                       const value = parseInt(e.target.value, 10);
                       if (!isNaN(value) && value > 0) {
-                        updatePatternAndNotify({ interval: value });
+                        updateRuleAndNotify({ interval: value });
                       }
                     }}
                     className="w-20"
                   />
                   <span>
-                    {localPattern.frequency === 'daily' && 'day(s)'}
-                    {localPattern.frequency === 'weekly' && 'week(s)'}
-                    {localPattern.frequency === 'monthly' && 'month(s)'}
-                    {localPattern.frequency === 'yearly' && 'year(s)'}
+                    {rule.freq === 'DAILY' && 'day(s)'}
+                    {rule.freq === 'WEEKLY' && 'week(s)'}
+                    {rule.freq === 'MONTHLY' && 'month(s)'}
+                    {rule.freq === 'YEARLY' && 'year(s)'}
+                    {mode === 'afterCompletion' && ' after the task is completed'}
                   </span>
                 </div>
               </div>
-              
-              {renderFrequencyOptions()}
-              
+
+              {mode === 'schedule' && renderFrequencyOptions()}
+
               <div className="space-y-3">
                 <Label>Ends</Label>
-                <RadioGroup 
-                  value={endType} 
+                <RadioGroup
+                  value={endType}
                   onValueChange={handleEndTypeChange}
                   className="space-y-2"
                 >
@@ -327,12 +490,12 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
                     <RadioGroupItem value="never" id="end-never" />
                     <Label htmlFor="end-never">Never</Label>
                   </div>
-                  
+
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="on" id="end-on" />
                     <Label htmlFor="end-on">On date</Label>
                   </div>
-                  
+
                   {endType === 'on' && (
                     <div className="ml-6 mt-2">
                       <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
@@ -360,12 +523,12 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
                       </Popover>
                     </div>
                   )}
-                  
+
                   <div className="flex items-center space-x-2">
                     <RadioGroupItem value="after" id="end-after" />
                     <Label htmlFor="end-after">After</Label>
                   </div>
-                  
+
                   {endType === 'after' && (
                     <div className="flex items-center ml-6 mt-2 space-x-2">
                       <Input
@@ -381,6 +544,26 @@ const RecurrenceSettingsForm: React.FC<RecurrenceSettingsFormProps> = ({
                   )}
                 </RadioGroup>
               </div>
+
+              <div>
+                <Label htmlFor="rrule">RRULE</Label>
+                <Input
+                  id="rrule"
+                  value={rruleText}
+                  onChange={(e) => setRruleText(e.target.value)}
+                  onBlur={handleRRuleCommit}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleRRuleCommit();
+                    }
+                  }}
+                  className="mt-1 font-mono text-xs"
+                />
+                {rruleError && (
+                  <p className="text-xs text-destructive mt-1">{rruleError}</p>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Task } from '@/context/TaskTypes';
+import { useTaskContext } from '@/context/TaskContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { CheckCircle2, Lock, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { flattenTasks, getBlockedTasks, getTasksById, wouldCreateCycle } from '@/lib/dependency-utils';
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task }) => {
+  const { tasks, projects, updateTask } = useTaskContext();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const tasksById = getTasksById(tasks);
+  const blockedByIds = task.blockedByIds || [];
+  const blockers = blockedByIds
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task => !!blocker);
+  const blockedTasks = getBlockedTasks(task.id, tasksById);
+
+  const candidates = flattenTasks(tasks).filter(
+    candidate => candidate.id !== task.id && !blockedByIds.includes(candidate.id)
+  );
+
+  const getProjectName = (projectId: string) =>
+    projects.find(project => project.id === projectId)?.name;
+
+  const handleAddBlocker = (blocker: Task) => {
+    if (wouldCreateCycle(task.id, blocker.id, tasksById)) {
+      toast.error(`"${blocker.title}" already waits on "${task.title}", so it can't block it too`);
+      return;
+    }
+
+    updateTask({
+      ...task,
+      blockedByIds: [...blockedByIds, blocker.id].sort()
+    });
+    setIsPickerOpen(false);
+  };
+
+  const handleRemoveBlocker = (blockerId: string) => {
+    updateTask({
+      ...task,
+      blockedByIds: blockedByIds.filter(id => id !== blockerId)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <p className="text-sm text-muted-foreground">Blocked by</p>
+          <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-0" align="end">
+              <Command>
+                <CommandInput placeholder="Search tasks..." />
+                <CommandList>
+                  <CommandEmpty>No tasks found.</CommandEmpty>
+                  <CommandGroup>
+                    {candidates.map(candidate => (
+                      <CommandItem
+                        key={candidate.id}
+                        value={`${candidate.title} ${candidate.id}`}
+                        onSelect={() => handleAddBlocker(candidate)}
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate">{candidate.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {getProjectName(candidate.projectId)}
+                          </p>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {blockers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing</p>
+        ) : (
+          <div className="space-y-1">
+            {blockers.map(blocker => (
+              <div key={blocker.id} className="flex items-center gap-2 text-sm">
+                {blocker.completed ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                ) : (
+                  <Lock className="h-4 w-4 text-red-600 flex-shrink-0" />
+                )}
+                <span className={`truncate ${blocker.completed ? 'line-through text-muted-foreground' : ''}`}>
+                  {blocker.title}
+                </span>
+                {blocker.projectId !== task.projectId && (
+                  <Badge variant="outline" className="text-xs shrink-0">
+                    {getProjectName(blocker.projectId)}
+                  </Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 ml-auto"
+                  onClick={() => handleRemoveBlocker(blocker.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {blockedTasks.length > 0 && (
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Blocks</p>
+          <div className="space-y-1">
+            {blockedTasks.map(blockedTask => (
+              <div key={blockedTask.id} className="text-sm truncate">
+                {blockedTask.title}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Task, RecurrencePattern, Priority } from "@/context/TaskTypes";
-import { CalendarDays, Clock, Edit2, List, Repeat } from "lucide-react";
+import { CalendarDays, Clock, DollarSign, Edit2, List, Repeat } from "lucide-react";
 import { format } from 'date-fns';
 import { formatMinutes } from '@/lib/time-utils';
 import TrackingHistory from '@/components/time-tracking/TrackingHistory';
@@ -11,48 +11,104 @@ import { getPriorityColor, getPriorityLabel } from '@/lib/priority-utils';
 import { EditablePriority } from './EditablePriority';
 import { EditableDateTime } from './EditableDateTime';
 import { EditableEstimatedTime } from './EditableEstimatedTime';
+import { EditableHourlyRate } from './EditableHourlyRate';
 import { EditableDescription } from './EditableDescription';
 import RecurrenceSettingsForm from './RecurrenceSettingsForm';
 import { Separator } from '../ui/separator';
-import { formatRecurrencePattern } from '@/lib/recurrence-utils';
+import { formatRecurrencePattern, isAfterCompletionRecurrence } from '@/lib/recurrence-utils';
+import { flattenTasks } from '@/lib/dependency-utils';
+import TaskLabels from './TaskLabels';
+import LabelPicker from './LabelPicker';
+import TaskDependencies from './TaskDependencies';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getProjectStatuses, getTaskStatus } from '@/lib/status-utils';
+import { fromCalendarDay, getCalendarDay } from '@/lib/timezone-utils';
+import TimeZoneSelect from '@/components/settings/TimeZoneSelect';
+import { DEFAULT_CURRENCY, formatCurrency, getHourlyRate } from '@/lib/invoice-utils';
 
 interface TaskDetailsContentProps {
   task: Task;
 }
 
 export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
-  const { updateTask } = useTaskContext();
+  const { tasks, projects, updateTask, updateRecurringTask, projectStatuses } = useTaskContext();
   const { timeTrackings } = useTimeTrackingContext();
 
   const [editingPriority, setEditingPriority] = useState(false);
   const [editingDueDate, setEditingDueDate] = useState(false);
   const [editingDescription, setEditingDescription] = useState(false);
   const [editingEstimatedTime, setEditingEstimatedTime] = useState(false);
+  const [editingHourlyRate, setEditingHourlyRate] = useState(false);
   const [editingRecurrence, setEditingRecurrence] = useState(false);
+  const [editScope, setEditScope] = useState<'single' | 'future' | 'all'>('single');
+
+  // Generated occurrences of a recurring task can be edited alone or together with the series
+  const isOccurrence = !!task.recurrenceParentId && !!task.recurrenceDate;
+  const saveTask = (updatedTask: Task) => {
+    if (isOccurrence && editScope !== 'single') {
+      updateRecurringTask(updatedTask, editScope);
+    } else {
+      updateTask(updatedTask);
+    }
+  };
+
+  // The due day and time slot are edited in the task's own zone
+  const dueDay = task.dueDate && getCalendarDay(task.dueDate, task.timeZone);
+
+  // Without a rate of its own, the task is billed at its parent's or project's rate
+  const project = projects.find(p => p.id === task.projectId);
+  const currency = project?.currency || DEFAULT_CURRENCY;
+  const hourlyRate = getHourlyRate(task, new Map(flattenTasks(tasks).map(t => [t.id, t])), project);
+
+  const statuses = getProjectStatuses(task.projectId, projectStatuses);
+  const currentStatus = getTaskStatus(task, projectStatuses);
+
+  // Occurrences split off when an after-completion task was completed, latest first
+  const completedOccurrences = isAfterCompletionRecurrence(task)
+    ? flattenTasks(tasks)
+        .filter(t => t.recurrenceParentId === task.id)
+        .sort((a, b) => (b.dueDate?.getTime() ?? 0) - (a.dueDate?.getTime() ?? 0))
+    : [];
 
   const taskTimeTrackings = timeTrackings.filter(
     (tracking) => tracking.taskId === task.id
   );
 
   const handleUpdatePriority = (newPriority: Priority) => {
-    updateTask({
+    saveTask({
       ...task,
       priority: newPriority
     });
     setEditingPriority(false);
   };
 
+  const handleUpdateStatus = (newStatus: string) => {
+    saveTask({
+      ...task,
+      status: newStatus
+    });
+  };
+
   const handleUpdateDueDate = (newDate: Date | undefined, newTimeSlot?: string) => {
-    updateTask({
+    saveTask({
       ...task,
-      dueDate: newDate,
+      dueDate: newDate && fromCalendarDay(newDate, task.timeZone),
       timeSlot: newTimeSlot
     });
     setEditingDueDate(false);
   };
 
+  // Keeps the due day and time slot, now read in the new zone
+  const handleUpdateTimeZone = (newTimeZone: string) => {
+    saveTask({
+      ...task,
+      dueDate: dueDay && fromCalendarDay(dueDay, newTimeZone),
+      timeZone: newTimeZone
+    });
+  };
+
   const handleUpdateDescription = (newDescription: string) => {
-    updateTask({
+    saveTask({
       ...task,
       description: newDescription
     });
@@ -60,13 +116,28 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
   };
 
   const handleUpdateEstimatedTime = (newEstimatedTime: number | undefined) => {
-    updateTask({
+    saveTask({
       ...task,
       estimatedTime: newEstimatedTime
     });
     setEditingEstimatedTime(false);
   };
 
+  const handleUpdateHourlyRate = (newHourlyRate: number | undefined) => {
+    saveTask({
+      ...task,
+      hourlyRate: newHourlyRate
+    });
+    setEditingHourlyRate(false);
+  };
+
+  const handleUpdateLabels = (labelIds: string[]) => {
+    saveTask({
+      ...task,
+      labelIds
+    });
+  };
+
   const handleUpdateRecurrence = (enabled: boolean, pattern?: RecurrencePattern) => {
     if (task.recurrenceParentId) {
       // This is an instance, we should detach it from recurrence
@@ -95,7 +166,7 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
           <div className="flex items-center mt-2 text-sm text-primary">
             <Repeat className="mr-1 h-4 w-4" />
             {task.isRecurring && task.recurrencePattern && (
-              <span>{formatRecurrencePattern(task.recurrencePattern)}</span>
+              <span>{formatRecurrencePattern(task.recurrencePattern, dueDay)}</span>
             )}
             {task.recurrenceParentId && (
               <span>Recurring task instance</span>
@@ -111,6 +182,29 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
           </div>
         )}
         
+        {isOccurrence && !editingRecurrence && (
+          <div className="flex items-center gap-2 mt-2 text-sm">
+            <span className="text-muted-foreground">Apply changes to</span>
+            <Select value={editScope} onValueChange={(value) => setEditScope(value as 'single' | 'future' | 'all')}>
+              <SelectTrigger className="h-8 w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">This occurrence</SelectItem>
+                <SelectItem value="future">This and future occurrences</SelectItem>
+                <SelectItem value="all">All occurrences</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        {completedOccurrences.length > 0 && !editingRecurrence && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Completed {completedOccurrences.length} {completedOccurrences.length === 1 ? 'time' : 'times'}
+            {completedOccurrences[0].dueDate && `, last due ${format(completedOccurrences[0].dueDate, 'MMM d, yyyy')}`}
+          </p>
+        )}
+        
         {editingRecurrence && (
           <div className="mt-4 border p-4 rounded-md">
             {task.recurrenceParentId ? (
@@ -133,6 +227,7 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
                   )}
                   pattern={task.recurrencePattern || { frequency: 'daily', interval: 1 }}
                   onPatternChange={(pattern) => handleUpdateRecurrence(true, pattern)}
+                  startDate={dueDay}
                 />
                 <div className="flex justify-end mt-4">
                   <Button variant="outline" onClick={() => setEditingRecurrence(false)}>
@@ -170,7 +265,7 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
           <p className="text-sm text-muted-foreground mb-1">Due Date</p>
           {editingDueDate ? (
             <EditableDateTime 
-              date={task.dueDate}
+              date={dueDay}
               timeSlot={task.timeSlot}
               onSave={handleUpdateDueDate}
               onCancel={() => setEditingDueDate(false)}
@@ -180,7 +275,7 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
               <div className="flex items-center gap-1">
                 <CalendarDays className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm">
-                  {task.dueDate ? format(new Date(task.dueDate), "MMM d, yyyy") : "Not set"}
+                  {dueDay ? format(dueDay, "MMM d, yyyy") : "Not set"}
                   {task.timeSlot && ` at ${task.timeSlot}`}
                 </span>
               </div>
@@ -192,6 +287,47 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
         </div>
       </div>
 
+      {task.dueDate && (
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Time Zone</p>
+          <TimeZoneSelect
+            value={task.timeZone ?? ''}
+            onValueChange={handleUpdateTimeZone}
+            disabled={isOccurrence && editScope === 'single'}
+            className="w-[260px]"
+          />
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm text-muted-foreground mb-1">Status</p>
+        <Select value={currentStatus.key} onValueChange={handleUpdateStatus}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Select status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map(status => (
+              <SelectItem key={status.key} value={status.key}>
+                <div className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: status.color }} />
+                  {status.name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <p className="text-sm text-muted-foreground mb-1">Labels</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <TaskLabels labelIds={task.labelIds} />
+          <LabelPicker selectedIds={task.labelIds || []} onChange={handleUpdateLabels} />
+        </div>
+      </div>
+
+      <TaskDependencies task={task} />
+
       <div>
         <div className="flex items-center justify-between mb-2">
           <p className="text-sm text-muted-foreground">Description</p>
@@ -241,6 +377,37 @@ export default function TaskDetailsContent({ task }: TaskDetailsContentProps) {
           />
         )}
       </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">Hourly Rate</p>
+          <div className="flex items-center">
+            {hourlyRate !== undefined ? (
+              <div className="flex items-center mr-2 text-sm">
+                <DollarSign className="h-4 w-4 mr-1 text-muted-foreground" />
+                <span>{formatCurrency(hourlyRate, currency)}</span>
+                {task.hourlyRate === undefined && (
+                  <span className="ml-1 text-muted-foreground">(inherited)</span>
+                )}
+              </div>
+            ) : null}
+            {!editingHourlyRate && (
+              <Button variant="ghost" size="icon" onClick={() => setEditingHourlyRate(true)}>
+                <Edit2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {editingHourlyRate && (
+          <EditableHourlyRate
+            rate={task.hourlyRate}
+            currency={currency}
+            onSave={handleUpdateHourlyRate}
+            onCancel={() => setEditingHourlyRate(false)}
+          />
+        )}
+      </div>
       
       {/* Separator between task details and tracking history */}
       <Separator />
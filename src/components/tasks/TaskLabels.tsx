@@ -0,0 +1,36 @@
+import React from 'react';
+import { useTaskContext } from '@/context/TaskContext';
+import { getLabelChipStyle, getTaskLabels } from '@/lib/label-utils';
+import { cn } from '@/lib/utils';
+
+interface TaskLabelsProps {
+  labelIds?: string[];
+  size?: 'sm' | 'xs';
+  className?: string;
+}
+
+const TaskLabels: React.FC<TaskLabelsProps> = ({ labelIds, size = 'sm', className }) => {
+  const { labels } = useTaskContext();
+  const taskLabels = getTaskLabels(labelIds, labels);
+
+  if (taskLabels.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {taskLabels.map(label => (
+        <span
+          key={label.id}
+          className={cn(
+            'inline-flex items-center rounded-full border font-medium truncate max-w-[10rem]',
+            size === 'xs' ? 'px-1 text-[10px] leading-tight' : 'px-2 py-0.5 text-xs'
+          )}
+          style={getLabelChipStyle(label.color)}
+        >
+          {label.name}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default TaskLabels;
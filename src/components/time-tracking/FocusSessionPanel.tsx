@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Coffee, SkipForward, Square, Target } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { FocusSession } from '@/context/TaskTypes';
+import { FocusSettings, getFocusPhaseLabel } from '@/lib/focus-utils';
+import { formatTimeDisplay } from '@/lib/time-utils';
+
+interface FocusSessionPanelProps {
+  focusSession: FocusSession;
+  focusSettings: FocusSettings;
+  onSkipPhase: () => void;
+  onStop: () => void;
+}
+
+const FocusSessionPanel: React.FC<FocusSessionPanelProps> = ({
+  focusSession,
+  focusSettings,
+  onSkipPhase,
+  onStop,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const start = focusSession.phaseStartedAt.getTime();
+  const end = focusSession.phaseEndsAt.getTime();
+  const remainingSeconds = Math.max(Math.ceil((end - now) / 1000), 0);
+  const isWork = focusSession.phase === 'work';
+  // The session in progress during work, the last completed one during a break
+  const sessionInCycle = (focusSession.completedSessions + (isWork ? 1 : 0) - 1) % focusSettings.sessionsBeforeLongBreak + 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          {isWork ? (
+            <Target className="h-5 w-5 text-primary animate-pulse" />
+          ) : (
+            <Coffee className="h-5 w-5 text-green-600" />
+          )}
+          <span className="font-medium">{getFocusPhaseLabel(focusSession.phase)}</span>
+          <span className="text-xl font-mono">{formatTimeDisplay(remainingSeconds)}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" onClick={onSkipPhase} className="gap-1">
+            <SkipForward className="h-4 w-4" />
+            {isWork ? 'Break' : 'Skip'}
+          </Button>
+          <Button variant="destructive" size="sm" onClick={onStop} className="gap-1">
+            <Square className="h-4 w-4" />
+            Stop
+          </Button>
+        </div>
+      </div>
+
+      <Progress value={end > start ? ((now - start) / (end - start)) * 100 : 100} className="h-2" />
+
+      <p className="text-sm text-muted-foreground">
+        {focusSession.completedSessions} session{focusSession.completedSessions !== 1 ? 's' : ''} completed
+        {' · '}
+        {sessionInCycle > 0
+          ? `${sessionInCycle} of ${focusSettings.sessionsBeforeLongBreak} before a long break`
+          : `Long break after ${focusSettings.sessionsBeforeLongBreak} sessions`}
+      </p>
+    </div>
+  );
+};
+
+export default FocusSessionPanel;
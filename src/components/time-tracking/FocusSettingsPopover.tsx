@@ -0,0 +1,58 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { FocusSettings } from '@/lib/focus-utils';
+
+interface FocusSettingsPopoverProps {
+  settings: FocusSettings;
+  onChange: (settings: FocusSettings) => void;
+}
+
+const FIELDS: { key: keyof FocusSettings; label: string; max: number }[] = [
+  { key: 'workMinutes', label: 'Focus (minutes)', max: 180 },
+  { key: 'shortBreakMinutes', label: 'Short break (minutes)', max: 60 },
+  { key: 'longBreakMinutes', label: 'Long break (minutes)', max: 120 },
+  { key: 'sessionsBeforeLongBreak', label: 'Sessions before a long break', max: 12 },
+];
+
+const FocusSettingsPopover: React.FC<FocusSettingsPopoverProps> = ({ settings, onChange }) => {
+  const handleChange = (key: keyof FocusSettings, value: string) => {
+    const number = parseInt(value, 10);
+    const field = FIELDS.find(f => f.key === key)!;
+    if (isNaN(number) || number < 1 || number > field.max) return;
+    onChange({ ...settings, [key]: number });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title="Focus settings">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-sm font-medium">Focus mode</p>
+        {FIELDS.map(field => (
+          <div key={field.key} className="flex items-center justify-between gap-2">
+            <Label htmlFor={`focus-${field.key}`} className="text-sm font-normal">{field.label}</Label>
+            <Input
+              id={`focus-${field.key}`}
+              type="number"
+              min="1"
+              max={field.max}
+              defaultValue={settings[field.key]}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+              className="h-8 w-16"
+            />
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">Changes apply from the next interval.</p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FocusSettingsPopover;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useTaskContext, useTimeTrackingContext } from '@/context/TaskContext';
+import { findTaskById, getRootTasks } from '@/context/TaskHelpers';
+import { getMinutesBetween } from '@/lib/idle-utils';
+import { formatMinutes } from '@/lib/time-utils';
+
+const formatAwayTime = (minutes: number): string =>
+  minutes < 60 ? `${minutes} minute${minutes !== 1 ? 's' : ''}` : formatMinutes(minutes);
+
+const IdleTimeDialog: React.FC = () => {
+  const { activeTimeTracking, idlePeriod, resolveIdleTime } = useTimeTrackingContext();
+  const { tasks } = useTaskContext();
+
+  const isOpen = !!idlePeriod && activeTimeTracking?.id === idlePeriod.trackingId;
+  if (!isOpen || !activeTimeTracking) return null;
+
+  const task = findTaskById(activeTimeTracking.taskId, getRootTasks(tasks));
+  const awayMinutes = getMinutesBetween(idlePeriod.awaySince, new Date());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && resolveIdleTime('keep')}>
+      <DialogContent className="max-w-[90vw] md:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            You were away {formatAwayTime(awayMinutes)}
+          </DialogTitle>
+          <DialogDescription>
+            The timer for "{task?.title ?? 'a task'}" kept running since {format(idlePeriod.awaySince, 'HH:mm')}.
+            What should happen to that time?
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="text-sm text-muted-foreground space-y-1">
+          <li><span className="font-medium text-foreground">Keep</span> counts it as work.</li>
+          <li><span className="font-medium text-foreground">Discard</span> stops the timer at {format(idlePeriod.awaySince, 'HH:mm')}.</li>
+          <li><span className="font-medium text-foreground">Split</span> saves it as a separate, non-billable entry and keeps the timer going.</li>
+        </ul>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => resolveIdleTime('discard')}>Discard</Button>
+          <Button variant="outline" onClick={() => resolveIdleTime('split')}>Split</Button>
+          <Button onClick={() => resolveIdleTime('keep')}>Keep</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IdleTimeDialog;
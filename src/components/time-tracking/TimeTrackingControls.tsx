@@ -1,20 +1,28 @@
 
 import React from 'react';
-import { Play } from 'lucide-react';
+import { Play, Target } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { FocusSettings } from '@/lib/focus-utils';
+import FocusSettingsPopover from './FocusSettingsPopover';
 
 interface TimeTrackingControlsProps {
   notes: string;
   onNotesChange: (value: string) => void;
   onStartTracking: () => void;
+  focusSettings: FocusSettings;
+  onFocusSettingsChange: (settings: FocusSettings) => void;
+  onStartFocus: () => void;
 }
 
 const TimeTrackingControls: React.FC<TimeTrackingControlsProps> = ({
   notes,
   onNotesChange,
   onStartTracking,
+  focusSettings,
+  onFocusSettingsChange,
+  onStartFocus,
 }) => {
   return (
     <div className="space-y-4">
@@ -29,7 +37,17 @@ const TimeTrackingControls: React.FC<TimeTrackingControlsProps> = ({
         />
       </div>
       
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        <FocusSettingsPopover settings={focusSettings} onChange={onFocusSettingsChange} />
+        <Button 
+          variant="outline"
+          onClick={onStartFocus}
+          className="gap-1"
+          title={`${focusSettings.workMinutes} minutes of focus, then a break`}
+        >
+          <Target className="h-4 w-4" />
+          Focus
+        </Button>
         <Button 
           onClick={onStartTracking}
           className="gap-1"
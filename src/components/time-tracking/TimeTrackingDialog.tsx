@@ -12,6 +12,8 @@ import ActiveTracking from './ActiveTracking';
 import TimeTrackingControls from './TimeTrackingControls';
 import TrackingHistory from './TrackingHistory';
 import ManualTimeEntry from './ManualTimeEntry';
+import FocusSessionPanel from './FocusSessionPanel';
+import { flattenTasks } from '@/lib/dependency-utils';
 
 interface TimeTrackingDialogProps {
   open: boolean;
@@ -30,14 +32,25 @@ const TimeTrackingDialog: React.FC<TimeTrackingDialogProps> = ({
     startTimeTracking, 
     stopTimeTracking,
     updateTimeTracking,
-    deleteTimeTracking
+    deleteTimeTracking,
+    focusSession,
+    focusSettings,
+    startFocusSession,
+    stopFocusSession,
+    skipFocusPhase,
+    updateFocusSettings
   } = useTimeTrackingContext();
+  const { tasks } = useTaskContext();
   
   const [notes, setNotes] = useState('');
   const [elapsedTime, setElapsedTime] = useState(0);
   
   const taskTrackings = timeTrackings.filter(tracking => tracking.taskId === task.id);
   const isCurrentlyTracking = activeTimeTracking && activeTimeTracking.taskId === task.id;
+  const isFocusing = focusSession?.taskId === task.id;
+  const otherFocusTask = focusSession && !isFocusing
+    ? flattenTasks(tasks).find(t => t.id === focusSession.taskId)
+    : undefined;
   
   useEffect(() => {
     if (!isCurrentlyTracking || !activeTimeTracking) return;
@@ -80,7 +93,14 @@ const TimeTrackingDialog: React.FC<TimeTrackingDialogProps> = ({
           <div className="border rounded-md p-4">
             <h3 className="text-lg font-medium mb-3">Track Time</h3>
             
-            {isCurrentlyTracking ? (
+            {focusSession && isFocusing ? (
+              <FocusSessionPanel
+                focusSession={focusSession}
+                focusSettings={focusSettings}
+                onSkipPhase={skipFocusPhase}
+                onStop={stopFocusSession}
+              />
+            ) : isCurrentlyTracking ? (
               <ActiveTracking 
                 isCurrentlyTracking={isCurrentlyTracking}
                 elapsedTime={elapsedTime}
@@ -92,8 +112,16 @@ const TimeTrackingDialog: React.FC<TimeTrackingDialogProps> = ({
                 notes={notes}
                 onNotesChange={setNotes}
                 onStartTracking={handleStartTracking}
+                focusSettings={focusSettings}
+                onFocusSettingsChange={updateFocusSettings}
+                onStartFocus={() => startFocusSession(task.id)}
               />
             )}
+            {otherFocusTask && (
+              <p className="text-sm text-muted-foreground mt-3">
+                Focus mode is on for "{otherFocusTask.title}". Starting here stops it.
+              </p>
+            )}
           </div>
           
           {/* Time tracking history */}
@@ -1,7 +1,8 @@
 
 import React, { useState } from 'react';
 import { format } from 'date-fns';
-import { Clock, Edit, Save, Trash, X } from 'lucide-react';
+import { Clock, DollarSign, Edit, Save, Trash, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { TimeTracking } from '@/context/TaskTypes';
@@ -33,6 +34,13 @@ const TrackingHistory: React.FC<TrackingHistoryProps> = ({
     setIsEditingIndex(null);
   };
 
+  const handleToggleBillable = (tracking: TimeTracking) => {
+    onUpdateTracking({
+      ...tracking,
+      billable: tracking.billable === false
+    });
+  };
+
   const handleCancelEdit = () => {
     setIsEditingIndex(null);
   };
@@ -66,7 +74,10 @@ const TrackingHistory: React.FC<TrackingHistoryProps> = ({
                 {Math.floor(tracking.duration / 60)}h {tracking.duration % 60}m
               </span>
               
-              {isEditingIndex === index ? (
+              {tracking.invoiceId ? (
+                // Invoiced entries stay as they were billed
+                <Badge variant="secondary" className="ml-2">Invoiced</Badge>
+              ) : isEditingIndex === index ? (
                 <>
                   <Button 
                     variant="ghost" 
@@ -85,6 +96,15 @@ const TrackingHistory: React.FC<TrackingHistoryProps> = ({
                 </>
               ) : (
                 <>
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    onClick={() => handleToggleBillable(tracking)}
+                    title={tracking.billable === false ? 'Not billable' : 'Billable'}
+                    aria-pressed={tracking.billable !== false}
+                  >
+                    <DollarSign className={`h-4 w-4 ${tracking.billable === false ? 'text-muted-foreground/40' : ''}`} />
+                  </Button>
                   <Button 
                     variant="ghost" 
                     size="icon"
@@ -0,0 +1,82 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import * as authService from '@/services/authService';
+
+interface AuthContextType {
+  user: User | null;
+  session: Session | null;
+  loading: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  // Bumped to force the data providers to reload, e.g. after claiming anonymous data
+  dataRevision: number;
+  reloadUserData: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dataRevision, setDataRevision] = useState(0);
+
+  useEffect(() => {
+    // Sessions are applied in order, each only after another account's local data is cleared
+    let applying = Promise.resolve();
+    const applySession = (newSession: Session | null) => {
+      applying = applying
+        .then(() => authService.setLocalDataOwner(newSession?.user.id ?? null))
+        .catch(error => console.error('Error clearing local data:', error))
+        .then(() => {
+          setSession(newSession);
+          setLoading(false);
+        });
+    };
+
+    // Restore a persisted session (or one coming back from a magic link)
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      applySession(newSession);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const contextValue: AuthContextType = {
+    user: session?.user ?? null,
+    session,
+    loading,
+    signInWithPassword: authService.signInWithPassword,
+    signUp: authService.signUp,
+    sendMagicLink: authService.sendMagicLink,
+    signOut: authService.signOut,
+    dataRevision,
+    reloadUserData: () => setDataRevision(revision => revision + 1),
+  };
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuthContext = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+};
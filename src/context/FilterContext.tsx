@@ -7,7 +7,9 @@ export enum FilterType {
   STATUS = 'status',
   DUE_DATE = 'dueDate',
   PROJECT = 'project',
-  CONTENT = 'content'
+  CONTENT = 'content',
+  LABEL = 'label',
+  IS_BLOCKED = 'isBlocked'
 }
 
 export enum ViewMode {
@@ -22,7 +24,9 @@ export enum GroupBy {
   NONE = 'none',
   PROJECT = 'project',
   DATE = 'date',
-  PRIORITY = 'priority'
+  PRIORITY = 'priority',
+  LABEL = 'label',
+  STATUS = 'status'
 }
 
 export enum SortBy {
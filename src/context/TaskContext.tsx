@@ -2,8 +2,8 @@
 import { HybridTaskProvider } from './providers/HybridTaskProvider';
 import { useTaskContext as useLocalTaskContext } from './providers/TaskContextProvider';
 import { useTimeTrackingContext } from './providers/TimeTrackingProvider';
-import { useViewModeContext } from './providers/ViewModeProvider';
-import type { Task, Project, TimeBlock, TimeTracking, Priority, RecurrencePattern } from './TaskTypes';
+import { useViewModeContext, type SelectedView } from './providers/ViewModeProvider';
+import type { Task, Project, Label, TaskStatus, TimeBlock, TimeTracking, Priority, RecurrencePattern } from './TaskTypes';
 import type { TaskContextType, TimeTrackingContextType } from './types/TaskContextTypes';
 
 // Always use local task context since we're removing authentication
@@ -15,10 +15,13 @@ export {
   useViewModeContext,
   type Task,
   type Project,
+  type Label,
+  type TaskStatus,
   type TimeBlock,
   type TimeTracking,
   type RecurrencePattern,
   type Priority,
   type TaskContextType,
   type TimeTrackingContextType,
+  type SelectedView,
 };
@@ -1,37 +1,7 @@
 import React, { ReactNode } from 'react';
+import type { Priority, RecurrenceMode, RecurrencePattern, RecurrenceOverride, Task, Project, TimeBlock } from '../../supabase/functions/_shared/tasks';
 
-export type Priority = 'low' | 'medium' | 'high';
-
-export interface RecurrencePattern {
-  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  interval: number; // Every X days/weeks/months/years
-  daysOfWeek?: number[]; // For weekly: 0 (Sunday) to 6 (Saturday)
-  dayOfMonth?: number; // For monthly
-  monthOfYear?: number; // For yearly
-  endDate?: Date; // Optional end date
-  occurrences?: number; // Optional number of occurrences
-}
-
-export interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  dueDate?: Date;
-  priority: Priority;
-  parentId?: string;
-  projectId: string;
-  children: Task[];
-  isExpanded?: boolean;
-  notes?: string;
-  estimatedTime?: number;
-  timeTracked: number;
-  completed?: boolean;
-  timeSlot?: string; // Format: "HH:MM" - specific time for the task on its due date
-  isRecurring?: boolean;
-  recurrencePattern?: RecurrencePattern;
-  recurrenceParentId?: string; // For generated recurring task instances
-  recurrenceExceptions?: Date[]; // Dates where the recurring task is skipped
-}
+export type { Priority, RecurrenceMode, RecurrencePattern, RecurrenceOverride, Task, Project, TimeBlock };
 
 export interface TimeTracking {
   id: string;
@@ -40,21 +10,72 @@ export interface TimeTracking {
   endTime?: Date;
   duration: number;
   notes?: string;
+  billable?: boolean; // Billable unless set to false
+  invoiceId?: string; // Invoice the entry was billed on
+  isFocusSession?: boolean; // Recorded for a completed work interval of focus mode
+}
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+// Focus mode on a task, alternating work intervals and breaks
+export interface FocusSession {
+  taskId: string;
+  phase: FocusPhase;
+  phaseStartedAt: Date;
+  phaseEndsAt: Date;
+  completedSessions: number; // Work intervals completed since focus mode was started
+}
+
+// Time the running timer kept counting while nobody was at the computer
+export interface IdlePeriod {
+  trackingId: string;
+  awaySince: Date;
+}
+
+export interface TaskStatus {
+  id: string;
+  projectId: string;
+  key: string; // Unique within the project, used by tasks and filters
+  name: string;
+  color: string;
+  position: number;
+  isDone: boolean; // Tasks in this status count as completed
 }
 
-export interface Project {
+export interface Label {
   id: string;
   name: string;
-  description?: string;
-  isExpanded?: boolean;
+  color: string; // Hex color, e.g. "#ef4444"
 }
 
-export interface TimeBlock {
+export interface CalendarFeed {
   id: string;
+  name: string;
+  projectId?: string; // All projects when unset
+  token: string; // Secret part of the subscription URL
+  lastAccessedAt?: Date;
+  createdAt: Date;
+}
+
+export interface InvoiceLineItem {
   taskId: string;
-  date: Date;
-  startTime: string;
-  endTime: string;
+  description: string; // Task path, e.g. "Website / Header"
+  minutes: number; // Rounded
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  projectId?: string; // Unset once the project is deleted
+  number: string; // e.g. "INV-2025-001"
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  total: number;
+  lineItems: InvoiceLineItem[];
+  createdAt: Date;
 }
 
 export type { ReactNode };
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from 'react';
+import { FocusSession, Task, TimeTracking } from '../TaskTypes';
+import { findTaskById, getRootTasks } from '../TaskHelpers';
+import {
+  FOCUS_SESSION_STORAGE_KEY,
+  FocusSettings,
+  advanceFocusSession,
+  createFocusSession,
+  getFocusNotification,
+  getFocusSettings,
+  getNextPhase,
+  getSavedFocusSession,
+  isSameFocusPhase,
+  saveFocusSession,
+  saveFocusSettings,
+  skipFocusPhase as skipPhase,
+} from '@/lib/focus-utils';
+import {
+  cancelServiceWorkerNotification,
+  requestNotificationPermission,
+  scheduleServiceWorkerNotification,
+  sendNotification,
+} from '@/services/notificationService';
+
+type AddTimeTracking = (timeTracking: Omit<TimeTracking, 'id'>) => Promise<TimeTracking | null>;
+
+const FOCUS_NOTIFICATION_TAG = 'focus-session';
+
+const getTaskTitle = (tasks: Task[], taskId: string): string =>
+  findTaskById(taskId, getRootTasks(tasks))?.title ?? 'your task';
+
+const recordWork = (
+  addTimeTracking: AddTimeTracking,
+  taskId: string,
+  start: Date,
+  end: Date,
+  isFocusSession: boolean
+) => {
+  const duration = Math.floor((end.getTime() - start.getTime()) / 60000);
+  if (duration < 1) return;
+
+  addTimeTracking({ taskId, startTime: start, endTime: end, duration, isFocusSession }).catch(error => {
+    console.error('Error recording focus session:', error);
+  });
+};
+
+export function useFocusSession(tasks: Task[], addTimeTracking: AddTimeTracking) {
+  // A session saved before a reload or crash continues, catching up on what it missed
+  const [focusSession, setFocusSession] = useState<FocusSession | null>(getSavedFocusSession);
+  const [focusSettings, setFocusSettings] = useState<FocusSettings>(getFocusSettings);
+
+  // The phase timer reads the latest tasks and actions, not those of the render that set it
+  const latestRef = useRef({ tasks, addTimeTracking, focusSettings });
+  latestRef.current = { tasks, addTimeTracking, focusSettings };
+
+  // Follow focus mode started, advanced or stopped in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== FOCUS_SESSION_STORAGE_KEY) return;
+      const saved = getSavedFocusSession();
+      setFocusSession(current => (isSameFocusPhase(current, saved) ? current : saved));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (!focusSession) {
+      saveFocusSession(null);
+      cancelServiceWorkerNotification(FOCUS_NOTIFICATION_TAG);
+      return;
+    }
+
+    saveFocusSession(focusSession);
+
+    // Let the service worker announce the end of the phase in case this page is in the background
+    const { tasks, focusSettings } = latestRef.current;
+    const completedSessions = focusSession.completedSessions + (focusSession.phase === 'work' ? 1 : 0);
+    const nextPhase = getNextPhase(focusSession.phase, completedSessions, focusSettings);
+    scheduleServiceWorkerNotification(
+      {
+        ...getFocusNotification(nextPhase, completedSessions, getTaskTitle(tasks, focusSession.taskId), focusSettings),
+        tag: FOCUS_NOTIFICATION_TAG,
+        data: { type: 'focus', taskId: focusSession.taskId }
+      },
+      focusSession.phaseEndsAt
+    );
+
+    let isHandled = false;
+    const checkPhase = () => {
+      if (isHandled) return;
+
+      const { tasks, addTimeTracking, focusSettings } = latestRef.current;
+      const progress = advanceFocusSession(focusSession, focusSettings);
+      if (progress.transitions.length === 0 && progress.session) return;
+      isHandled = true;
+
+      // Another tab already moved on and recorded the work
+      const saved = getSavedFocusSession();
+      if (!isSameFocusPhase(saved, focusSession)) {
+        setFocusSession(saved);
+        return;
+      }
+      saveFocusSession(progress.session);
+
+      for (const interval of progress.completedWork) {
+        recordWork(addTimeTracking, focusSession.taskId, interval.start, interval.end, true);
+      }
+
+      // Replaces the scheduled notification of the same boundary, if it was shown
+      if (progress.session) {
+        sendNotification({
+          ...getFocusNotification(
+            progress.session.phase,
+            progress.session.completedSessions,
+            getTaskTitle(tasks, progress.session.taskId),
+            focusSettings
+          ),
+          tag: FOCUS_NOTIFICATION_TAG,
+          data: { type: 'focus', taskId: progress.session.taskId }
+        });
+      }
+
+      setFocusSession(progress.session);
+    };
+
+    const timeoutId = window.setTimeout(checkPhase, Math.max(focusSession.phaseEndsAt.getTime() - Date.now(), 0));
+
+    // Timers of background pages are throttled; catch up as soon as the page is shown again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkPhase();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [focusSession]);
+
+  const startFocusSession = (taskId: string) => {
+    requestNotificationPermission();
+    setFocusSession(createFocusSession(taskId, focusSettings));
+  };
+
+  // Work cut short is kept as a regular entry; it does not count as a focus session
+  const stopFocusSession = () => {
+    if (focusSession?.phase === 'work') {
+      recordWork(addTimeTracking, focusSession.taskId, focusSession.phaseStartedAt, new Date(), false);
+    }
+    setFocusSession(null);
+  };
+
+  const skipFocusPhase = () => {
+    if (!focusSession) return;
+
+    const now = new Date();
+    if (focusSession.phase === 'work') {
+      recordWork(addTimeTracking, focusSession.taskId, focusSession.phaseStartedAt, now, false);
+    }
+    setFocusSession(skipPhase(focusSession, focusSettings, now));
+  };
+
+  const updateFocusSettings = (settings: FocusSettings) => {
+    setFocusSettings(settings);
+    saveFocusSettings(settings);
+  };
+
+  return {
+    focusSession,
+    focusSettings,
+    startFocusSession,
+    stopFocusSession,
+    skipFocusPhase,
+    updateFocusSettings
+  };
+}
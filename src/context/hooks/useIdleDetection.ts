@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { IdlePeriod, TimeTracking } from '../TaskTypes';
+import { indexedDBService } from '@/services/indexedDBService';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  IDLE_THRESHOLD_MS,
+  MAX_HEARTBEAT_GAP_MS,
+  getIdleDetector,
+} from '@/lib/idle-utils';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+export function useIdleDetection(activeTimeTracking: TimeTracking | null) {
+  const [idlePeriod, setIdlePeriod] = useState<IdlePeriod | null>(null);
+
+  const trackingId = activeTimeTracking?.id;
+  const taskId = activeTimeTracking?.taskId;
+  const startTime = activeTimeTracking?.startTime.getTime();
+
+  useEffect(() => {
+    // A prompt about a timer that has since stopped or changed is no longer relevant
+    setIdlePeriod(current => (current && current.trackingId === trackingId ? current : null));
+    if (!trackingId || !taskId || startTime === undefined) return;
+
+    // The earliest moment of an absence wins when several signals report it
+    const reportAway = (awaySince: number) => {
+      setIdlePeriod(current =>
+        current?.trackingId === trackingId ? current : { trackingId, awaySince: new Date(awaySince) }
+      );
+    };
+
+    let lastBeat = Date.now();
+    const beat = () => {
+      const now = Date.now();
+      if (now - lastBeat > MAX_HEARTBEAT_GAP_MS) reportAway(lastBeat);
+      lastBeat = now;
+
+      indexedDBService.saveTimerHeartbeat({ id: trackingId, taskId, startTime, lastSeenAt: now }).catch(error => {
+        console.error('Error saving timer heartbeat:', error);
+      });
+    };
+
+    beat();
+    const intervalId = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    // Timers do not run while the computer sleeps; check as soon as the page is shown again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') beat();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // Activity on this page only, for browsers without the Idle Detection API or permission for it
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity > IDLE_THRESHOLD_MS) reportAway(lastActivity);
+      lastActivity = now;
+    };
+    const listenForActivity = () => {
+      ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    };
+
+    const abortController = new AbortController();
+    const IdleDetector = getIdleDetector();
+    if (IdleDetector) {
+      const detector = new IdleDetector();
+      let idleSince: number | null = null;
+      detector.addEventListener('change', () => {
+        if (detector.userState === 'idle') {
+          idleSince = Date.now() - IDLE_THRESHOLD_MS;
+        } else if (idleSince !== null) {
+          reportAway(idleSince);
+          idleSince = null;
+        }
+      });
+      detector.start({ threshold: IDLE_THRESHOLD_MS, signal: abortController.signal }).catch(() => {
+        if (!abortController.signal.aborted) listenForActivity();
+      });
+    } else {
+      listenForActivity();
+    }
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      abortController.abort();
+
+      indexedDBService.deleteTimerHeartbeat(trackingId).catch(error => {
+        console.error('Error deleting timer heartbeat:', error);
+      });
+    };
+  }, [trackingId, taskId, startTime]);
+
+  return { idlePeriod, setIdlePeriod };
+}
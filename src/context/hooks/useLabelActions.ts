@@ -0,0 +1,53 @@
+import React from 'react';
+import { Label, Task } from '../TaskTypes';
+import { v4 as uuidv4 } from 'uuid';
+import { createLabel, updateLabel as updateLabelInSupabase, deleteLabel as deleteLabelInSupabase } from '@/services/labelService';
+
+export function useLabelActions(
+  labels: Label[],
+  setLabels: React.Dispatch<React.SetStateAction<Label[]>>,
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>
+) {
+  const addLabel = (label: Omit<Label, 'id'>): Label => {
+    const newLabel: Label = { ...label, id: uuidv4() };
+    setLabels(prevLabels => [...prevLabels, newLabel]);
+
+    createLabel(newLabel).catch(error => {
+      console.error('Error creating label in Supabase:', error);
+      setLabels(prevLabels => prevLabels.filter(l => l.id !== newLabel.id));
+    });
+
+    return newLabel;
+  };
+
+  const updateLabel = (label: Label) => {
+    setLabels(prevLabels => prevLabels.map(l => (l.id === label.id ? label : l)));
+
+    updateLabelInSupabase(label).catch(error => {
+      console.error('Error updating label in Supabase:', error);
+    });
+  };
+
+  const deleteLabel = (labelId: string) => {
+    setLabels(prevLabels => prevLabels.filter(l => l.id !== labelId));
+
+    // The database drops the assignments with the label, so mirror that locally
+    const removeFromTasks = (tasks: Task[]): Task[] =>
+      tasks.map(task => ({
+        ...task,
+        labelIds: task.labelIds?.filter(id => id !== labelId),
+        children: removeFromTasks(task.children)
+      }));
+    setTasks(prevTasks => removeFromTasks(prevTasks));
+
+    deleteLabelInSupabase(labelId).catch(error => {
+      console.error('Error deleting label in Supabase:', error);
+    });
+  };
+
+  return {
+    addLabel,
+    updateLabel,
+    deleteLabel
+  };
+}
@@ -1,11 +1,9 @@
 
-import { useState } from 'react';
 import { Project } from '../TaskTypes';
 import { generateId } from '../TaskHelpers';
+import { updateProject as updateProjectInDb } from '@/services/projectService';
 
-export function useProjectActions(projectsInit: Project[], setProjects: (proj: Project[]) => void) {
-  const [projects, _setProjects] = useState<Project[]>(projectsInit);
-  
+export function useProjectActions(projects: Project[], setProjects: (proj: Project[]) => void) {
   const addProject = (project: Omit<Project, 'id' | 'isExpanded'>) => {
     const newProject = { ...project, id: generateId(), isExpanded: true };
     setProjects([...projects, newProject]);
@@ -13,6 +11,10 @@ export function useProjectActions(projectsInit: Project[], setProjects: (proj: P
 
   const updateProject = (project: Project) => {
     setProjects(projects.map((p) => (p.id === project.id ? project : p)));
+
+    updateProjectInDb(project).catch(error => {
+      console.error('Error updating project in Supabase:', error);
+    });
   };
 
   const deleteProject = (projectId: string) => {
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Task, TaskStatus } from '../TaskTypes';
+import { saveProjectStatuses } from '@/services/projectStatusService';
+import { toggleTaskCompleted } from '@/services/taskService';
+import { getProjectStatuses } from '@/lib/status-utils';
+
+export function useProjectStatusActions(
+  setProjectStatuses: React.Dispatch<React.SetStateAction<TaskStatus[]>>,
+  setTasks: (tasks: Task[]) => void,
+  getCurrentTasks: () => Task[]
+) {
+  const updateProjectStatuses = (projectId: string, statuses: TaskStatus[]) => {
+    setProjectStatuses(prevStatuses => [
+      ...prevStatuses.filter(status => status.projectId !== projectId),
+      ...statuses
+    ]);
+
+    saveProjectStatuses(projectId, statuses).catch(error => {
+      console.error('Error saving project statuses in Supabase:', error);
+    });
+
+    // completed follows the done flag, so re-derive it for tasks whose status changed meaning
+    const workflow = getProjectStatuses(projectId, statuses);
+    const changedTasks: Task[] = [];
+
+    const applyDoneFlags = (tasks: Task[]): Task[] =>
+      tasks.map(task => {
+        const status = task.projectId === projectId
+          ? workflow.find(s => s.key === task.status)
+          : undefined;
+        const children = applyDoneFlags(task.children);
+
+        if (status && status.isDone !== !!task.completed) {
+          const changedTask = { ...task, completed: status.isDone, children };
+          changedTasks.push(changedTask);
+          return changedTask;
+        }
+        return { ...task, children };
+      });
+
+    const updatedTasks = applyDoneFlags(getCurrentTasks());
+    if (changedTasks.length === 0) return;
+
+    setTasks(updatedTasks);
+
+    for (const task of changedTasks) {
+      toggleTaskCompleted(task.id, !!task.completed).catch(error => {
+        console.error('Error updating task completion in Supabase:', error);
+      });
+    }
+  };
+
+  return {
+    updateProjectStatuses
+  };
+}
@@ -1,57 +1,116 @@
 
 import { useState } from 'react';
-import { Task, RecurrencePattern } from '../TaskTypes';
+import { Task, TaskStatus, RecurrencePattern } from '../TaskTypes';
 import { generateId, findTaskById, updateTaskInHierarchy, getRootTasks, isValidUUID } from '../TaskHelpers';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/integrations/supabase/client';
 import { getCurrentUserId } from '@/services/serviceUtils';
+import { setTaskLabels } from '@/services/labelService';
+import { setTaskDependencies } from '@/services/taskDependencyService';
+import * as taskService from '@/services/taskService';
+import {
+  addRecurrenceException,
+  removeRecurrenceOverride,
+  removeRecurrencePattern,
+  updateRecurrenceOverride,
+  updateRecurrencePattern
+} from '@/services/recurrenceService';
+import { offlineSyncService } from '@/services/offlineSyncService';
+import { flattenTasks, getOpenBlockers, getTasksById } from '@/lib/dependency-utils';
+import { toast } from 'sonner';
+import { syncTaskStatus } from '@/lib/status-utils';
+import {
+  applyRecurrenceOverride,
+  completeAfterCompletionRecurrence,
+  createRecurringTaskOccurrence,
+  endRecurrencePattern,
+  isAfterCompletionRecurrence,
+  setRecurrenceOverride,
+  splitRecurringTask,
+  toRecurrenceOverride
+} from '@/lib/recurrence-utils';
+import { fromCalendarDay, getDefaultTimeZone } from '@/lib/timezone-utils';
+import { isSameDay } from 'date-fns';
+import { isSameValue } from '@/services/offline/conflictResolution';
 
-export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => void, getCurrentTasks: () => Task[]) {
+export function useTaskActions(
+  tasksInit: Task[],
+  setTasks: (tasks: Task[]) => void,
+  getCurrentTasks: () => Task[],
+  projectStatuses: TaskStatus[] = []
+) {
   const addTask = async (task: Omit<Task, 'id' | 'children' | 'isExpanded' | 'timeTracked'>) => {
     // Always generate a new UUID for the task
     const newId = uuidv4();
     console.log(`Generated new UUID for task: ${newId}`);
     
-    const newTask: Task = {
+    // New tasks are due in the user's default zone; picked due dates are calendar days
+    const timeZone = task.timeZone ?? getDefaultTimeZone();
+    const dueDate = task.dueDate && !task.timeZone ? fromCalendarDay(task.dueDate, timeZone) : task.dueDate;
+    
+    const newTask: Task = syncTaskStatus({
       ...task,
+      dueDate,
+      timeZone,
       id: newId,
       children: [],
       isExpanded: true,
       timeTracked: 0
-    };
+    }, undefined, projectStatuses);
     
-    // Try to create the task in Supabase first
-    try {
-      const userId = await getCurrentUserId();
-      console.log(`Creating task in Supabase with ID: ${newId}`);
-      
-      const { error } = await supabase
-        .from('tasks')
-        .insert({
-          id: newId,
-          title: task.title,
-          description: task.description,
-          due_date: task.dueDate?.toISOString(),
-          priority: task.priority,
-          project_id: task.projectId,
-          parent_id: task.parentId,
-          notes: task.notes,
-          estimated_time: task.estimatedTime,
-          time_tracked: 0,
-          completed: task.completed || false,
-          time_slot: task.timeSlot,
-          is_recurring: task.isRecurring || false,
-          is_expanded: true,
-          user_id: userId
-        });
-      
-      if (error) {
+    if (!offlineSyncService.isAppOnline()) {
+      offlineSyncService.addTaskChange('create', newTask).catch(error => {
+        console.error('Error queueing task change:', error);
+      });
+    } else {
+      // Try to create the task in Supabase first
+      try {
+        const userId = await getCurrentUserId();
+        console.log(`Creating task in Supabase with ID: ${newId}`);
+        
+        const { error } = await supabase
+          .from('tasks')
+          .insert({
+            id: newId,
+            title: task.title,
+            description: task.description,
+            due_date: newTask.dueDate?.toISOString(),
+            priority: task.priority,
+            project_id: task.projectId,
+            parent_id: task.parentId,
+            notes: task.notes,
+            estimated_time: task.estimatedTime,
+            hourly_rate: task.hourlyRate ?? null,
+            time_tracked: 0,
+            completed: newTask.completed || false,
+            time_slot: task.timeSlot,
+            time_zone: newTask.timeZone,
+            ical_uid: newTask.icalUid,
+            status: newTask.status,
+            is_recurring: task.isRecurring || false,
+            is_expanded: true,
+            user_id: userId
+          });
+        
+        if (error) {
+          console.error('Error creating task in Supabase:', error);
+        } else {
+          console.log(`Task created successfully in Supabase with ID: ${newId}`);
+        
+          if (task.labelIds && task.labelIds.length > 0) {
+            await setTaskLabels(newId, task.labelIds);
+          }
+        
+          if (newTask.isRecurring && newTask.recurrencePattern) {
+            await updateRecurrencePattern(newId, newTask.recurrencePattern, newTask.dueDate);
+            for (const exception of newTask.recurrenceExceptions || []) {
+              await addRecurrenceException(newId, exception);
+            }
+          }
+        }
+      } catch (error) {
         console.error('Error creating task in Supabase:', error);
-      } else {
-        console.log(`Task created successfully in Supabase with ID: ${newId}`);
       }
-    } catch (error) {
-      console.error('Error creating task in Supabase:', error);
     }
     
     if (task.parentId) {
@@ -72,22 +131,75 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
     return newTask;
   };
 
-  const updateTask = (task: Task) => {
+  const updateTask = (changedTask: Task) => {
     // Ensure the task ID is a valid UUID
-    if (!isValidUUID(task.id)) {
-      console.error(`Task ID ${task.id} is not a valid UUID. Task will not be updated.`);
+    if (!isValidUUID(changedTask.id)) {
+      console.error(`Task ID ${changedTask.id} is not a valid UUID. Task will not be updated.`);
       return;
     }
     
-    if (task.parentId) {
-      const updatedTasks = updateTaskInHierarchy(
-        task.id,
-        () => task,
-        getRootTasks(getCurrentTasks())
-      );
-      setTasks(updatedTasks);
-    } else {
-      setTasks(getCurrentTasks().map((t) => (t.id === task.id ? task : t)));
+    const previousTask = findTaskById(changedTask.id, getRootTasks(getCurrentTasks()));
+    
+    // Generated occurrences only exist in views; their changes are kept on the recurring task
+    if (!previousTask && changedTask.recurrenceParentId && changedTask.recurrenceDate) {
+      updateOccurrence(changedTask, changedTask.recurrenceParentId, changedTask.recurrenceDate);
+      return;
+    }
+    
+    let task = syncTaskStatus(changedTask, previousTask, projectStatuses);
+    const previousLabelIds = previousTask?.labelIds;
+    let completedOccurrence: Task | undefined;
+    
+    if (task.completed && !previousTask?.completed) {
+      // Completing is still allowed, but make sure it is not done by accident
+      const openBlockers = getOpenBlockers(task, getTasksById(getCurrentTasks()));
+      if (openBlockers.length > 0) {
+        toast.warning(
+          `"${task.title}" is still blocked by ${openBlockers.map(blocker => `"${blocker.title}"`).join(', ')}`
+        );
+      }
+      
+      // The task moves on to its next due date and the completed occurrence is kept as history
+      if (isAfterCompletionRecurrence(task)) {
+        const previousCompletions = flattenTasks(getCurrentTasks())
+          .filter(t => t.recurrenceParentId === task.id)
+          .length;
+        const completion = completeAfterCompletionRecurrence(task, new Date(), previousCompletions);
+        task = syncTaskStatus(completion.task, undefined, projectStatuses);
+        completedOccurrence = completion.completedOccurrence;
+      }
+    }
+    
+    let updatedTasks = task.parentId
+      ? updateTaskInHierarchy(task.id, () => task, getRootTasks(getCurrentTasks()))
+      : getCurrentTasks().map((t) => (t.id === task.id ? task : t));
+    
+    if (completedOccurrence) {
+      const occurrence = completedOccurrence;
+      updatedTasks = occurrence.parentId
+        ? updateTaskInHierarchy(
+            occurrence.parentId,
+            (parent) => ({ ...parent, children: [...parent.children, occurrence] }),
+            updatedTasks
+          )
+        : [...updatedTasks, occurrence];
+    }
+    setTasks(updatedTasks);
+    
+    if (!offlineSyncService.isAppOnline()) {
+      // The sync picks the changes up when back online; the completed occurrence goes first
+      (completedOccurrence ? offlineSyncService.addTaskChange('create', completedOccurrence) : Promise.resolve())
+        .then(() => offlineSyncService.addTaskChange('update', task))
+        .catch(error => {
+          console.error('Error queueing task change:', error);
+        });
+      return;
+    }
+    
+    if (completedOccurrence) {
+      taskService.createTask(completedOccurrence).catch(error => {
+        console.error('Error creating completed occurrence in Supabase:', error);
+      });
     }
     
     // Try to update the task in Supabase
@@ -104,9 +216,13 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
           parent_id: task.parentId,
           notes: task.notes,
           estimated_time: task.estimatedTime,
+          hourly_rate: task.hourlyRate ?? null,
           time_tracked: task.timeTracked,
           completed: task.completed || false,
           time_slot: task.timeSlot,
+          time_zone: task.timeZone,
+          ical_uid: task.icalUid,
+          status: task.status,
           is_recurring: task.isRecurring || false,
           is_expanded: task.isExpanded
         })
@@ -114,15 +230,144 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
         .then(({ error }) => {
           if (error) {
             console.error('Error updating task in Supabase:', error);
+            rollbackTask(task, previousTask, !!completedOccurrence);
           } else {
             console.log(`Task updated successfully in Supabase with ID: ${task.id}`);
           }
         });
+      
+      if (task.labelIds && !isSameValue(task.labelIds, previousLabelIds ?? [])) {
+        setTaskLabels(task.id, task.labelIds).catch(error => {
+          console.error('Error updating task labels in Supabase:', error);
+        });
+      }
+      
+      if (task.blockedByIds && !isSameValue(task.blockedByIds, previousTask?.blockedByIds ?? [])) {
+        setTaskDependencies(task.id, task.blockedByIds).catch(error => {
+          console.error('Error updating task dependencies in Supabase:', error);
+        });
+      }
+      
+      // The pattern lives in its own table; its RRULE also starts at the due date
+      const isRecurring = !!(task.isRecurring && task.recurrencePattern);
+      const wasRecurring = !!(previousTask?.isRecurring && previousTask.recurrencePattern);
+      if (isRecurring && (
+        !wasRecurring ||
+        !isSameValue(task.recurrencePattern, previousTask?.recurrencePattern) ||
+        task.dueDate?.getTime() !== previousTask?.dueDate?.getTime()
+      )) {
+        updateRecurrencePattern(task.id, task.recurrencePattern!, task.dueDate).catch(error => {
+          console.error('Error updating recurrence pattern in Supabase:', error);
+        });
+      } else if (!isRecurring && wasRecurring) {
+        removeRecurrencePattern(task.id).catch(error => {
+          console.error('Error removing recurrence pattern in Supabase:', error);
+        });
+      }
     } catch (error) {
       console.error('Error updating task in Supabase:', error);
     }
   };
 
+  // Put a task back as it was before an update the server rejected
+  const rollbackTask = (task: Task, previousTask: Task | undefined, hasCompletedOccurrence: boolean) => {
+    // Completing an after-completion task also created an occurrence; leave both as they are
+    if (!previousTask || hasCompletedOccurrence) return;
+    
+    // A task that has been changed again since then keeps the newer change
+    if (findTaskById(task.id, getRootTasks(getCurrentTasks())) !== task) return;
+    
+    const updatedTasks = task.parentId
+      ? updateTaskInHierarchy(task.id, () => previousTask, getRootTasks(getCurrentTasks()))
+      : getCurrentTasks().map((t) => (t.id === task.id ? previousTask : t));
+    setTasks(updatedTasks);
+    toast.error(`Failed to save "${task.title}". The change was undone.`);
+  };
+
+  const updateOccurrence = (changedOccurrence: Task, templateId: string, originalDate: Date) => {
+    const template = findTaskById(templateId, getRootTasks(getCurrentTasks()));
+    if (!template) {
+      console.error(`Recurring task ${templateId} not found. Occurrence will not be updated.`);
+      return;
+    }
+    
+    const generated = syncTaskStatus(createRecurringTaskOccurrence(template, originalDate), undefined, projectStatuses);
+    const previousOccurrence = applyRecurrenceOverride(
+      generated,
+      template.recurrenceOverrides?.find(override => isSameDay(override.originalDate, originalDate))
+    );
+    const occurrence = syncTaskStatus(changedOccurrence, previousOccurrence, projectStatuses);
+    const override = toRecurrenceOverride(generated, occurrence);
+    const updatedTemplate = setRecurrenceOverride(template, originalDate, override);
+    
+    if (template.parentId) {
+      setTasks(updateTaskInHierarchy(template.id, () => updatedTemplate, getRootTasks(getCurrentTasks())));
+    } else {
+      setTasks(getCurrentTasks().map((t) => (t.id === template.id ? updatedTemplate : t)));
+    }
+    
+    if (!offlineSyncService.isAppOnline()) {
+      offlineSyncService.addTaskChange('update', updatedTemplate).catch(error => {
+        console.error('Error queueing task change:', error);
+      });
+      return;
+    }
+    
+    (override
+      ? updateRecurrenceOverride(template.id, override)
+      : removeRecurrenceOverride(template.id, originalDate)
+    ).catch(error => {
+      console.error('Error saving occurrence in Supabase:', error);
+    });
+  };
+
+  // Ends the recurring task before the occurrence and continues the series as a new recurring task from it
+  const splitRecurringTaskAt = (template: Task, occurrence: Task, originalDate: Date) => {
+    const { previous, next } = splitRecurringTask(template, originalDate);
+    const nextTask = syncTaskStatus({
+      ...next,
+      title: occurrence.title,
+      description: occurrence.description,
+      priority: occurrence.priority,
+      notes: occurrence.notes,
+      estimatedTime: occurrence.estimatedTime,
+      timeSlot: occurrence.timeSlot,
+      timeZone: occurrence.timeZone,
+      dueDate: occurrence.dueDate ?? next.dueDate,
+      completed: occurrence.completed,
+      status: occurrence.status
+    }, undefined, projectStatuses);
+    
+    if (template.parentId) {
+      const updatedTasks = updateTaskInHierarchy(
+        template.parentId,
+        (parent) => ({
+          ...parent,
+          children: [...parent.children.map((child) => (child.id === previous.id ? previous : child)), nextTask]
+        }),
+        getRootTasks(getCurrentTasks())
+      );
+      setTasks(updatedTasks);
+    } else {
+      setTasks([...getCurrentTasks().map((t) => (t.id === previous.id ? previous : t)), nextTask]);
+    }
+    
+    if (!offlineSyncService.isAppOnline()) {
+      offlineSyncService.addTaskChange('update', previous)
+        .then(() => offlineSyncService.addTaskChange('create', nextTask))
+        .catch(error => {
+          console.error('Error queueing task change:', error);
+        });
+      return;
+    }
+    
+    taskService.updateTask(previous)
+      .then(() => taskService.createTask(nextTask))
+      .catch(error => {
+        console.error('Error splitting recurring task in Supabase:', error);
+      });
+  };
+
   const deleteTask = (taskId: string) => {
     // Ensure the task ID is a valid UUID
     if (!isValidUUID(taskId)) {
@@ -232,6 +477,11 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
         updateTask(updatedInstance);
       });
     } else if (updateMode === 'future') {
+      if (task.recurrenceDate && parentTask.isRecurring && parentTask.recurrencePattern) {
+        splitRecurringTaskAt(parentTask, task, task.recurrenceDate);
+        return;
+      }
+      
       // Update this instance and all future instances
       updateTask(task);
       
@@ -301,10 +551,11 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
           if (parentTask.recurrencePattern) {
             const updatedParent = {
               ...parentTask,
-              recurrencePattern: {
-                ...parentTask.recurrencePattern,
-                endDate: new Date(taskToDelete.dueDate.getTime() - 86400000) // Day before
-              }
+              recurrencePattern: endRecurrencePattern(
+                parentTask.recurrencePattern,
+                new Date(taskToDelete.dueDate.getTime() - 86400000), // Day before
+                parentTask.dueDate
+              )
             };
             updateTask(updatedParent);
           }
@@ -324,10 +575,11 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
         if (taskToDelete.recurrencePattern) {
           const updatedTask = {
             ...taskToDelete,
-            recurrencePattern: {
-              ...taskToDelete.recurrencePattern,
-              endDate: new Date() // End now
-            }
+            recurrencePattern: endRecurrencePattern(
+              taskToDelete.recurrencePattern,
+              new Date(), // End now
+              taskToDelete.dueDate
+            )
           };
           updateTask(updatedTask);
         }
@@ -377,11 +629,5 @@ export function useTaskActions(tasksInit: Task[], setTasks: (tasks: Task[]) => v
     toggleTaskExpanded,
     updateRecurringTask,
     deleteRecurringTask
-  }
-  return { 
-    addTask, 
-    updateTask, 
-    deleteTask, 
-    toggleTaskExpanded 
   };
 }
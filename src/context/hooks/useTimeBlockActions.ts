@@ -1,20 +1,20 @@
 
-import { useState } from 'react';
+import React from 'react';
 import { TimeBlock } from '../TaskTypes';
-import { generateId } from '../TaskHelpers';
 
-export function useTimeBlockActions(timeBlocksInit: TimeBlock[], setTimeBlocks: (blocks: TimeBlock[]) => void) {
-  const addTimeBlock = (timeBlock: Omit<TimeBlock, 'id'>) => {
-    const newTimeBlock = { ...timeBlock, id: generateId() };
-    setTimeBlocks([...timeBlocksInit, newTimeBlock]);
+// Functional updates, so several changes in a row (an import, a plan) all stay
+export function useTimeBlockActions(setTimeBlocks: React.Dispatch<React.SetStateAction<TimeBlock[]>>) {
+  // The block keeps its id, which the server or the offline queue already knows it by
+  const addTimeBlock = (timeBlock: TimeBlock) => {
+    setTimeBlocks(blocks => [...blocks, timeBlock]);
   };
 
   const updateTimeBlock = (timeBlock: TimeBlock) => {
-    setTimeBlocks(timeBlocksInit.map((tb) => (tb.id === timeBlock.id ? timeBlock : tb)));
+    setTimeBlocks(blocks => blocks.map((tb) => (tb.id === timeBlock.id ? timeBlock : tb)));
   };
 
   const deleteTimeBlock = (timeBlockId: string) => {
-    setTimeBlocks(timeBlocksInit.filter((tb) => tb.id !== timeBlockId));
+    setTimeBlocks(blocks => blocks.filter((tb) => tb.id !== timeBlockId));
   };
 
   return { addTimeBlock, updateTimeBlock, deleteTimeBlock };
@@ -5,11 +5,15 @@ import { TaskContextProvider } from './TaskContextProvider';
 import { TimeTrackingProvider } from './TimeTrackingProvider';
 import { ViewModeProvider } from './ViewModeProvider';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { useAuthContext } from '@/context/AuthContext';
 
 export const HybridTaskProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, dataRevision } = useAuthContext();
+  
+  // Remount the data providers whenever the signed-in user changes so they reload their data
   return (
     <ErrorBoundary>
-      <TaskContextProvider>
+      <TaskContextProvider key={`${user?.id ?? 'signed-out'}:${dataRevision}`}>
         <TimeTrackingProvider>
           <ViewModeProvider>
             {children}
@@ -58,7 +58,7 @@ export const SupabaseTaskProvider: React.FC<{ children: ReactNode }> = ({ childr
   const projectActions = useProjectActions(projects, setProjects);
   const taskActions = useTaskActions(tasks, setTasks, () => tasks);
   const timeTrackingActions = useTimeTrackingActions(timeTrackings, setTimeTrackings);
-  const timeBlockActions = useTimeBlockActions(timeBlocks, setTimeBlocks);
+  const timeBlockActions = useTimeBlockActions(setTimeBlocks);
 
   const networkStatus = useOnlineStatus();
   const isOnline = networkStatus.isOnline;
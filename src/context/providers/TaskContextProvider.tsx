@@ -1,27 +1,42 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Project, Task } from '../TaskTypes';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { Project, Task, Label, TaskStatus, RecurrenceOverride } from '../TaskTypes';
 import { sampleProjects, sampleTasks } from '../TaskMockData';
 import { useProjectActions } from '../hooks/useProjectActions';
 import { useTaskActions } from '../hooks/useTaskActions'; 
+import { useLabelActions } from '../hooks/useLabelActions';
+import { useProjectStatusActions } from '../hooks/useProjectStatusActions';
 import type { TaskContextType } from '../types/TaskContextTypes';
 import { v4 as uuidv4 } from 'uuid';
 import { isValidUUID, ensureUUID } from '../TaskHelpers';
 import { supabase } from '@/integrations/supabase/client';
 import { getCurrentUserId } from '@/services/serviceUtils';
+import { pullTaskChanges, pullProjectChanges, pullLabelChanges, pullProjectStatusChanges, applyDelta, applyTaskDelta } from '@/services/deltaSyncService';
 
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [projectStatuses, setProjectStatuses] = useState<TaskStatus[]>([]);
   const [initialized, setInitialized] = useState(false);
 
   useEffect(() => {
     const storedProjects = localStorage.getItem('quire-projects');
     const storedTasks = localStorage.getItem('quire-tasks');
+    const storedLabels = localStorage.getItem('quire-labels');
+    const storedProjectStatuses = localStorage.getItem('quire-project-statuses');
     
     const loadData = async () => {
       try {
+        if (storedLabels) {
+          setLabels(JSON.parse(storedLabels));
+        }
+        
+        if (storedProjectStatuses) {
+          setProjectStatuses(JSON.parse(storedProjectStatuses));
+        }
+        
         if (!storedProjects) {
           setProjects(sampleProjects);
           localStorage.setItem('quire-projects', JSON.stringify(sampleProjects));
@@ -70,6 +85,11 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
               ...task,
               id: newId,
               dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+              recurrenceOverrides: task.recurrenceOverrides?.map((override: RecurrenceOverride) => ({
+                ...override,
+                originalDate: new Date(override.originalDate),
+                dueDate: override.dueDate ? new Date(override.dueDate) : undefined
+              })),
               children,
               timeTracked: task.timeTracked ?? 0,
               // Remove any legacy status field
@@ -113,6 +133,7 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
           await syncTasksToSupabase(finalTasks);
         }
         
+        await pullServerChanges();
         setInitialized(true);
       } catch (error) {
         console.error('Error loading data:', error);
@@ -123,6 +144,57 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
     loadData();
   }, []);
 
+  useEffect(() => {
+    const channels = [
+      supabase.channel('public:tasks')
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'tasks' },
+          () => pullServerChanges()),
+
+      supabase.channel('public:projects')
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'projects' },
+          () => pullServerChanges()),
+
+      supabase.channel('public:labels')
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'labels' },
+          () => pullServerChanges()),
+
+      supabase.channel('public:project_statuses')
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'project_statuses' },
+          () => pullServerChanges())
+    ];
+
+    channels.forEach(channel => channel.subscribe());
+
+    return () => {
+      channels.forEach(channel => {
+        supabase.removeChannel(channel);
+      });
+    };
+  }, []);
+
+  // Pull only the rows changed on the server since the last sync
+  const pullServerChanges = async () => {
+    try {
+      const [projectChanges, labelChanges, statusChanges, taskChanges] = await Promise.all([
+        pullProjectChanges(),
+        pullLabelChanges(),
+        pullProjectStatusChanges(),
+        pullTaskChanges()
+      ]);
+      
+      setProjects(prevProjects => applyDelta(prevProjects, projectChanges));
+      setLabels(prevLabels => applyDelta(prevLabels, labelChanges));
+      setProjectStatuses(prevStatuses => applyDelta(prevStatuses, statusChanges));
+      setTasks(prevTasks => applyTaskDelta(prevTasks, taskChanges));
+    } catch (error) {
+      console.error('Error pulling server changes:', error);
+    }
+  };
+
   // Function to sync projects to Supabase
   const syncProjectsToSupabase = async (projects: Project[]) => {
     try {
@@ -157,6 +229,8 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
               name: project.name,
               description: project.description,
               is_expanded: project.isExpanded,
+              hourly_rate: project.hourlyRate ?? null,
+              currency: project.currency,
               user_id: userId
             });
           
@@ -223,9 +297,13 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
               parent_id: task.parentId,
               notes: task.notes,
               estimated_time: task.estimatedTime,
+              hourly_rate: task.hourlyRate ?? null,
               time_tracked: task.timeTracked || 0,
               completed: task.completed || false,
               time_slot: task.timeSlot,
+              time_zone: task.timeZone,
+              ical_uid: task.icalUid,
+              status: task.status,
               is_recurring: task.isRecurring || false,
               is_expanded: task.isExpanded || true,
               user_id: userId // This will now work since we removed the foreign key constraint
@@ -244,16 +322,32 @@ export const TaskContextProvider: React.FC<{ children: React.ReactNode }> = ({ c
   useEffect(() => {
     localStorage.setItem('quire-projects', JSON.stringify(projects));
     localStorage.setItem('quire-tasks', JSON.stringify(tasks));
-  }, [projects, tasks, initialized]);
+    localStorage.setItem('quire-labels', JSON.stringify(labels));
+    localStorage.setItem('quire-project-statuses', JSON.stringify(projectStatuses));
+  }, [projects, tasks, labels, projectStatuses, initialized]);
 
   const projectActions = useProjectActions(projects, setProjects);
-  const taskActions = useTaskActions(tasks, setTasks, () => tasks);
+  // Task actions read the latest tasks, also when several run before the next render (e.g. an import)
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const setCurrentTasks = (updatedTasks: Task[]) => {
+    tasksRef.current = updatedTasks;
+    setTasks(updatedTasks);
+  };
+
+  const taskActions = useTaskActions(tasks, setCurrentTasks, () => tasksRef.current, projectStatuses);
+  const labelActions = useLabelActions(labels, setLabels, setTasks);
+  const projectStatusActions = useProjectStatusActions(setProjectStatuses, setTasks, () => tasks);
 
   const value: TaskContextType = {
     projects,
     tasks,
+    labels,
+    projectStatuses,
     ...projectActions,
     ...taskActions,
+    ...labelActions,
+    ...projectStatusActions,
   };
 
   return <TaskContext.Provider value={value}>{children}</TaskContext.Provider>;
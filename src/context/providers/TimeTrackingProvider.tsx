@@ -1,7 +1,9 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { ReactNode, TimeTracking, TimeBlock } from '../TaskTypes';
 import { useTimeTrackingActions } from '../hooks/useTimeTrackingActions';
 import { useTimeBlockActions } from '../hooks/useTimeBlockActions';
+import { useFocusSession } from '../hooks/useFocusSession';
+import { useIdleDetection } from '../hooks/useIdleDetection';
 import { supabase } from '@/integrations/supabase/client';
 import { withTaskContext } from '../hocs/withTaskContext';
 import { toast } from "@/hooks/use-toast";
@@ -9,6 +11,23 @@ import { findTaskById, updateTaskInHierarchy, getRootTasks, isValidUUID } from '
 import type { TaskContextType, TimeTrackingContextType } from '../types/TaskContextTypes';
 import { v4 as uuidv4 } from 'uuid';
 import { getCurrentUserId } from '@/services/serviceUtils';
+import { offlineSyncService } from '@/services/offlineSyncService';
+import { indexedDBService, TimerHeartbeat } from '@/services/indexedDBService';
+import { updateTimeTracking as saveRepairedTimeTracking } from '@/services/timeTrackingService';
+import {
+  IdleResolution,
+  getMinutesBetween,
+  getRunningTracking,
+  repairOpenTrackings,
+  requestIdleDetectionPermission
+} from '@/lib/idle-utils';
+import {
+  pullTimeTrackingChanges,
+  pullTimeBlockChanges,
+  getCachedEntities,
+  applyDelta,
+  DeltaChanges
+} from '@/services/deltaSyncService';
 
 const TimeTrackingContext = createContext<TimeTrackingContextType | undefined>(undefined);
 
@@ -28,6 +47,19 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
   const [timeTrackings, setTimeTrackings] = useState<TimeTracking[]>([]);
   const [activeTimeTracking, setActiveTimeTracking] = useState<TimeTracking | null>(null);
   
+  // Rows as last pulled from the server, so realtime events only need to fetch what changed
+  const syncedTimeTrackingsRef = useRef<TimeTracking[]>([]);
+  const syncedTimeBlocksRef = useRef<TimeBlock[]>([]);
+  
+  // Heartbeats left by the previous visit, read before this one starts beating
+  const startupHeartbeatsRef = useRef<Promise<TimerHeartbeat[]> | null>(null);
+  const hasRepairedTimersRef = useRef(false);
+  
+  // Realtime events call the loaders of the latest render, not those of the first one
+  const latestLoadersRef = useRef<{ loadTimeTrackings: () => Promise<void>; loadTimeBlocks: () => Promise<void> } | null>(null);
+  
+  const { idlePeriod, setIdlePeriod } = useIdleDetection(activeTimeTracking);
+  
   useEffect(() => {
     loadInitialData();
   }, []);
@@ -37,12 +69,12 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
       supabase.channel('public:time_trackings')
         .on('postgres_changes', 
           { event: '*', schema: 'public', table: 'time_trackings' }, 
-          () => loadTimeTrackings()),
+          () => latestLoadersRef.current?.loadTimeTrackings()),
 
       supabase.channel('public:time_blocks')
         .on('postgres_changes', 
           { event: '*', schema: 'public', table: 'time_blocks' }, 
-          () => loadTimeBlocks())
+          () => latestLoadersRef.current?.loadTimeBlocks())
     ];
 
     Promise.all(channels.map(channel => channel.subscribe()));
@@ -70,61 +102,95 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     }
   };
 
+  // Apply changes to the rows known from the server, then split off the running timer
+  const applyTimeTrackingChanges = (changes: DeltaChanges<TimeTracking>) => {
+    syncedTimeTrackingsRef.current = applyDelta(syncedTimeTrackingsRef.current, changes);
+    const timeTrackings = syncedTimeTrackingsRef.current;
+    
+    // Older open entries are left behind by crashes and are stopped by repairTimeTrackings
+    const activeTracking = getRunningTracking(timeTrackings);
+    if (activeTracking) {
+      setActiveTimeTracking(activeTracking);
+      setTimeTrackings(timeTrackings.filter(tracking => tracking.endTime));
+    } else {
+      setActiveTimeTracking(null);
+      setTimeTrackings(timeTrackings);
+    }
+  };
+
   const loadTimeTrackings = async () => {
     try {
-      const userId = await getCurrentUserId();
-      const { data, error } = await supabase
-        .from('time_trackings')
-        .select('*')
-        .eq('user_id', userId);
+      if (!startupHeartbeatsRef.current) {
+        startupHeartbeatsRef.current = indexedDBService.getTimerHeartbeats().catch(error => {
+          console.error('Error loading timer heartbeats:', error);
+          return [];
+        });
+      }
       
-      if (error) throw error;
+      if (syncedTimeTrackingsRef.current.length === 0) {
+        const cached = await getCachedEntities<TimeTracking>('time_trackings', 'timeTrackings');
+        applyTimeTrackingChanges({ upserted: cached, deletedIds: [], isFullSync: false });
+      }
       
-      const timeTrackings = data.map(tracking => ({
-        id: tracking.id,
-        taskId: tracking.task_id,
-        startTime: new Date(tracking.start_time),
-        endTime: tracking.end_time ? new Date(tracking.end_time) : undefined,
-        duration: tracking.duration,
-        notes: tracking.notes || undefined
-      }));
-      
-      const activeTracking = timeTrackings.find(tracking => !tracking.endTime);
-      if (activeTracking) {
-        setActiveTimeTracking(activeTracking);
-        setTimeTrackings(timeTrackings.filter(tracking => tracking.endTime));
-      } else {
-        setActiveTimeTracking(null);
-        setTimeTrackings(timeTrackings);
+      applyTimeTrackingChanges(await pullTimeTrackingChanges());
+      
+      // Once per visit, with the server's view of which timers are still open
+      if (!hasRepairedTimersRef.current) {
+        hasRepairedTimersRef.current = true;
+        await repairTimeTrackings(await startupHeartbeatsRef.current);
       }
     } catch (error) {
       console.error('Error loading time trackings:', error);
     }
   };
 
+  const repairTimeTrackings = async (heartbeats: TimerHeartbeat[]) => {
+    const repair = repairOpenTrackings(syncedTimeTrackingsRef.current, heartbeats);
+    
+    let repairedCount = 0;
+    for (const tracking of repair.closed) {
+      try {
+        console.log(`Stopping time tracking ${tracking.id} left running at ${tracking.endTime?.toISOString()}`);
+        await saveRepairedTimeTracking(tracking);
+        repairedCount++;
+      } catch (error) {
+        console.error(`Error repairing time tracking ${tracking.id}:`, error);
+      }
+    }
+    
+    if (repairedCount > 0) {
+      applyTimeTrackingChanges(await pullTimeTrackingChanges());
+      toast({
+        title: "Timers repaired",
+        description: `${repairedCount} timer${repairedCount !== 1 ? 's' : ''} left running by an earlier session ${repairedCount !== 1 ? 'were' : 'was'} stopped.`,
+      });
+    }
+    
+    if (repair.active && repair.awaySince) {
+      setIdlePeriod({ trackingId: repair.active.id, awaySince: repair.awaySince });
+    }
+    
+    await Promise.all(
+      heartbeats
+        .filter(heartbeat => heartbeat.id !== repair.active?.id)
+        .map(heartbeat => indexedDBService.deleteTimerHeartbeat(heartbeat.id))
+    ).catch(error => console.error('Error deleting timer heartbeats:', error));
+  };
+
   const loadTimeBlocks = async () => {
     try {
-      const userId = await getCurrentUserId();
-      const { data, error } = await supabase
-        .from('time_blocks')
-        .select('*')
-        .eq('user_id', userId);
-      
-      if (error) throw error;
-      
-      const timeBlocks = data.map(block => ({
-        id: block.id,
-        taskId: block.task_id,
-        date: new Date(block.date),
-        startTime: block.start_time,
-        endTime: block.end_time
-      }));
+      if (syncedTimeBlocksRef.current.length === 0) {
+        syncedTimeBlocksRef.current = await getCachedEntities<TimeBlock>('time_blocks', 'timeBlocks');
+      }
       
-      setTimeBlocks(timeBlocks);
+      syncedTimeBlocksRef.current = applyDelta(syncedTimeBlocksRef.current, await pullTimeBlockChanges());
+      setTimeBlocks(syncedTimeBlocksRef.current);
     } catch (error) {
       console.error('Error loading time blocks:', error);
     }
   };
+  
+  latestLoadersRef.current = { loadTimeTrackings, loadTimeBlocks };
 
   const updateTaskTimeTracked = (taskId: string, additionalMinutes: number) => {
     const task = findTaskById(taskId, getRootTasks(tasks));
@@ -148,7 +214,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     }
   };
 
-  const timeBlockActions = useTimeBlockActions(timeBlocks, setTimeBlocks);
+  const timeBlockActions = useTimeBlockActions(setTimeBlocks);
   const timeTrackingActions = useTimeTrackingActions(timeTrackings, setTimeTrackings);
 
   const startTimeTracking = async (taskId: string, notes?: string) => {
@@ -211,9 +277,11 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
             parent_id: localTask.parentId,
             notes: localTask.notes,
             estimated_time: localTask.estimatedTime,
+            hourly_rate: localTask.hourlyRate ?? null,
             time_tracked: localTask.timeTracked || 0,
             completed: localTask.completed || false,
             time_slot: localTask.timeSlot,
+            time_zone: localTask.timeZone,
             is_recurring: localTask.isRecurring || false,
             is_expanded: localTask.isExpanded || true,
             user_id: userId // This will now work since we removed the foreign key constraint
@@ -258,7 +326,10 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
         taskId: data.task_id,
         startTime: new Date(data.start_time),
         duration: 0,
-        notes: data.notes || undefined
+        notes: data.notes || undefined,
+        billable: data.billable,
+        invoiceId: data.invoice_id || undefined,
+        isFocusSession: data.focus_session
       };
       
       setActiveTimeTracking(newTracking);
@@ -272,41 +343,113 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     }
   };
 
+  // Ends the running timer; earlier than now when the time the user was away is discarded
+  const closeTimeTracking = async (tracking: TimeTracking, endTime: Date) => {
+    console.log(`Stopping time tracking for taskId: ${tracking.taskId}`);
+    const duration = getMinutesBetween(tracking.startTime, endTime);
+    
+    console.log(`Updating time tracking record with id: ${tracking.id}`);
+    const { error } = await supabase
+      .from('time_trackings')
+      .update({
+        end_time: endTime.toISOString(),
+        duration
+      })
+      .eq('id', tracking.id);
+    
+    if (error) throw error;
+    
+    // Update task's total tracked time
+    const task = findTaskById(tracking.taskId, getRootTasks(tasks));
+    if (task) {
+      console.log(`Updating task time tracked. Task ID: ${task.id}, Current tracked: ${task.timeTracked}, Adding: ${duration}`);
+      updateTaskTimeTracked(tracking.taskId, duration);
+    }
+    
+    setActiveTimeTracking(null);
+    await loadTimeTrackings();
+  };
+
   const stopTimeTracking = async () => {
     try {
       if (activeTimeTracking) {
-        console.log(`Stopping time tracking for taskId: ${activeTimeTracking.taskId}`);
-        const endTime = new Date();
-        const duration = Math.floor((endTime.getTime() - activeTimeTracking.startTime.getTime()) / 60000);
-        
-        console.log(`Updating time tracking record with id: ${activeTimeTracking.id}`);
+        await closeTimeTracking(activeTimeTracking, new Date());
+      }
+    } catch (error) {
+      console.error('Error stopping time tracking:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Keep counts the time away as work. Discard stops the timer when the user left.
+   * Split records the work and the time away as separate entries, the latter non-billable,
+   * and lets the timer go on from now.
+   */
+  const resolveIdleTime = async (resolution: IdleResolution) => {
+    const tracking = activeTimeTracking;
+    const period = idlePeriod;
+    setIdlePeriod(null);
+    if (!tracking || !period || tracking.id !== period.trackingId || resolution === 'keep') return;
+    
+    const awaySince = period.awaySince > tracking.startTime ? period.awaySince : tracking.startTime;
+    
+    try {
+      if (resolution === 'discard') {
+        await closeTimeTracking(tracking, awaySince);
+        return;
+      }
+      
+      const now = new Date();
+      // The timer only moves on past the time that was actually recorded, so nothing is lost or counted twice
+      let recordedUntil = tracking.startTime;
+      if (getMinutesBetween(tracking.startTime, awaySince) > 0) {
+        const work = await addTimeTracking({
+          taskId: tracking.taskId,
+          startTime: tracking.startTime,
+          endTime: awaySince,
+          duration: getMinutesBetween(tracking.startTime, awaySince),
+          notes: tracking.notes,
+          billable: tracking.billable
+        });
+        if (!work) return;
+        recordedUntil = awaySince;
+      }
+      const away = await addTimeTracking({
+        taskId: tracking.taskId,
+        startTime: awaySince,
+        endTime: now,
+        duration: getMinutesBetween(awaySince, now),
+        notes: 'Away',
+        billable: false
+      });
+      if (away) recordedUntil = now;
+      if (recordedUntil === tracking.startTime) return;
+      
+      const movedTracking = { ...tracking, startTime: recordedUntil };
+      if (!offlineSyncService.isAppOnline()) {
+        await offlineSyncService.addTimeTrackingChange('update', movedTracking);
+      } else {
         const { error } = await supabase
           .from('time_trackings')
-          .update({
-            end_time: endTime.toISOString(),
-            duration
-          })
-          .eq('id', activeTimeTracking.id);
+          .update({ start_time: recordedUntil.toISOString() })
+          .eq('id', tracking.id);
         
         if (error) throw error;
-        
-        // Update task's total tracked time
-        const task = findTaskById(activeTimeTracking.taskId, getRootTasks(tasks));
-        if (task) {
-          console.log(`Updating task time tracked. Task ID: ${task.id}, Current tracked: ${task.timeTracked}, Adding: ${duration}`);
-          updateTaskTimeTracked(activeTimeTracking.taskId, duration);
-        }
-        
-        setActiveTimeTracking(null);
-        await loadTimeTrackings();
       }
+      
+      setActiveTimeTracking(movedTracking);
     } catch (error) {
-      console.error('Error stopping time tracking:', error);
-      throw error;
+      console.error('Error resolving idle time:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the running timer. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
-  const addTimeTracking = async (timeTracking: Omit<TimeTracking, 'id'>) => {
+  const addTimeTracking = async (timeTracking: Omit<TimeTracking, 'id'>): Promise<TimeTracking | null> => {
     try {
       const userId = await getCurrentUserId();
       // Find the task to ensure it exists and get its UUID
@@ -321,7 +464,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           description: "Task not found. Please try again.",
           variant: "destructive",
         });
-        return;
+        return null;
       }
       
       // Ensure the task ID is a valid UUID
@@ -332,7 +475,16 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           description: "Invalid task ID format. Please refresh the page.",
           variant: "destructive",
         });
-        return;
+        return null;
+      }
+      
+      // Offline, the entry is kept locally and created once back online
+      if (!offlineSyncService.isAppOnline()) {
+        const newTracking: TimeTracking = { ...timeTracking, id: uuidv4(), taskId: task.id };
+        await offlineSyncService.addTimeTrackingChange('create', newTracking);
+        timeTrackingActions.addTimeTracking(newTracking);
+        updateTaskTimeTracked(task.id, timeTracking.duration);
+        return newTracking;
       }
       
       console.log(`Inserting time tracking with task_id: ${task.id}`);
@@ -344,6 +496,8 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           end_time: timeTracking.endTime?.toISOString(),
           duration: timeTracking.duration,
           notes: timeTracking.notes,
+          billable: timeTracking.billable ?? true,
+          focus_session: timeTracking.isFocusSession ?? false,
           user_id: userId
         })
         .select()
@@ -357,7 +511,10 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
         startTime: new Date(data.start_time),
         endTime: data.end_time ? new Date(data.end_time) : undefined,
         duration: data.duration,
-        notes: data.notes || undefined
+        notes: data.notes || undefined,
+        billable: data.billable,
+        invoiceId: data.invoice_id || undefined,
+        isFocusSession: data.focus_session
       };
       
       timeTrackingActions.addTimeTracking(newTracking);
@@ -365,6 +522,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
       // Update task's total tracked time
       updateTaskTimeTracked(task.id, timeTracking.duration);
       console.log(`Time tracking added successfully with id: ${data.id}`);
+      return newTracking;
     } catch (error) {
       console.error('Error adding time tracking:', error);
       if (error.message) console.error('Error message:', error.message);
@@ -374,6 +532,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
         description: "Failed to add time tracking. Please try again.",
         variant: "destructive",
       });
+      return null;
     }
   };
 
@@ -386,7 +545,8 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           start_time: timeTracking.startTime.toISOString(),
           end_time: timeTracking.endTime?.toISOString(),
           duration: timeTracking.duration,
-          notes: timeTracking.notes
+          notes: timeTracking.notes,
+          billable: timeTracking.billable ?? true
         })
         .eq('id', timeTracking.id);
       
@@ -428,7 +588,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     }
   };
 
-  const addTimeBlock = async (timeBlock: Omit<TimeBlock, 'id'>) => {
+  const addTimeBlock = async (timeBlock: Omit<TimeBlock, 'id'>): Promise<TimeBlock | null> => {
     try {
       const userId = await getCurrentUserId();
       // Find the task to ensure it exists and get its UUID
@@ -443,7 +603,7 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           description: "Task not found. Please try again.",
           variant: "destructive",
         });
-        return;
+        return null;
       }
       
       // Ensure the task ID is a valid UUID
@@ -454,7 +614,15 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           description: "Invalid task ID format. Please refresh the page.",
           variant: "destructive",
         });
-        return;
+        return null;
+      }
+      
+      // Offline, the block is kept locally and created once back online
+      if (!offlineSyncService.isAppOnline()) {
+        const newTimeBlock: TimeBlock = { ...timeBlock, id: uuidv4(), taskId: task.id };
+        timeBlockActions.addTimeBlock(newTimeBlock);
+        await offlineSyncService.addTimeBlockChange('create', newTimeBlock);
+        return newTimeBlock;
       }
       
       console.log(`Inserting time block with task_id: ${task.id}`);
@@ -465,6 +633,8 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           date: timeBlock.date.toISOString(),
           start_time: timeBlock.startTime,
           end_time: timeBlock.endTime,
+          time_zone: timeBlock.timeZone,
+          ical_uid: timeBlock.icalUid,
           user_id: userId
         })
         .select()
@@ -477,10 +647,13 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
         taskId: data.task_id,
         date: new Date(data.date),
         startTime: data.start_time,
-        endTime: data.end_time
+        endTime: data.end_time,
+        timeZone: data.time_zone || undefined,
+        icalUid: data.ical_uid || undefined
       };
       
       timeBlockActions.addTimeBlock(newTimeBlock);
+      return newTimeBlock;
     } catch (error) {
       console.error(`Error adding time block:`, error);
       if (error.message) console.error('Error message:', error.message);
@@ -490,11 +663,22 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
         description: "Failed to add time block. Please try again.",
         variant: "destructive",
       });
+      return null;
     }
   };
 
   const updateTimeBlock = async (timeBlock: TimeBlock) => {
+    const previousTimeBlock = timeBlocks.find(tb => tb.id === timeBlock.id);
+    
+    // Shown right away and put back if the server rejects the change
+    timeBlockActions.updateTimeBlock(timeBlock);
+    
     try {
+      if (!offlineSyncService.isAppOnline()) {
+        await offlineSyncService.addTimeBlockChange('update', timeBlock);
+        return;
+      }
+      
       console.log(`Updating time block with id: ${timeBlock.id}`);
       const { error } = await supabase
         .from('time_blocks')
@@ -502,20 +686,25 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
           task_id: timeBlock.taskId,
           date: timeBlock.date.toISOString(),
           start_time: timeBlock.startTime,
-          end_time: timeBlock.endTime
+          end_time: timeBlock.endTime,
+          time_zone: timeBlock.timeZone,
+          ical_uid: timeBlock.icalUid
         })
         .eq('id', timeBlock.id);
       
       if (error) throw error;
-      
-      timeBlockActions.updateTimeBlock(timeBlock);
     } catch (error) {
       console.error(`Error updating time block ${timeBlock.id}:`, error);
       if (error.message) console.error('Error message:', error.message);
       if (error.details) console.error('Error details:', error.details);
+      
+      // Unless the block has been changed again in the meantime
+      if (previousTimeBlock) {
+        setTimeBlocks(blocks => blocks.map(tb => (tb === timeBlock ? previousTimeBlock : tb)));
+      }
       toast({
         title: "Error",
-        description: "Failed to update time block. Please try again.",
+        description: "Failed to update time block. The change was undone.",
         variant: "destructive",
       });
     }
@@ -544,11 +733,32 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     }
   };
 
+  const focusSessionActions = useFocusSession(tasks, addTimeTracking);
+
+  // Focus mode records its own entries, so the stopwatch must not run alongside it
+  const startFocusSession = async (taskId: string) => {
+    if (activeTimeTracking) {
+      await stopTimeTracking();
+    }
+    if (focusSessionActions.focusSession) {
+      focusSessionActions.stopFocusSession();
+    }
+    focusSessionActions.startFocusSession(taskId);
+  };
+
+  const startStopwatch = (taskId: string, notes?: string) => {
+    requestIdleDetectionPermission();
+    if (focusSessionActions.focusSession) {
+      focusSessionActions.stopFocusSession();
+    }
+    return startTimeTracking(taskId, notes);
+  };
+
   const value: TimeTrackingContextType = {
     timeBlocks,
     timeTrackings,
     activeTimeTracking,
-    startTimeTracking,
+    startTimeTracking: startStopwatch,
     stopTimeTracking,
     addTimeTracking,
     updateTimeTracking,
@@ -556,6 +766,10 @@ const TimeTrackingProviderBase: React.FC<TimeTrackingProviderProps> = ({
     addTimeBlock,
     updateTimeBlock,
     deleteTimeBlock,
+    ...focusSessionActions,
+    startFocusSession,
+    idlePeriod,
+    resolveIdleTime,
   };
 
   return (
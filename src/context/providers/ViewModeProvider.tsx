@@ -1,25 +1,61 @@
-
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
 import { ReactNode } from '../TaskTypes';
+import { useAuthContext } from '../AuthContext';
+import { getDefaultTimeZone, isValidTimeZone, saveDefaultTimeZone } from '@/lib/timezone-utils';
+import { getProfileTimeZone, updateProfileTimeZone } from '@/services/profileService';
+
+export type SelectedView = 'projects' | 'board' | 'calendar' | 'reports';
 
 interface ViewModeContextType {
-  selectedView: 'projects' | 'calendar';
-  setSelectedView: (view: 'projects' | 'calendar') => void;
+  selectedView: SelectedView;
+  setSelectedView: (view: SelectedView) => void;
   selectedDate: Date;
   setSelectedDate: (date: Date) => void;
+  // Zone the calendar is shown in and new tasks are created in
+  timeZone: string;
+  setTimeZone: (timeZone: string) => void;
 }
 
 const ViewModeContext = createContext<ViewModeContextType | undefined>(undefined);
 
 export const ViewModeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [selectedView, setSelectedView] = useState<'projects' | 'calendar'>('projects');
+  const { user } = useAuthContext();
+  const [selectedView, setSelectedView] = useState<SelectedView>('projects');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [timeZone, setTimeZoneState] = useState<string>(getDefaultTimeZone);
+
+  // The zone saved on the profile follows the user across devices
+  useEffect(() => {
+    if (!user || !navigator.onLine) return;
+
+    getProfileTimeZone()
+      .then(profileTimeZone => {
+        if (isValidTimeZone(profileTimeZone)) {
+          saveDefaultTimeZone(profileTimeZone);
+          setTimeZoneState(profileTimeZone);
+        }
+      })
+      .catch(error => console.error('Error loading profile time zone:', error));
+  }, [user]);
+
+  const setTimeZone = (newTimeZone: string) => {
+    saveDefaultTimeZone(newTimeZone);
+    setTimeZoneState(newTimeZone);
+
+    if (user) {
+      updateProfileTimeZone(newTimeZone).catch(error =>
+        console.error('Error saving profile time zone:', error)
+      );
+    }
+  };
 
   const value = {
     selectedView,
     setSelectedView,
     selectedDate,
-    setSelectedDate
+    setSelectedDate,
+    timeZone,
+    setTimeZone
   };
 
   return (
@@ -1,9 +1,13 @@
 
-import { Task, Project, TimeTracking, TimeBlock } from '../TaskTypes';
+import { Task, Project, Label, TaskStatus, TimeTracking, TimeBlock, FocusSession, IdlePeriod } from '../TaskTypes';
+import { FocusSettings } from '@/lib/focus-utils';
+import { IdleResolution } from '@/lib/idle-utils';
 
 export interface TaskContextType {
   projects: Project[];
   tasks: Task[];
+  labels: Label[];
+  projectStatuses: TaskStatus[];
   addProject: (project: Omit<Project, 'id' | 'isExpanded'>) => void;
   updateProject: (project: Project) => void;
   deleteProject: (projectId: string) => void;
@@ -12,6 +16,11 @@ export interface TaskContextType {
   updateTask: (task: Task) => void;
   deleteTask: (taskId: string) => void;
   toggleTaskExpanded: (taskId: string) => void;
+  updateRecurringTask: (task: Task, updateMode?: 'single' | 'future' | 'all') => void;
+  addLabel: (label: Omit<Label, 'id'>) => Label;
+  updateLabel: (label: Label) => void;
+  deleteLabel: (labelId: string) => void;
+  updateProjectStatuses: (projectId: string, statuses: TaskStatus[]) => void;
 }
 
 export interface TimeTrackingContextType {
@@ -20,10 +29,18 @@ export interface TimeTrackingContextType {
   activeTimeTracking: TimeTracking | null;
   startTimeTracking: (taskId: string, notes?: string) => void;
   stopTimeTracking: () => void;
-  addTimeTracking: (timeTracking: Omit<TimeTracking, 'id'>) => void;
+  addTimeTracking: (timeTracking: Omit<TimeTracking, 'id'>) => Promise<TimeTracking | null>; // Null when it was not saved; the error is shown already
   updateTimeTracking: (timeTracking: TimeTracking) => void;
   deleteTimeTracking: (timeTrackingId: string) => void;
-  addTimeBlock: (timeBlock: Omit<TimeBlock, 'id'>) => void;
+  addTimeBlock: (timeBlock: Omit<TimeBlock, 'id'>) => Promise<TimeBlock | null>; // Null when it was not saved; the error is shown already
   updateTimeBlock: (timeBlock: TimeBlock) => void;
   deleteTimeBlock: (timeBlockId: string) => void;
+  focusSession: FocusSession | null;
+  focusSettings: FocusSettings;
+  startFocusSession: (taskId: string) => void; // Stops the running timer first
+  stopFocusSession: () => void;
+  skipFocusPhase: () => void;
+  updateFocusSettings: (settings: FocusSettings) => void;
+  idlePeriod: IdlePeriod | null; // Set when the running timer went on while the user was away
+  resolveIdleTime: (resolution: IdleResolution) => void;
 }
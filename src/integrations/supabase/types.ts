@@ -9,31 +9,228 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          name: string
+          project_id: string | null
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          name: string
+          project_id?: string | null
+          token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          name?: string
+          project_id?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deleted_rows: {
+        Row: {
+          deleted_at: string
+          id: string
+          row_id: string
+          table_name: string
+          user_id: string
+        }
+        Insert: {
+          deleted_at?: string
+          id?: string
+          row_id: string
+          table_name: string
+          user_id: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: string
+          row_id?: string
+          table_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          line_items: Json
+          number: string
+          period_end: string
+          period_start: string
+          project_id: string | null
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          line_items?: Json
+          number: string
+          period_end: string
+          period_start: string
+          project_id?: string | null
+          total?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          line_items?: Json
+          number?: string
+          period_end?: string
+          period_start?: string
+          project_id?: string | null
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labels: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
+          email: string | null
           id: string
           name: string | null
+          time_zone: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          email?: string | null
           id: string
           name?: string | null
+          time_zone?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          email?: string | null
           id?: string
           name?: string | null
+          time_zone?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      project_statuses: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_done: boolean
+          key: string
+          name: string
+          position: number
+          project_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          key: string
+          name: string
+          position?: number
+          project_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          key?: string
+          name?: string
+          position?: number
+          project_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           created_at: string
+          currency: string
           description: string | null
+          hourly_rate: number | null
           id: string
           is_expanded: boolean | null
           name: string
@@ -42,7 +239,9 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          currency?: string
           description?: string | null
+          hourly_rate?: number | null
           id?: string
           is_expanded?: boolean | null
           name: string
@@ -51,7 +250,9 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          currency?: string
           description?: string | null
+          hourly_rate?: number | null
           id?: string
           is_expanded?: boolean | null
           name?: string
@@ -89,6 +290,56 @@ export type Database = {
           },
         ]
       }
+      recurrence_overrides: {
+        Row: {
+          completed: boolean | null
+          created_at: string
+          due_date: string | null
+          id: string
+          notes: string | null
+          original_date: string
+          status: string | null
+          task_id: string
+          time_slot: string | null
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          completed?: boolean | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          original_date: string
+          status?: string | null
+          task_id: string
+          time_slot?: string | null
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          completed?: boolean | null
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          original_date?: string
+          status?: string | null
+          task_id?: string
+          time_slot?: string | null
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurrence_overrides_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recurrence_patterns: {
         Row: {
           created_at: string
@@ -98,8 +349,10 @@ export type Database = {
           frequency: Database["public"]["Enums"]["recurrence_frequency"]
           id: string
           interval: number
+          mode: string
           month_of_year: number | null
           occurrences: number | null
+          rrule: string | null
           task_id: string
           updated_at: string
         }
@@ -111,8 +364,10 @@ export type Database = {
           frequency?: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
           interval?: number
+          mode?: string
           month_of_year?: number | null
           occurrences?: number | null
+          rrule?: string | null
           task_id: string
           updated_at?: string
         }
@@ -124,8 +379,10 @@ export type Database = {
           frequency?: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
           interval?: number
+          mode?: string
           month_of_year?: number | null
           occurrences?: number | null
+          rrule?: string | null
           task_id?: string
           updated_at?: string
         }
@@ -139,6 +396,72 @@ export type Database = {
           },
         ]
       }
+      task_dependencies: {
+        Row: {
+          blocked_by_task_id: string
+          created_at: string
+          task_id: string
+        }
+        Insert: {
+          blocked_by_task_id: string
+          created_at?: string
+          task_id: string
+        }
+        Update: {
+          blocked_by_task_id?: string
+          created_at?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_blocked_by_task_id_fkey"
+            columns: ["blocked_by_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          created_at: string
+          label_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          label_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          label_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           completed: boolean
@@ -146,6 +469,8 @@ export type Database = {
           description: string | null
           due_date: string | null
           estimated_time: number | null
+          hourly_rate: number | null
+          ical_uid: string | null
           id: string
           is_expanded: boolean | null
           is_recurring: boolean
@@ -153,8 +478,11 @@ export type Database = {
           parent_id: string | null
           priority: Database["public"]["Enums"]["priority_level"]
           project_id: string
+          recurrence_parent_id: string | null
+          status: string | null
           time_slot: string | null
           time_tracked: number
+          time_zone: string | null
           title: string
           updated_at: string
           user_id: string
@@ -165,6 +493,8 @@ export type Database = {
           description?: string | null
           due_date?: string | null
           estimated_time?: number | null
+          hourly_rate?: number | null
+          ical_uid?: string | null
           id?: string
           is_expanded?: boolean | null
           is_recurring?: boolean
@@ -172,8 +502,11 @@ export type Database = {
           parent_id?: string | null
           priority?: Database["public"]["Enums"]["priority_level"]
           project_id: string
+          recurrence_parent_id?: string | null
+          status?: string | null
           time_slot?: string | null
           time_tracked?: number
+          time_zone?: string | null
           title: string
           updated_at?: string
           user_id: string
@@ -184,6 +517,8 @@ export type Database = {
           description?: string | null
           due_date?: string | null
           estimated_time?: number | null
+          hourly_rate?: number | null
+          ical_uid?: string | null
           id?: string
           is_expanded?: boolean | null
           is_recurring?: boolean
@@ -191,8 +526,11 @@ export type Database = {
           parent_id?: string | null
           priority?: Database["public"]["Enums"]["priority_level"]
           project_id?: string
+          recurrence_parent_id?: string | null
+          status?: string | null
           time_slot?: string | null
           time_tracked?: number
+          time_zone?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -205,6 +543,13 @@ export type Database = {
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_recurrence_parent_id_fkey"
+            columns: ["recurrence_parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -219,9 +564,11 @@ export type Database = {
           created_at: string
           date: string
           end_time: string
+          ical_uid: string | null
           id: string
           start_time: string
           task_id: string
+          time_zone: string | null
           updated_at: string
           user_id: string
         }
@@ -229,9 +576,11 @@ export type Database = {
           created_at?: string
           date: string
           end_time: string
+          ical_uid?: string | null
           id?: string
           start_time: string
           task_id: string
+          time_zone?: string | null
           updated_at?: string
           user_id: string
         }
@@ -239,9 +588,11 @@ export type Database = {
           created_at?: string
           date?: string
           end_time?: string
+          ical_uid?: string | null
           id?: string
           start_time?: string
           task_id?: string
+          time_zone?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -257,10 +608,13 @@ export type Database = {
       }
       time_trackings: {
         Row: {
+          billable: boolean
           created_at: string
           duration: number
           end_time: string | null
+          focus_session: boolean
           id: string
+          invoice_id: string | null
           notes: string | null
           start_time: string
           task_id: string
@@ -268,10 +622,13 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          billable?: boolean
           created_at?: string
           duration?: number
           end_time?: string | null
+          focus_session?: boolean
           id?: string
+          invoice_id?: string | null
           notes?: string | null
           start_time: string
           task_id: string
@@ -279,10 +636,13 @@ export type Database = {
           user_id: string
         }
         Update: {
+          billable?: boolean
           created_at?: string
           duration?: number
           end_time?: string | null
+          focus_session?: boolean
           id?: string
+          invoice_id?: string | null
           notes?: string | null
           start_time?: string
           task_id?: string
@@ -290,6 +650,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "time_trackings_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "time_trackings_task_id_fkey"
             columns: ["task_id"]
@@ -304,7 +671,27 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_anonymous_data: {
+        Args: { p_anonymous_id: string }
+        Returns: number
+      }
+      create_invoice: {
+        Args: {
+          p_project_id: string
+          p_number: string
+          p_period_start: string
+          p_period_end: string
+          p_currency: string
+          p_total: number
+          p_line_items: Json
+          p_time_tracking_ids: string[]
+        }
+        Returns: string
+      }
+      prune_deleted_rows: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       priority_level: "low" | "medium" | "high"
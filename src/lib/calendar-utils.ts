@@ -0,0 +1,66 @@
+import { parseTimeToMinutes } from './time-utils';
+
+// Height of one hour in the calendar's time grid
+export const HOUR_HEIGHT = 48;
+export const MINUTE_HEIGHT = HOUR_HEIGHT / 60;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Grid intervals tasks and time blocks can snap to when moved or resized
+export const SNAP_INTERVALS = [5, 10, 15, 30, 60];
+export const DEFAULT_SNAP_MINUTES = 30;
+
+// Drag data type of time blocks; tasks are dragged as their id in text/plain
+export const TIME_BLOCK_DRAG_TYPE = 'application/x-khonja-time-block';
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Format minutes since midnight as a time slot ("HH:MM")
+ */
+export const minutesToTimeSlot = (minutes: number): string =>
+  `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Round minutes to the nearest multiple of the snap interval
+ */
+export const snapToGrid = (minutes: number, snapMinutes: number): number =>
+  Math.round(minutes / snapMinutes) * snapMinutes;
+
+/**
+ * Keep a start time on the day, leaving room for at least one interval after it
+ */
+export const clampStartMinutes = (minutes: number, snapMinutes: number): number =>
+  Math.min(Math.max(minutes, 0), MINUTES_PER_DAY - snapMinutes);
+
+/**
+ * The start of the grid interval under the pointer in an hour row of the time grid
+ */
+export const getTimeSlotAtOffset = (hour: number, offsetY: number, rowHeight: number, snapMinutes: number): string => {
+  const minutes = hour * 60 + Math.floor((offsetY / rowHeight) * 60 / snapMinutes) * snapMinutes;
+  return minutesToTimeSlot(clampStartMinutes(minutes, snapMinutes));
+};
+
+/**
+ * Move a time slot by a number of minutes, staying on the same day
+ */
+export const shiftTimeSlot = (timeSlot: string, minutes: number, snapMinutes: number): string =>
+  minutesToTimeSlot(clampStartMinutes(parseTimeToMinutes(timeSlot) + minutes, snapMinutes));
+
+/**
+ * Minutes between two time slots of the same day
+ */
+export const getTimeSlotDuration = (startTime: string, endTime: string): number =>
+  parseTimeToMinutes(endTime) - parseTimeToMinutes(startTime);
+
+/**
+ * The time slot a duration after a start time, ending at midnight at the latest
+ */
+export const getEndTimeSlot = (startTime: string, durationMinutes: number): string =>
+  minutesToTimeSlot(Math.min(parseTimeToMinutes(startTime) + durationMinutes, MINUTES_PER_DAY - 1));
+
+/**
+ * Every time slot of a day at the given interval
+ */
+export const generateTimeSlots = (snapMinutes: number = DEFAULT_SNAP_MINUTES): string[] =>
+  Array.from({ length: MINUTES_PER_DAY / snapMinutes }, (_, index) => minutesToTimeSlot(index * snapMinutes));
@@ -0,0 +1,45 @@
+
+import { Task } from '@/context/TaskTypes';
+import { flattenTasks } from '../../supabase/functions/_shared/tasks';
+
+export { flattenTasks };
+
+export const getTasksById = (tasks: Task[]): Map<string, Task> =>
+  new Map(flattenTasks(tasks).map(task => [task.id, task]));
+
+// Blocking tasks that still have to be completed; blockers that no longer exist are ignored
+export const getOpenBlockers = (task: Task, tasksById: Map<string, Task>): Task[] =>
+  (task.blockedByIds || [])
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task => !!blocker && !blocker.completed);
+
+export const isTaskBlocked = (task: Task, tasksById: Map<string, Task>): boolean =>
+  !task.completed && getOpenBlockers(task, tasksById).length > 0;
+
+// Tasks that wait on the given task
+export const getBlockedTasks = (taskId: string, tasksById: Map<string, Task>): Task[] =>
+  [...tasksById.values()].filter(task => task.blockedByIds?.includes(taskId));
+
+/**
+ * Check whether making taskId wait on blockerId would close a loop, i.e. the
+ * blocker already (indirectly) waits on the task
+ */
+export const wouldCreateCycle = (
+  taskId: string,
+  blockerId: string,
+  tasksById: Map<string, Task>
+): boolean => {
+  const visited = new Set<string>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    if (currentId === taskId) return true;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+
+    stack.push(...(tasksById.get(currentId)?.blockedByIds || []));
+  }
+
+  return false;
+};
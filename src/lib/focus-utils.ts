@@ -0,0 +1,184 @@
+import { FocusPhase, FocusSession } from '@/context/TaskTypes';
+
+const FOCUS_SETTINGS_STORAGE_KEY = 'quire-focus-settings';
+export const FOCUS_SESSION_STORAGE_KEY = 'quire-focus-session';
+
+// A break that ended longer ago than this went unnoticed, so no work interval is started after it
+const MAX_UNATTENDED_MS = 5 * 60000;
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  sessionsBeforeLongBreak: number; // Every Nth work interval is followed by a long break
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  sessionsBeforeLongBreak: 4,
+};
+
+export interface FocusInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface FocusTransition {
+  from: FocusPhase;
+  to: FocusPhase;
+  at: Date;
+}
+
+export interface FocusProgress {
+  session: FocusSession | null; // Null when focus mode ended unattended
+  completedWork: FocusInterval[]; // Work intervals that ended, oldest first
+  transitions: FocusTransition[];
+}
+
+export const getFocusSettings = (): FocusSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FOCUS_SETTINGS_STORAGE_KEY) || 'null');
+    if (saved && saved.workMinutes > 0 && saved.sessionsBeforeLongBreak > 0) {
+      return { ...DEFAULT_FOCUS_SETTINGS, ...saved };
+    }
+  } catch (error) {
+    console.error('Error loading focus settings:', error);
+  }
+  return DEFAULT_FOCUS_SETTINGS;
+};
+
+export const saveFocusSettings = (settings: FocusSettings): void => {
+  localStorage.setItem(FOCUS_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The focus session saved by the last page, so a reload continues where it left off
+ */
+export const getSavedFocusSession = (): FocusSession | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(FOCUS_SESSION_STORAGE_KEY) || 'null');
+    if (!saved) return null;
+    return {
+      ...saved,
+      phaseStartedAt: new Date(saved.phaseStartedAt),
+      phaseEndsAt: new Date(saved.phaseEndsAt),
+    };
+  } catch (error) {
+    console.error('Error loading focus session:', error);
+    return null;
+  }
+};
+
+export const saveFocusSession = (session: FocusSession | null): void => {
+  if (session) {
+    localStorage.setItem(FOCUS_SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(FOCUS_SESSION_STORAGE_KEY);
+  }
+};
+
+export const isSameFocusPhase = (a: FocusSession | null, b: FocusSession | null): boolean =>
+  a?.taskId === b?.taskId && a?.phaseStartedAt.getTime() === b?.phaseStartedAt.getTime();
+
+export const getPhaseMinutes = (phase: FocusPhase, settings: FocusSettings): number => {
+  switch (phase) {
+    case 'shortBreak':
+      return settings.shortBreakMinutes;
+    case 'longBreak':
+      return settings.longBreakMinutes;
+    default:
+      return settings.workMinutes;
+  }
+};
+
+/**
+ * The phase after the current one; completedSessions already counts a work interval that just ended
+ */
+export const getNextPhase = (phase: FocusPhase, completedSessions: number, settings: FocusSettings): FocusPhase => {
+  if (phase !== 'work') return 'work';
+  return completedSessions > 0 && completedSessions % settings.sessionsBeforeLongBreak === 0
+    ? 'longBreak'
+    : 'shortBreak';
+};
+
+const startPhase = (session: FocusSession, phase: FocusPhase, at: Date, settings: FocusSettings): FocusSession => ({
+  ...session,
+  phase,
+  phaseStartedAt: at,
+  phaseEndsAt: new Date(at.getTime() + getPhaseMinutes(phase, settings) * 60000),
+});
+
+export const createFocusSession = (taskId: string, settings: FocusSettings, now: Date = new Date()): FocusSession =>
+  startPhase({ taskId, phase: 'work', phaseStartedAt: now, phaseEndsAt: now, completedSessions: 0 }, 'work', now, settings);
+
+/**
+ * Move a session past every phase boundary up to now. Phases follow each other
+ * without gaps, so a page that was throttled or closed catches up exactly.
+ */
+export const advanceFocusSession = (
+  session: FocusSession,
+  settings: FocusSettings,
+  now: Date = new Date()
+): FocusProgress => {
+  const completedWork: FocusInterval[] = [];
+  const transitions: FocusTransition[] = [];
+  let current = session;
+
+  while (current.phaseEndsAt.getTime() <= now.getTime()) {
+    const endedAt = current.phaseEndsAt;
+    let completedSessions = current.completedSessions;
+
+    if (current.phase === 'work') {
+      completedWork.push({ start: current.phaseStartedAt, end: endedAt });
+      completedSessions += 1;
+    } else if (now.getTime() - endedAt.getTime() > MAX_UNATTENDED_MS) {
+      return { session: null, completedWork, transitions };
+    }
+
+    const next = getNextPhase(current.phase, completedSessions, settings);
+    transitions.push({ from: current.phase, to: next, at: endedAt });
+    current = startPhase({ ...current, completedSessions }, next, endedAt, settings);
+  }
+
+  return { session: current, completedWork, transitions };
+};
+
+/**
+ * End the current phase now. Skipping work starts a short break without counting a session.
+ */
+export const skipFocusPhase = (session: FocusSession, settings: FocusSettings, now: Date = new Date()): FocusSession =>
+  startPhase(session, session.phase === 'work' ? 'shortBreak' : 'work', now, settings);
+
+export const getFocusPhaseLabel = (phase: FocusPhase): string => {
+  switch (phase) {
+    case 'shortBreak':
+      return 'Short break';
+    case 'longBreak':
+      return 'Long break';
+    default:
+      return 'Focus';
+  }
+};
+
+/**
+ * Title and body of the notification sent when a phase starts
+ */
+export const getFocusNotification = (
+  phase: FocusPhase,
+  completedSessions: number,
+  taskTitle: string,
+  settings: FocusSettings
+): { title: string; body: string } => {
+  const minutes = getPhaseMinutes(phase, settings);
+
+  if (phase === 'work') {
+    return { title: 'Back to work', body: `Focus on "${taskTitle}" for ${minutes} minutes.` };
+  }
+
+  const sessions = `${completedSessions} focus session${completedSessions !== 1 ? 's' : ''} done on "${taskTitle}".`;
+  return phase === 'longBreak'
+    ? { title: 'Time for a long break', body: `${sessions} Take ${minutes} minutes.` }
+    : { title: 'Time for a break', body: `${sessions} Take ${minutes} minutes.` };
+};
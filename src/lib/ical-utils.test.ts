@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TimeBlock } from '@/context/TaskTypes';
+import { createICalendar, parseICalendarItems } from './ical-utils';
+import { getRecurrenceRule } from './recurrence-utils';
+import { fromCalendarDay } from './timezone-utils';
+
+const STOCKHOLM = 'Europe/Stockholm';
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  priority: 'medium',
+  projectId: 'project-1',
+  children: [],
+  timeTracked: 0,
+  ...overrides,
+});
+
+const roundTrip = (tasks: Task[], timeBlocks: TimeBlock[] = []) => {
+  const data = createICalendar(tasks, timeBlocks, []);
+  return { data, items: parseICalendarItems(data, 'UTC') };
+};
+
+describe('iCalendar export and import', () => {
+  it('folds long lines at 75 octets and unfolds them again', () => {
+    const title = `Läs igenom ${'den långa rapporten '.repeat(8)}`.trim();
+    const { data, items } = roundTrip([
+      task({ title, dueDate: fromCalendarDay(new Date(2025, 2, 10), STOCKHOLM), timeZone: STOCKHOLM }),
+    ]);
+
+    const lines = data.split('\r\n');
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(items[0].title).toBe(title);
+  });
+
+  it('escapes and unescapes text', () => {
+    const title = 'Plan; review, and ship \\ release';
+    const description = 'First line\nSecond line; with, punctuation';
+    const { data, items } = roundTrip([
+      task({ title, description, dueDate: fromCalendarDay(new Date(2025, 2, 10), STOCKHOLM), timeZone: STOCKHOLM }),
+    ]);
+
+    expect(data).toContain('SUMMARY:Plan\\; review\\, and ship \\\\ release');
+    expect(data).toContain('DESCRIPTION:First line\\nSecond line\\; with\\, punctuation');
+    expect(items[0]).toMatchObject({ title, description });
+  });
+
+  it('keeps the zone and time of a timed task', () => {
+    const dueDate = fromCalendarDay(new Date(2025, 2, 10), STOCKHOLM);
+    const { data, items } = roundTrip([
+      task({ dueDate, timeSlot: '09:30', timeZone: STOCKHOLM, estimatedTime: 45, priority: 'high' }),
+    ]);
+
+    expect(data).toContain('DTSTART;TZID=Europe/Stockholm:20250310T093000');
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      uid: 'task-1',
+      type: 'VEVENT',
+      timeSlot: '09:30',
+      endTime: '10:15',
+      durationMinutes: 45,
+      timeZone: STOCKHOLM,
+      priority: 'high',
+    });
+    expect(items[0].dueDate).toEqual(dueDate);
+  });
+
+  it('keeps an all-day task on its day', () => {
+    const dueDate = fromCalendarDay(new Date(2025, 5, 1), STOCKHOLM);
+    const { data, items } = roundTrip([task({ dueDate, timeZone: STOCKHOLM, completed: true })]);
+
+    expect(data).toContain('DUE;VALUE=DATE:20250601');
+    expect(items[0]).toMatchObject({ type: 'VTODO', timeZone: 'UTC', completed: true });
+    expect(items[0].timeSlot).toBeUndefined();
+    expect(items[0].dueDate).toEqual(fromCalendarDay(new Date(2025, 5, 1), 'UTC'));
+  });
+
+  it('preserves the RRULE, UNTIL and EXDATEs of a recurring task', () => {
+    const day = new Date(2025, 0, 14);
+    const recurringTask = task({
+      dueDate: fromCalendarDay(day, STOCKHOLM),
+      timeSlot: '08:00',
+      timeZone: STOCKHOLM,
+      isRecurring: true,
+      recurrencePattern: {
+        frequency: 'monthly',
+        interval: 1,
+        rrule: 'FREQ=MONTHLY;BYDAY=2TU;WKST=SU;UNTIL=20250610',
+      },
+      recurrenceExceptions: [new Date(2025, 2, 11)],
+    });
+
+    const { data, items } = roundTrip([recurringTask]);
+
+    expect(data).toMatch(/RRULE:FREQ=MONTHLY;BYDAY=2TU;WKST=SU;UNTIL=20250610T\d{6}Z/);
+    expect(data).toContain('EXDATE;TZID=Europe/Stockholm:20250311T080000');
+    expect(getRecurrenceRule(items[0].recurrencePattern!, day)).toEqual(
+      getRecurrenceRule(recurringTask.recurrencePattern!, day)
+    );
+    expect(items[0].recurrenceExceptions).toEqual([new Date(2025, 2, 11)]);
+  });
+
+  it('leaves out undated tasks', () => {
+    expect(roundTrip([task({})]).items).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+import { Priority, RecurrencePattern, Task, TimeBlock } from '@/context/TaskTypes';
+import { toRecurrencePattern } from './recurrence-utils';
+import { parseRRule } from './rrule';
+import { fromCalendarDay, getCalendarDay, getZonedParts, isValidTimeZone, zonedTimeToDate } from './timezone-utils';
+import {
+  ICalComponent,
+  ICalProperty,
+  getICalProperties,
+  getICalProperty,
+  parseICalDateValue,
+  parseICalendar,
+  unescapeICalText,
+} from './ical';
+
+export { ICAL_PRODUCT_ID, createICalendar } from '../../supabase/functions/_shared/ical-export';
+export type { ICalExportOptions } from '../../supabase/functions/_shared/ical-export';
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const property = (name: string, value: string, params: Record<string, string> = {}): ICalProperty =>
+  ({ name, params, value });
+
+export interface ICalImportItem {
+  uid: string;
+  type: 'VEVENT' | 'VTODO';
+  title: string;
+  description?: string;
+  dueDate: Date; // Midnight of the day in timeZone, like Task.dueDate
+  timeSlot?: string; // Unset for all-day items
+  endTime?: string;
+  durationMinutes?: number;
+  timeZone: string;
+  priority: Priority;
+  completed: boolean;
+  recurrencePattern?: RecurrencePattern;
+  recurrenceExceptions?: Date[];
+  warnings: string[]; // Parts of the item that could not be imported
+}
+
+// An instant, or a day for DATE values. Floating times are read in the fallback zone.
+const parseDateProperty = (
+  dateProperty: ICalProperty,
+  fallbackTimeZone: string
+): { date: Date; allDay: boolean; timeZone: string }[] => {
+  const tzid = dateProperty.params.TZID;
+  const timeZone = isValidTimeZone(tzid) ? tzid : fallbackTimeZone;
+
+  return dateProperty.value.split(',').map(value => {
+    const parts = parseICalDateValue(value);
+    if (parts.hours === undefined) {
+      return { date: new Date(parts.year, parts.month, parts.day), allDay: true, timeZone };
+    }
+    const date = parts.utc
+      ? new Date(Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds))
+      : zonedTimeToDate(parts.year, parts.month, parts.day, parts.hours, parts.minutes ?? 0, timeZone);
+    // UTC times are shown in the importing user's zone
+    return { date, allDay: false, timeZone: parts.utc ? fallbackTimeZone : timeZone };
+  });
+};
+
+const parseDuration = (value: string): number | undefined => {
+  const match = /^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [weeks, days, hours, minutes] = match.slice(1, 5).map(part => Number(part || 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+};
+
+const fromICalPriority = (value: string | undefined): Priority => {
+  const priority = Number(value);
+  if (!priority) return 'medium';
+  if (priority < 5) return 'high';
+  return priority === 5 ? 'medium' : 'low';
+};
+
+const parseImportItem = (
+  component: ICalComponent,
+  fallbackTimeZone: string
+): ICalImportItem | null => {
+  const type = component.name as ICalImportItem['type'];
+  const uid = getICalProperty(component, 'UID')?.value;
+  const startProperty = type === 'VTODO'
+    ? getICalProperty(component, 'DUE') ?? getICalProperty(component, 'DTSTART')
+    : getICalProperty(component, 'DTSTART');
+  // Undated to-dos and components without a UID cannot be placed or deduplicated
+  if (!uid || !startProperty) return null;
+
+  const warnings: string[] = [];
+  const [start] = parseDateProperty(startProperty, fallbackTimeZone);
+  const timeZone = start.timeZone;
+  const startParts = getZonedParts(start.date, timeZone);
+  const day = start.allDay ? start.date : new Date(startParts.year, startParts.month, startParts.day);
+
+  const item: ICalImportItem = {
+    uid,
+    type,
+    title: unescapeICalText(getICalProperty(component, 'SUMMARY')?.value ?? '') || 'Untitled',
+    description: getICalProperty(component, 'DESCRIPTION')
+      ? unescapeICalText(getICalProperty(component, 'DESCRIPTION')!.value)
+      : undefined,
+    dueDate: fromCalendarDay(day, timeZone),
+    timeZone,
+    priority: fromICalPriority(getICalProperty(component, 'PRIORITY')?.value),
+    completed: getICalProperty(component, 'STATUS')?.value.toUpperCase() === 'COMPLETED',
+    warnings,
+  };
+
+  if (!start.allDay) {
+    item.timeSlot = `${pad(startParts.hour)}:${pad(startParts.minute)}`;
+
+    const endProperty = getICalProperty(component, 'DTEND');
+    const durationProperty = getICalProperty(component, 'DURATION');
+    const durationMinutes = endProperty
+      ? Math.round((parseDateProperty(endProperty, fallbackTimeZone)[0].date.getTime() - start.date.getTime()) / 60000)
+      : durationProperty && parseDuration(durationProperty.value);
+
+    if (durationMinutes && durationMinutes > 0) {
+      const endParts = getZonedParts(new Date(start.date.getTime() + durationMinutes * 60000), timeZone);
+      item.durationMinutes = durationMinutes;
+      item.endTime = `${pad(endParts.hour)}:${pad(endParts.minute)}`;
+    }
+  }
+
+  const rruleProperty = getICalProperty(component, 'RRULE');
+  if (rruleProperty) {
+    try {
+      const rule = parseRRule(rruleProperty.value);
+      // A UTC UNTIL ends the series on its day in the item's zone, not the browser's
+      const utcUntil = /UNTIL=(\d{8}T\d{6}Z)/i.exec(rruleProperty.value);
+      if (utcUntil) {
+        rule.until = getCalendarDay(parseDateProperty(property('UNTIL', utcUntil[1]), timeZone)[0].date, timeZone);
+      }
+      item.recurrencePattern = toRecurrencePattern(rule);
+      item.recurrenceExceptions = getICalProperties(component, 'EXDATE')
+        .flatMap(exdate => parseDateProperty(exdate, timeZone))
+        .map(exception => (exception.allDay ? exception.date : getCalendarDay(exception.date, timeZone)));
+    } catch (error) {
+      warnings.push(`Repeats in a way that is not supported (${(error as Error).message}); only the first occurrence is imported`);
+    }
+  }
+
+  return item;
+};
+
+/**
+ * Read the events and to-dos of an iCalendar file. Times are kept in the zone
+ * of their TZID; UTC and floating times are read in the fallback zone.
+ * Changed occurrences of a series (RECURRENCE-ID) are not imported.
+ */
+export function parseICalendarItems(data: string, fallbackTimeZone: string): ICalImportItem[] {
+  return parseICalendar(data)
+    .filter(calendar => calendar.name === 'VCALENDAR')
+    .flatMap(calendar => calendar.components)
+    .filter(component =>
+      (component.name === 'VEVENT' || component.name === 'VTODO') &&
+      !getICalProperty(component, 'RECURRENCE-ID')
+    )
+    .map(component => parseImportItem(component, fallbackTimeZone))
+    .filter((item): item is ICalImportItem => item !== null);
+}
+
+/**
+ * The task to create for an imported item
+ */
+export function toImportedTask(
+  item: ICalImportItem,
+  projectId: string
+): Omit<Task, 'id' | 'children' | 'isExpanded' | 'timeTracked'> {
+  return {
+    title: item.title,
+    description: item.description,
+    priority: item.priority,
+    projectId,
+    dueDate: item.dueDate,
+    timeSlot: item.timeSlot,
+    timeZone: item.timeZone,
+    estimatedTime: item.durationMinutes,
+    completed: item.completed,
+    isRecurring: !!item.recurrencePattern,
+    recurrencePattern: item.recurrencePattern,
+    recurrenceExceptions: item.recurrenceExceptions,
+    icalUid: item.uid,
+  };
+}
+
+/**
+ * Whether an item can become a time block: a single timed event with an end
+ */
+export const canImportAsTimeBlock = (item: ICalImportItem): boolean =>
+  !!item.timeSlot && !!item.endTime && !item.recurrencePattern;
+
+/**
+ * The time block to create for an imported item
+ */
+export function toImportedTimeBlock(item: ICalImportItem, taskId: string): Omit<TimeBlock, 'id'> {
+  return {
+    taskId,
+    date: item.dueDate,
+    startTime: item.timeSlot!,
+    endTime: item.endTime!,
+    timeZone: item.timeZone,
+    icalUid: item.uid,
+  };
+}
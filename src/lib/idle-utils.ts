@@ -0,0 +1,102 @@
+import { TimeTracking } from '@/context/TaskTypes';
+import { TimerHeartbeat } from '@/services/indexedDBService';
+
+export const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Background pages run timers about once a minute; a longer gap means the computer slept or the page was gone
+export const MAX_HEARTBEAT_GAP_MS = 5 * 60000;
+
+// Minimum supported by the Idle Detection API is one minute
+export const IDLE_THRESHOLD_MS = 10 * 60000;
+
+export type IdleResolution = 'keep' | 'discard' | 'split';
+
+export interface TimerRepair {
+  active: TimeTracking | null; // The entry that stays running
+  closed: TimeTracking[]; // Open entries that were left behind, with their end filled in
+  awaySince?: Date; // Last heartbeat of the running entry, when it is too old
+}
+
+interface IdleDetectorInstance extends EventTarget {
+  userState: 'active' | 'idle' | null;
+  start(options: { threshold: number; signal?: AbortSignal }): Promise<void>;
+}
+
+interface IdleDetectorConstructor {
+  new (): IdleDetectorInstance;
+  requestPermission(): Promise<'granted' | 'denied'>;
+}
+
+// Not in the DOM typings yet; only Chromium browsers have it
+export const getIdleDetector = (): IdleDetectorConstructor | undefined =>
+  (window as unknown as { IdleDetector?: IdleDetectorConstructor }).IdleDetector;
+
+/**
+ * Ask for the Idle Detection API, which sees activity outside the browser too.
+ * Must be called from a user gesture; without it idle time is guessed from activity on the page.
+ */
+export const requestIdleDetectionPermission = async (): Promise<boolean> => {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector) return false;
+
+  try {
+    return (await IdleDetector.requestPermission()) === 'granted';
+  } catch (error) {
+    console.error('Error requesting idle detection permission:', error);
+    return false;
+  }
+};
+
+export const getMinutesBetween = (start: Date, end: Date): number =>
+  Math.max(Math.floor((end.getTime() - start.getTime()) / 60000), 0);
+
+export const closeTracking = (tracking: TimeTracking, endTime: Date): TimeTracking => ({
+  ...tracking,
+  endTime,
+  duration: getMinutesBetween(tracking.startTime, endTime),
+});
+
+/**
+ * The newest entry without an end is the running timer
+ */
+export const getRunningTracking = (trackings: TimeTracking[]): TimeTracking | undefined =>
+  trackings
+    .filter(tracking => !tracking.endTime)
+    .reduce<TimeTracking | undefined>(
+      (newest, tracking) => (!newest || tracking.startTime > newest.startTime ? tracking : newest),
+      undefined
+    );
+
+/**
+ * Work out what to do with entries left open by a crash, a closed laptop or a second device.
+ * Every open entry but the newest is stopped at its last heartbeat or when the next entry
+ * started, whichever came first. The newest keeps running; its last heartbeat is reported
+ * when it is old, so the user can decide about the time in between.
+ */
+export const repairOpenTrackings = (
+  trackings: TimeTracking[],
+  heartbeats: TimerHeartbeat[],
+  now: Date = new Date()
+): TimerRepair => {
+  const active = getRunningTracking(trackings) ?? null;
+  const lastSeenById = new Map(heartbeats.map(heartbeat => [heartbeat.id, heartbeat.lastSeenAt]));
+
+  const closed = trackings
+    .filter(tracking => !tracking.endTime && tracking !== active)
+    .map(tracking => {
+      const start = tracking.startTime.getTime();
+      const nextStart = trackings
+        .map(other => other.startTime.getTime())
+        .filter(time => time > start)
+        .reduce((earliest, time) => Math.min(earliest, time), now.getTime());
+      const end = Math.min(nextStart, lastSeenById.get(tracking.id) ?? Infinity);
+      return closeTracking(tracking, new Date(Math.max(end, start)));
+    });
+
+  const lastSeenAt = active ? lastSeenById.get(active.id) : undefined;
+  const awaySince = lastSeenAt !== undefined && now.getTime() - lastSeenAt > MAX_HEARTBEAT_GAP_MS
+    ? new Date(lastSeenAt)
+    : undefined;
+
+  return { active, closed, awaySince };
+};
@@ -0,0 +1,215 @@
+import { format } from 'date-fns';
+import { Invoice, InvoiceLineItem, Project, Task, TimeTracking } from '@/context/TaskTypes';
+import { flattenTasks } from './dependency-utils';
+import { escapeCsvValue, getTaskPath } from './time-export-utils';
+import { RoundingMode, roundMinutes } from './time-utils';
+import { getCalendarDay } from './timezone-utils';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'SEK', 'NOK', 'DKK', 'CHF', 'CAD', 'AUD', 'JPY'];
+
+export interface InvoiceDraftOptions {
+  from: Date; // First calendar day, inclusive
+  to: Date; // Last calendar day, inclusive
+  roundingInterval: number; // Minutes; 1 or less bills the tracked minutes
+  roundingMode: RoundingMode;
+  timeZone?: string; // Zone entries are assigned to days in
+}
+
+export interface InvoiceDraft {
+  currency: string;
+  lineItems: InvoiceLineItem[];
+  total: number;
+  timeTrackingIds: string[]; // Entries the invoice bills
+  unpricedTaskIds: string[]; // Tasks billed without a rate
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Whether an entry can still be put on an invoice. Running entries are billed once stopped.
+ */
+export const isBillable = (tracking: TimeTracking): boolean =>
+  tracking.billable !== false && !tracking.invoiceId && !!tracking.endTime;
+
+/**
+ * The rate time on a task is billed at: its own, the nearest ancestor's, or the project's
+ */
+export const getHourlyRate = (
+  task: Task,
+  tasksById: Map<string, Task>,
+  project?: Project
+): number | undefined => {
+  const visited = new Set<string>();
+  let current: Task | undefined = task;
+
+  while (current && !visited.has(current.id)) {
+    if (current.hourlyRate !== undefined) return current.hourlyRate;
+    visited.add(current.id);
+    current = current.parentId ? tasksById.get(current.parentId) : undefined;
+  }
+
+  return project?.hourlyRate;
+};
+
+/**
+ * The billable, not yet invoiced time of a project in a date range as one line
+ * item per task. Each entry is rounded on its own before it is added to its task.
+ */
+export const createInvoiceDraft = (
+  trackings: TimeTracking[],
+  tasks: Task[],
+  project: Project,
+  options: InvoiceDraftOptions
+): InvoiceDraft => {
+  const { from, to, roundingInterval, roundingMode, timeZone } = options;
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+  const minutesByTask = new Map<string, number>();
+  const timeTrackingIds: string[] = [];
+
+  for (const tracking of trackings) {
+    const task = tasksById.get(tracking.taskId);
+    if (!task || task.projectId !== project.id || !isBillable(tracking)) continue;
+
+    const day = getCalendarDay(new Date(tracking.startTime), timeZone);
+    if (day.getTime() < from.getTime() || day.getTime() > to.getTime()) continue;
+
+    const minutes = roundMinutes(tracking.duration, roundingInterval, roundingMode);
+    minutesByTask.set(task.id, (minutesByTask.get(task.id) || 0) + minutes);
+    timeTrackingIds.push(tracking.id);
+  }
+
+  const unpricedTaskIds: string[] = [];
+  const lineItems = [...minutesByTask.entries()]
+    .map(([taskId, minutes]): InvoiceLineItem => {
+      const task = tasksById.get(taskId)!;
+      const rate = getHourlyRate(task, tasksById, project);
+      if (rate === undefined) unpricedTaskIds.push(taskId);
+
+      return {
+        taskId,
+        description: getTaskPath(task, tasksById),
+        minutes,
+        hours: roundAmount(minutes / 60),
+        rate: rate ?? 0,
+        amount: roundAmount((minutes / 60) * (rate ?? 0)),
+      };
+    })
+    .filter(item => item.minutes > 0)
+    .sort((a, b) => a.description.localeCompare(b.description));
+
+  return {
+    currency: project.currency || DEFAULT_CURRENCY,
+    lineItems,
+    total: roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+    timeTrackingIds,
+    unpricedTaskIds,
+  };
+};
+
+/**
+ * The number following the highest invoice number of the year, e.g. "INV-2025-004"
+ */
+export const getNextInvoiceNumber = (invoices: Invoice[], date: Date = new Date()): string => {
+  const prefix = `INV-${format(date, 'yyyy')}-`;
+  const highest = invoices
+    .filter(invoice => invoice.number.startsWith(prefix))
+    .map(invoice => parseInt(invoice.number.slice(prefix.length), 10))
+    .filter(sequence => !isNaN(sequence))
+    .reduce((max, sequence) => Math.max(max, sequence), 0);
+
+  return `${prefix}${(highest + 1).toString().padStart(3, '0')}`;
+};
+
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not an ISO 4217 code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+const formatPeriod = (invoice: Invoice): string =>
+  `${format(invoice.periodStart, 'MMM d, yyyy')} - ${format(invoice.periodEnd, 'MMM d, yyyy')}`;
+
+/**
+ * An invoice's line items as CSV, followed by a total row
+ */
+export const toInvoiceCsv = (invoice: Invoice): string =>
+  [
+    ['Description', 'Hours', 'Rate', 'Amount', 'Currency'],
+    ...invoice.lineItems.map(item => [item.description, item.hours, item.rate, item.amount, invoice.currency]),
+    ['Total', invoice.lineItems.reduce((sum, item) => roundAmount(sum + item.hours), 0), '', invoice.total, invoice.currency],
+  ]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * A standalone HTML page of an invoice, laid out to be printed or saved as PDF
+ */
+export const toInvoiceHtml = (invoice: Invoice, projectName: string): string => {
+  const rows = invoice.lineItems
+    .map(item => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="number">${item.hours.toFixed(2)}</td>
+          <td class="number">${escapeHtml(formatCurrency(item.rate, invoice.currency))}</td>
+          <td class="number">${escapeHtml(formatCurrency(item.amount, invoice.currency))}</td>
+        </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 40px; }
+    h1 { font-size: 24px; margin: 0 0 4px; }
+    .meta { color: #6b7280; margin: 0 0 32px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    th { font-size: 12px; text-transform: uppercase; color: #6b7280; }
+    .number { text-align: right; font-variant-numeric: tabular-nums; }
+    tfoot td { font-weight: 600; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+  <p class="meta">
+    ${escapeHtml(projectName)}<br>
+    ${escapeHtml(formatPeriod(invoice))}<br>
+    Issued ${escapeHtml(format(invoice.createdAt, 'MMM d, yyyy'))}
+  </p>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="number">Hours</th>
+        <th class="number">Rate</th>
+        <th class="number">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colspan="3">Total</td>
+        <td class="number">${escapeHtml(formatCurrency(invoice.total, invoice.currency))}</td>
+      </tr>
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+};
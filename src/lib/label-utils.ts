@@ -0,0 +1,29 @@
+
+import type { CSSProperties } from 'react';
+import { Label } from '@/context/TaskTypes';
+
+// Colors offered when creating a label
+export const labelColors = [
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#64748b', // slate
+];
+
+// Inline styles for a chip: a light tint of the label color with the color itself as text
+export const getLabelChipStyle = (color: string): CSSProperties => ({
+  backgroundColor: `${color}1a`,
+  borderColor: `${color}66`,
+  color,
+});
+
+// Labels in the order of the label list, skipping IDs of labels that no longer exist
+export const getTaskLabels = (labelIds: string[] | undefined, labels: Label[]): Label[] => {
+  if (!labelIds || labelIds.length === 0) return [];
+  return labels.filter(label => labelIds.includes(label.id));
+};
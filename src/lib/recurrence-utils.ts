@@ -1,6 +1,79 @@
-import { addDays, addMonths, addWeeks, addYears, isSameDay, startOfDay } from 'date-fns';
-import { RecurrencePattern, Task } from '@/context/TaskTypes';
-import { generateId } from '@/context/TaskHelpers';
+import { addDays, addMonths, addWeeks, addYears, format, isSameDay, startOfDay, subDays } from 'date-fns';
+import { RecurrenceOverride, RecurrencePattern, Task } from '@/context/TaskTypes';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { RRule, RRuleFrequency, RRuleWeekday, expandRRule, formatRRule } from './rrule';
+import { fromCalendarDay, getCalendarDay } from './timezone-utils';
+import { getRecurrenceRule, isAfterCompletionRecurrence } from '../../supabase/functions/_shared/recurrence';
+
+export { getRecurrenceRule, isAfterCompletionRecurrence };
+
+// How far ahead getNextOccurrence looks
+const NEXT_OCCURRENCE_HORIZON_YEARS = 10;
+
+/**
+ * Build a pattern from a rule. The structured fields are filled in as far as
+ * they can express the rule, for clients that do not read the RRULE yet.
+ */
+export function toRecurrencePattern(rule: RRule): RecurrencePattern {
+  const pattern: RecurrencePattern = {
+    frequency: rule.freq.toLowerCase() as RecurrencePattern['frequency'],
+    interval: rule.interval,
+    endDate: rule.until,
+    occurrences: rule.count,
+    rrule: formatRRule(rule),
+  };
+
+  const hasPlainDays = !!rule.byDay && !rule.bySetPos && rule.byDay.every(day => !day.ordinal);
+  const singleMonthDay = rule.byMonthDay?.length === 1 && rule.byMonthDay[0] > 0
+    ? rule.byMonthDay[0]
+    : undefined;
+
+  switch (rule.freq) {
+    case 'WEEKLY':
+      if (hasPlainDays) {
+        pattern.daysOfWeek = rule.byDay!.map(day => day.weekday);
+      }
+      break;
+    case 'MONTHLY':
+      if (singleMonthDay && !rule.byDay && !rule.bySetPos) {
+        pattern.dayOfMonth = singleMonthDay;
+      }
+      break;
+    case 'YEARLY':
+      if (singleMonthDay && rule.byMonth?.length === 1 && !rule.byDay && !rule.bySetPos) {
+        pattern.monthOfYear = rule.byMonth[0] - 1;
+        pattern.dayOfMonth = singleMonthDay;
+      }
+      break;
+  }
+
+  return pattern;
+}
+
+/**
+ * The RRULE string of a pattern, converting patterns saved before RRULE support
+ */
+export function getRRuleString(pattern: RecurrencePattern, startDate?: Date): string {
+  return formatRRule(getRecurrenceRule(pattern, startDate));
+}
+
+/**
+ * End a recurrence on the given day, replacing any occurrence count
+ */
+export function endRecurrencePattern(
+  pattern: RecurrencePattern,
+  endDate: Date,
+  startDate?: Date
+): RecurrencePattern {
+  return {
+    ...toRecurrencePattern({
+      ...getRecurrenceRule(pattern, startDate),
+      count: undefined,
+      until: startOfDay(endDate),
+    }),
+    mode: pattern.mode,
+  };
+}
 
 /**
  * Determines if a date matches a recurrence pattern
@@ -16,68 +89,8 @@ export function doesDateMatchRecurrencePattern(
     return false;
   }
 
-  // Check if date is before start date
-  if (date < startOfDay(startDate)) {
-    return false;
-  }
-
-  // Check if date is after end date
-  if (pattern.endDate && date > pattern.endDate) {
-    return false;
-  }
-
-  const normalizedDate = startOfDay(date);
-  const normalizedStartDate = startOfDay(startDate);
-
-  switch (pattern.frequency) {
-    case 'daily':
-      const dayDiff = Math.floor((normalizedDate.getTime() - normalizedStartDate.getTime()) / (1000 * 60 * 60 * 24));
-      return dayDiff % pattern.interval === 0;
-
-    case 'weekly':
-      // Check if we're on the right week
-      const weekDiff = Math.floor((normalizedDate.getTime() - normalizedStartDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-      if (weekDiff % pattern.interval !== 0) return false;
-
-      // If specific days are set, check if current day is one of them
-      if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-        return pattern.daysOfWeek.includes(normalizedDate.getDay());
-      }
-      // If no specific days, use the same weekday as the start date
-      return normalizedDate.getDay() === normalizedStartDate.getDay();
-
-    case 'monthly':
-      const startMonth = normalizedStartDate.getMonth();
-      const startYear = normalizedStartDate.getFullYear();
-      const targetMonth = normalizedDate.getMonth();
-      const targetYear = normalizedDate.getFullYear();
-
-      const monthDiff = (targetYear - startYear) * 12 + (targetMonth - startMonth);
-      if (monthDiff % pattern.interval !== 0) return false;
-
-      // If specific day of month is set, check if current day is that day
-      if (pattern.dayOfMonth) {
-        return normalizedDate.getDate() === pattern.dayOfMonth;
-      }
-      // Otherwise, use the same day of the month as the start date
-      return normalizedDate.getDate() === normalizedStartDate.getDate();
-
-    case 'yearly':
-      const yearDiff = normalizedDate.getFullYear() - normalizedStartDate.getFullYear();
-      if (yearDiff % pattern.interval !== 0) return false;
-
-      if (pattern.monthOfYear !== undefined && pattern.dayOfMonth !== undefined) {
-        return normalizedDate.getMonth() === pattern.monthOfYear && 
-               normalizedDate.getDate() === pattern.dayOfMonth;
-      }
-
-      // Otherwise, use the same month and day as the start date
-      return normalizedDate.getMonth() === normalizedStartDate.getMonth() &&
-             normalizedDate.getDate() === normalizedStartDate.getDate();
-
-    default:
-      return false;
-  }
+  const rule = getRecurrenceRule(pattern, startDate);
+  return expandRRule(rule, startDate, date, date).length > 0;
 }
 
 /**
@@ -88,174 +101,393 @@ export function getNextOccurrence(
   pattern: RecurrencePattern,
   exceptions?: Date[]
 ): Date | null {
-  let baseDate = new Date();
-  if (baseDate < startDate) {
-    baseDate = startDate;
-  }
+  const today = startOfDay(new Date());
+  const from = today < startDate ? startDate : today;
+  const rule = getRecurrenceRule(pattern, startDate);
   
-  // Check if pattern has ended
-  if (pattern.endDate && baseDate > pattern.endDate) {
+  const occurrences = expandRRule(
+    rule,
+    startDate,
+    from,
+    addYears(from, NEXT_OCCURRENCE_HORIZON_YEARS)
+  );
+  
+  return occurrences.find(
+    occurrence => !exceptions?.some(exception => isSameDay(occurrence, exception))
+  ) ?? null;
+}
+
+/**
+ * The due date after a completion of an after-completion task: the rule's interval
+ * counted from the completion day. Null when the completion was the rule's last one.
+ */
+export function getNextOccurrenceAfterCompletion(
+  pattern: RecurrencePattern,
+  completedAt: Date,
+  completionCount: number,
+  startDate?: Date
+): Date | null {
+  const rule = getRecurrenceRule(pattern, startDate);
+  if (rule.count !== undefined && completionCount >= rule.count) {
     return null;
   }
 
-  const tryDate = (date: Date): Date | null => {
-    if (doesDateMatchRecurrencePattern(date, startDate, pattern, exceptions)) {
-      return date;
-    }
+  const completedDay = startOfDay(completedAt);
+  const next = {
+    DAILY: addDays,
+    WEEKLY: addWeeks,
+    MONTHLY: addMonths,
+    YEARLY: addYears,
+  }[rule.freq](completedDay, rule.interval);
+
+  if (rule.until && next > rule.until) {
     return null;
+  }
+  return next;
+}
+
+/**
+ * Complete an after-completion task. The template stays open with its next due
+ * date and the completed occurrence is returned as a separate task linked to it,
+ * so the history is kept. Once the rule has ended the template itself is completed.
+ *
+ * `previousCompletions` is the number of occurrences completed before this one.
+ */
+export function completeAfterCompletionRecurrence(
+  task: Task,
+  completedAt: Date,
+  previousCompletions: number
+): { task: Task; completedOccurrence?: Task } {
+  if (!task.recurrencePattern) {
+    return { task };
+  }
+
+  // Days are counted in the task's zone, so the due day is kept across DST changes
+  const nextDueDay = getNextOccurrenceAfterCompletion(
+    task.recurrencePattern,
+    getCalendarDay(completedAt, task.timeZone),
+    previousCompletions + 1,
+    task.dueDate && getCalendarDay(task.dueDate, task.timeZone)
+  );
+  if (!nextDueDay) {
+    return { task };
+  }
+
+  const completedOccurrence: Task = {
+    ...task,
+    id: uuidv4(),
+    dueDate: task.dueDate ?? fromCalendarDay(getCalendarDay(completedAt, task.timeZone), task.timeZone),
+    recurrenceParentId: task.id,
+    children: [],
+    timeTracked: 0,
+    isRecurring: false,
+    recurrencePattern: undefined,
+    recurrenceExceptions: undefined,
+    blockedByIds: [],
+    updatedAt: undefined,
+  };
+
+  return {
+    task: {
+      ...task,
+      dueDate: fromCalendarDay(nextDueDay, task.timeZone),
+      completed: false,
+      // Picks the project's open status again
+      status: undefined,
+    },
+    completedOccurrence,
   };
+}
 
-  // First see if today matches
-  let result = tryDate(baseDate);
-  if (result) return result;
+/**
+ * Stable id of a generated occurrence, so it stays the same across renders
+ */
+export function getOccurrenceId(taskId: string, date: Date): string {
+  return uuidv5(format(date, 'yyyy-MM-dd'), taskId);
+}
 
-  // Try future dates
-  let nextDate = baseDate;
-  let maxTries = 100; // Safety limit
-  
-  while (maxTries > 0) {
-    switch (pattern.frequency) {
-      case 'daily':
-        nextDate = addDays(nextDate, 1);
-        break;
-      case 'weekly':
-        if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-          // Find the next day of the week
-          nextDate = addDays(nextDate, 1);
-        } else {
-          nextDate = addWeeks(nextDate, pattern.interval);
-        }
-        break;
-      case 'monthly':
-        nextDate = addMonths(nextDate, pattern.interval);
-        break;
-      case 'yearly':
-        nextDate = addYears(nextDate, pattern.interval);
-        break;
-    }
+/**
+ * The occurrence of a recurring task on the given day as the rule generates it,
+ * without its override. Occurrences are open until they are completed themselves.
+ * The day is a calendar day in the task's zone.
+ */
+export function createRecurringTaskOccurrence(task: Task, date: Date): Task {
+  return {
+    ...task,
+    id: getOccurrenceId(task.id, date),
+    dueDate: fromCalendarDay(date, task.timeZone),
+    recurrenceParentId: task.id,
+    recurrenceDate: date,
+    completed: false,
+    status: undefined,
+    // Don't include children in generated instances
+    children: [],
+    // Don't pass on recurrence data to generated instances
+    isRecurring: false,
+    recurrencePattern: undefined,
+    recurrenceExceptions: undefined,
+    recurrenceOverrides: undefined,
+  };
+}
 
-    result = tryDate(nextDate);
-    if (result) return result;
+/**
+ * Apply an occurrence's override on top of the generated occurrence
+ */
+export function applyRecurrenceOverride(occurrence: Task, override?: RecurrenceOverride): Task {
+  if (!override) return occurrence;
 
-    if (pattern.endDate && nextDate > pattern.endDate) {
-      return null;
-    }
+  return {
+    ...occurrence,
+    dueDate: override.dueDate ?? occurrence.dueDate,
+    title: override.title ?? occurrence.title,
+    notes: override.notes ?? occurrence.notes,
+    timeSlot: override.timeSlot ?? occurrence.timeSlot,
+    completed: override.completed ?? occurrence.completed,
+    status: override.status ?? occurrence.status,
+  };
+}
+
+/**
+ * The override that turns the generated occurrence into the edited one, or null
+ * when nothing differs
+ */
+export function toRecurrenceOverride(generated: Task, edited: Task): RecurrenceOverride | null {
+  const override: RecurrenceOverride = { originalDate: generated.recurrenceDate ?? generated.dueDate! };
+  let changed = false;
 
-    maxTries--;
+  if (edited.dueDate && generated.dueDate && edited.dueDate.getTime() !== generated.dueDate.getTime()) {
+    override.dueDate = edited.dueDate;
+    changed = true;
+  }
+  for (const field of ['title', 'notes', 'timeSlot', 'status'] as const) {
+    if (edited[field] !== generated[field]) {
+      override[field] = edited[field] ?? '';
+      changed = true;
+    }
+  }
+  if (!!edited.completed !== !!generated.completed) {
+    override.completed = !!edited.completed;
+    changed = true;
   }
 
-  return null;
+  return changed ? override : null;
 }
 
 /**
- * Generates recurring task instances for a given date range
+ * Replace the override of an occurrence, or remove it when null
+ */
+export function setRecurrenceOverride(
+  task: Task,
+  originalDate: Date,
+  override: RecurrenceOverride | null
+): Task {
+  const overrides = (task.recurrenceOverrides || [])
+    .filter(existing => !isSameDay(existing.originalDate, originalDate));
+
+  return {
+    ...task,
+    recurrenceOverrides: override ? [...overrides, override] : overrides,
+  };
+}
+
+/**
+ * Generates recurring task instances for a given date range. The task itself is
+ * the occurrence on its due date, so that day is not generated again.
+ *
+ * The rule is expanded over calendar days in the task's zone, so occurrences
+ * keep their day and time slot there when DST starts or ends.
  */
 export function generateRecurringTaskInstances(
   task: Task,
   startDate: Date,
   endDate: Date
 ): Task[] {
-  if (!task.isRecurring || !task.recurrencePattern || !task.dueDate) {
+  // After-completion tasks only have their next occurrence, which is the task itself
+  if (!task.isRecurring || !task.recurrencePattern || !task.dueDate || isAfterCompletionRecurrence(task)) {
     return [];
   }
 
-  const instances: Task[] = [];
-  const currentDate = new Date(Math.max(startDate.getTime(), task.dueDate.getTime()));
-  
-  // Ensure we don't exceed the end date of the recurrence pattern
-  const recurrenceEndDate = task.recurrencePattern.endDate 
-    ? new Date(Math.min(endDate.getTime(), task.recurrencePattern.endDate.getTime()))
-    : endDate;
-  
-  // For each day in the range, check if it matches the recurrence pattern
-  while (currentDate <= recurrenceEndDate) {
-    if (doesDateMatchRecurrencePattern(
-      currentDate,
-      task.dueDate,
-      task.recurrencePattern,
-      task.recurrenceExceptions
-    )) {
-      const instance: Task = {
-        ...task,
-        id: generateId(),
-        dueDate: new Date(currentDate),
-        recurrenceParentId: task.id,
-        // Don't include children in generated instances
-        children: [],
-        // Don't pass on recurrence pattern to generated instances
-        isRecurring: false,
-        recurrencePattern: undefined
-      };
-      instances.push(instance);
-    }
-    
-    // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
+  const dtstart = getCalendarDay(task.dueDate, task.timeZone);
+  const overrides = task.recurrenceOverrides || [];
+  const rule = getRecurrenceRule(task.recurrencePattern, dtstart);
+  const isIncluded = (date: Date) =>
+    !isSameDay(date, dtstart) &&
+    !task.recurrenceExceptions?.some(exception => isSameDay(date, exception));
+
+  const occurrences = expandRRule(rule, dtstart, startDate, endDate).filter(isIncluded);
+
+  // Occurrences moved into the range from a day outside it
+  const movedIn = overrides
+    .filter(override =>
+      override.dueDate &&
+      getCalendarDay(override.dueDate, task.timeZone) >= startOfDay(startDate) &&
+      getCalendarDay(override.dueDate, task.timeZone) <= endDate &&
+      !occurrences.some(occurrence => isSameDay(occurrence, override.originalDate)) &&
+      isIncluded(override.originalDate) &&
+      expandRRule(rule, dtstart, override.originalDate, override.originalDate).length > 0
+    )
+    .map(override => startOfDay(override.originalDate));
+
+  return [...occurrences, ...movedIn].map(occurrence => applyRecurrenceOverride(
+    createRecurringTaskOccurrence(task, occurrence),
+    overrides.find(override => isSameDay(override.originalDate, occurrence))
+  ));
+}
+
+/**
+ * Split a recurring task at one of its occurrences for "this and future" edits.
+ * The existing task ends the day before; the returned next task starts on that
+ * occurrence with the remaining occurrences, exceptions and overrides.
+ */
+export function splitRecurringTask(task: Task, fromDate: Date): { previous: Task; next: Task } {
+  const splitDay = startOfDay(fromDate);
+  const pattern = task.recurrencePattern!;
+  const startDay = task.dueDate && getCalendarDay(task.dueDate, task.timeZone);
+  const rule = getRecurrenceRule(pattern, startDay);
+
+  let count = rule.count;
+  if (count !== undefined && startDay) {
+    const before = expandRRule(rule, startDay, startDay, subDays(splitDay, 1)).length;
+    count = Math.max(count - before, 1);
   }
-  
-  return instances;
+
+  const previous: Task = {
+    ...task,
+    recurrencePattern: endRecurrencePattern(pattern, subDays(splitDay, 1), startDay),
+    recurrenceExceptions: task.recurrenceExceptions?.filter(date => date < splitDay),
+    recurrenceOverrides: task.recurrenceOverrides?.filter(override => override.originalDate < splitDay),
+  };
+
+  const next: Task = {
+    ...task,
+    id: uuidv4(),
+    dueDate: fromCalendarDay(splitDay, task.timeZone),
+    children: [],
+    timeTracked: 0,
+    updatedAt: undefined,
+    recurrencePattern: { ...toRecurrencePattern({ ...rule, count }), mode: pattern.mode },
+    recurrenceExceptions: task.recurrenceExceptions?.filter(date => date > splitDay),
+    recurrenceOverrides: task.recurrenceOverrides?.filter(override => override.originalDate > splitDay),
+  };
+
+  return { previous, next };
 }
 
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+                     'July', 'August', 'September', 'October', 'November', 'December'];
+
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'second to last',
+};
+
+const formatOrdinal = (ordinal: number): string => {
+  if (ORDINAL_NAMES[ordinal]) return ORDINAL_NAMES[ordinal];
+  return ordinal > 0 ? `${ordinal}th` : `${-ordinal}th to last`;
+};
+
+// Monday to Friday without ordinals
+const isEveryWeekday = (byDay: RRuleWeekday[] | undefined): boolean =>
+  !!byDay &&
+  byDay.length === 5 &&
+  byDay.every(day => !day.ordinal && day.weekday >= 1 && day.weekday <= 5) &&
+  new Set(byDay.map(day => day.weekday)).size === 5;
+
+// "the second Tuesday", "the last weekday", "the first Monday or Friday"
+const formatDaysOfPeriod = (rule: RRule): string | null => {
+  if (rule.byDay && rule.bySetPos) {
+    const days = isEveryWeekday(rule.byDay)
+      ? 'weekday'
+      : rule.byDay.map(day => WEEKDAY_NAMES[day.weekday]).join(' or ');
+    return `the ${rule.bySetPos.map(formatOrdinal).join(' and ')} ${days}`;
+  }
+  if (rule.byDay) {
+    return rule.byDay
+      .map(day => day.ordinal
+        ? `the ${formatOrdinal(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}`
+        : WEEKDAY_NAMES[day.weekday])
+      .join(', ');
+  }
+  if (rule.byMonthDay) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? `day ${day}` : `the ${formatOrdinal(day)} day`))
+      .join(', ');
+  }
+  return null;
+};
+
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const formatRecurrenceEnd = (rule: RRule): string => {
+  if (rule.until) return ` until ${rule.until.toLocaleDateString()}`;
+  if (rule.count) return `, ${rule.count} times`;
+  return '';
+};
+
 /**
  * Format a recurrence pattern as human-readable text
  */
-export function formatRecurrencePattern(pattern: RecurrencePattern): string {
+export function formatRecurrencePattern(pattern: RecurrencePattern, startDate?: Date): string {
+  const rule = getRecurrenceRule(pattern, startDate);
+  const { interval } = rule;
+  
+  if (pattern.mode === 'afterCompletion') {
+    const unit = FREQUENCY_UNITS[rule.freq];
+    return `${interval} ${unit}${interval === 1 ? '' : 's'} after completion${formatRecurrenceEnd(rule)}`;
+  }
+  
   let text = '';
   
   // Frequency and interval
-  switch (pattern.frequency) {
-    case 'daily':
-      text = pattern.interval === 1 ? 'Daily' : `Every ${pattern.interval} days`;
-      break;
-    case 'weekly':
-      if (pattern.interval === 1) {
-        if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-          const dayNames = pattern.daysOfWeek.map(day => {
-            const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-            return days[day];
-          }).join(', ');
-          text = `Weekly on ${dayNames}`;
-        } else {
-          text = 'Weekly';
-        }
-      } else {
-        text = `Every ${pattern.interval} weeks`;
-        if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-          const dayNames = pattern.daysOfWeek.map(day => {
-            const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-            return days[day];
-          }).join(', ');
-          text += ` on ${dayNames}`;
-        }
+  switch (rule.freq) {
+    case 'DAILY':
+      text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      if (isEveryWeekday(rule.byDay)) {
+        text = interval === 1 ? 'Every weekday' : `${text} on weekdays`;
       }
       break;
-    case 'monthly':
-      if (pattern.dayOfMonth) {
-        text = pattern.interval === 1 
-          ? `Monthly on day ${pattern.dayOfMonth}` 
-          : `Every ${pattern.interval} months on day ${pattern.dayOfMonth}`;
+    case 'WEEKLY':
+      if (interval === 1 && isEveryWeekday(rule.byDay) && !rule.bySetPos) {
+        text = 'Every weekday';
       } else {
-        text = pattern.interval === 1 
-          ? 'Monthly' 
-          : `Every ${pattern.interval} months`;
+        text = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+        const days = formatDaysOfPeriod(rule);
+        if (days) text += ` on ${days}`;
       }
       break;
-    case 'yearly':
-      text = pattern.interval === 1 ? 'Yearly' : `Every ${pattern.interval} years`;
-      if (pattern.monthOfYear !== undefined && pattern.dayOfMonth !== undefined) {
-        const months = ['January', 'February', 'March', 'April', 'May', 'June', 
-                        'July', 'August', 'September', 'October', 'November', 'December'];
-        text += ` on ${months[pattern.monthOfYear]} ${pattern.dayOfMonth}`;
+    case 'MONTHLY': {
+      text = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+      const days = formatDaysOfPeriod(rule);
+      if (days) text += ` on ${days}`;
+      break;
+    }
+    case 'YEARLY': {
+      text = interval === 1 ? 'Yearly' : `Every ${interval} years`;
+      const months = rule.byMonth?.map(month => MONTH_NAMES[month - 1]).join(', ');
+      const singleDay = rule.byMonthDay?.length === 1 && rule.byMonthDay[0] > 0 && !rule.byDay;
+      
+      if (months && singleDay) {
+        text += ` on ${months} ${rule.byMonthDay![0]}`;
+      } else {
+        const days = formatDaysOfPeriod(rule);
+        if (days) text += ` on ${days}`;
+        if (months) text += ` ${days ? 'of' : 'in'} ${months}`;
       }
       break;
+    }
   }
   
-  // End condition
-  if (pattern.endDate) {
-    text += ` until ${pattern.endDate.toLocaleDateString()}`;
-  } else if (pattern.occurrences) {
-    text += `, ${pattern.occurrences} times`;
-  }
-  
-  return text;
+  return text + formatRecurrenceEnd(rule);
 }
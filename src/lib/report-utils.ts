@@ -0,0 +1,251 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, startOfMonth, startOfWeek } from 'date-fns';
+import { Task, TimeTracking } from '@/context/TaskTypes';
+import { flattenTasks } from './dependency-utils';
+import { getCalendarDay } from './timezone-utils';
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+// Weeks start on Monday, as in the calendar
+const WEEK_STARTS_ON = 1;
+
+export interface ReportRange {
+  from: Date; // First calendar day, inclusive
+  to: Date; // Last calendar day, inclusive
+}
+
+export interface PeriodTotal {
+  periodStart: Date;
+  label: string;
+  minutes: number;
+  minutesByProject: Record<string, number>;
+}
+
+export interface TaskTotal {
+  task: Task; // Top-level task the time of its subtasks is rolled up into
+  projectId: string;
+  minutes: number; // Tracked in the range
+  totalMinutes: number; // Tracked ever
+  estimatedMinutes?: number;
+  focusSessions: number; // Completed focus-mode work intervals in the range
+}
+
+export interface TimesheetRow {
+  task: Task;
+  projectId: string;
+  minutesByDay: number[]; // One entry per day of the week, Monday first
+  minutes: number;
+}
+
+/**
+ * Minutes of a tracking entry; a running entry counts up to now
+ */
+export const getTrackedMinutes = (tracking: TimeTracking, now: Date = new Date()): number => {
+  if (tracking.endTime) return tracking.duration;
+  return Math.max(Math.floor((now.getTime() - new Date(tracking.startTime).getTime()) / 60000), 0);
+};
+
+/**
+ * The first calendar day of the day, week or month a day falls in
+ */
+export const getPeriodStart = (day: Date, period: ReportPeriod): Date => {
+  switch (period) {
+    case 'week':
+      return startOfWeek(day, { weekStartsOn: WEEK_STARTS_ON });
+    case 'month':
+      return startOfMonth(day);
+    default:
+      return day;
+  }
+};
+
+const getNextPeriodStart = (periodStart: Date, period: ReportPeriod): Date => {
+  switch (period) {
+    case 'week':
+      return addWeeks(periodStart, 1);
+    case 'month':
+      return addMonths(periodStart, 1);
+    default:
+      return addDays(periodStart, 1);
+  }
+};
+
+const formatPeriod = (periodStart: Date, period: ReportPeriod): string => {
+  switch (period) {
+    case 'week':
+      return `Week of ${format(periodStart, 'MMM d')}`;
+    case 'month':
+      return format(periodStart, 'MMM yyyy');
+    default:
+      return format(periodStart, 'EEE, MMM d');
+  }
+};
+
+// Tracking entries are reported on the day they started in the viewer's zone
+const getTrackingDay = (tracking: TimeTracking, timeZone?: string): Date =>
+  getCalendarDay(new Date(tracking.startTime), timeZone);
+
+const isInRange = (day: Date, range: ReportRange): boolean =>
+  day.getTime() >= range.from.getTime() && day.getTime() <= range.to.getTime();
+
+/**
+ * The top-level task a task belongs to, which is the task itself when it has no parent
+ */
+const getRootTask = (task: Task, tasksById: Map<string, Task>): Task => {
+  let root = task;
+  const visited = new Set<string>();
+  while (root.parentId && tasksById.has(root.parentId) && !visited.has(root.id)) {
+    visited.add(root.id);
+    root = tasksById.get(root.parentId)!;
+  }
+  return root;
+};
+
+/**
+ * A task's estimate, or the sum of its subtasks' estimates when it has none of its own
+ */
+export const getRolledUpEstimate = (task: Task): number | undefined => {
+  if (task.estimatedTime) return task.estimatedTime;
+
+  const childEstimates = task.children
+    .map(getRolledUpEstimate)
+    .filter((estimate): estimate is number => estimate !== undefined);
+
+  return childEstimates.length > 0
+    ? childEstimates.reduce((sum, estimate) => sum + estimate, 0)
+    : undefined;
+};
+
+/**
+ * Tracked time per day, week or month of a range, split by project.
+ * Periods without tracked time are included, so charts show the gaps.
+ */
+export const getTotalsByPeriod = (
+  trackings: TimeTracking[],
+  tasks: Task[],
+  range: ReportRange,
+  period: ReportPeriod,
+  timeZone?: string,
+  now: Date = new Date()
+): PeriodTotal[] => {
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+  const totals = new Map<string, PeriodTotal>();
+
+  for (
+    let periodStart = getPeriodStart(range.from, period);
+    periodStart.getTime() <= range.to.getTime();
+    periodStart = getNextPeriodStart(periodStart, period)
+  ) {
+    totals.set(format(periodStart, 'yyyy-MM-dd'), {
+      periodStart,
+      label: formatPeriod(periodStart, period),
+      minutes: 0,
+      minutesByProject: {},
+    });
+  }
+
+  for (const tracking of trackings) {
+    const day = getTrackingDay(tracking, timeZone);
+    if (!isInRange(day, range)) continue;
+
+    const total = totals.get(format(getPeriodStart(day, period), 'yyyy-MM-dd'));
+    const projectId = tasksById.get(tracking.taskId)?.projectId;
+    if (!total || !projectId) continue;
+
+    const minutes = getTrackedMinutes(tracking, now);
+    total.minutes += minutes;
+    total.minutesByProject[projectId] = (total.minutesByProject[projectId] || 0) + minutes;
+  }
+
+  return [...totals.values()];
+};
+
+/**
+ * Tracked time per top-level task, with the time of subtasks rolled up into
+ * their top-level task. Only tasks with time tracked in the range are included,
+ * most tracked first.
+ */
+export const getTotalsByTask = (
+  trackings: TimeTracking[],
+  tasks: Task[],
+  range: ReportRange,
+  timeZone?: string,
+  now: Date = new Date()
+): TaskTotal[] => {
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+  const totals = new Map<string, TaskTotal>();
+
+  for (const tracking of trackings) {
+    const task = tasksById.get(tracking.taskId);
+    if (!task) continue;
+
+    const root = getRootTask(task, tasksById);
+    let total = totals.get(root.id);
+    if (!total) {
+      total = {
+        task: root,
+        projectId: root.projectId,
+        minutes: 0,
+        totalMinutes: 0,
+        estimatedMinutes: getRolledUpEstimate(root),
+        focusSessions: 0,
+      };
+      totals.set(root.id, total);
+    }
+
+    const minutes = getTrackedMinutes(tracking, now);
+    total.totalMinutes += minutes;
+    if (isInRange(getTrackingDay(tracking, timeZone), range)) {
+      total.minutes += minutes;
+      if (tracking.isFocusSession) total.focusSessions += 1;
+    }
+  }
+
+  return [...totals.values()]
+    .filter(total => total.minutes > 0)
+    .sort((a, b) => b.minutes - a.minutes || a.task.title.localeCompare(b.task.title));
+};
+
+/**
+ * Tracked time per project in a range
+ */
+export const getTotalsByProject = (taskTotals: TaskTotal[]): Record<string, number> =>
+  taskTotals.reduce<Record<string, number>>((totals, { projectId, minutes }) => {
+    totals[projectId] = (totals[projectId] || 0) + minutes;
+    return totals;
+  }, {});
+
+/**
+ * A week of tracked time per top-level task and day, for a timesheet
+ */
+export const getWeeklyTimesheet = (
+  trackings: TimeTracking[],
+  tasks: Task[],
+  weekStart: Date,
+  timeZone?: string,
+  now: Date = new Date()
+): TimesheetRow[] => {
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+  const rows = new Map<string, TimesheetRow>();
+  const range = { from: weekStart, to: addDays(weekStart, 6) };
+
+  for (const tracking of trackings) {
+    const task = tasksById.get(tracking.taskId);
+    const day = getTrackingDay(tracking, timeZone);
+    if (!task || !isInRange(day, range)) continue;
+
+    const root = getRootTask(task, tasksById);
+    let row = rows.get(root.id);
+    if (!row) {
+      row = { task: root, projectId: root.projectId, minutesByDay: Array(7).fill(0), minutes: 0 };
+      rows.set(root.id, row);
+    }
+
+    const minutes = getTrackedMinutes(tracking, now);
+    row.minutesByDay[differenceInCalendarDays(day, weekStart)] += minutes;
+    row.minutes += minutes;
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    a.projectId.localeCompare(b.projectId) || a.task.title.localeCompare(b.task.title)
+  );
+};
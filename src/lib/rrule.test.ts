@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { expandRRule, formatRRule, parseRRule } from './rrule';
+
+const day = (value: string) => new Date(`${value}T00:00:00`);
+
+const expand = (rule: string, dtstart: string, from: string, to: string, limit?: number) =>
+  expandRRule(parseRRule(rule), day(dtstart), day(from), day(to), limit).map(date => format(date, 'yyyy-MM-dd'));
+
+describe('expandRRule', () => {
+  it('expands BYDAY with an ordinal', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=2TU', '2025-01-14', '2025-01-01', '2025-05-31')).toEqual([
+      '2025-01-14',
+      '2025-02-11',
+      '2025-03-11',
+      '2025-04-08',
+      '2025-05-13',
+    ]);
+  });
+
+  it('expands the first and last Sunday of every other month', () => {
+    expect(expand('FREQ=MONTHLY;INTERVAL=2;COUNT=10;BYDAY=1SU,-1SU', '1997-09-07', '1997-01-01', '1999-12-31')).toEqual([
+      '1997-09-07',
+      '1997-09-28',
+      '1997-11-02',
+      '1997-11-30',
+      '1998-01-04',
+      '1998-01-25',
+      '1998-03-01',
+      '1998-03-29',
+      '1998-05-03',
+      '1998-05-31',
+    ]);
+  });
+
+  it('picks the last weekday of the month with BYSETPOS=-1', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2025-01-31', '2025-01-01', '2025-06-30')).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+      '2025-05-30',
+      '2025-06-30',
+    ]);
+  });
+
+  it('expands BYMONTHDAY=-1 up to and including UNTIL', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20250430', '2025-01-31', '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+    ]);
+  });
+
+  it('groups weeks by WKST', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU';
+    expect(expand(`${rule};WKST=MO`, '1997-08-05', '1997-08-01', '1997-12-31')).toEqual([
+      '1997-08-05',
+      '1997-08-10',
+      '1997-08-19',
+      '1997-08-24',
+    ]);
+    expect(expand(`${rule};WKST=SU`, '1997-08-05', '1997-08-01', '1997-12-31')).toEqual([
+      '1997-08-05',
+      '1997-08-17',
+      '1997-08-19',
+      '1997-08-31',
+    ]);
+  });
+
+  it('counts COUNT from the start of the series, not the range', () => {
+    expect(expand('FREQ=DAILY;COUNT=3', '2025-03-01', '2025-03-01', '2025-03-31')).toEqual([
+      '2025-03-01',
+      '2025-03-02',
+      '2025-03-03',
+    ]);
+    expect(expand('FREQ=DAILY;COUNT=3', '2025-03-01', '2025-03-02', '2025-03-31')).toEqual([
+      '2025-03-02',
+      '2025-03-03',
+    ]);
+  });
+
+  it('stops at UNTIL', () => {
+    expect(expand('FREQ=WEEKLY;UNTIL=20250315', '2025-03-01', '2025-01-01', '2025-12-31')).toEqual([
+      '2025-03-01',
+      '2025-03-08',
+      '2025-03-15',
+    ]);
+  });
+
+  it('stops after the limit', () => {
+    expect(expand('FREQ=DAILY', '2025-03-01', '2025-03-01', '2025-12-31', 2)).toEqual(['2025-03-01', '2025-03-02']);
+  });
+});
+
+describe('parseRRule', () => {
+  it('survives a round trip through formatRRule', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;WKST=SU;COUNT=5');
+    expect(parseRRule(formatRRule(rule))).toEqual(rule);
+  });
+
+  it('rejects parts it does not support', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow();
+    expect(() => parseRRule('FREQ=MONTHLY;BYDAY=XX')).toThrow();
+  });
+});
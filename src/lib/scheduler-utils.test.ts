@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { Task, TimeBlock } from '@/context/TaskTypes';
+import { AutoScheduleOptions, createAutoSchedule, DEFAULT_WORKING_HOURS } from './scheduler-utils';
+import { fromCalendarDay } from './timezone-utils';
+
+// Monday 10 March 2025, before working hours
+const MONDAY_MORNING = new Date('2025-03-10T08:00:00Z');
+
+const options = (overrides: Partial<AutoScheduleOptions> = {}): AutoScheduleOptions => ({
+  workingHours: DEFAULT_WORKING_HOURS,
+  timeZone: 'UTC',
+  now: MONDAY_MORNING,
+  ...overrides,
+});
+
+const day = (value: string) => fromCalendarDay(new Date(`${value}T00:00:00`), 'UTC');
+
+const task = (id: string, estimatedTime: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  projectId: 'project',
+  children: [],
+  timeTracked: 0,
+  timeZone: 'UTC',
+  estimatedTime,
+  ...overrides,
+});
+
+const block = (taskId: string, date: string, startTime: string, endTime: string): TimeBlock => ({
+  id: `${taskId}-${date}-${startTime}`,
+  taskId,
+  date: day(date),
+  startTime,
+  endTime,
+  timeZone: 'UTC',
+});
+
+const schedule = (tasks: Task[], timeBlocks: TimeBlock[] = [], overrides: Partial<AutoScheduleOptions> = {}) => {
+  const result = createAutoSchedule(tasks, timeBlocks, options(overrides));
+  return {
+    blocks: result.blocks.map(b => `${b.taskId} ${format(b.date, 'EEE')} ${b.startTime}-${b.endTime}`),
+    unscheduled: result.unscheduled,
+  };
+};
+
+describe('createAutoSchedule', () => {
+  describe('working hours', () => {
+    it('plans from the start of working hours', () => {
+      expect(schedule([task('a', 90)]).blocks).toEqual(['a Mon 09:00-10:30']);
+    });
+
+    it('plans from now, snapped to the grid, during working hours', () => {
+      const now = new Date('2025-03-10T16:05:00Z');
+      expect(schedule([task('a', 90)], [], { now }).blocks).toEqual(['a Mon 16:15-17:00', 'a Tue 09:00-09:45']);
+    });
+
+    it('skips days off', () => {
+      const saturday = new Date('2025-03-15T10:00:00Z');
+      expect(schedule([task('a', 60)], [], { now: saturday }).blocks).toEqual(['a Mon 09:00-10:00']);
+    });
+
+    it('splits long tasks into chunks, one per stretch of free time', () => {
+      expect(schedule([task('a', 300)]).blocks).toEqual([
+        'a Mon 09:00-11:00',
+        'a Tue 09:00-11:00',
+        'a Wed 09:00-10:00',
+      ]);
+    });
+
+    it('leaves finished, timed and untracked-estimate tasks alone', () => {
+      expect(schedule([
+        task('done', 60, { completed: true }),
+        task('timed', 60, { dueDate: day('2025-03-11'), timeSlot: '13:00' }),
+        task('no-estimate', 0),
+        task('tracked', 60, { timeTracked: 60 }),
+      ]).blocks).toEqual([]);
+    });
+  });
+
+  describe('existing blocks', () => {
+    it('keeps existing blocks and timed tasks free', () => {
+      expect(schedule(
+        [task('a', 60), task('meeting', 60, { dueDate: day('2025-03-10'), timeSlot: '10:00' })],
+        [block('other', '2025-03-10', '09:00', '09:50')]
+      ).blocks).toEqual(['a Mon 11:00-12:00']);
+    });
+
+    it('counts existing blocks of a task towards its estimate', () => {
+      expect(schedule([task('a', 120)], [block('a', '2025-03-11', '09:00', '10:00')]).blocks).toEqual([
+        'a Mon 09:00-10:00',
+      ]);
+    });
+  });
+
+  describe('dependencies', () => {
+    it('plans a task after the task it waits on, which inherits its urgency', () => {
+      const result = schedule([
+        task('later', 60, { dueDate: day('2025-03-20'), priority: 'low' }),
+        task('blocked', 60, { dueDate: day('2025-03-11'), priority: 'high', blockedByIds: ['blocker'] }),
+        task('blocker', 60, { priority: 'low' }),
+      ]);
+
+      expect(result.blocks).toEqual(['blocker Mon 09:00-10:00', 'blocked Mon 10:00-11:00', 'later Mon 11:00-12:00']);
+    });
+
+    it('plans a task after the existing blocks of a blocker that needs no more planning', () => {
+      const result = schedule(
+        [task('blocker', 60), task('blocked', 60, { blockedByIds: ['blocker'] })],
+        [block('blocker', '2025-03-11', '14:00', '15:00')]
+      );
+
+      expect(result.blocks).toEqual(['blocked Tue 15:00-16:00']);
+      expect(result.unscheduled).toEqual([]);
+    });
+
+    it('treats completed blockers as done', () => {
+      expect(schedule([
+        task('blocker', 60, { completed: true }),
+        task('blocked', 60, { blockedByIds: ['blocker'] }),
+      ]).blocks).toEqual(['blocked Mon 09:00-10:00']);
+    });
+
+    it('does not plan tasks whose blockers have no known end', () => {
+      expect(schedule([
+        task('blocker', 0),
+        task('blocked', 60, { blockedByIds: ['blocker'] }),
+      ]).unscheduled).toEqual([{ taskId: 'blocked', reason: 'blocked' }]);
+    });
+
+    it('does not plan tasks that wait on each other', () => {
+      expect(schedule([
+        task('a', 60, { blockedByIds: ['b'] }),
+        task('b', 60, { blockedByIds: ['a'] }),
+      ])).toEqual({
+        blocks: [],
+        unscheduled: [{ taskId: 'a', reason: 'blocked' }, { taskId: 'b', reason: 'blocked' }],
+      });
+    });
+  });
+
+  describe('overflow', () => {
+    it('does not plan a task that does not fit before its due date', () => {
+      expect(schedule([task('a', 600, { dueDate: day('2025-03-10') })])).toEqual({
+        blocks: [],
+        unscheduled: [{ taskId: 'a', reason: 'no-time' }],
+      });
+    });
+
+    it('does not plan a task that does not fit in the horizon', () => {
+      expect(schedule([task('a', 600)], [], { horizonDays: 2 }).unscheduled).toEqual([
+        { taskId: 'a', reason: 'no-time' },
+      ]);
+    });
+
+    it('does not plan tasks after a blocker that did not fit', () => {
+      expect(schedule([
+        task('blocker', 600, { dueDate: day('2025-03-10') }),
+        task('blocked', 60, { blockedByIds: ['blocker'] }),
+      ]).unscheduled).toEqual([
+        { taskId: 'blocker', reason: 'no-time' },
+        { taskId: 'blocked', reason: 'blocked' },
+      ]);
+    });
+
+    it('plans overdue tasks as soon as possible', () => {
+      expect(schedule([task('a', 60, { dueDate: day('2025-03-07') })]).blocks).toEqual(['a Mon 09:00-10:00']);
+    });
+  });
+});
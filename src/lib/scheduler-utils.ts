@@ -0,0 +1,360 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { Priority, Task, TimeBlock } from '@/context/TaskTypes';
+import { flattenTasks } from './dependency-utils';
+import { MINUTES_PER_DAY, minutesToTimeSlot } from './calendar-utils';
+import { parseTimeToMinutes } from './time-utils';
+import { getTaskScheduleInZone, getTimeBlockInZone, getZonedParts } from './timezone-utils';
+
+const WORKING_HOURS_STORAGE_KEY = 'quire-working-hours';
+
+export interface WorkingHours {
+  days: number[]; // Days of the week, 0 = Sunday
+  startTime: string; // Format: "HH:MM"
+  endTime: string; // Format: "HH:MM"
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '17:00',
+};
+
+export interface AutoScheduleOptions {
+  workingHours: WorkingHours;
+  timeZone: string; // Zone the working hours and proposed blocks are in
+  now: Date; // Nothing is planned before this instant
+  horizonDays?: number;
+  maxChunkMinutes?: number; // Longer tasks are split into chunks of at most this length
+  minChunkMinutes?: number; // Free time shorter than this is not used
+  snapMinutes?: number;
+}
+
+export interface ProposedTimeBlock {
+  taskId: string;
+  date: Date; // Calendar day in the schedule's zone, as local midnight
+  startTime: string;
+  endTime: string;
+}
+
+export type UnscheduledReason = 'blocked' | 'no-time';
+
+export interface AutoSchedule {
+  blocks: ProposedTimeBlock[];
+  unscheduled: { taskId: string; reason: UnscheduledReason }[];
+}
+
+interface Interval {
+  start: number; // Minutes since midnight
+  end: number;
+}
+
+// Where on the planning horizon a task's planned work ends
+interface PlanPosition {
+  dayIndex: number;
+  minutes: number;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Load the working hours saved in this browser, falling back to the defaults
+ */
+export const getWorkingHours = (): WorkingHours => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WORKING_HOURS_STORAGE_KEY) || 'null');
+    if (saved && Array.isArray(saved.days) && saved.startTime && saved.endTime) {
+      return saved;
+    }
+  } catch (error) {
+    console.error('Error loading working hours:', error);
+  }
+  return DEFAULT_WORKING_HOURS;
+};
+
+export const saveWorkingHours = (workingHours: WorkingHours): void => {
+  localStorage.setItem(WORKING_HOURS_STORAGE_KEY, JSON.stringify(workingHours));
+};
+
+const isLaterPosition = (a: PlanPosition, b: PlanPosition) =>
+  a.dayIndex > b.dayIndex || (a.dayIndex === b.dayIndex && a.minutes > b.minutes);
+
+const roundUp = (minutes: number, snapMinutes: number) => Math.ceil(minutes / snapMinutes) * snapMinutes;
+
+const roundDown = (minutes: number, snapMinutes: number) => Math.floor(minutes / snapMinutes) * snapMinutes;
+
+// Remove a busy interval from a day's sorted free intervals
+const subtractInterval = (free: Interval[], busy: Interval): Interval[] =>
+  free.flatMap(interval => {
+    if (busy.end <= interval.start || busy.start >= interval.end) return [interval];
+    return [
+      { start: interval.start, end: busy.start },
+      { start: busy.end, end: interval.end },
+    ].filter(part => part.end > part.start);
+  });
+
+const cloneFreeTime = (freeTime: Map<number, Interval[]>) =>
+  new Map([...freeTime].map(([dayIndex, intervals]) => [dayIndex, intervals.map(interval => ({ ...interval }))]));
+
+/**
+ * Tasks the scheduler plans: open leaf tasks with an estimate and no time of
+ * their own. Recurring series are left alone.
+ */
+const isSchedulable = (task: Task): boolean =>
+  !task.completed &&
+  !task.timeSlot &&
+  !task.isRecurring &&
+  !task.recurrenceParentId &&
+  (task.estimatedTime || 0) > 0 &&
+  task.children.every(child => child.completed);
+
+/**
+ * Propose time blocks for unscheduled tasks in the free working hours of the
+ * coming days.
+ *
+ * Tasks are planned in order of due date, then priority. A task is only
+ * planned after the tasks it waits on, which in turn inherit the due date and
+ * priority of the tasks waiting on them. Existing time blocks and timed tasks
+ * are kept free, and a task that does not fit before its due date is not
+ * planned at all. The result only depends on the arguments.
+ */
+export const createAutoSchedule = (
+  tasks: Task[],
+  timeBlocks: TimeBlock[],
+  options: AutoScheduleOptions
+): AutoSchedule => {
+  const {
+    workingHours,
+    timeZone,
+    now,
+    horizonDays = 14,
+    maxChunkMinutes = 120,
+    minChunkMinutes = 30,
+    snapMinutes = 15,
+  } = options;
+
+  const allTasks = flattenTasks(tasks);
+  const nowParts = getZonedParts(now, timeZone);
+  const today = new Date(nowParts.year, nowParts.month, nowParts.day);
+  const getDayIndex = (day: Date) => differenceInCalendarDays(day, today);
+
+  // Free working time per day of the horizon
+  const workStart = roundUp(parseTimeToMinutes(workingHours.startTime), snapMinutes);
+  const workEnd = roundDown(parseTimeToMinutes(workingHours.endTime) || MINUTES_PER_DAY, snapMinutes);
+  const freeTime = new Map<number, Interval[]>();
+
+  for (let dayIndex = 0; dayIndex < horizonDays; dayIndex++) {
+    if (!workingHours.days.includes(addDays(today, dayIndex).getDay())) continue;
+
+    const start = dayIndex === 0
+      ? Math.max(workStart, roundUp(nowParts.hour * 60 + nowParts.minute, snapMinutes))
+      : workStart;
+    if (workEnd > start) {
+      freeTime.set(dayIndex, [{ start, end: workEnd }]);
+    }
+  }
+
+  const markBusy = (day: Date, start: number, end: number) => {
+    const dayIndex = getDayIndex(day);
+    const free = freeTime.get(dayIndex);
+    if (!free) return;
+
+    // Partly covered grid intervals are not free either
+    freeTime.set(dayIndex, subtractInterval(free, {
+      start: roundDown(start, snapMinutes),
+      end: roundUp(end, snapMinutes),
+    }));
+  };
+
+  // Where the planned work of each task ends: its latest time block, or its slot for timed tasks
+  const planEnds = new Map<string, PlanPosition>();
+
+  const extendPlanEnd = (taskId: string, day: Date, minutes: number) => {
+    const dayIndex = getDayIndex(day);
+    const position = dayIndex < 0 ? { dayIndex: 0, minutes: 0 } : { dayIndex, minutes };
+    const current = planEnds.get(taskId);
+    if (!current || isLaterPosition(position, current)) {
+      planEnds.set(taskId, position);
+    }
+  };
+
+  const plannedMinutes = new Map<string, number>();
+
+  for (const block of timeBlocks) {
+    const shown = getTimeBlockInZone(block, timeZone);
+    const start = parseTimeToMinutes(shown.startTime);
+    const end = parseTimeToMinutes(shown.endTime);
+    // A block running past midnight ends the day
+    markBusy(shown.date, start, end > start ? end : MINUTES_PER_DAY);
+    extendPlanEnd(block.taskId, shown.date, end > start ? end : MINUTES_PER_DAY);
+
+    // Blocks from today on count towards the task's estimate
+    if (getDayIndex(shown.date) >= 0) {
+      plannedMinutes.set(block.taskId, (plannedMinutes.get(block.taskId) || 0) + Math.max(end - start, 0));
+    }
+  }
+
+  for (const task of allTasks) {
+    if (task.completed || !task.timeSlot) continue;
+
+    const schedule = getTaskScheduleInZone(task, timeZone);
+    if (!schedule?.timeSlot) continue;
+
+    const start = parseTimeToMinutes(schedule.timeSlot);
+    const end = Math.min(start + (task.estimatedTime || minChunkMinutes), MINUTES_PER_DAY);
+    markBusy(schedule.date, start, end);
+    extendPlanEnd(task.id, schedule.date, end);
+  }
+
+  // Work left on each task to plan, rounded up to the grid
+  const remainingMinutes = new Map<string, number>();
+  const candidates = allTasks.filter(task => {
+    if (!isSchedulable(task)) return false;
+
+    const remaining = (task.estimatedTime || 0) - task.timeTracked - (plannedMinutes.get(task.id) || 0);
+    if (remaining <= 0) {
+      // Nothing left to plan: done by its last block, or already now when it has none
+      if (!planEnds.has(task.id)) {
+        planEnds.set(task.id, { dayIndex: 0, minutes: 0 });
+      }
+      return false;
+    }
+
+    remainingMinutes.set(task.id, roundUp(remaining, snapMinutes));
+    return true;
+  });
+
+  // Blockers inherit the urgency of the tasks waiting on them
+  const urgency = new Map(candidates.map(task => {
+    const dueDate = getTaskScheduleInZone(task, timeZone)?.date;
+    return [task.id, {
+      dueDayIndex: dueDate ? getDayIndex(dueDate) : Infinity,
+      priorityRank: PRIORITY_RANK[task.priority] ?? PRIORITY_RANK.low,
+    }];
+  }));
+
+  for (let pass = 0; pass < candidates.length; pass++) {
+    let changed = false;
+
+    for (const task of candidates) {
+      const own = urgency.get(task.id)!;
+      for (const blockerId of task.blockedByIds || []) {
+        const blocker = urgency.get(blockerId);
+        if (!blocker) continue;
+
+        if (own.dueDayIndex < blocker.dueDayIndex || own.priorityRank < blocker.priorityRank) {
+          blocker.dueDayIndex = Math.min(blocker.dueDayIndex, own.dueDayIndex);
+          blocker.priorityRank = Math.min(blocker.priorityRank, own.priorityRank);
+          changed = true;
+        }
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  const pending = [...candidates].sort((a, b) => {
+    const urgencyA = urgency.get(a.id)!;
+    const urgencyB = urgency.get(b.id)!;
+    return (
+      urgencyA.dueDayIndex - urgencyB.dueDayIndex ||
+      urgencyA.priorityRank - urgencyB.priorityRank ||
+      a.title.localeCompare(b.title) ||
+      a.id.localeCompare(b.id)
+    );
+  });
+
+  const tasksById = new Map(allTasks.map(task => [task.id, task]));
+  const blocks: ProposedTimeBlock[] = [];
+  const unscheduled: AutoSchedule['unscheduled'] = [];
+
+  const getOpenBlockerIds = (task: Task) =>
+    (task.blockedByIds || []).filter(id => {
+      const blocker = tasksById.get(id);
+      return !!blocker && !blocker.completed;
+    });
+
+  while (pending.length > 0) {
+    // The most urgent task whose blockers have had their turn
+    const index = pending.findIndex(task =>
+      getOpenBlockerIds(task).every(id => !pending.some(other => other.id === id))
+    );
+
+    // Tasks waiting on each other in a loop can never start
+    if (index === -1) {
+      pending.forEach(task => unscheduled.push({ taskId: task.id, reason: 'blocked' }));
+      break;
+    }
+
+    const [task] = pending.splice(index, 1);
+    const blockerIds = getOpenBlockerIds(task);
+
+    // Blockers without a time, time blocks or a plan have no known end; completed ones are not counted
+    if (blockerIds.some(id => !planEnds.has(id))) {
+      // Its existing blocks alone do not finish it, so nothing can follow it either
+      planEnds.delete(task.id);
+      unscheduled.push({ taskId: task.id, reason: 'blocked' });
+      continue;
+    }
+
+    const earliest = blockerIds.reduce<PlanPosition>((latest, id) => {
+      const end = planEnds.get(id)!;
+      return isLaterPosition(end, latest) ? end : latest;
+    }, { dayIndex: 0, minutes: 0 });
+
+    const dueDate = getTaskScheduleInZone(task, timeZone)?.date;
+    // Overdue tasks are planned as soon as possible
+    const lastDayIndex = dueDate && getDayIndex(dueDate) >= 0
+      ? Math.min(getDayIndex(dueDate), horizonDays - 1)
+      : horizonDays - 1;
+
+    // Planned on a copy, so a task that does not fit leaves no chunks behind
+    const tentativeFreeTime = cloneFreeTime(freeTime);
+    const taskBlocks: ProposedTimeBlock[] = [];
+    let remaining = remainingMinutes.get(task.id)!;
+    let end = earliest;
+
+    for (let dayIndex = earliest.dayIndex; dayIndex <= lastDayIndex && remaining > 0; dayIndex++) {
+      const free = tentativeFreeTime.get(dayIndex);
+      if (!free) continue;
+
+      // At most one chunk per stretch of free time, so chunks are not back to back
+      for (const interval of [...free]) {
+        if (remaining <= 0) break;
+
+        const start = dayIndex === earliest.dayIndex ? Math.max(interval.start, earliest.minutes) : interval.start;
+        const available = interval.end - start;
+        if (available < Math.min(minChunkMinutes, remaining)) continue;
+
+        const chunk = Math.min(available, maxChunkMinutes, remaining);
+        tentativeFreeTime.set(dayIndex, subtractInterval(tentativeFreeTime.get(dayIndex)!, { start, end: start + chunk }));
+        taskBlocks.push({
+          taskId: task.id,
+          date: addDays(today, dayIndex),
+          startTime: minutesToTimeSlot(start),
+          endTime: minutesToTimeSlot(start + chunk),
+        });
+        remaining -= chunk;
+        end = { dayIndex, minutes: start + chunk };
+      }
+    }
+
+    if (remaining > 0) {
+      planEnds.delete(task.id);
+      unscheduled.push({ taskId: task.id, reason: 'no-time' });
+      continue;
+    }
+
+    tentativeFreeTime.forEach((intervals, dayIndex) => freeTime.set(dayIndex, intervals));
+    // Existing blocks of the task may still come after the new ones
+    if (!planEnds.has(task.id) || isLaterPosition(end, planEnds.get(task.id)!)) {
+      planEnds.set(task.id, end);
+    }
+    blocks.push(...taskBlocks);
+  }
+
+  blocks.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime)
+  );
+
+  return { blocks, unscheduled };
+};
@@ -0,0 +1,89 @@
+
+import { Task, TaskStatus } from '@/context/TaskTypes';
+
+// Workflow used by projects that have not set up their own statuses
+export const defaultStatuses: Omit<TaskStatus, 'id' | 'projectId'>[] = [
+  { key: 'todo', name: 'To Do', color: '#64748b', position: 0, isDone: false },
+  { key: 'in-progress', name: 'In Progress', color: '#3b82f6', position: 1, isDone: false },
+  { key: 'done', name: 'Done', color: '#22c55e', position: 2, isDone: true },
+];
+
+// The ordered statuses of a project, falling back to the default workflow
+export const getProjectStatuses = (projectId: string, statuses: TaskStatus[]): TaskStatus[] => {
+  const projectStatuses = statuses
+    .filter(status => status.projectId === projectId)
+    .sort((a, b) => a.position - b.position);
+
+  if (projectStatuses.length > 0) return projectStatuses;
+
+  return defaultStatuses.map(status => ({
+    ...status,
+    id: `default-${status.key}`,
+    projectId,
+  }));
+};
+
+/**
+ * The status a task is in. Tasks created before workflows existed, or whose
+ * status was removed from the project, fall back on their completed flag.
+ */
+export const getTaskStatus = (task: Task, statuses: TaskStatus[]): TaskStatus => {
+  const projectStatuses = getProjectStatuses(task.projectId, statuses);
+  const current = projectStatuses.find(status => status.key === task.status);
+
+  if (current && current.isDone === !!task.completed) return current;
+
+  return task.completed
+    ? getDoneStatus(projectStatuses)
+    : (current ?? getOpenStatus(projectStatuses));
+};
+
+// First status that counts as done, or the last column when none is flagged
+const getDoneStatus = (projectStatuses: TaskStatus[]): TaskStatus =>
+  projectStatuses.find(status => status.isDone) ?? projectStatuses[projectStatuses.length - 1];
+
+// First status that does not count as done
+const getOpenStatus = (projectStatuses: TaskStatus[]): TaskStatus =>
+  projectStatuses.find(status => !status.isDone) ?? projectStatuses[0];
+
+/**
+ * Keep status and completed in line when a task is edited. A changed status
+ * decides completed; a changed completed flag (e.g. the checkbox) moves the
+ * task to the first done or open status of its project.
+ */
+export const syncTaskStatus = (
+  task: Task,
+  previous: Task | undefined,
+  statuses: TaskStatus[]
+): Task => {
+  const projectStatuses = getProjectStatuses(task.projectId, statuses);
+  const statusChanged = task.status !== previous?.status;
+  const selected = projectStatuses.find(status => status.key === task.status);
+
+  if (statusChanged && selected) {
+    return { ...task, completed: selected.isDone };
+  }
+
+  const completed = !!task.completed;
+  if (selected && selected.isDone === completed) {
+    return task;
+  }
+
+  const fallback = completed ? getDoneStatus(projectStatuses) : getOpenStatus(projectStatuses);
+  return { ...task, status: fallback.key, completed };
+};
+
+// Turn a status name into a key that is unique among the given keys
+export const createStatusKey = (name: string, existingKeys: string[]): string => {
+  const base = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'status';
+
+  let key = base;
+  for (let i = 2; existingKeys.includes(key); i++) {
+    key = `${base}-${i}`;
+  }
+  return key;
+};
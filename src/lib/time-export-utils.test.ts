@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue } from './time-export-utils';
+
+describe('escapeCsvValue', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsvValue('Write report')).toBe('Write report');
+    expect(escapeCsvValue(1.5)).toBe('1.5');
+    expect(escapeCsvValue(-30)).toBe('-30');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsvValue('Design, build')).toBe('"Design, build"');
+    expect(escapeCsvValue('The "big" one')).toBe('"The ""big"" one"');
+    expect(escapeCsvValue('first\nsecond')).toBe('"first\nsecond"');
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-1+2', '@cmd', '\tindented'])('keeps %j from running as a formula', (value) => {
+    expect(escapeCsvValue(value)).toBe(`"'${value}"`);
+  });
+
+  it('escapes quotes in neutralized formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+  });
+});
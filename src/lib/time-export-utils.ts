@@ -0,0 +1,196 @@
+import { format } from 'date-fns';
+import { Project, Task, TimeTracking } from '@/context/TaskTypes';
+import { flattenTasks } from './dependency-utils';
+import { getTrackedMinutes } from './report-utils';
+import { RoundingMode, roundMinutes } from './time-utils';
+import { getCalendarDay, getZonedParts } from './timezone-utils';
+
+// Entries of a task this close together count as one when merging
+const MERGE_GAP_MINUTES = 1;
+
+export interface TimeExportOptions {
+  from?: Date; // First calendar day, inclusive
+  to?: Date; // Last calendar day, inclusive
+  projectId?: string;
+  taskId?: string; // The task and its subtasks
+  roundingInterval: number; // Minutes; 1 or less keeps the tracked minutes
+  roundingMode: RoundingMode;
+  mergeAdjacent: boolean; // Join back-to-back entries of the same task
+  timeZone?: string; // Zone dates and times are exported in
+}
+
+export interface TimeExportEntry {
+  date: string; // Format: "yyyy-MM-dd"
+  startTime: string; // Format: "HH:MM"
+  endTime: string; // Format: "HH:MM"
+  project: string;
+  taskPath: string; // Titles from the top-level task down, e.g. "Website / Header"
+  taskId: string;
+  trackedMinutes: number;
+  minutes: number; // Rounded
+  hours: number; // Rounded minutes as decimal hours
+  notes: string;
+}
+
+interface ExportSpan {
+  tracking: TimeTracking;
+  start: Date;
+  end: Date;
+  minutes: number;
+  notes: string[];
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const formatTime = (date: Date, timeZone?: string): string => {
+  if (!timeZone) return format(date, 'HH:mm');
+  const parts = getZonedParts(date, timeZone);
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+/**
+ * Titles of a task and its ancestors, top-level task first
+ */
+export const getTaskPath = (task: Task, tasksById: Map<string, Task>): string => {
+  const titles = [task.title];
+  const visited = new Set([task.id]);
+  let parent = task.parentId ? tasksById.get(task.parentId) : undefined;
+
+  while (parent && !visited.has(parent.id)) {
+    titles.unshift(parent.title);
+    visited.add(parent.id);
+    parent = parent.parentId ? tasksById.get(parent.parentId) : undefined;
+  }
+
+  return titles.join(' / ');
+};
+
+const isInSubtree = (task: Task, rootId: string, tasksById: Map<string, Task>): boolean => {
+  const visited = new Set<string>();
+  let current: Task | undefined = task;
+
+  while (current && !visited.has(current.id)) {
+    if (current.id === rootId) return true;
+    visited.add(current.id);
+    current = current.parentId ? tasksById.get(current.parentId) : undefined;
+  }
+
+  return false;
+};
+
+/**
+ * Time entries filtered by dates, project and task subtree, optionally merged
+ * and rounded for billing. Each entry is rounded on its own, after merging.
+ */
+export const getTimeExportEntries = (
+  trackings: TimeTracking[],
+  tasks: Task[],
+  projects: Project[],
+  options: TimeExportOptions,
+  now: Date = new Date()
+): TimeExportEntry[] => {
+  const { from, to, projectId, taskId, roundingInterval, roundingMode, mergeAdjacent, timeZone } = options;
+  const tasksById = new Map(flattenTasks(tasks).map(task => [task.id, task]));
+
+  const spans: ExportSpan[] = trackings
+    .filter(tracking => {
+      const task = tasksById.get(tracking.taskId);
+      if (!task) return false;
+      if (projectId && task.projectId !== projectId) return false;
+      if (taskId && !isInSubtree(task, taskId, tasksById)) return false;
+
+      const day = getCalendarDay(new Date(tracking.startTime), timeZone);
+      if (from && day.getTime() < from.getTime()) return false;
+      if (to && day.getTime() > to.getTime()) return false;
+      return true;
+    })
+    .map(tracking => {
+      const start = new Date(tracking.startTime);
+      const minutes = getTrackedMinutes(tracking, now);
+      return {
+        tracking,
+        start,
+        end: tracking.endTime ? new Date(tracking.endTime) : new Date(start.getTime() + minutes * 60000),
+        minutes,
+        notes: tracking.notes ? [tracking.notes] : [],
+      };
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged = mergeAdjacent
+    ? spans.reduce<ExportSpan[]>((result, span) => {
+        // Only the same task on the same day continues an entry
+        const previous = [...result].reverse().find(other => other.tracking.taskId === span.tracking.taskId);
+        const isAdjacent = !!previous &&
+          span.start.getTime() - previous.end.getTime() <= MERGE_GAP_MINUTES * 60000 &&
+          getCalendarDay(previous.start, timeZone).getTime() === getCalendarDay(span.start, timeZone).getTime();
+
+        if (previous && isAdjacent) {
+          previous.end = new Date(Math.max(previous.end.getTime(), span.end.getTime()));
+          previous.minutes += span.minutes;
+          previous.notes.push(...span.notes);
+        } else {
+          result.push({ ...span, notes: [...span.notes] });
+        }
+        return result;
+      }, [])
+    : spans;
+
+  return merged.map(span => {
+    const task = tasksById.get(span.tracking.taskId)!;
+    const minutes = roundMinutes(span.minutes, roundingInterval, roundingMode);
+
+    return {
+      date: format(getCalendarDay(span.start, timeZone), 'yyyy-MM-dd'),
+      startTime: formatTime(span.start, timeZone),
+      endTime: formatTime(span.end, timeZone),
+      project: projects.find(project => project.id === task.projectId)?.name ?? '',
+      taskPath: getTaskPath(task, tasksById),
+      taskId: task.id,
+      trackedMinutes: span.minutes,
+      minutes,
+      hours: Math.round((minutes / 60) * 100) / 100,
+      notes: span.notes.join('; '),
+    };
+  });
+};
+
+const CSV_COLUMNS: { key: keyof TimeExportEntry; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'startTime', label: 'Start' },
+  { key: 'endTime', label: 'End' },
+  { key: 'project', label: 'Project' },
+  { key: 'taskPath', label: 'Task' },
+  { key: 'trackedMinutes', label: 'Tracked minutes' },
+  { key: 'minutes', label: 'Minutes' },
+  { key: 'hours', label: 'Hours' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'taskId', label: 'Task ID' },
+];
+
+// Spreadsheets run text starting with these as a formula
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * A CSV cell. Text that would run as a formula gets a leading apostrophe, so it
+ * shows as typed; numbers are left as they are.
+ */
+export const escapeCsvValue = (value: string | number): string => {
+  const isFormula = typeof value === 'string' && CSV_FORMULA_PREFIX.test(value);
+  const text = isFormula ? `'${value}` : value.toString();
+  return isFormula || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Time entries as CSV with a header row, as spreadsheets read it
+ */
+export const toTimeEntriesCsv = (entries: TimeExportEntry[]): string =>
+  [
+    CSV_COLUMNS.map(column => column.label),
+    ...entries.map(entry => CSV_COLUMNS.map(column => entry[column.key])),
+  ]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+
+export const toTimeEntriesJson = (entries: TimeExportEntry[]): string =>
+  JSON.stringify(entries, null, 2);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { roundMinutes } from './time-utils';
+
+describe('roundMinutes', () => {
+  it.each([6, 15, 30])('rounds to the nearest %i minutes, halves up', (interval) => {
+    const half = interval / 2;
+    expect(roundMinutes(interval + half - 1, interval)).toBe(interval);
+    expect(roundMinutes(interval + half, interval)).toBe(2 * interval);
+    expect(roundMinutes(interval + half + 1, interval, 'nearest')).toBe(2 * interval);
+    expect(roundMinutes(1, interval)).toBe(0);
+  });
+
+  it.each([6, 15, 30])('rounds up to %i minutes', (interval) => {
+    expect(roundMinutes(1, interval, 'up')).toBe(interval);
+    expect(roundMinutes(interval + 1, interval, 'up')).toBe(2 * interval);
+    expect(roundMinutes(2 * interval - 1, interval, 'up')).toBe(2 * interval);
+  });
+
+  it.each([6, 15, 30])('rounds down to %i minutes', (interval) => {
+    expect(roundMinutes(interval - 1, interval, 'down')).toBe(0);
+    expect(roundMinutes(interval + 1, interval, 'down')).toBe(interval);
+    expect(roundMinutes(2 * interval - 1, interval, 'down')).toBe(interval);
+  });
+
+  it.each(['nearest', 'up', 'down'] as const)('keeps exact multiples when rounding %s', (mode) => {
+    for (const interval of [6, 15, 30]) {
+      expect(roundMinutes(interval, interval, mode)).toBe(interval);
+      expect(roundMinutes(4 * interval, interval, mode)).toBe(4 * interval);
+    }
+  });
+
+  it.each(['nearest', 'up', 'down'] as const)('keeps zero at zero when rounding %s', (mode) => {
+    for (const interval of [6, 15, 30]) {
+      expect(roundMinutes(0, interval, mode)).toBe(0);
+    }
+  });
+
+  it('leaves minutes alone for an interval of one minute or less', () => {
+    expect(roundMinutes(7, 1, 'up')).toBe(7);
+    expect(roundMinutes(7, 0, 'down')).toBe(7);
+  });
+});
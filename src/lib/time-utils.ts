@@ -42,3 +42,17 @@ export const parseTimeToMinutes = (timeString: string): number => {
   
   return hours * 60 + minutes;
 };
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+/**
+ * Round minutes to a multiple of an interval, e.g. to bill in 6-minute units.
+ * An interval of 1 or less leaves the minutes as they are.
+ */
+export const roundMinutes = (minutes: number, interval: number, mode: RoundingMode = 'nearest'): number => {
+  if (interval <= 1) return minutes;
+  
+  const units = minutes / interval;
+  const round = mode === 'up' ? Math.ceil : mode === 'down' ? Math.floor : Math.round;
+  return round(units) * interval;
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { zonedTimeToDate } from './timezone-utils';
+
+describe('zonedTimeToDate', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedTimeToDate(2025, 0, 15, 9, 30, 'America/New_York').toISOString()).toBe('2025-01-15T14:30:00.000Z');
+    expect(zonedTimeToDate(2025, 6, 15, 9, 30, 'Europe/Stockholm').toISOString()).toBe('2025-07-15T07:30:00.000Z');
+    expect(zonedTimeToDate(2025, 6, 15, 9, 30, 'Asia/Tokyo').toISOString()).toBe('2025-07-15T00:30:00.000Z');
+    expect(zonedTimeToDate(2025, 3, 6, 9, 30, 'Australia/Sydney').toISOString()).toBe('2025-04-05T23:30:00.000Z');
+  });
+
+  it.each([
+    ['America/New_York', 2025, 2, 9, '2025-03-09T07:30:00.000Z'],
+    ['Europe/Stockholm', 2025, 2, 30, '2025-03-30T01:30:00.000Z'],
+    ['Australia/Sydney', 2025, 9, 5, '2025-10-04T16:30:00.000Z'],
+  ])('resolves times skipped in %s to the hour after the gap', (timeZone, year, month, day, expected) => {
+    expect(zonedTimeToDate(year, month, day, 2, 30, timeZone).toISOString()).toBe(expected);
+  });
+
+  it.each([
+    ['America/New_York', 2025, 10, 2, 1, '2025-11-02T05:30:00.000Z'],
+    ['Europe/Stockholm', 2025, 9, 26, 2, '2025-10-26T00:30:00.000Z'],
+  ])('resolves times repeated in %s to their first occurrence', (timeZone, year, month, day, hours, expected) => {
+    expect(zonedTimeToDate(year, month, day, hours, 30, timeZone).toISOString()).toBe(expected);
+  });
+});
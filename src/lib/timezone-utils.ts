@@ -0,0 +1,203 @@
+import { startOfDay } from 'date-fns';
+import { Task, TimeBlock } from '@/context/TaskTypes';
+import {
+  fromCalendarDay,
+  getCalendarDay,
+  getTimeZoneOffset,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToDate,
+} from '../../supabase/functions/_shared/timezone';
+
+export {
+  fromCalendarDay,
+  getCalendarDay,
+  getTimeZoneOffset,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToDate,
+};
+
+const TIME_ZONE_STORAGE_KEY = 'quire-time-zone';
+
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Stockholm',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Get the IANA time zone of the current browser
+ */
+export const getBrowserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+/**
+ * Get the user's default time zone, falling back to the browser zone
+ */
+export const getDefaultTimeZone = (): string => {
+  const stored = localStorage.getItem(TIME_ZONE_STORAGE_KEY);
+  return isValidTimeZone(stored) ? stored : getBrowserTimeZone();
+};
+
+/**
+ * Remember the user's default time zone on this device
+ */
+export const saveDefaultTimeZone = (timeZone: string): void => {
+  localStorage.setItem(TIME_ZONE_STORAGE_KEY, timeZone);
+};
+
+/**
+ * List the time zones that can be picked in settings
+ */
+export const getTimeZones = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? FALLBACK_TIME_ZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+/**
+ * Get the instant a task is due, including its time slot
+ */
+export const getTaskDueDateTime = (task: Pick<Task, 'dueDate' | 'timeSlot' | 'timeZone'>): Date | null => {
+  if (!task.dueDate) return null;
+
+  const day = getCalendarDay(task.dueDate, task.timeZone);
+  const [hours, minutes] = task.timeSlot ? task.timeSlot.split(':').map(Number) : [0, 0];
+
+  if (!task.timeZone) {
+    const dueDate = new Date(day);
+    dueDate.setHours(hours, minutes, 0, 0);
+    return dueDate;
+  }
+
+  return zonedTimeToDate(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, task.timeZone);
+};
+
+/**
+ * Get the day and time slot a task falls on for a viewer in another zone.
+ * All-day tasks and tasks without a zone keep their own calendar day.
+ */
+export const getTaskScheduleInZone = (
+  task: Pick<Task, 'dueDate' | 'timeSlot' | 'timeZone'>,
+  viewerTimeZone: string
+): { date: Date; timeSlot?: string } | null => {
+  if (!task.dueDate) return null;
+
+  if (!task.timeSlot || !task.timeZone) {
+    return { date: getCalendarDay(task.dueDate, task.timeZone), timeSlot: task.timeSlot };
+  }
+
+  const dueDateTime = getTaskDueDateTime(task) as Date;
+  const parts = getZonedParts(dueDateTime, viewerTimeZone);
+
+  return {
+    date: new Date(parts.year, parts.month, parts.day),
+    timeSlot: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+};
+
+/**
+ * Convert a day and time slot picked by a viewer into a task's own zone
+ */
+export const scheduleTaskInZone = (
+  task: Pick<Task, 'timeZone'>,
+  viewerDay: Date,
+  viewerTimeSlot: string | undefined,
+  viewerTimeZone: string
+): { dueDate: Date; timeSlot?: string } => {
+  if (!task.timeZone) {
+    return { dueDate: startOfDay(viewerDay), timeSlot: viewerTimeSlot };
+  }
+
+  if (!viewerTimeSlot) {
+    return { dueDate: fromCalendarDay(viewerDay, task.timeZone) };
+  }
+
+  const [hours, minutes] = viewerTimeSlot.split(':').map(Number);
+  const instant = zonedTimeToDate(
+    viewerDay.getFullYear(),
+    viewerDay.getMonth(),
+    viewerDay.getDate(),
+    hours,
+    minutes,
+    viewerTimeZone
+  );
+  const parts = getZonedParts(instant, task.timeZone);
+
+  return {
+    dueDate: zonedTimeToDate(parts.year, parts.month, parts.day, 0, 0, task.timeZone),
+    timeSlot: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+};
+
+/**
+ * Get the day and times a time block falls on for a viewer in another zone
+ */
+export const getTimeBlockInZone = (
+  block: Pick<TimeBlock, 'date' | 'startTime' | 'endTime' | 'timeZone'>,
+  viewerTimeZone: string
+): { date: Date; startTime: string; endTime: string } => {
+  const start = getTaskScheduleInZone(
+    { dueDate: block.date, timeSlot: block.startTime, timeZone: block.timeZone },
+    viewerTimeZone
+  );
+  const end = getTaskScheduleInZone(
+    { dueDate: block.date, timeSlot: block.endTime, timeZone: block.timeZone },
+    viewerTimeZone
+  );
+
+  return {
+    date: start?.date ?? block.date,
+    startTime: start?.timeSlot ?? block.startTime,
+    endTime: end?.timeSlot ?? block.endTime,
+  };
+};
+
+/**
+ * Convert a day and times picked by a viewer into a time block's own zone
+ */
+export const scheduleTimeBlockInZone = (
+  block: Pick<TimeBlock, 'timeZone'>,
+  viewerDay: Date,
+  viewerStartTime: string,
+  viewerEndTime: string,
+  viewerTimeZone: string
+): { date: Date; startTime: string; endTime: string } => {
+  const start = scheduleTaskInZone(block, viewerDay, viewerStartTime, viewerTimeZone);
+  const end = scheduleTaskInZone(block, viewerDay, viewerEndTime, viewerTimeZone);
+
+  return {
+    date: start.dueDate,
+    startTime: start.timeSlot ?? viewerStartTime,
+    endTime: end.timeSlot ?? viewerEndTime,
+  };
+};
+
+/**
+ * Format a time zone for display, e.g. "Europe/Stockholm (GMT+2)"
+ */
+export const formatTimeZone = (timeZone: string, date: Date = new Date()): string => {
+  const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offsetMinutes) / 60);
+  const minutes = Math.abs(offsetMinutes) % 60;
+  const offset = offsetMinutes === 0 ? '' : `${sign}${hours}${minutes ? `:${pad(minutes)}` : ''}`;
+  return `${timeZone.replace(/_/g, ' ')} (GMT${offset})`;
+};
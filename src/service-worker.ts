@@ -269,6 +269,11 @@ const offlineResponse = new Response(
 );
 
 self.addEventListener('fetch', (event) => {
+  // Any wake-up of the worker is a chance to show notifications that came due while it was stopped
+  if (event.request.mode === 'navigate') {
+    event.waitUntil(showDueNotifications());
+  }
+
   // Let Workbox handle most of the routing
   if (event.request.mode === 'navigate' && !navigator.onLine) {
     event.respondWith(
@@ -279,9 +284,127 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
-// Listen for the 'message' event to handle cache updates
+interface ScheduledNotification {
+  tag: string;
+  at: number;
+  title: string;
+  body: string;
+  icon?: string;
+  data?: unknown;
+  requireInteraction?: boolean;
+}
+
+// Notification Triggers are not in the typings; no stable browser has them yet
+type TimestampTriggerConstructor = new (timestamp: number) => object;
+const TimestampTrigger = (self as unknown as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+
+// Pending notifications are kept in a cache, so a worker the browser stopped in between
+// can still show the ones that came due when it runs again
+const SCHEDULED_NOTIFICATIONS_CACHE = 'scheduled-notifications';
+const scheduledNotificationUrl = (tag: string) => `/__scheduled-notifications/${encodeURIComponent(tag)}`;
+const notificationTimers = new Map<string, { timeoutId: ReturnType<typeof setTimeout>; done: () => void }>();
+
+function clearNotificationTimer(tag: string) {
+  const timer = notificationTimers.get(tag);
+  if (!timer) return;
+
+  clearTimeout(timer.timeoutId);
+  notificationTimers.delete(tag);
+  timer.done();
+}
+
+async function showScheduledNotification(notification: ScheduledNotification) {
+  const cache = await caches.open(SCHEDULED_NOTIFICATIONS_CACHE);
+  // Cancelled or already shown by another wake-up of the worker
+  if (!(await cache.delete(scheduledNotificationUrl(notification.tag)))) return;
+
+  await self.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: notification.icon,
+    data: notification.data,
+    requireInteraction: notification.requireInteraction,
+    tag: notification.tag
+  });
+}
+
+async function cancelNotification(tag: string) {
+  clearNotificationTimer(tag);
+
+  const cache = await caches.open(SCHEDULED_NOTIFICATIONS_CACHE);
+  await cache.delete(scheduledNotificationUrl(tag));
+
+  // Triggered notifications carry the time they will be shown at
+  if (TimestampTrigger) {
+    const notifications = await self.registration.getNotifications({ tag, includeTriggered: true } as GetNotificationOptions);
+    (notifications as (Notification & { timestamp: number })[])
+      .filter(notification => notification.timestamp > Date.now())
+      .forEach(notification => notification.close());
+  }
+}
+
+async function scheduleNotification(notification: ScheduledNotification) {
+  await cancelNotification(notification.tag);
+
+  // Where the browser can show it at the time itself, the worker does not have to stay awake
+  if (TimestampTrigger) {
+    await self.registration.showNotification(notification.title, {
+      body: notification.body,
+      icon: notification.icon,
+      data: notification.data,
+      requireInteraction: notification.requireInteraction,
+      tag: notification.tag,
+      showTrigger: new TimestampTrigger(notification.at)
+    } as NotificationOptions);
+    return;
+  }
+
+  const cache = await caches.open(SCHEDULED_NOTIFICATIONS_CACHE);
+  await cache.put(scheduledNotificationUrl(notification.tag), new Response(JSON.stringify(notification)));
+
+  // Browsers stop an idle worker after a few minutes even while it waits; the cached
+  // copy is shown late then, the next time the worker runs
+  await new Promise<void>((resolve) => {
+    const timeoutId = setTimeout(() => {
+      notificationTimers.delete(notification.tag);
+      showScheduledNotification(notification).finally(resolve);
+    }, Math.max(notification.at - Date.now(), 0));
+
+    notificationTimers.set(notification.tag, { timeoutId, done: resolve });
+  });
+}
+
+async function showDueNotifications() {
+  const cache = await caches.open(SCHEDULED_NOTIFICATIONS_CACHE);
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    const notification: ScheduledNotification | undefined = await response?.json();
+    if (notification && notification.at <= Date.now() && !notificationTimers.has(notification.tag)) {
+      await showScheduledNotification(notification);
+    }
+  }
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(showDueNotifications());
+});
+
+// Listen for the 'message' event to handle cache updates and scheduled notifications
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
+
+  if (event.data && event.data.type === 'SCHEDULE_NOTIFICATION') {
+    event.waitUntil(scheduleNotification(event.data.notification).catch(error => {
+      console.error('Error scheduling notification:', error);
+    }));
+  }
+
+  if (event.data && event.data.type === 'CANCEL_NOTIFICATION') {
+    event.waitUntil(cancelNotification(event.data.tag).catch(error => {
+      console.error('Error cancelling notification:', error);
+    }));
+  }
+
+  event.waitUntil(showDueNotifications());
 });
@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, ANONYMOUS_USER_ID_KEY } from './serviceUtils';
+import { isValidUUID } from '@/context/TaskHelpers';
+import { indexedDBService } from './indexedDBService';
+
+// localStorage keys holding the local copies of the signed-in user's data
+const LOCAL_DATA_KEYS = ['quire-tasks', 'quire-projects', 'quire-labels', 'quire-project-statuses'];
+// The user the local copies (localStorage and IndexedDB) belong to
+const LOCAL_DATA_OWNER_KEY = 'quire-data-owner';
+
+/**
+ * Sign in with email and password
+ */
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to sign in');
+  }
+}
+
+/**
+ * Create a new account with email and password
+ */
+export async function signUp(email: string, password: string): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: window.location.origin
+      }
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to create account');
+  }
+}
+
+/**
+ * Send a passwordless sign-in link to the given email
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: window.location.origin
+      }
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to send sign-in link');
+  }
+}
+
+/**
+ * Sign out the current user.
+ * The local data is cleared once the session is gone, see setLocalDataOwner.
+ */
+export async function signOut(): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to sign out');
+  }
+}
+
+/**
+ * Record which user the local data belongs to. When it belonged to another account,
+ * or the user signed out, it is cleared first: the cached entities, the pending and
+ * dead-letter queues, the sync metadata and the localStorage copies. Otherwise they
+ * would be synced or replayed under the next user. Local data from before an owner
+ * was recorded is kept.
+ */
+export async function setLocalDataOwner(userId: string | null): Promise<void> {
+  const ownerId = localStorage.getItem(LOCAL_DATA_OWNER_KEY);
+
+  if (ownerId && ownerId !== userId) {
+    [...LOCAL_DATA_KEYS, LOCAL_DATA_OWNER_KEY].forEach(key => localStorage.removeItem(key));
+    await indexedDBService.clearAllData();
+  }
+
+  if (userId) {
+    localStorage.setItem(LOCAL_DATA_OWNER_KEY, userId);
+  }
+}
+
+/**
+ * Get the legacy anonymous user ID stored before authentication was introduced
+ */
+export function getAnonymousUserId(): string | null {
+  const anonymousId = localStorage.getItem(ANONYMOUS_USER_ID_KEY);
+  return anonymousId && isValidUUID(anonymousId) ? anonymousId : null;
+}
+
+/**
+ * Check if there is anonymous data that can still be claimed
+ */
+export function hasAnonymousData(): boolean {
+  return getAnonymousUserId() !== null;
+}
+
+/**
+ * Move all rows owned by the anonymous user ID to the signed-in account.
+ * Returns the number of rows that were moved.
+ */
+export async function claimAnonymousData(): Promise<number> {
+  const anonymousId = getAnonymousUserId();
+  if (!anonymousId) return 0;
+
+  try {
+    const { data, error } = await supabase.rpc('claim_anonymous_data', {
+      p_anonymous_id: anonymousId
+    });
+
+    if (error) throw error;
+
+    forgetAnonymousUserId();
+    return data ?? 0;
+  } catch (error) {
+    return handleSupabaseError(error, 'Failed to claim your anonymous data');
+  }
+}
+
+/**
+ * Stop offering the claim step, keeping a backup of the ID like the localStorage migration does
+ */
+export function forgetAnonymousUserId(): void {
+  const anonymousId = localStorage.getItem(ANONYMOUS_USER_ID_KEY);
+  if (anonymousId) {
+    localStorage.setItem(`${ANONYMOUS_USER_ID_KEY}-backup`, anonymousId);
+    localStorage.removeItem(ANONYMOUS_USER_ID_KEY);
+  }
+}
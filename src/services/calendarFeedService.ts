@@ -0,0 +1,124 @@
+import { SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, assertRowsAffected, getCurrentUserId } from './serviceUtils';
+import { CalendarFeed } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
+
+const FEED_TOKEN_BYTES = 24;
+
+const generateFeedToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(FEED_TOKEN_BYTES)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * The subscription URL of a feed, served by the calendar-feed Edge Function
+ */
+export const getCalendarFeedUrl = (feed: CalendarFeed): string =>
+  `${SUPABASE_URL}/functions/v1/calendar-feed?token=${feed.token}`;
+
+/**
+ * Fetch the calendar feeds of the current user
+ */
+export async function getCalendarFeeds(): Promise<CalendarFeed[]> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+
+    return data.map(mapCalendarFeedRow);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these calendar feeds');
+    }
+    return handleSupabaseError(error, 'Failed to fetch calendar feeds');
+  }
+}
+
+/**
+ * Create a feed of all projects, or of one project when projectId is given
+ */
+export async function createCalendarFeed(name: string, projectId?: string): Promise<CalendarFeed> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .insert({
+        name,
+        project_id: projectId || null,
+        token: generateFeedToken(),
+        user_id: userId
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapCalendarFeedRow(data);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'create this calendar feed');
+    }
+    return handleSupabaseError(error, 'Failed to create calendar feed');
+  }
+}
+
+/**
+ * Give a feed a new token. Calendar apps subscribed with the old URL stop receiving updates.
+ */
+export async function regenerateCalendarFeedToken(feedId: string): Promise<CalendarFeed> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .update({ token: generateFeedToken(), last_accessed_at: null })
+      .eq('id', feedId)
+      .select();
+
+    if (error) throw error;
+    assertRowsAffected(data, 'calendar feed');
+
+    return mapCalendarFeedRow(data[0]);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'reset this calendar feed');
+    }
+    return handleSupabaseError(error, 'Failed to reset calendar feed');
+  }
+}
+
+/**
+ * Delete a feed, revoking its URL
+ */
+export async function deleteCalendarFeed(feedId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) throw error;
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this calendar feed');
+    }
+    handleSupabaseError(error, 'Failed to delete calendar feed');
+  }
+}
+
+/**
+ * Convert a calendar_feeds row to a CalendarFeed
+ */
+export function mapCalendarFeedRow(row: Tables<'calendar_feeds'>): CalendarFeed {
+  return {
+    id: row.id,
+    name: row.name,
+    projectId: row.project_id || undefined,
+    token: row.token,
+    lastAccessedAt: row.last_accessed_at ? new Date(row.last_accessed_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
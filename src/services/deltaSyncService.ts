@@ -0,0 +1,254 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getCurrentUserId } from './serviceUtils';
+import { indexedDBService, EntityStoreName } from './indexedDBService';
+import { mapTaskRow, loadRecurrenceData } from './taskService';
+import { mapProjectRow } from './projectService';
+import { mapLabelRow, loadTaskLabels } from './labelService';
+import { loadTaskDependencies } from './taskDependencyService';
+import { mapProjectStatusRow } from './projectStatusService';
+import { mapTimeTrackingRow } from './timeTrackingService';
+import { mapTimeBlockRow } from './timeBlockService';
+import { Task, Project, Label, TaskStatus, TimeTracking, TimeBlock } from '@/context/TaskTypes';
+
+type SyncedTable = 'tasks' | 'projects' | 'labels' | 'project_statuses' | 'time_trackings' | 'time_blocks';
+
+export interface DeltaChanges<T> {
+  upserted: T[];
+  deletedIds: string[];
+  // True when every row was fetched, e.g. on the first sync for this account
+  isFullSync: boolean;
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Re-read a few seconds before the cursor so rows committed slightly out of order are not missed
+const SYNC_OVERLAP_MS = 5000;
+
+// Tombstones are pruned after 30 days (see prune_deleted_rows), so older cursors need a full sync
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Pull task changes since the last sync and apply them to IndexedDB
+ */
+export async function pullTaskChanges(): Promise<DeltaChanges<Task>> {
+  return _pullTable('tasks', 'tasks', async rows => {
+    const tasks = rows.map(row => mapTaskRow(row as Parameters<typeof mapTaskRow>[0]));
+    await loadRecurrenceData(tasks);
+    await loadTaskLabels(tasks);
+    await loadTaskDependencies(tasks);
+    return tasks;
+  });
+}
+
+/**
+ * Pull project changes since the last sync and apply them to IndexedDB
+ */
+export async function pullProjectChanges(): Promise<DeltaChanges<Project>> {
+  return _pullTable('projects', 'projects', async rows =>
+    rows.map(row => mapProjectRow(row as Parameters<typeof mapProjectRow>[0]))
+  );
+}
+
+/**
+ * Pull label changes since the last sync and apply them to IndexedDB
+ */
+export async function pullLabelChanges(): Promise<DeltaChanges<Label>> {
+  return _pullTable('labels', 'labels', async rows =>
+    rows.map(row => mapLabelRow(row as Parameters<typeof mapLabelRow>[0]))
+  );
+}
+
+/**
+ * Pull project status workflow changes since the last sync and apply them to IndexedDB
+ */
+export async function pullProjectStatusChanges(): Promise<DeltaChanges<TaskStatus>> {
+  return _pullTable('project_statuses', 'projectStatuses', async rows =>
+    rows.map(row => mapProjectStatusRow(row as Parameters<typeof mapProjectStatusRow>[0]))
+  );
+}
+
+/**
+ * Pull time tracking changes since the last sync and apply them to IndexedDB
+ */
+export async function pullTimeTrackingChanges(): Promise<DeltaChanges<TimeTracking>> {
+  return _pullTable('time_trackings', 'timeTrackings', async rows =>
+    rows.map(row => mapTimeTrackingRow(row as Parameters<typeof mapTimeTrackingRow>[0]))
+  );
+}
+
+/**
+ * Pull time block changes since the last sync and apply them to IndexedDB
+ */
+export async function pullTimeBlockChanges(): Promise<DeltaChanges<TimeBlock>> {
+  return _pullTable('time_blocks', 'timeBlocks', async rows =>
+    rows.map(row => mapTimeBlockRow(row as Parameters<typeof mapTimeBlockRow>[0]))
+  );
+}
+
+/**
+ * Get the locally cached entities, or nothing if the cache belongs to another account
+ */
+export async function getCachedEntities<T>(table: SyncedTable, storeName: EntityStoreName): Promise<T[]> {
+  const userId = await getCurrentUserId();
+  const cachedFor = await indexedDBService.getSyncMetadataUserId(table);
+  if (cachedFor !== userId) return [];
+  return await indexedDBService.getEntities<T>(storeName);
+}
+
+/**
+ * Apply pulled changes to a flat list of entities
+ */
+export function applyDelta<T extends { id: string }>(items: T[], changes: DeltaChanges<T>): T[] {
+  if (changes.upserted.length === 0 && changes.deletedIds.length === 0) return items;
+
+  const deleted = new Set(changes.deletedIds);
+  const upsertedById = new Map(changes.upserted.map(item => [item.id, item]));
+
+  const result = items
+    .filter(item => !deleted.has(item.id))
+    .map(item => {
+      const updated = upsertedById.get(item.id);
+      if (!updated) return item;
+      upsertedById.delete(item.id);
+      return updated;
+    });
+
+  return [...result, ...upsertedById.values()];
+}
+
+/**
+ * Apply pulled task changes to the task hierarchy. Local-only state such as
+ * isExpanded and recurrence data the server row does not carry is kept.
+ */
+export function applyTaskDelta(rootTasks: Task[], changes: DeltaChanges<Task>): Task[] {
+  if (changes.upserted.length === 0 && changes.deletedIds.length === 0) return rootTasks;
+
+  const flatTasks: Task[] = [];
+  const collect = (tasks: Task[]) => {
+    for (const task of tasks) {
+      flatTasks.push({ ...task, children: [] });
+      collect(task.children);
+    }
+  };
+  collect(rootTasks);
+
+  const existingById = new Map(flatTasks.map(task => [task.id, task]));
+  const merged = applyDelta(flatTasks, {
+    ...changes,
+    upserted: changes.upserted.map(task => {
+      const existing = existingById.get(task.id);
+      return {
+        ...task,
+        isExpanded: existing?.isExpanded ?? task.isExpanded,
+        recurrencePattern: task.recurrencePattern ?? (task.isRecurring ? existing?.recurrencePattern : undefined),
+        recurrenceExceptions: task.recurrenceExceptions ?? existing?.recurrenceExceptions,
+        children: []
+      };
+    })
+  });
+
+  // Rebuild the hierarchy; tasks whose parent is gone become root tasks
+  const mergedById = new Map(merged.map(task => [task.id, task]));
+  const roots: Task[] = [];
+  for (const task of merged) {
+    const parent = task.parentId ? mergedById.get(task.parentId) : undefined;
+    if (parent) {
+      parent.children.push(task);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  return roots;
+}
+
+async function _pullTable<T extends { id: string }>(
+  table: SyncedTable,
+  storeName: EntityStoreName,
+  mapRows: (rows: Record<string, unknown>[]) => Promise<T[]>
+): Promise<DeltaChanges<T>> {
+  const userId = await getCurrentUserId();
+  const [lastSync, syncedFor] = await Promise.all([
+    indexedDBService.getSyncMetadata(table),
+    indexedDBService.getSyncMetadataUserId(table)
+  ]);
+
+  const isFullSync = lastSync === 0
+    || syncedFor !== userId
+    || Date.now() - lastSync > TOMBSTONE_RETENTION_MS;
+  const since = isFullSync ? null : new Date(lastSync - SYNC_OVERLAP_MS).toISOString();
+
+  const rows = await _fetchChangedRows(table, userId, since);
+  let cursor = isFullSync ? 0 : lastSync;
+  for (const row of rows) {
+    cursor = Math.max(cursor, new Date(row.updated_at as string).getTime());
+  }
+
+  let deletedIds: string[];
+  if (isFullSync) {
+    // Without tombstones, anything cached that the server no longer has was deleted,
+    // unless it was created offline and has not been pushed yet
+    const serverIds = new Set(rows.map(row => row.id as string));
+    const pendingIds = new Set(
+      (await indexedDBService.getPendingOperations()).map(op => op.entityId)
+    );
+    deletedIds = (await indexedDBService.getEntityIds(storeName))
+      .filter(id => !serverIds.has(id) && !pendingIds.has(id));
+  } else {
+    const { data, error } = await supabase
+      .from('deleted_rows')
+      .select('row_id, deleted_at')
+      .eq('user_id', userId)
+      .eq('table_name', table)
+      .gt('deleted_at', since!);
+
+    if (error) throw error;
+
+    deletedIds = data.map(tombstone => tombstone.row_id);
+    for (const tombstone of data) {
+      cursor = Math.max(cursor, new Date(tombstone.deleted_at).getTime());
+    }
+  }
+
+  const upserted = await mapRows(rows);
+  await indexedDBService.applyEntityChanges(storeName, upserted, deletedIds);
+  await indexedDBService.updateSyncMetadata(table, cursor || Date.now(), userId);
+
+  if (upserted.length > 0 || deletedIds.length > 0) {
+    console.log(`Delta sync for ${table}: ${upserted.length} changed, ${deletedIds.length} deleted${isFullSync ? ' (full sync)' : ''}`);
+  }
+
+  return { upserted, deletedIds, isFullSync };
+}
+
+async function _fetchChangedRows(
+  table: SyncedTable,
+  userId: string,
+  since: string | null
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId);
+
+    if (since) {
+      query = query.gt('updated_at', since);
+    }
+
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...(data as Record<string, unknown>[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
@@ -1,6 +1,6 @@
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Task, Project, TimeTracking, TimeBlock } from '@/context/TaskTypes';
+import { Task, Project, TimeTracking, TimeBlock, Label, TaskStatus } from '@/context/TaskTypes';
 
 interface KhonjaDB extends DBSchema {
   tasks: {
@@ -14,6 +14,14 @@ interface KhonjaDB extends DBSchema {
     key: string;
     value: Project;
   };
+  labels: {
+    key: string;
+    value: Label;
+  };
+  projectStatuses: {
+    key: string;
+    value: TaskStatus;
+  };
   timeTrackings: {
     key: string;
     value: TimeTracking;
@@ -35,16 +43,29 @@ interface KhonjaDB extends DBSchema {
       'by-timestamp': number;
     };
   };
+  deadLetterOperations: {
+    key: string;
+    value: DeadLetterOperation;
+    indexes: {
+      'by-failed-at': number;
+    };
+  };
+  timerHeartbeats: {
+    key: string;
+    value: TimerHeartbeat;
+  };
   syncMetadata: {
     key: string;
     value: {
       key: string;
       lastSyncTimestamp: number;
+      userId?: string; // Account the synced rows belong to
     };
   };
 }
 
 export type EntityType = 'task' | 'project' | 'timeTracking' | 'timeBlock';
+export type EntityStoreName = 'tasks' | 'projects' | 'labels' | 'projectStatuses' | 'timeTrackings' | 'timeBlocks';
 export type OperationType = 'create' | 'update' | 'delete';
 
 export interface PendingOperation {
@@ -56,10 +77,41 @@ export interface PendingOperation {
   timestamp: number;
   attempts: number;
   lastAttempt?: number;
+  baseVersion?: number; // Server updated_at (ms) the local edit started from
+  baseData?: unknown; // Snapshot of the entity before the local edit, used for three-way merges
+  conflict?: SyncConflict; // Set when the server row changed and fields could not be merged
+}
+
+// Last sign of life of a running timer, used to tell how long it ran unattended after a crash or sleep
+export interface TimerHeartbeat {
+  id: string; // Time tracking id
+  taskId: string;
+  startTime: number;
+  lastSeenAt: number;
+}
+
+export interface DeadLetterOperation extends PendingOperation {
+  lastError: string;
+  lastErrorCode?: string;
+  failedAt: number;
+}
+
+export interface FieldConflict {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  serverValue: unknown;
+}
+
+export interface SyncConflict {
+  serverData: unknown;
+  serverVersion?: number;
+  fields: FieldConflict[];
+  detectedAt: number;
 }
 
 const DB_NAME = 'khonja-offline-db';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 
 export class IndexedDBService {
   private dbPromise: Promise<IDBPDatabase<KhonjaDB>>;
@@ -99,6 +151,23 @@ export class IndexedDBService {
         if (!db.objectStoreNames.contains('syncMetadata')) {
           db.createObjectStore('syncMetadata', { keyPath: 'key' });
         }
+        
+        if (!db.objectStoreNames.contains('deadLetterOperations')) {
+          const deadLetterStore = db.createObjectStore('deadLetterOperations', { keyPath: 'id' });
+          deadLetterStore.createIndex('by-failed-at', 'failedAt');
+        }
+        
+        if (!db.objectStoreNames.contains('labels')) {
+          db.createObjectStore('labels', { keyPath: 'id' });
+        }
+        
+        if (!db.objectStoreNames.contains('projectStatuses')) {
+          db.createObjectStore('projectStatuses', { keyPath: 'id' });
+        }
+        
+        if (!db.objectStoreNames.contains('timerHeartbeats')) {
+          db.createObjectStore('timerHeartbeats', { keyPath: 'id' });
+        }
       }
     });
   }
@@ -150,6 +219,22 @@ export class IndexedDBService {
     await db.delete('projects', id);
   }
 
+  // Label operations
+  async getLabels(): Promise<Label[]> {
+    const db = await this.dbPromise;
+    return await db.getAll('labels');
+  }
+
+  async saveLabel(label: Label): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('labels', label);
+  }
+
+  async deleteLabel(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('labels', id);
+  }
+
   // Time tracking operations
   async getTimeTrackings(): Promise<TimeTracking[]> {
     const db = await this.dbPromise;
@@ -192,6 +277,22 @@ export class IndexedDBService {
     await db.delete('timeBlocks', id);
   }
 
+  // Running timer heartbeats
+  async getTimerHeartbeats(): Promise<TimerHeartbeat[]> {
+    const db = await this.dbPromise;
+    return await db.getAll('timerHeartbeats');
+  }
+
+  async saveTimerHeartbeat(heartbeat: TimerHeartbeat): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('timerHeartbeats', heartbeat);
+  }
+
+  async deleteTimerHeartbeat(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('timerHeartbeats', id);
+  }
+
   // Pending operations management
   async getPendingOperations(): Promise<PendingOperation[]> {
     const db = await this.dbPromise;
@@ -213,31 +314,115 @@ export class IndexedDBService {
     await db.delete('pendingOperations', id);
   }
 
+  async applyPendingOperationChanges(updated: PendingOperation[], deletedIds: string[]): Promise<void> {
+    if (updated.length === 0 && deletedIds.length === 0) return;
+    
+    const db = await this.dbPromise;
+    const tx = db.transaction('pendingOperations', 'readwrite');
+    const store = tx.objectStore('pendingOperations');
+    
+    await Promise.all([
+      ...updated.map(operation => store.put(operation)),
+      ...deletedIds.map(id => store.delete(id)),
+      tx.done
+    ]);
+  }
+
+  // Dead-letter management for operations that keep failing
+  async getDeadLetterOperations(): Promise<DeadLetterOperation[]> {
+    const db = await this.dbPromise;
+    return await db.getAllFromIndex('deadLetterOperations', 'by-failed-at');
+  }
+
+  async moveToDeadLetter(operation: DeadLetterOperation): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['pendingOperations', 'deadLetterOperations'], 'readwrite');
+    
+    await Promise.all([
+      tx.objectStore('deadLetterOperations').put(operation),
+      tx.objectStore('pendingOperations').delete(operation.id),
+      tx.done
+    ]);
+  }
+
+  async restoreFromDeadLetter(operation: PendingOperation): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['pendingOperations', 'deadLetterOperations'], 'readwrite');
+    
+    await Promise.all([
+      tx.objectStore('pendingOperations').put(operation),
+      tx.objectStore('deadLetterOperations').delete(operation.id),
+      tx.done
+    ]);
+  }
+
+  async deleteDeadLetterOperation(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('deadLetterOperations', id);
+  }
+
   async getSyncMetadata(key: string): Promise<number> {
     const db = await this.dbPromise;
     const metadata = await db.get('syncMetadata', key);
     return metadata?.lastSyncTimestamp || 0;
   }
 
-  async updateSyncMetadata(key: string, timestamp: number): Promise<void> {
+  async updateSyncMetadata(key: string, timestamp: number, userId?: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('syncMetadata', { key, lastSyncTimestamp: timestamp, userId });
+  }
+
+  async getSyncMetadataUserId(key: string): Promise<string | undefined> {
+    const db = await this.dbPromise;
+    const metadata = await db.get('syncMetadata', key);
+    return metadata?.userId;
+  }
+
+  // Incremental sync support
+  async getEntityIds(storeName: EntityStoreName): Promise<string[]> {
+    const db = await this.dbPromise;
+    return await db.getAllKeys(storeName);
+  }
+
+  async getEntities<T>(storeName: EntityStoreName): Promise<T[]> {
     const db = await this.dbPromise;
-    await db.put('syncMetadata', { key, lastSyncTimestamp: timestamp });
+    return (await db.getAll(storeName)) as T[];
+  }
+
+  async applyEntityChanges<T>(
+    storeName: EntityStoreName,
+    upserted: T[],
+    deletedIds: string[]
+  ): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    
+    await Promise.all([
+      ...upserted.map(entity => store.put(entity as never)),
+      ...deletedIds.map(id => store.delete(id)),
+      tx.done
+    ]);
   }
 
   // Database maintenance
   async clearAllData(): Promise<void> {
     const db = await this.dbPromise;
     const tx = db.transaction(
-      ['tasks', 'projects', 'timeTrackings', 'timeBlocks', 'pendingOperations', 'syncMetadata'],
+      ['tasks', 'projects', 'labels', 'projectStatuses', 'timeTrackings', 'timeBlocks', 'timerHeartbeats', 'pendingOperations', 'deadLetterOperations', 'syncMetadata'],
       'readwrite'
     );
     
     await Promise.all([
       tx.objectStore('tasks').clear(),
       tx.objectStore('projects').clear(),
+      tx.objectStore('labels').clear(),
+      tx.objectStore('projectStatuses').clear(),
       tx.objectStore('timeTrackings').clear(), 
       tx.objectStore('timeBlocks').clear(),
+      tx.objectStore('timerHeartbeats').clear(),
       tx.objectStore('pendingOperations').clear(),
+      tx.objectStore('deadLetterOperations').clear(),
       tx.objectStore('syncMetadata').clear(),
       tx.done
     ]);
@@ -0,0 +1,97 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, getCurrentUserId } from './serviceUtils';
+import { Invoice, InvoiceLineItem } from '@/context/TaskTypes';
+import { Json, Tables } from '@/integrations/supabase/types';
+
+/**
+ * Fetch the invoices of the current user, newest first
+ */
+export async function getInvoices(): Promise<Invoice[]> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return data.map(mapInvoiceRow);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these invoices');
+    }
+    return handleSupabaseError(error, 'Failed to fetch invoices');
+  }
+}
+
+/**
+ * Create an invoice and mark its time entries as invoiced. Fails without creating
+ * the invoice when any of the entries is not billable or was invoiced meanwhile.
+ */
+export async function createInvoice(
+  projectId: string,
+  invoice: Omit<Invoice, 'id' | 'projectId' | 'createdAt'>,
+  timeTrackingIds: string[]
+): Promise<string> {
+  try {
+    const { data, error } = await supabase.rpc('create_invoice', {
+      p_project_id: projectId,
+      p_number: invoice.number,
+      p_period_start: format(invoice.periodStart, 'yyyy-MM-dd'),
+      p_period_end: format(invoice.periodEnd, 'yyyy-MM-dd'),
+      p_currency: invoice.currency,
+      p_total: invoice.total,
+      p_line_items: invoice.lineItems as unknown as Json,
+      p_time_tracking_ids: timeTrackingIds
+    });
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'create this invoice');
+    }
+    return handleSupabaseError(error, 'Failed to create invoice');
+  }
+}
+
+/**
+ * Delete an invoice. Its time entries can be invoiced again.
+ */
+export async function deleteInvoice(invoiceId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('invoices')
+      .delete()
+      .eq('id', invoiceId);
+
+    if (error) throw error;
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this invoice');
+    }
+    handleSupabaseError(error, 'Failed to delete invoice');
+  }
+}
+
+/**
+ * Convert an invoices row to an Invoice
+ */
+export function mapInvoiceRow(row: Tables<'invoices'>): Invoice {
+  return {
+    id: row.id,
+    projectId: row.project_id || undefined,
+    number: row.number,
+    periodStart: parseISO(row.period_start),
+    periodEnd: parseISO(row.period_end),
+    currency: row.currency,
+    total: row.total,
+    lineItems: row.line_items as unknown as InvoiceLineItem[],
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, assertRowsAffected, getCurrentUserId } from './serviceUtils';
+import { Label, Task } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
+
+const TASK_LABEL_FETCH_CHUNK_SIZE = 200;
+
+/**
+ * Fetch all labels for the current user
+ */
+export async function getLabels(): Promise<Label[]> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('labels')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+
+    return data.map(mapLabelRow);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these labels');
+    }
+    return handleSupabaseError(error, 'Failed to fetch labels');
+  }
+}
+
+/**
+ * Create a new label, keeping the client-generated ID when one is given
+ */
+export async function createLabel(label: Omit<Label, 'id'> & { id?: string }): Promise<Label> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('labels')
+      .insert({
+        id: label.id,
+        name: label.name,
+        color: label.color,
+        user_id: userId
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapLabelRow(data);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'create this label');
+    }
+    return handleSupabaseError(error, 'Failed to create label');
+  }
+}
+
+/**
+ * Rename or recolor a label
+ */
+export async function updateLabel(label: Label): Promise<void> {
+  try {
+    const { data: updatedRows, error } = await supabase
+      .from('labels')
+      .update({
+        name: label.name,
+        color: label.color
+      })
+      .eq('id', label.id)
+      .select('id');
+
+    if (error) throw error;
+    assertRowsAffected(updatedRows, 'label');
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this label');
+    }
+    handleSupabaseError(error, 'Failed to update label');
+  }
+}
+
+/**
+ * Delete a label. Its task assignments are removed by the database.
+ */
+export async function deleteLabel(labelId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('labels')
+      .delete()
+      .eq('id', labelId);
+
+    if (error) throw error;
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this label');
+    }
+    handleSupabaseError(error, 'Failed to delete label');
+  }
+}
+
+/**
+ * Replace the labels assigned to a task
+ */
+export async function setTaskLabels(taskId: string, labelIds: string[]): Promise<void> {
+  try {
+    const { error: deleteError } = await supabase
+      .from('task_labels')
+      .delete()
+      .eq('task_id', taskId);
+
+    if (deleteError) throw deleteError;
+
+    if (labelIds.length > 0) {
+      const { error: insertError } = await supabase
+        .from('task_labels')
+        .insert(labelIds.map(labelId => ({ task_id: taskId, label_id: labelId })));
+
+      if (insertError) throw insertError;
+    }
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'change the labels of this task');
+    }
+    handleSupabaseError(error, 'Failed to update task labels');
+  }
+}
+
+/**
+ * Attach label IDs to the tasks in the list
+ */
+export async function loadTaskLabels(tasks: Task[]): Promise<void> {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const taskIds = [...tasksById.keys()];
+
+  for (const task of tasks) {
+    task.labelIds = [];
+  }
+
+  // Keep the id lists short enough for the request URL
+  for (let i = 0; i < taskIds.length; i += TASK_LABEL_FETCH_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('task_labels')
+      .select('task_id, label_id')
+      .in('task_id', taskIds.slice(i, i + TASK_LABEL_FETCH_CHUNK_SIZE));
+
+    if (error) throw error;
+
+    for (const row of data) {
+      tasksById.get(row.task_id)?.labelIds?.push(row.label_id);
+    }
+  }
+
+  // Sorted so the same set of labels always compares equal during sync merges
+  for (const task of tasks) {
+    task.labelIds?.sort();
+  }
+}
+
+/**
+ * Convert a labels row to a Label
+ */
+export function mapLabelRow(row: Tables<'labels'>): Label {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+  };
+}
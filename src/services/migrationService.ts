@@ -156,6 +156,7 @@ export async function migrateDataToSupabase(
           estimatedTime: task.estimatedTime,
           completed: task.completed,
           timeSlot: task.timeSlot,
+          timeZone: task.timeZone,
           isRecurring: task.isRecurring,
           recurrencePattern: task.recurrencePattern,
           recurrenceExceptions: task.recurrenceExceptions
@@ -188,6 +189,7 @@ export async function migrateDataToSupabase(
           estimatedTime: task.estimatedTime,
           completed: task.completed,
           timeSlot: task.timeSlot,
+          timeZone: task.timeZone,
           isRecurring: task.isRecurring,
           recurrencePattern: task.recurrencePattern,
           recurrenceExceptions: task.recurrenceExceptions
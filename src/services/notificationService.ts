@@ -77,6 +77,40 @@ export async function sendNotification(options: NotificationOptions): Promise<bo
   }
 }
 
+/**
+ * Have the service worker show a notification at a later time. Unlike page timers,
+ * this still fires while the page is in the background or closed, as far as the
+ * browser keeps the worker running. Scheduling again with the same tag replaces the
+ * pending notification; callers keep their own timer as well.
+ * @returns boolean - Whether a service worker took the notification
+ */
+export function scheduleServiceWorkerNotification(options: NotificationOptions, at: Date): boolean {
+  if (!notificationsSupported || Notification.permission !== 'granted') return false;
+  if (!navigator.serviceWorker?.controller) return false;
+
+  navigator.serviceWorker.controller.postMessage({
+    type: 'SCHEDULE_NOTIFICATION',
+    notification: {
+      tag: options.tag || 'scheduled',
+      at: at.getTime(),
+      title: options.title,
+      body: options.body,
+      icon: options.icon || '/icons/icon-192x192.png',
+      data: options.data,
+      requireInteraction: options.requireInteraction || false
+    }
+  });
+  return true;
+}
+
+/**
+ * Cancel a notification scheduled with the service worker
+ * @param tag The tag the notification was scheduled with
+ */
+export function cancelServiceWorkerNotification(tag: string): void {
+  navigator.serviceWorker?.controller?.postMessage({ type: 'CANCEL_NOTIFICATION', tag });
+}
+
 /**
  * Schedule a notification for a future time
  * @param options Notification options
@@ -0,0 +1,123 @@
+import { Task } from '@/context/TaskTypes';
+import { FieldConflict, SyncConflict } from '../indexedDBService';
+
+export type ConflictChoice = 'local' | 'server';
+
+/**
+ * Task fields that are merged one by one when the server row changed while offline.
+ * children is derived locally and updatedAt is the version itself, so neither is merged.
+ */
+export const TASK_MERGE_FIELDS: Array<keyof Task> = [
+  'title',
+  'description',
+  'dueDate',
+  'priority',
+  'projectId',
+  'parentId',
+  'notes',
+  'estimatedTime',
+  'hourlyRate',
+  'timeTracked',
+  'completed',
+  'status',
+  'timeSlot',
+  'timeZone',
+  'isRecurring',
+  'recurrencePattern',
+  'isExpanded',
+  'labelIds',
+  'blockedByIds',
+];
+
+/**
+ * Raised by an entity sync operation when a pending change cannot be applied
+ * without the user choosing between local and server values
+ */
+export class SyncConflictError extends Error {
+  constructor(
+    public readonly conflict: SyncConflict,
+    public readonly mergedData: unknown
+  ) {
+    super(`Sync conflict on ${conflict.fields.map(f => f.field).join(', ')}`);
+    this.name = 'SyncConflictError';
+  }
+}
+
+// Dates become strings and missing values become null so equal values compare equal
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const normalized = normalizeValue((value as Record<string, unknown>)[key]);
+        if (normalized !== null) {
+          result[key] = normalized;
+        }
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * Check if two field values are the same, ignoring Date identity and undefined vs null
+ */
+export const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+};
+
+/**
+ * Three-way merge of a locally edited task with the current server row.
+ * Fields changed on only one side are taken from that side; fields changed
+ * on both sides to different values are returned as conflicts. Without a
+ * base snapshot every differing field counts as a conflict.
+ */
+export const mergeTaskFields = (
+  base: Task | undefined,
+  local: Task,
+  server: Task
+): { merged: Task; conflicts: FieldConflict[] } => {
+  const merged: Task = { ...local, updatedAt: server.updatedAt };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of TASK_MERGE_FIELDS) {
+    const localValue = local[field];
+    const serverValue = server[field];
+
+    if (isSameValue(localValue, serverValue)) continue;
+
+    const baseValue = base ? base[field] : undefined;
+    const localChanged = !base || !isSameValue(baseValue, localValue);
+    const serverChanged = !base || !isSameValue(baseValue, serverValue);
+
+    if (localChanged && serverChanged) {
+      conflicts.push({ field, baseValue, localValue, serverValue });
+    } else if (serverChanged) {
+      (merged as unknown as Record<string, unknown>)[field] = serverValue;
+    }
+  }
+
+  return { merged, conflicts };
+};
+
+/**
+ * Build the task to push once the user has picked a side for every conflicting field.
+ * local is the pending data, which already holds the non-conflicting server changes.
+ */
+export const applyConflictChoices = (
+  local: Task,
+  conflict: SyncConflict,
+  choices: Record<string, ConflictChoice>
+): Task => {
+  const resolved: Task = { ...local, updatedAt: (conflict.serverData as Task).updatedAt };
+
+  for (const { field, localValue, serverValue } of conflict.fields) {
+    (resolved as unknown as Record<string, unknown>)[field] =
+      choices[field] === 'server' ? serverValue : localValue;
+  }
+
+  return resolved;
+};
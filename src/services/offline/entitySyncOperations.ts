@@ -4,28 +4,65 @@ import * as projectService from '@/services/projectService';
 import * as timeTrackingService from '@/services/timeTrackingService';
 import * as timeBlockService from '@/services/timeBlockService';
 import { PendingOperation } from '../indexedDBService';
+import { Task } from '@/context/TaskTypes';
+import { mergeTaskFields, SyncConflictError } from './conflictResolution';
 
-export const syncTaskChange = async (change: PendingOperation): Promise<boolean> => {
+/**
+ * Push a task update, merging it with the server row if that changed since the edit was made.
+ * Throws a SyncConflictError when both sides changed the same field.
+ */
+const syncTaskUpdate = async (change: PendingOperation): Promise<void> => {
+  const local = change.data as Task;
+  const server = await taskService.getTaskById(change.entityId);
+
+  const serverVersion = server?.updatedAt?.getTime();
+  if (!server || change.baseVersion === undefined || serverVersion === change.baseVersion) {
+    await taskService.updateTask(local);
+    return;
+  }
+
+  const { merged, conflicts } = mergeTaskFields(change.baseData as Task | undefined, local, server);
+
+  if (conflicts.length > 0) {
+    throw new SyncConflictError(
+      {
+        serverData: server,
+        serverVersion,
+        fields: conflicts,
+        detectedAt: Date.now()
+      },
+      merged
+    );
+  }
+
+  console.log(`Merged task ${change.entityId} with newer server changes`);
+  await taskService.updateTask(merged);
+};
+
+// Each sync function resolves once the change is on the server and throws otherwise
+export const syncTaskChange = async (change: PendingOperation): Promise<void> => {
   try {
     switch (change.operation) {
       case 'create':
         await taskService.createTask(change.data);
         break;
       case 'update':
-        await taskService.updateTask(change.data);
+        await syncTaskUpdate(change);
         break;
       case 'delete':
         await taskService.deleteTask(change.entityId);
         break;
     }
-    return true;
   } catch (error) {
-    console.error(`Error syncing task change:`, error);
-    return false;
+    // Conflicts are recorded by the sync core, they are not failures
+    if (!(error instanceof SyncConflictError)) {
+      console.error(`Error syncing task change:`, error);
+    }
+    throw error;
   }
 };
 
-export const syncProjectChange = async (change: PendingOperation): Promise<boolean> => {
+export const syncProjectChange = async (change: PendingOperation): Promise<void> => {
   try {
     switch (change.operation) {
       case 'create':
@@ -38,14 +75,13 @@ export const syncProjectChange = async (change: PendingOperation): Promise<boole
         await projectService.deleteProject(change.entityId);
         break;
     }
-    return true;
   } catch (error) {
     console.error(`Error syncing project change:`, error);
-    return false;
+    throw error;
   }
 };
 
-export const syncTimeTrackingChange = async (change: PendingOperation): Promise<boolean> => {
+export const syncTimeTrackingChange = async (change: PendingOperation): Promise<void> => {
   try {
     switch (change.operation) {
       case 'create':
@@ -58,14 +94,13 @@ export const syncTimeTrackingChange = async (change: PendingOperation): Promise<
         await timeTrackingService.deleteTimeTracking(change.entityId);
         break;
     }
-    return true;
   } catch (error) {
     console.error(`Error syncing time tracking change:`, error);
-    return false;
+    throw error;
   }
 };
 
-export const syncTimeBlockChange = async (change: PendingOperation): Promise<boolean> => {
+export const syncTimeBlockChange = async (change: PendingOperation): Promise<void> => {
   try {
     switch (change.operation) {
       case 'create':
@@ -78,9 +113,8 @@ export const syncTimeBlockChange = async (change: PendingOperation): Promise<boo
         await timeBlockService.deleteTimeBlock(change.entityId);
         break;
     }
-    return true;
   } catch (error) {
     console.error(`Error syncing time block change:`, error);
-    return false;
+    throw error;
   }
 };
@@ -1,6 +1,6 @@
 
 import { v4 as uuidv4 } from 'uuid';
-import { indexedDBService, PendingOperation, EntityType, OperationType } from '../indexedDBService';
+import { indexedDBService, PendingOperation, DeadLetterOperation, EntityType, OperationType } from '../indexedDBService';
 import { syncManager } from '../syncManager';
 import { Task, Project, TimeTracking, TimeBlock } from '@/context/TaskTypes';
 import { registerBackgroundSync } from './backgroundSyncRegister';
@@ -11,6 +11,12 @@ import {
   syncTimeBlockChange 
 } from './entitySyncOperations';
 import { OfflineSyncInterface, OfflineSyncListener } from './types';
+import { isPermissionDeniedError } from '../serviceUtils';
+import { SyncConflictError } from './conflictResolution';
+import { compactPendingOperations, orderByDependencies } from './queueCompaction';
+
+// Failed changes are moved to the dead-letter store after this many attempts
+const MAX_SYNC_ATTEMPTS = 5;
 
 /**
  * Enhanced offline sync service using IndexedDB for storage
@@ -19,6 +25,8 @@ export class OfflineSyncService implements OfflineSyncInterface {
   private isOnline: boolean = navigator.onLine;
   private syncInProgress: boolean = false;
   private syncListeners: Array<OfflineSyncListener> = [];
+  // Operations being pushed right now; compaction must not fold edits into them
+  private inFlightOperationIds: Set<string> = new Set();
   
   constructor() {
     this.setupEventListeners();
@@ -75,7 +83,11 @@ export class OfflineSyncService implements OfflineSyncInterface {
     operation: OperationType,
     data: Task
   ): Promise<void> {
-    await this.addPendingChange('task', operation, data);
+    // Keep the pre-edit copy so the sync can tell which fields were changed locally
+    const baseData = operation === 'update'
+      ? await indexedDBService.getTaskById(data.id)
+      : undefined;
+    await this.addPendingChange('task', operation, data, baseData);
     
     // Update local data in IndexedDB
     if (operation === 'create' || operation === 'update') {
@@ -142,8 +154,15 @@ export class OfflineSyncService implements OfflineSyncInterface {
   private async addPendingChange(
     entityType: EntityType,
     operation: OperationType,
-    data: any
+    data: any,
+    baseData?: unknown
   ): Promise<void> {
+    // Edits queued on top of an unsynced edit share its base, so the merge
+    // compares against the server version the first edit started from
+    const pendingForEntity = (await indexedDBService.getPendingOperations())
+      .filter(op => op.entityType === entityType && op.entityId === data.id)
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+
     const change: PendingOperation = {
       id: uuidv4(),
       entityType,
@@ -151,10 +170,15 @@ export class OfflineSyncService implements OfflineSyncInterface {
       operation,
       data,
       timestamp: Date.now(),
-      attempts: 0
+      attempts: 0,
+      baseVersion: pendingForEntity
+        ? pendingForEntity.baseVersion
+        : data.updatedAt instanceof Date ? data.updatedAt.getTime() : undefined,
+      baseData: pendingForEntity ? pendingForEntity.baseData : baseData
     };
 
     await indexedDBService.addPendingOperation(change);
+    await this.compactQueue();
     this.notifySyncListeners();
 
     // If we're online, try to sync immediately
@@ -177,7 +201,9 @@ export class OfflineSyncService implements OfflineSyncInterface {
     this.syncInProgress = true;
     
     try {
-      const pendingChanges = await indexedDBService.getPendingOperations();
+      // Conflicted changes wait for the user to resolve them
+      const pendingChanges = (await this.compactQueue())
+        .filter(change => !change.conflict);
       if (pendingChanges.length === 0) {
         this.syncInProgress = false;
         return;
@@ -185,14 +211,13 @@ export class OfflineSyncService implements OfflineSyncInterface {
 
       console.log(`Attempting to sync ${pendingChanges.length} pending changes`);
       
-      // Process changes in the order they were created
-      const sortedChanges = [...pendingChanges].sort((a, b) => a.timestamp - b.timestamp);
-      
       const maxBatchSize = 5; // Process in small batches to avoid long operations
-      const batch = sortedChanges.slice(0, maxBatchSize);
+      const batch = pendingChanges.slice(0, maxBatchSize);
       
-      const syncPromises = batch.map(change => this.processSingleChange(change));
-      await Promise.allSettled(syncPromises);
+      // One at a time, so a project or parent task exists before anything that references it
+      for (const change of batch) {
+        await this.processSingleChange(change);
+      }
       
     } catch (error) {
       console.error('Error during sync attempt:', error);
@@ -201,7 +226,8 @@ export class OfflineSyncService implements OfflineSyncInterface {
       this.notifySyncListeners();
       
       // If there are still pending changes, schedule another attempt
-      const remainingCount = await this.getPendingOperationsCount();
+      const remainingCount = (await indexedDBService.getPendingOperations())
+        .filter(change => !change.conflict).length;
       if (remainingCount > 0 && this.isOnline) {
         setTimeout(() => this.attemptSync(), 5000);
       }
@@ -213,51 +239,90 @@ export class OfflineSyncService implements OfflineSyncInterface {
    * This method is exposed for use by the SyncManager
    */
   public async processSingleChange(change: PendingOperation): Promise<boolean> {
+    if (change.conflict) {
+      return false;
+    }
+
+    this.inFlightOperationIds.add(change.id);
     try {
       // Update attempt count
       change.attempts += 1;
       change.lastAttempt = Date.now();
       await indexedDBService.updatePendingOperation(change);
       
-      let success = false;
-      
       switch (change.entityType) {
         case 'task':
-          success = await syncTaskChange(change);
+          await syncTaskChange(change);
           break;
         case 'project':
-          success = await syncProjectChange(change);
+          await syncProjectChange(change);
           break;
         case 'timeTracking':
-          success = await syncTimeTrackingChange(change);
+          await syncTimeTrackingChange(change);
           break;
         case 'timeBlock':
-          success = await syncTimeBlockChange(change);
+          await syncTimeBlockChange(change);
           break;
       }
       
-      if (success) {
-        await indexedDBService.deletePendingOperation(change.id);
-        console.log(`Successfully synced change: ${change.id}`);
-        return true;
-      } else if (change.attempts >= 5) {
-        // After 5 failed attempts, mark as requiring manual resolution
-        console.warn(`Sync failed after ${change.attempts} attempts for change: ${change.id}`);
-        // Here you could implement a conflict resolution UI
+      await indexedDBService.deletePendingOperation(change.id);
+      console.log(`Successfully synced change: ${change.id}`);
+      return true;
+    } catch (error) {
+      if (error instanceof SyncConflictError) {
+        // Park the change with the auto-merged data until the user picks a side
+        console.warn(`Sync conflict for change ${change.id}:`, error.message);
+        await indexedDBService.updatePendingOperation({
+          ...change,
+          data: error.mergedData,
+          conflict: error.conflict
+        });
+        this.notifySyncListeners();
         return false;
       }
-      return false;
-    } catch (error) {
+
       console.error(`Error syncing change ${change.id}:`, error);
+      
+      // Retrying cannot fix a permission error, and after enough attempts neither will waiting
+      if (change.attempts >= MAX_SYNC_ATTEMPTS || isPermissionDeniedError(error)) {
+        console.warn(`Sync failed after ${change.attempts} attempts for change: ${change.id}, moving it to sync problems`);
+        await indexedDBService.moveToDeadLetter({
+          ...change,
+          lastError: error instanceof Error ? error.message : String(error),
+          lastErrorCode: (error as { code?: string })?.code,
+          failedAt: Date.now()
+        });
+        this.notifySyncListeners();
+      }
       return false;
+    } finally {
+      this.inFlightOperationIds.delete(change.id);
     }
   }
 
   /**
-   * Get the current list of pending changes
+   * Fold redundant operations in the queue and return it in sync order
+   */
+  public async compactQueue(): Promise<PendingOperation[]> {
+    const operations = await indexedDBService.getPendingOperations();
+    const { operations: compacted, removedIds, changed } = compactPendingOperations(
+      operations,
+      this.inFlightOperationIds
+    );
+
+    if (removedIds.length > 0) {
+      console.log(`Compacted pending operations: ${operations.length} -> ${compacted.length}`);
+    }
+    await indexedDBService.applyPendingOperationChanges(changed, removedIds);
+
+    return compacted;
+  }
+
+  /**
+   * Get the current list of pending changes in sync order
    */
   public async getPendingOperations(): Promise<PendingOperation[]> {
-    return await indexedDBService.getPendingOperations();
+    return orderByDependencies(await indexedDBService.getPendingOperations());
   }
 
   /**
@@ -279,11 +344,98 @@ export class OfflineSyncService implements OfflineSyncInterface {
     }
     
     console.log('Manual sync triggered, using SyncManager');
+    await this.compactQueue();
     const result = await syncManager.syncAll();
     console.log(`Sync complete: ${result.success} succeeded, ${result.failed} failed`);
     this.notifySyncListeners();
   }
   
+  /**
+   * Get the pending changes that are waiting for a conflict to be resolved
+   */
+  public async getConflicts(): Promise<PendingOperation[]> {
+    const pendingChanges = await indexedDBService.getPendingOperations();
+    return pendingChanges
+      .filter(change => change.conflict)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Replace a conflicted change with the resolved data and queue it again.
+   * The server row it was compared with becomes the new base.
+   */
+  public async resolveConflict(operationId: string, resolvedData: unknown): Promise<void> {
+    const pendingChanges = await indexedDBService.getPendingOperations();
+    const change = pendingChanges.find(op => op.id === operationId);
+    if (!change?.conflict) return;
+
+    const { serverData, serverVersion } = change.conflict;
+    await indexedDBService.updatePendingOperation({
+      ...change,
+      data: resolvedData,
+      baseData: serverData,
+      baseVersion: serverVersion,
+      conflict: undefined,
+      attempts: 0
+    });
+
+    if (change.entityType === 'task') {
+      await indexedDBService.saveTask(resolvedData as Task);
+    }
+
+    this.notifySyncListeners();
+    this.attemptSync();
+  }
+
+  /**
+   * Drop a conflicted change and keep the server version locally
+   */
+  public async discardConflict(operationId: string): Promise<void> {
+    const pendingChanges = await indexedDBService.getPendingOperations();
+    const change = pendingChanges.find(op => op.id === operationId);
+    if (!change) return;
+
+    if (change.entityType === 'task' && change.conflict) {
+      await indexedDBService.saveTask(change.conflict.serverData as Task);
+    }
+    await this.deletePendingOperation(operationId);
+  }
+
+  /**
+   * Get the changes that failed permanently and were moved out of the queue
+   */
+  public async getDeadLetterOperations(): Promise<DeadLetterOperation[]> {
+    return await indexedDBService.getDeadLetterOperations();
+  }
+
+  /**
+   * Put a failed change back in the queue, optionally with edited data
+   */
+  public async retryDeadLetterOperation(id: string, data?: unknown): Promise<void> {
+    const operations = await indexedDBService.getDeadLetterOperations();
+    const failed = operations.find(op => op.id === id);
+    if (!failed) return;
+
+    const { lastError, lastErrorCode, failedAt, ...operation } = failed;
+    await indexedDBService.restoreFromDeadLetter({
+      ...operation,
+      data: data === undefined ? operation.data : data,
+      attempts: 0,
+      lastAttempt: undefined
+    });
+
+    this.notifySyncListeners();
+    this.attemptSync();
+  }
+
+  /**
+   * Drop a failed change for good
+   */
+  public async discardDeadLetterOperation(id: string): Promise<void> {
+    await indexedDBService.deleteDeadLetterOperation(id);
+    this.notifySyncListeners();
+  }
+
   /**
    * Delete a pending operation
    */
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { PendingOperation } from '../indexedDBService';
+import { compactPendingOperations, orderByDependencies } from './queueCompaction';
+
+let nextTimestamp = 1;
+
+const operation = (
+  id: string,
+  entityType: PendingOperation['entityType'],
+  entityId: string,
+  type: PendingOperation['operation'],
+  data: Record<string, unknown> = { id: entityId }
+): PendingOperation => ({
+  id,
+  entityType,
+  entityId,
+  operation: type,
+  data,
+  timestamp: nextTimestamp++,
+  attempts: 0,
+});
+
+const summarize = (operations: PendingOperation[]) =>
+  operations.map(({ id, operation: type, data }) => ({ id, type, title: data?.title }));
+
+describe('compactPendingOperations', () => {
+  it('merges updates into a create', () => {
+    const queue = [
+      operation('1', 'task', 'a', 'create', { id: 'a', title: 'First' }),
+      operation('2', 'task', 'a', 'update', { id: 'a', title: 'Second' }),
+      operation('3', 'task', 'a', 'update', { id: 'a', title: 'Third' }),
+    ];
+
+    const result = compactPendingOperations(queue);
+
+    expect(summarize(result.operations)).toEqual([{ id: '1', type: 'create', title: 'Third' }]);
+    expect(result.removedIds).toEqual(['2', '3']);
+    expect(result.changed.map(op => op.id)).toEqual(['1']);
+  });
+
+  it('cancels a create followed by a delete', () => {
+    const queue = [
+      operation('1', 'task', 'a', 'create'),
+      operation('2', 'task', 'a', 'update'),
+      operation('3', 'task', 'a', 'delete'),
+    ];
+
+    const result = compactPendingOperations(queue);
+
+    expect(result.operations).toEqual([]);
+    expect(result.removedIds).toEqual(['1', '2', '3']);
+  });
+
+  it('collapses updates followed by a delete into the delete', () => {
+    const queue = [
+      operation('1', 'task', 'a', 'update', { id: 'a', title: 'Renamed' }),
+      operation('2', 'task', 'a', 'delete'),
+    ];
+
+    const result = compactPendingOperations(queue);
+
+    expect(result.operations.map(op => [op.id, op.operation])).toEqual([['2', 'delete']]);
+    expect(result.removedIds).toEqual(['1']);
+    expect(result.changed).toEqual([]);
+  });
+
+  it('keeps the first update and its base version when merging updates', () => {
+    const first = { ...operation('1', 'task', 'a', 'update', { id: 'a', title: 'One' }), baseVersion: 100 };
+    const queue = [first, operation('2', 'task', 'a', 'update', { id: 'a', title: 'Two' })];
+
+    const [merged] = compactPendingOperations(queue).operations;
+
+    expect(merged).toMatchObject({ id: '1', baseVersion: 100, data: { title: 'Two' } });
+  });
+
+  it('does not fold operations that are in flight or in conflict', () => {
+    const inFlight = operation('1', 'task', 'a', 'create');
+    const conflicted = {
+      ...operation('2', 'task', 'b', 'update'),
+      conflict: { serverData: {}, fields: [], detectedAt: 0 },
+    };
+    const queue = [
+      inFlight,
+      operation('3', 'task', 'a', 'delete'),
+      conflicted,
+      operation('4', 'task', 'b', 'update', { id: 'b', title: 'Later' }),
+      operation('5', 'task', 'b', 'update', { id: 'b', title: 'Latest' }),
+    ];
+
+    const result = compactPendingOperations(queue, new Set(['1']));
+
+    expect(result.operations.map(op => op.id)).toEqual(['1', '2', '3', '4']);
+    expect(result.removedIds).toEqual(['5']);
+  });
+
+  it('leaves operations on different entities alone', () => {
+    const queue = [
+      operation('1', 'task', 'a', 'update'),
+      operation('2', 'task', 'b', 'update'),
+      operation('3', 'project', 'a', 'update'),
+    ];
+
+    expect(compactPendingOperations(queue).removedIds).toEqual([]);
+  });
+});
+
+describe('orderByDependencies', () => {
+  it('moves creates of projects, parents and blockers ahead of what references them', () => {
+    const queue = [
+      operation('child', 'task', 'c', 'create', { id: 'c', projectId: 'p', parentId: 'parent', blockedByIds: ['blocker'] }),
+      operation('tracking', 'timeTracking', 't', 'create', { id: 't', taskId: 'c' }),
+      operation('blocker', 'task', 'blocker', 'create', { id: 'blocker' }),
+      operation('parent', 'task', 'parent', 'create', { id: 'parent', projectId: 'p' }),
+      operation('project', 'project', 'p', 'create', { id: 'p' }),
+    ];
+
+    expect(orderByDependencies(queue).map(op => op.id)).toEqual(['project', 'parent', 'blocker', 'child', 'tracking']);
+  });
+
+  it('keeps timestamp order without dependencies and for deletes', () => {
+    const queue = [
+      operation('delete-task', 'task', 'a', 'delete'),
+      operation('create-project', 'project', 'p', 'create'),
+      operation('update-task', 'task', 'b', 'update', { id: 'b' }),
+    ];
+
+    expect(orderByDependencies(queue).map(op => op.id)).toEqual(['delete-task', 'create-project', 'update-task']);
+  });
+
+  it('does not loop on circular references', () => {
+    const queue = [
+      operation('a', 'task', 'a', 'create', { id: 'a', blockedByIds: ['b'] }),
+      operation('b', 'task', 'b', 'create', { id: 'b', blockedByIds: ['a'] }),
+    ];
+
+    expect(orderByDependencies(queue).map(op => op.id).sort()).toEqual(['a', 'b']);
+  });
+});
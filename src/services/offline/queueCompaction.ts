@@ -0,0 +1,149 @@
+import { PendingOperation, EntityType } from '../indexedDBService';
+
+export interface CompactionResult {
+  // Remaining operations in the order they should be synced
+  operations: PendingOperation[];
+  // Operations that were folded into others or cancelled out
+  removedIds: string[];
+  // Remaining operations whose data changed and need to be written back
+  changed: PendingOperation[];
+}
+
+const byTimestamp = (a: PendingOperation, b: PendingOperation) => a.timestamp - b.timestamp;
+
+const entityKey = (entityType: EntityType, entityId: string) => `${entityType}:${entityId}`;
+
+/**
+ * Fold the operations queued for a single entity, oldest first.
+ * - update + update: one update with the latest data
+ * - create + update: one create with the latest data
+ * - create + delete: nothing, the server never needs to see the entity
+ * - update + delete: only the delete
+ */
+const foldEntityOperations = (operations: PendingOperation[]): PendingOperation[] => {
+  const result: PendingOperation[] = [];
+  let current: PendingOperation | null = null;
+
+  for (const operation of operations) {
+    if (!current) {
+      current = operation;
+      continue;
+    }
+
+    if (current.operation === 'create' && operation.operation === 'update') {
+      current = { ...current, data: operation.data };
+    } else if (current.operation === 'create' && operation.operation === 'delete') {
+      current = null;
+    } else if (current.operation === 'update' && operation.operation === 'update') {
+      // Keep the first update's position and base version so the merge still sees every local edit
+      current = { ...current, data: operation.data };
+    } else if (current.operation === 'update' && operation.operation === 'delete') {
+      current = operation;
+    } else {
+      result.push(current);
+      current = operation;
+    }
+  }
+
+  if (current) {
+    result.push(current);
+  }
+
+  return result;
+};
+
+/**
+ * Entities that must exist on the server before this operation can be applied
+ */
+const getDependencies = (operation: PendingOperation): string[] => {
+  if (operation.operation === 'delete' || !operation.data) return [];
+
+  switch (operation.entityType) {
+    case 'task':
+      return [
+        operation.data.projectId && entityKey('project', operation.data.projectId),
+        operation.data.parentId && entityKey('task', operation.data.parentId),
+        ...(operation.data.blockedByIds ?? []).map((blockedById: string) => entityKey('task', blockedById)),
+      ].filter(Boolean);
+    case 'timeTracking':
+    case 'timeBlock':
+      return operation.data.taskId ? [entityKey('task', operation.data.taskId)] : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Order operations by timestamp, moving creates of projects, parent tasks and
+ * blocking tasks ahead of anything that references them
+ */
+export const orderByDependencies = (operations: PendingOperation[]): PendingOperation[] => {
+  const sorted = [...operations].sort(byTimestamp);
+  const createsByEntity = new Map<string, PendingOperation>();
+  for (const operation of sorted) {
+    if (operation.operation === 'create') {
+      createsByEntity.set(entityKey(operation.entityType, operation.entityId), operation);
+    }
+  }
+
+  const ordered: PendingOperation[] = [];
+  const emitted = new Set<string>();
+  const visiting = new Set<string>();
+
+  const emit = (operation: PendingOperation) => {
+    if (emitted.has(operation.id) || visiting.has(operation.id)) return;
+    visiting.add(operation.id);
+
+    for (const dependency of getDependencies(operation)) {
+      const create = createsByEntity.get(dependency);
+      if (create) emit(create);
+    }
+
+    visiting.delete(operation.id);
+    emitted.add(operation.id);
+    ordered.push(operation);
+  };
+
+  sorted.forEach(emit);
+  return ordered;
+};
+
+/**
+ * Compact the pending operations queue: fold operations on the same entity
+ * and return what is left in dependency order. Operations that are being
+ * synced right now (inFlightIds) or wait on a conflict are never folded;
+ * only the operations queued after them are.
+ */
+export const compactPendingOperations = (
+  operations: PendingOperation[],
+  inFlightIds: ReadonlySet<string> = new Set()
+): CompactionResult => {
+  const groups = new Map<string, PendingOperation[]>();
+  for (const operation of [...operations].sort(byTimestamp)) {
+    const key = entityKey(operation.entityType, operation.entityId);
+    groups.set(key, [...(groups.get(key) ?? []), operation]);
+  }
+
+  const remaining: PendingOperation[] = [];
+  for (const group of groups.values()) {
+    let pinnedCount = 0;
+    group.forEach((operation, index) => {
+      if (operation.conflict || inFlightIds.has(operation.id)) {
+        pinnedCount = index + 1;
+      }
+    });
+
+    remaining.push(...group.slice(0, pinnedCount), ...foldEntityOperations(group.slice(pinnedCount)));
+  }
+
+  const originalsById = new Map(operations.map(operation => [operation.id, operation]));
+  const remainingIds = new Set(remaining.map(operation => operation.id));
+
+  return {
+    operations: orderByDependencies(remaining),
+    removedIds: operations
+      .filter(operation => !remainingIds.has(operation.id))
+      .map(operation => operation.id),
+    changed: remaining.filter(operation => originalsById.get(operation.id) !== operation),
+  };
+};
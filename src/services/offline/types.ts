@@ -1,6 +1,6 @@
 
 import { Task, Project, TimeTracking, TimeBlock } from '@/context/TaskTypes';
-import { EntityType, OperationType, PendingOperation } from '../indexedDBService';
+import { EntityType, OperationType, PendingOperation, DeadLetterOperation } from '../indexedDBService';
 
 export interface OfflineSyncListener {
   (count: number): void;
@@ -18,10 +18,17 @@ export interface OfflineSyncInterface {
   addProjectChange(operation: OperationType, data: Project): Promise<void>;
   addTimeTrackingChange(operation: OperationType, data: TimeTracking): Promise<void>;
   addTimeBlockChange(operation: OperationType, data: TimeBlock): Promise<void>;
+  compactQueue(): Promise<PendingOperation[]>;
   getPendingOperations(): Promise<PendingOperation[]>;
   getPendingOperationsCount(): Promise<number>;
   syncPendingChanges(): Promise<void>;
   processSingleChange(change: PendingOperation): Promise<boolean>;
+  getConflicts(): Promise<PendingOperation[]>;
+  resolveConflict(operationId: string, resolvedData: unknown): Promise<void>;
+  discardConflict(operationId: string): Promise<void>;
+  getDeadLetterOperations(): Promise<DeadLetterOperation[]>;
+  retryDeadLetterOperation(id: string, data?: unknown): Promise<void>;
+  discardDeadLetterOperation(id: string): Promise<void>;
   deletePendingOperation(id: string): Promise<void>;
   clearPendingChanges(): Promise<void>;
   cleanup(): void;
@@ -32,4 +39,10 @@ export interface OfflineSyncHookResult {
   pendingChanges: number;
   syncNow: () => Promise<void>;
   isSyncing: boolean;
+  conflicts: PendingOperation[];
+  resolveConflict: (operationId: string, resolvedData: unknown) => Promise<void>;
+  discardConflict: (operationId: string) => Promise<void>;
+  failedOperations: DeadLetterOperation[];
+  retryFailedOperation: (id: string, data?: unknown) => Promise<void>;
+  discardFailedOperation: (id: string) => Promise<void>;
 }
@@ -2,11 +2,14 @@
 import { useState, useEffect } from 'react';
 import { offlineSyncService } from '../offlineSyncService';
 import { OfflineSyncHookResult } from './types';
+import { PendingOperation, DeadLetterOperation } from '../indexedDBService';
 
 // Hook to expose online status and offline operations
 export const useOfflineSync = (): OfflineSyncHookResult => {
   const [pendingCount, setPendingCount] = useState<number>(0);
   const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [conflicts, setConflicts] = useState<PendingOperation[]>([]);
+  const [failedOperations, setFailedOperations] = useState<DeadLetterOperation[]>([]);
   
   useEffect(() => {
     const checkPendingCount = async () => {
@@ -14,13 +17,20 @@ export const useOfflineSync = (): OfflineSyncHookResult => {
       setPendingCount(count);
     };
     
+    const checkConflicts = async () => {
+      setConflicts(await offlineSyncService.getConflicts());
+      setFailedOperations(await offlineSyncService.getDeadLetterOperations());
+    };
+    
     // Subscribe to updates
     const unsubscribe = offlineSyncService.addSyncListener(count => {
       setPendingCount(count);
+      checkConflicts();
     });
     
     // Check count initially
     checkPendingCount();
+    checkConflicts();
     
     return unsubscribe;
   }, []);
@@ -38,6 +48,12 @@ export const useOfflineSync = (): OfflineSyncHookResult => {
     isOnline: offlineSyncService.isAppOnline(),
     pendingChanges: pendingCount,
     syncNow,
-    isSyncing
+    isSyncing,
+    conflicts,
+    resolveConflict: offlineSyncService.resolveConflict.bind(offlineSyncService),
+    discardConflict: offlineSyncService.discardConflict.bind(offlineSyncService),
+    failedOperations,
+    retryFailedOperation: offlineSyncService.retryDeadLetterOperation.bind(offlineSyncService),
+    discardFailedOperation: offlineSyncService.discardDeadLetterOperation.bind(offlineSyncService)
   };
 };
@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, getCurrentUserId } from './serviceUtils';
+
+/**
+ * Fetch the default time zone saved on the current user's profile
+ */
+export async function getProfileTimeZone(): Promise<string | null> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('time_zone')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data?.time_zone ?? null;
+  } catch (error) {
+    return handleSupabaseError(error, 'Failed to fetch time zone');
+  }
+}
+
+/**
+ * Save the default time zone on the current user's profile
+ */
+export async function updateProfileTimeZone(timeZone: string): Promise<void> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { error } = await supabase
+      .from('profiles')
+      .upsert({ id: userId, time_zone: timeZone });
+
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to save time zone');
+  }
+}
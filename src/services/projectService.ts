@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
-import { handleSupabaseError, prepareDatesForSupabase, processSupabaseData, getCurrentUserId, projectsCache, getCacheKey } from './serviceUtils';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, assertRowsAffected, prepareDatesForSupabase, processSupabaseData, getCurrentUserId, projectsCache, getCacheKey } from './serviceUtils';
 import { Project } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
 
 /**
  * Fetch all projects for the current user
@@ -19,15 +20,13 @@ export async function getProjects(): Promise<Project[]> {
     
     if (error) throw error;
     
-    const projects = data.map(project => ({
-      id: project.id,
-      name: project.name,
-      description: project.description || undefined,
-      isExpanded: project.is_expanded || false,
-    }));
+    const projects = data.map(mapProjectRow);
 
     return projects;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these projects');
+    }
     return handleSupabaseError(error, 'Failed to fetch projects');
   }
 }
@@ -41,6 +40,9 @@ export async function createProject(project: Omit<Project, 'id'>): Promise<Proje
     projectsCache.clear(); // Clear cache on mutation
     return result;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'create this project');
+    }
     return handleSupabaseError(error, 'Failed to create project');
   }
 }
@@ -54,6 +56,8 @@ async function _createProject(project: Omit<Project, 'id'>): Promise<Project> {
       name: project.name,
       description: project.description,
       is_expanded: project.isExpanded,
+      hourly_rate: project.hourlyRate ?? null,
+      currency: project.currency,
       user_id: userId
     })
     .select()
@@ -66,6 +70,8 @@ async function _createProject(project: Omit<Project, 'id'>): Promise<Project> {
     name: data.name,
     description: data.description || undefined,
     isExpanded: data.is_expanded || false,
+    hourlyRate: data.hourly_rate ?? undefined,
+    currency: data.currency,
   };
 }
 
@@ -77,21 +83,28 @@ export async function updateProject(project: Project): Promise<void> {
     await _updateProject(project);
     projectsCache.clear(); // Clear cache on mutation
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this project');
+    }
     handleSupabaseError(error, 'Failed to update project');
   }
 }
 
 async function _updateProject(project: Project): Promise<void> {
-  const { error } = await supabase
+  const { data: updatedRows, error } = await supabase
     .from('projects')
     .update({
       name: project.name,
       description: project.description,
-      is_expanded: project.isExpanded
+      is_expanded: project.isExpanded,
+      hourly_rate: project.hourlyRate ?? null,
+      currency: project.currency
     })
-    .eq('id', project.id);
+    .eq('id', project.id)
+    .select('id');
   
   if (error) throw error;
+  assertRowsAffected(updatedRows, 'project');
 }
 
 /**
@@ -102,6 +115,9 @@ export async function deleteProject(projectId: string): Promise<void> {
     await _deleteProject(projectId);
     projectsCache.clear(); // Clear cache on mutation
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this project');
+    }
     handleSupabaseError(error, 'Failed to delete project');
   }
 }
@@ -127,6 +143,23 @@ export async function toggleProjectExpanded(projectId: string, isExpanded: boole
     
     if (error) throw error;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this project');
+    }
     handleSupabaseError(error, 'Failed to update project state');
   }
 }
+
+/**
+ * Convert a projects row to a Project
+ */
+export function mapProjectRow(row: Tables<'projects'>): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    isExpanded: row.is_expanded || false,
+    hourlyRate: row.hourly_rate ?? undefined,
+    currency: row.currency,
+  };
+}
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, getCurrentUserId } from './serviceUtils';
+import { TaskStatus } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
+
+/**
+ * Fetch the status workflows of all projects of the current user
+ */
+export async function getProjectStatuses(): Promise<TaskStatus[]> {
+  try {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('project_statuses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('position');
+
+    if (error) throw error;
+
+    return data.map(mapProjectStatusRow);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these statuses');
+    }
+    return handleSupabaseError(error, 'Failed to fetch project statuses');
+  }
+}
+
+/**
+ * Replace the status workflow of a project. Statuses missing from the list are removed.
+ */
+export async function saveProjectStatuses(projectId: string, statuses: TaskStatus[]): Promise<void> {
+  try {
+    const userId = await getCurrentUserId();
+
+    let deleteQuery = supabase
+      .from('project_statuses')
+      .delete()
+      .eq('project_id', projectId);
+
+    if (statuses.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${statuses.map(status => status.id).join(',')})`);
+    }
+
+    const { error: deleteError } = await deleteQuery;
+
+    if (deleteError) throw deleteError;
+
+    if (statuses.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('project_statuses')
+        .upsert(statuses.map(status => ({
+          id: status.id,
+          user_id: userId,
+          project_id: projectId,
+          key: status.key,
+          name: status.name,
+          color: status.color,
+          position: status.position,
+          is_done: status.isDone
+        })));
+
+      if (upsertError) throw upsertError;
+    }
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'change the statuses of this project');
+    }
+    handleSupabaseError(error, 'Failed to save project statuses');
+  }
+}
+
+/**
+ * Convert a project_statuses row to a TaskStatus
+ */
+export function mapProjectStatusRow(row: Tables<'project_statuses'>): TaskStatus {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    key: row.key,
+    name: row.name,
+    color: row.color,
+    position: row.position,
+    isDone: row.is_done,
+  };
+}
@@ -1,14 +1,35 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { handleSupabaseError } from './serviceUtils';
-import { RecurrencePattern } from '@/context/TaskTypes';
+import { RecurrenceOverride, RecurrencePattern } from '@/context/TaskTypes';
+import { getRRuleString } from '@/lib/recurrence-utils';
+import { format } from 'date-fns';
+
+/**
+ * Column values of a recurrence pattern. The rrule column is always written;
+ * the structured columns are kept for clients that do not read it yet.
+ */
+export function toRecurrencePatternRow(pattern: RecurrencePattern, startDate?: Date) {
+  return {
+    frequency: pattern.frequency,
+    interval: pattern.interval,
+    days_of_week: pattern.daysOfWeek ?? null,
+    day_of_month: pattern.dayOfMonth ?? null,
+    month_of_year: pattern.monthOfYear ?? null,
+    end_date: pattern.endDate?.toISOString() ?? null,
+    occurrences: pattern.occurrences ?? null,
+    rrule: getRRuleString(pattern, startDate),
+    mode: pattern.mode === 'afterCompletion' ? 'after_completion' : 'schedule',
+  };
+}
 
 /**
  * Update a task's recurrence pattern
  */
 export async function updateRecurrencePattern(
   taskId: string, 
-  pattern: RecurrencePattern
+  pattern: RecurrencePattern,
+  startDate?: Date
 ): Promise<void> {
   try {
     // Check if the task has a recurrence pattern
@@ -33,13 +54,7 @@ export async function updateRecurrencePattern(
       const { error } = await supabase
         .from('recurrence_patterns')
         .update({
-          frequency: pattern.frequency,
-          interval: pattern.interval,
-          days_of_week: pattern.daysOfWeek,
-          day_of_month: pattern.dayOfMonth,
-          month_of_year: pattern.monthOfYear,
-          end_date: pattern.endDate?.toISOString(),
-          occurrences: pattern.occurrences
+          ...toRecurrencePatternRow(pattern, startDate)
         })
         .eq('id', existing.id);
       
@@ -50,13 +65,7 @@ export async function updateRecurrencePattern(
         .from('recurrence_patterns')
         .insert({
           task_id: taskId,
-          frequency: pattern.frequency,
-          interval: pattern.interval,
-          days_of_week: pattern.daysOfWeek,
-          day_of_month: pattern.dayOfMonth,
-          month_of_year: pattern.monthOfYear,
-          end_date: pattern.endDate?.toISOString(),
-          occurrences: pattern.occurrences
+          ...toRecurrencePatternRow(pattern, startDate)
         });
       
       if (error) throw error;
@@ -94,6 +103,14 @@ export async function removeRecurrencePattern(taskId: string): Promise<void> {
       .eq('task_id', taskId);
     
     if (exceptionsError) throw exceptionsError;
+    
+    // And the overrides of its occurrences
+    const { error: overridesError } = await supabase
+      .from('recurrence_overrides')
+      .delete()
+      .eq('task_id', taskId);
+    
+    if (overridesError) throw overridesError;
   } catch (error) {
     handleSupabaseError(error, 'Failed to remove recurrence pattern');
   }
@@ -141,3 +158,58 @@ export async function removeRecurrenceException(
     handleSupabaseError(error, 'Failed to remove recurrence exception');
   }
 }
+
+/**
+ * Column values of an occurrence override. original_date is a date column,
+ * written as the local day the occurrence falls on.
+ */
+export function toRecurrenceOverrideRow(taskId: string, override: RecurrenceOverride) {
+  return {
+    task_id: taskId,
+    original_date: format(override.originalDate, 'yyyy-MM-dd'),
+    due_date: override.dueDate?.toISOString() ?? null,
+    title: override.title ?? null,
+    notes: override.notes ?? null,
+    time_slot: override.timeSlot ?? null,
+    completed: override.completed ?? null,
+    status: override.status ?? null,
+  };
+}
+
+/**
+ * Save the override of one occurrence, replacing any earlier one for that day
+ */
+export async function updateRecurrenceOverride(
+  taskId: string,
+  override: RecurrenceOverride
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('recurrence_overrides')
+      .upsert(toRecurrenceOverrideRow(taskId, override), { onConflict: 'task_id,original_date' });
+    
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to save occurrence changes');
+  }
+}
+
+/**
+ * Remove the override of one occurrence, restoring it to the recurring task's values
+ */
+export async function removeRecurrenceOverride(
+  taskId: string,
+  originalDate: Date
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('recurrence_overrides')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('original_date', format(originalDate, 'yyyy-MM-dd'));
+    
+    if (error) throw error;
+  } catch (error) {
+    handleSupabaseError(error, 'Failed to remove occurrence changes');
+  }
+}
@@ -1,6 +1,7 @@
 
 import { Task } from '@/context/TaskTypes';
 import { format } from 'date-fns';
+import { getDefaultTimeZone, getTaskDueDateTime, getTaskScheduleInZone } from '@/lib/timezone-utils';
 import { sendNotification, scheduleNotification, cancelScheduledNotification } from './notificationService';
 
 // Store for notification timeouts
@@ -193,10 +194,8 @@ export function updateTaskReminders(task: Task) {
   // Cancel existing reminders for this task
   cancelTaskReminders(task.id);
   
-  // Create a new Date from the task's due date and time slot
-  const taskTime = new Date(task.dueDate);
-  const [hours, minutes] = task.timeSlot.split(':').map(Number);
-  taskTime.setHours(hours, minutes, 0, 0);
+  // The time slot is wall time in the task's zone, wherever the device is
+  const taskTime = getTaskDueDateTime(task)!;
   
   // Schedule a new reminder
   scheduleTaskReminder(task.id, taskTime, task);
@@ -240,12 +239,11 @@ export function sendTodaySummaryNotification(tasks: Task[]) {
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
   
-  const todaysTasks = tasks.filter(task => {
-    if (!task.dueDate) return false;
-    const taskDate = new Date(task.dueDate);
-    taskDate.setHours(0, 0, 0, 0);
-    return taskDate.getTime() === today.getTime();
-  });
+  // Tasks are listed with the day and time they fall on in the user's zone
+  const timeZone = getDefaultTimeZone();
+  const todaysTasks = tasks
+    .map(task => ({ ...task, ...getTaskScheduleInZone(task, timeZone) }))
+    .filter(task => task.date?.getTime() === today.getTime());
   
   if (todaysTasks.length === 0) {
     sendNotification({
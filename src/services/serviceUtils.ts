@@ -1,8 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import { Cache } from '@/utils/cache-utils';
-import { v4 as uuidv4 } from 'uuid';
-import { isValidUUID } from '@/context/TaskHelpers';
 
 /**
  * Utility function to handle Supabase errors
@@ -17,6 +15,56 @@ export const handleSupabaseError = (error: any, customMessage?: string) => {
   throw error;
 };
 
+/**
+ * Error raised when row-level security rejects a read or write
+ */
+export class PermissionDeniedError extends Error {
+  constructor(message: string = 'Permission denied', public readonly originalError?: unknown) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// insufficient_privilege from Postgres, and PostgREST's JWT errors
+const PERMISSION_DENIED_CODES = ['42501', 'PGRST301', 'PGRST302'];
+
+/**
+ * Check if an error means the current user is not allowed to touch the row
+ */
+export const isPermissionDeniedError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  if (error instanceof PermissionDeniedError) return true;
+  const { code, status } = error as { code?: string; status?: number };
+  if (code && PERMISSION_DENIED_CODES.includes(code)) return true;
+  return status === 401 || status === 403;
+};
+
+/**
+ * Utility function to handle permission-denied errors, kept apart from
+ * handleSupabaseError so the user is told why the change was rejected
+ */
+export const handlePermissionDeniedError = (error: unknown, action: string): never => {
+  console.error('Permission denied:', error);
+  toast({
+    title: 'Permission denied',
+    description: `You don't have permission to ${action}. It may belong to another account, or your session may have expired.`,
+    variant: 'destructive',
+  });
+  throw error instanceof PermissionDeniedError
+    ? error
+    : new PermissionDeniedError((error as Error | undefined)?.message, error);
+};
+
+/**
+ * RLS hides rows instead of failing, so an update that matched nothing
+ * means the row does not exist for the current user
+ */
+export const assertRowsAffected = (data: unknown[] | null, entityName: string): void => {
+  if (!data || data.length === 0) {
+    throw new PermissionDeniedError(`No ${entityName} was changed`);
+  }
+};
+
 /**
  * Convert Supabase timestamp to Date object
  */
@@ -66,37 +114,23 @@ export const processSupabaseData = <T extends Record<string, any>>(data: T): T =
 };
 
 /**
- * Get the current user ID (a valid UUID) - uses profiles table instead of users
+ * localStorage key under which the pre-authentication anonymous user ID was kept.
+ * Only read by the "claim my anonymous data" flow in authService.
+ */
+export const ANONYMOUS_USER_ID_KEY = 'khonja_user_id';
+
+/**
+ * Get the ID of the signed-in Supabase Auth user
  */
 export const getCurrentUserId = async (): Promise<string> => {
-  // Get the user ID from localStorage or generate a new one
-  const USER_ID_KEY = 'khonja_user_id';
-  let userId = localStorage.getItem(USER_ID_KEY);
+  const { data: { session }, error } = await supabase.auth.getSession();
   
-  // Validate that the user ID is a valid UUID
-  if (!userId || !isValidUUID(userId)) {
-    userId = uuidv4();
-    localStorage.setItem(USER_ID_KEY, userId);
-    console.log('Generated new user ID:', userId);
-
-    // Create a profile entry for the new user
-    try {
-      const { error } = await supabase
-        .from('profiles')
-        .insert({
-          id: userId,
-          name: 'Anonymous User'
-        });
-      
-      if (error) {
-        console.error('Error creating profile:', error);
-      }
-    } catch (error) {
-      console.error('Error creating profile:', error);
-    }
+  if (error) throw error;
+  if (!session?.user) {
+    throw new Error('Not signed in');
   }
   
-  return userId;
+  return session.user.id;
 };
 
 // Create caches for different data types
@@ -73,6 +73,14 @@ export class SyncManager {
           return true;
         }
         
+        // Conflicts and dead-lettered changes fail the same way on every retry until the user acts
+        const stillQueued = (await offlineSyncService.getPendingOperations())
+          .find(pending => pending.id === operation.id);
+        if (!stillQueued || stillQueued.conflict) {
+          console.log(`Operation ${operation.id} needs the user, not retrying`);
+          return false;
+        }
+        
         console.log(`Operation ${operation.id} failed on attempt ${attempt}, will retry`);
       } catch (error) {
         console.error(`Error processing operation ${operation.id} (attempt ${attempt}):`, error);
@@ -100,8 +108,8 @@ export class SyncManager {
       // Get all pending operations
       const operations = await offlineSyncService.getPendingOperations();
       
-      // Process operations in order
-      for (const operation of operations) {
+      // Process operations in order, leaving conflicts for the user to resolve
+      for (const operation of operations.filter(op => !op.conflict)) {
         const success = await this.processOperation(operation);
         
         if (success) {
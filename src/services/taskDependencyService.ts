@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError } from './serviceUtils';
+import { Task } from '@/context/TaskTypes';
+
+const DEPENDENCY_FETCH_CHUNK_SIZE = 200;
+
+// Raised by the CHECK constraint and the cycle trigger on task_dependencies
+const CHECK_VIOLATION = '23514';
+
+/**
+ * Bring the stored blockers of a task in line with the list, throwing the raw error.
+ * New rows go in before old ones are removed, so a request failing part way never
+ * leaves the task without the blockers it keeps.
+ */
+export async function replaceTaskDependencies(taskId: string, blockedByIds: string[]): Promise<void> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('blocked_by_task_id')
+    .eq('task_id', taskId);
+
+  if (error) throw error;
+
+  const wantedIds = new Set(blockedByIds);
+  const currentIds = new Set(data.map(row => row.blocked_by_task_id));
+  const addedIds = [...wantedIds].filter(id => !currentIds.has(id));
+  const removedIds = [...currentIds].filter(id => !wantedIds.has(id));
+
+  if (addedIds.length > 0) {
+    // Another device may have added the same blocker in the meantime
+    const { error: insertError } = await supabase
+      .from('task_dependencies')
+      .upsert(
+        addedIds.map(blockedById => ({ task_id: taskId, blocked_by_task_id: blockedById })),
+        { onConflict: 'task_id,blocked_by_task_id', ignoreDuplicates: true }
+      );
+
+    if (insertError) throw insertError;
+  }
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('task_id', taskId)
+      .in('blocked_by_task_id', removedIds);
+
+    if (deleteError) throw deleteError;
+  }
+}
+
+/**
+ * Replace the tasks a task is blocked by
+ */
+export async function setTaskDependencies(taskId: string, blockedByIds: string[]): Promise<void> {
+  try {
+    await replaceTaskDependencies(taskId, blockedByIds);
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'change the dependencies of this task');
+    }
+    if ((error as { code?: string } | null)?.code === CHECK_VIOLATION) {
+      return handleSupabaseError(error, 'These tasks already depend on each other; the dependency would create a cycle');
+    }
+    handleSupabaseError(error, 'Failed to update task dependencies');
+  }
+}
+
+/**
+ * Attach the IDs of their blocking tasks to the tasks in the list
+ */
+export async function loadTaskDependencies(tasks: Task[]): Promise<void> {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const taskIds = [...tasksById.keys()];
+
+  for (const task of tasks) {
+    task.blockedByIds = [];
+  }
+
+  // Keep the id lists short enough for the request URL
+  for (let i = 0; i < taskIds.length; i += DEPENDENCY_FETCH_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('task_id, blocked_by_task_id')
+      .in('task_id', taskIds.slice(i, i + DEPENDENCY_FETCH_CHUNK_SIZE));
+
+    if (error) throw error;
+
+    for (const row of data) {
+      tasksById.get(row.task_id)?.blockedByIds?.push(row.blocked_by_task_id);
+    }
+  }
+
+  // Sorted so the same set of blockers always compares equal during sync merges
+  for (const task of tasks) {
+    task.blockedByIds?.sort();
+  }
+}
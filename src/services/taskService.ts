@@ -1,7 +1,18 @@
 import { supabase } from '@/integrations/supabase/client';
-import { handleSupabaseError, prepareDatesForSupabase, processSupabaseData, getCurrentUserId } from './serviceUtils';
-import { Task, RecurrencePattern } from '@/context/TaskTypes';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, assertRowsAffected, prepareDatesForSupabase, processSupabaseData, getCurrentUserId } from './serviceUtils';
+import { Task, RecurrenceOverride, RecurrencePattern } from '@/context/TaskTypes';
 import { v4 as uuidv4 } from 'uuid';
+import { Tables } from '@/integrations/supabase/types';
+import { loadTaskLabels } from './labelService';
+import { loadTaskDependencies, replaceTaskDependencies } from './taskDependencyService';
+import { toRecurrenceOverrideRow, toRecurrencePatternRow } from './recurrenceService';
+import { parseISO } from 'date-fns';
+
+type TaskRow = Tables<'tasks'>;
+type RecurrencePatternRow = Tables<'recurrence_patterns'>;
+type RecurrenceOverrideRow = Tables<'recurrence_overrides'>;
+
+const RECURRENCE_FETCH_CHUNK_SIZE = 200;
 
 /**
  * Fetch all tasks for the current user
@@ -19,72 +30,59 @@ export async function getTasks(): Promise<Task[]> {
     if (error) throw error;
     
     // Convert the Supabase tasks to our Task type and organize them into a hierarchy
-    const tasks = data.map(task => ({
-      id: task.id,
-      title: task.title,
-      description: task.description || undefined,
-      dueDate: task.due_date ? new Date(task.due_date) : undefined,
-      priority: task.priority,
-      projectId: task.project_id,
-      parentId: task.parent_id || undefined,
-      children: [],
-      isExpanded: task.is_expanded || false,
-      notes: task.notes || undefined,
-      estimatedTime: task.estimated_time || undefined,
-      timeTracked: task.time_tracked || 0,
-      completed: task.completed || false,
-      timeSlot: task.time_slot || undefined,
-      isRecurring: task.is_recurring || false,
-    })) as Task[];
-    
-    // Fetch recurrence patterns for recurring tasks
-    const recurringTaskIds = tasks.filter(t => t.isRecurring).map(t => t.id);
-    
-    if (recurringTaskIds.length > 0) {
-      const { data: recurrenceData, error: recurrenceError } = await supabase
+    const tasks = data.map(mapTaskRow);
+    
+    await loadRecurrenceData(tasks);
+    await loadTaskLabels(tasks);
+    await loadTaskDependencies(tasks);
+    
+    return tasks;
+  } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these tasks');
+    }
+    return handleSupabaseError(error, 'Failed to fetch tasks');
+  }
+}
+
+/**
+ * Fetch a single task as it currently is on the server, or null if it no longer exists
+ */
+export async function getTaskById(taskId: string): Promise<Task | null> {
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', taskId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    if (!data) return null;
+    
+    const task = mapTaskRow(data);
+    
+    if (task.isRecurring) {
+      const { data: pattern, error: recurrenceError } = await supabase
         .from('recurrence_patterns')
         .select('*')
-        .in('task_id', recurringTaskIds);
-      
-      if (!recurrenceError && recurrenceData) {
-        for (const pattern of recurrenceData) {
-          const task = tasks.find(t => t.id === pattern.task_id);
-          if (task) {
-            task.recurrencePattern = {
-              frequency: pattern.frequency,
-              interval: pattern.interval,
-              daysOfWeek: pattern.days_of_week,
-              dayOfMonth: pattern.day_of_month,
-              monthOfYear: pattern.month_of_year,
-              endDate: pattern.end_date ? new Date(pattern.end_date) : undefined,
-              occurrences: pattern.occurrences,
-            };
-          }
-        }
-      }
-      
-      // Fetch exceptions for recurring tasks
-      const { data: exceptionData, error: exceptionError } = await supabase
-        .from('recurrence_exceptions')
-        .select('*')
-        .in('task_id', recurringTaskIds);
+        .eq('task_id', taskId)
+        .maybeSingle();
       
-      if (!exceptionError && exceptionData) {
-        for (const exception of exceptionData) {
-          const task = tasks.find(t => t.id === exception.task_id);
-          if (task) {
-            if (!task.recurrenceExceptions) {
-              task.recurrenceExceptions = [];
-            }
-            task.recurrenceExceptions.push(new Date(exception.exception_date));
-          }
-        }
+      if (recurrenceError) throw recurrenceError;
+      if (pattern) {
+        task.recurrencePattern = _toRecurrencePattern(pattern);
       }
     }
     
-    return tasks;
+    await loadTaskLabels([task]);
+    await loadTaskDependencies([task]);
+    
+    return task;
   } catch (error) {
-    return handleSupabaseError(error, 'Failed to fetch tasks');
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view this task');
+    }
+    return handleSupabaseError(error, 'Failed to fetch task');
   }
 }
 
@@ -113,10 +111,15 @@ export async function createTask(task: Omit<Task, 'id' | 'children' | 'isExpande
         parent_id: task.parentId,
         notes: task.notes,
         estimated_time: task.estimatedTime,
+        hourly_rate: task.hourlyRate ?? null,
         time_tracked: 0,
         completed: task.completed || false,
         time_slot: task.timeSlot,
+        time_zone: task.timeZone,
+        ical_uid: task.icalUid,
+        status: task.status,
         is_recurring: task.isRecurring || false,
+        recurrence_parent_id: task.recurrenceParentId,
         is_expanded: true,
         user_id: userId
       })
@@ -138,10 +141,16 @@ export async function createTask(task: Omit<Task, 'id' | 'children' | 'isExpande
       isExpanded: data.is_expanded || true,
       notes: data.notes || undefined,
       estimatedTime: data.estimated_time || undefined,
+      hourlyRate: data.hourly_rate ?? undefined,
       timeTracked: data.time_tracked || 0,
       completed: data.completed || false,
       timeSlot: data.time_slot || undefined,
+      timeZone: data.time_zone || undefined,
+      icalUid: data.ical_uid || undefined,
+      status: data.status || undefined,
       isRecurring: data.is_recurring || false,
+      recurrenceParentId: data.recurrence_parent_id || undefined,
+      updatedAt: new Date(data.updated_at),
     };
     
     // If it's a recurring task, add the recurrence pattern
@@ -150,22 +159,63 @@ export async function createTask(task: Omit<Task, 'id' | 'children' | 'isExpande
         .from('recurrence_patterns')
         .insert({
           task_id: newTask.id,
-          frequency: task.recurrencePattern.frequency,
-          interval: task.recurrencePattern.interval,
-          days_of_week: task.recurrencePattern.daysOfWeek,
-          day_of_month: task.recurrencePattern.dayOfMonth,
-          month_of_year: task.recurrencePattern.monthOfYear,
-          end_date: task.recurrencePattern.endDate?.toISOString(),
-          occurrences: task.recurrencePattern.occurrences
+          ...toRecurrencePatternRow(task.recurrencePattern, task.dueDate)
         });
       
       if (recurrenceError) throw recurrenceError;
       
       newTask.recurrencePattern = task.recurrencePattern;
+      
+      // Tasks split off from another recurring task bring the later exceptions and overrides along
+      if (task.recurrenceExceptions && task.recurrenceExceptions.length > 0) {
+        const { error: exceptionError } = await supabase
+          .from('recurrence_exceptions')
+          .insert(task.recurrenceExceptions.map(date => ({
+            task_id: newTask.id,
+            exception_date: date.toISOString()
+          })));
+        
+        if (exceptionError) throw exceptionError;
+        
+        newTask.recurrenceExceptions = task.recurrenceExceptions;
+      }
+      
+      if (task.recurrenceOverrides && task.recurrenceOverrides.length > 0) {
+        const { error: overrideError } = await supabase
+          .from('recurrence_overrides')
+          .insert(task.recurrenceOverrides.map(override => toRecurrenceOverrideRow(newTask.id, override)));
+        
+        if (overrideError) throw overrideError;
+        
+        newTask.recurrenceOverrides = task.recurrenceOverrides;
+      }
+    }
+    
+    if (task.labelIds && task.labelIds.length > 0) {
+      const { error: labelError } = await supabase
+        .from('task_labels')
+        .insert(task.labelIds.map(labelId => ({ task_id: newTask.id, label_id: labelId })));
+      
+      if (labelError) throw labelError;
+      
+      newTask.labelIds = task.labelIds;
+    }
+    
+    if (task.blockedByIds && task.blockedByIds.length > 0) {
+      const { error: dependencyError } = await supabase
+        .from('task_dependencies')
+        .insert(task.blockedByIds.map(blockedById => ({ task_id: newTask.id, blocked_by_task_id: blockedById })));
+      
+      if (dependencyError) throw dependencyError;
+      
+      newTask.blockedByIds = task.blockedByIds;
     }
     
     return newTask;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'create this task');
+    }
     return handleSupabaseError(error, 'Failed to create task');
   }
 }
@@ -176,7 +226,7 @@ export async function createTask(task: Omit<Task, 'id' | 'children' | 'isExpande
 export async function updateTask(task: Task): Promise<void> {
   try {
     // Update the task
-    const { error } = await supabase
+    const { data: updatedRows, error } = await supabase
       .from('tasks')
       .update({
         title: task.title,
@@ -187,15 +237,21 @@ export async function updateTask(task: Task): Promise<void> {
         parent_id: task.parentId,
         notes: task.notes,
         estimated_time: task.estimatedTime,
+        hourly_rate: task.hourlyRate ?? null,
         time_tracked: task.timeTracked,
         completed: task.completed || false,
         time_slot: task.timeSlot,
+        time_zone: task.timeZone,
+        ical_uid: task.icalUid,
+        status: task.status,
         is_recurring: task.isRecurring || false,
         is_expanded: task.isExpanded
       })
-      .eq('id', task.id);
+      .eq('id', task.id)
+      .select('id');
     
     if (error) throw error;
+    assertRowsAffected(updatedRows, 'task');
     
     // Handle recurrence pattern
     if (task.isRecurring && task.recurrencePattern) {
@@ -213,13 +269,7 @@ export async function updateTask(task: Task): Promise<void> {
         const { error: updateError } = await supabase
           .from('recurrence_patterns')
           .update({
-            frequency: task.recurrencePattern.frequency,
-            interval: task.recurrencePattern.interval,
-            days_of_week: task.recurrencePattern.daysOfWeek,
-            day_of_month: task.recurrencePattern.dayOfMonth,
-            month_of_year: task.recurrencePattern.monthOfYear,
-            end_date: task.recurrencePattern.endDate?.toISOString(),
-            occurrences: task.recurrencePattern.occurrences
+            ...toRecurrencePatternRow(task.recurrencePattern, task.dueDate)
           })
           .eq('id', existingPattern.id);
         
@@ -230,13 +280,7 @@ export async function updateTask(task: Task): Promise<void> {
           .from('recurrence_patterns')
           .insert({
             task_id: task.id,
-            frequency: task.recurrencePattern.frequency,
-            interval: task.recurrencePattern.interval,
-            days_of_week: task.recurrencePattern.daysOfWeek,
-            day_of_month: task.recurrencePattern.dayOfMonth,
-            month_of_year: task.recurrencePattern.monthOfYear,
-            end_date: task.recurrencePattern.endDate?.toISOString(),
-            occurrences: task.recurrencePattern.occurrences
+            ...toRecurrencePatternRow(task.recurrencePattern, task.dueDate)
           });
         
         if (insertError) throw insertError;
@@ -274,7 +318,51 @@ export async function updateTask(task: Task): Promise<void> {
       if (insertError) throw insertError;
     }
     
+    // Replace the occurrence overrides when the caller knows them
+    if (task.recurrenceOverrides) {
+      const { error: deleteError } = await supabase
+        .from('recurrence_overrides')
+        .delete()
+        .eq('task_id', task.id);
+      
+      if (deleteError) throw deleteError;
+      
+      if (task.recurrenceOverrides.length > 0) {
+        const { error: insertError } = await supabase
+          .from('recurrence_overrides')
+          .insert(task.recurrenceOverrides.map(override => toRecurrenceOverrideRow(task.id, override)));
+        
+        if (insertError) throw insertError;
+      }
+    }
+    
+    // Replace the task's labels when the caller knows them
+    if (task.labelIds) {
+      const { error: deleteError } = await supabase
+        .from('task_labels')
+        .delete()
+        .eq('task_id', task.id);
+      
+      if (deleteError) throw deleteError;
+      
+      if (task.labelIds.length > 0) {
+        const { error: insertError } = await supabase
+          .from('task_labels')
+          .insert(task.labelIds.map(labelId => ({ task_id: task.id, label_id: labelId })));
+        
+        if (insertError) throw insertError;
+      }
+    }
+    
+    // Same for the tasks this one is blocked by
+    if (task.blockedByIds) {
+      await replaceTaskDependencies(task.id, task.blockedByIds);
+    }
+    
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this task');
+    }
     handleSupabaseError(error, 'Failed to update task');
   }
 }
@@ -292,6 +380,9 @@ export async function deleteTask(taskId: string): Promise<void> {
     
     if (error) throw error;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this task');
+    }
     handleSupabaseError(error, 'Failed to delete task');
   }
 }
@@ -308,6 +399,9 @@ export async function toggleTaskCompleted(taskId: string, completed: boolean): P
     
     if (error) throw error;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this task');
+    }
     handleSupabaseError(error, 'Failed to update task status');
   }
 }
@@ -324,6 +418,126 @@ export async function toggleTaskExpanded(taskId: string, isExpanded: boolean): P
     
     if (error) throw error;
   } catch (error) {
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this task');
+    }
     handleSupabaseError(error, 'Failed to update task state');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a tasks row to a Task without its recurrence data
+ */
+export function mapTaskRow(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || undefined,
+    dueDate: row.due_date ? new Date(row.due_date) : undefined,
+    priority: row.priority as Task['priority'],
+    projectId: row.project_id,
+    parentId: row.parent_id || undefined,
+    children: [],
+    isExpanded: row.is_expanded || false,
+    notes: row.notes || undefined,
+    estimatedTime: row.estimated_time || undefined,
+    hourlyRate: row.hourly_rate ?? undefined,
+    timeTracked: row.time_tracked || 0,
+    completed: row.completed || false,
+    timeSlot: row.time_slot || undefined,
+    timeZone: row.time_zone || undefined,
+    icalUid: row.ical_uid || undefined,
+    status: row.status || undefined,
+    isRecurring: row.is_recurring || false,
+    recurrenceParentId: row.recurrence_parent_id || undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Attach recurrence patterns and exceptions to the recurring tasks in the list
+ */
+export async function loadRecurrenceData(tasks: Task[]): Promise<void> {
+  // Fetch recurrence patterns for recurring tasks
+  const recurringTaskIds = tasks.filter(t => t.isRecurring).map(t => t.id);
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  
+  // Keep the id lists short enough for the request URL
+  for (let i = 0; i < recurringTaskIds.length; i += RECURRENCE_FETCH_CHUNK_SIZE) {
+    const taskIds = recurringTaskIds.slice(i, i + RECURRENCE_FETCH_CHUNK_SIZE);
+    
+    const { data: recurrenceData, error: recurrenceError } = await supabase
+      .from('recurrence_patterns')
+      .select('*')
+      .in('task_id', taskIds);
+    
+    if (!recurrenceError && recurrenceData) {
+      for (const pattern of recurrenceData) {
+        const task = tasksById.get(pattern.task_id);
+        if (task) {
+          task.recurrencePattern = _toRecurrencePattern(pattern);
+        }
+      }
+    }
+    
+    // Fetch exceptions for recurring tasks
+    const { data: exceptionData, error: exceptionError } = await supabase
+      .from('recurrence_exceptions')
+      .select('*')
+      .in('task_id', taskIds);
+    
+    if (!exceptionError && exceptionData) {
+      for (const exception of exceptionData) {
+        const task = tasksById.get(exception.task_id);
+        if (task) {
+          if (!task.recurrenceExceptions) {
+            task.recurrenceExceptions = [];
+          }
+          task.recurrenceExceptions.push(new Date(exception.exception_date));
+        }
+      }
+    }
+    
+    // Fetch the overrides of single occurrences
+    const { data: overrideData, error: overrideError } = await supabase
+      .from('recurrence_overrides')
+      .select('*')
+      .in('task_id', taskIds);
+    
+    if (!overrideError && overrideData) {
+      for (const override of overrideData) {
+        const task = tasksById.get(override.task_id);
+        if (task) {
+          task.recurrenceOverrides = [...(task.recurrenceOverrides || []), _toRecurrenceOverride(override)];
+        }
+      }
+    }
+  }
+}
+
+function _toRecurrencePattern(pattern: RecurrencePatternRow): RecurrencePattern {
+  return {
+    frequency: pattern.frequency as RecurrencePattern['frequency'],
+    interval: pattern.interval,
+    daysOfWeek: pattern.days_of_week || undefined,
+    dayOfMonth: pattern.day_of_month || undefined,
+    monthOfYear: pattern.month_of_year ?? undefined,
+    endDate: pattern.end_date ? new Date(pattern.end_date) : undefined,
+    occurrences: pattern.occurrences || undefined,
+    rrule: pattern.rrule || undefined,
+    mode: pattern.mode === 'after_completion' ? 'afterCompletion' : 'schedule',
+  };
+}
+
+function _toRecurrenceOverride(override: RecurrenceOverrideRow): RecurrenceOverride {
+  return {
+    // A date column; parsed as the local day
+    originalDate: parseISO(override.original_date),
+    dueDate: override.due_date ? new Date(override.due_date) : undefined,
+    title: override.title ?? undefined,
+    notes: override.notes ?? undefined,
+    timeSlot: override.time_slot ?? undefined,
+    completed: override.completed ?? undefined,
+    status: override.status ?? undefined,
+  };
+}
@@ -2,6 +2,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { handleSupabaseError, prepareDatesForSupabase, processSupabaseData, getCurrentUserId } from './serviceUtils';
 import { TimeBlock } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
 
 /**
  * Fetch all time blocks for the current user
@@ -20,13 +21,7 @@ export async function getTimeBlocks(): Promise<TimeBlock[]> {
     if (error) throw error;
     
     console.log(`Retrieved ${data.length} time blocks`);
-    return data.map(block => ({
-      id: block.id,
-      taskId: block.task_id,
-      date: new Date(block.date),
-      startTime: block.start_time,
-      endTime: block.end_time
-    }));
+    return data.map(mapTimeBlockRow);
   } catch (error) {
     console.error('Error in getTimeBlocks:', error);
     if (error.message) console.error('Error message:', error.message);
@@ -36,9 +31,9 @@ export async function getTimeBlocks(): Promise<TimeBlock[]> {
 }
 
 /**
- * Create a new time block
+ * Create a new time block. Blocks created offline bring their local id along.
  */
-export async function createTimeBlock(timeBlock: Omit<TimeBlock, 'id'>): Promise<TimeBlock> {
+export async function createTimeBlock(timeBlock: Omit<TimeBlock, 'id'> & { id?: string }): Promise<TimeBlock> {
   try {
     const userId = await getCurrentUserId();
     console.log(`Creating time block for task: ${timeBlock.taskId}, user: ${userId}`);
@@ -46,10 +41,13 @@ export async function createTimeBlock(timeBlock: Omit<TimeBlock, 'id'>): Promise
     const { data, error } = await supabase
       .from('time_blocks')
       .insert({
+        id: timeBlock.id,
         task_id: timeBlock.taskId,
         date: timeBlock.date.toISOString(),
         start_time: timeBlock.startTime,
         end_time: timeBlock.endTime,
+        time_zone: timeBlock.timeZone,
+        ical_uid: timeBlock.icalUid,
         user_id: userId
       })
       .select()
@@ -63,7 +61,9 @@ export async function createTimeBlock(timeBlock: Omit<TimeBlock, 'id'>): Promise
       taskId: data.task_id,
       date: new Date(data.date),
       startTime: data.start_time,
-      endTime: data.end_time
+      endTime: data.end_time,
+      timeZone: data.time_zone || undefined,
+      icalUid: data.ical_uid || undefined
     };
   } catch (error) {
     console.error(`Error creating time block for task ${timeBlock.taskId}:`, error);
@@ -85,7 +85,9 @@ export async function updateTimeBlock(timeBlock: TimeBlock): Promise<void> {
         task_id: timeBlock.taskId,
         date: timeBlock.date.toISOString(),
         start_time: timeBlock.startTime,
-        end_time: timeBlock.endTime
+        end_time: timeBlock.endTime,
+        time_zone: timeBlock.timeZone,
+        ical_uid: timeBlock.icalUid
       })
       .eq('id', timeBlock.id);
     
@@ -121,3 +123,18 @@ export async function deleteTimeBlock(timeBlockId: string): Promise<void> {
     handleSupabaseError(error, 'Failed to delete time block');
   }
 }
+
+/**
+ * Convert a time_blocks row to a TimeBlock
+ */
+export function mapTimeBlockRow(row: Tables<'time_blocks'>): TimeBlock {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    date: new Date(row.date),
+    startTime: row.start_time,
+    endTime: row.end_time,
+    timeZone: row.time_zone || undefined,
+    icalUid: row.ical_uid || undefined
+  };
+}
@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
-import { handleSupabaseError, prepareDatesForSupabase, processSupabaseData, getCurrentUserId } from './serviceUtils';
+import { handleSupabaseError, handlePermissionDeniedError, isPermissionDeniedError, assertRowsAffected, prepareDatesForSupabase, processSupabaseData, getCurrentUserId } from './serviceUtils';
 import { TimeTracking } from '@/context/TaskTypes';
+import { Tables } from '@/integrations/supabase/types';
 
 /**
  * Fetch all time tracking entries for the current user
@@ -18,18 +19,14 @@ export async function getTimeTrackings(): Promise<TimeTracking[]> {
     
     if (error) throw error;
     
-    return data.map(tracking => ({
-      id: tracking.id,
-      taskId: tracking.task_id,
-      startTime: new Date(tracking.start_time),
-      endTime: tracking.end_time ? new Date(tracking.end_time) : undefined,
-      duration: tracking.duration,
-      notes: tracking.notes || undefined
-    }));
+    return data.map(mapTimeTrackingRow);
   } catch (error) {
     console.error('Error in getTimeTrackings:', error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'view these time entries');
+    }
     return handleSupabaseError(error, 'Failed to fetch time tracking entries');
   }
 }
@@ -66,12 +63,18 @@ export async function startTimeTracking(
       taskId: data.task_id,
       startTime: new Date(data.start_time),
       duration: 0,
-      notes: data.notes || undefined
+      notes: data.notes || undefined,
+      billable: data.billable,
+      invoiceId: data.invoice_id || undefined,
+      isFocusSession: data.focus_session
     };
   } catch (error) {
     console.error(`Error starting time tracking for task ${taskId}:`, error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'track time on this task');
+    }
     return handleSupabaseError(error, 'Failed to start time tracking');
   }
 }
@@ -137,6 +140,9 @@ export async function stopTimeTracking(
     console.error(`Error stopping time tracking ${timeTrackingId}:`, error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this time entry');
+    }
     handleSupabaseError(error, 'Failed to stop time tracking');
   }
 }
@@ -159,6 +165,8 @@ export async function addManualTimeTracking(
         end_time: tracking.endTime?.toISOString(),
         duration: tracking.duration,
         notes: tracking.notes,
+        billable: tracking.billable ?? true,
+        focus_session: tracking.isFocusSession ?? false,
         user_id: userId
       })
       .select()
@@ -195,12 +203,18 @@ export async function addManualTimeTracking(
       startTime: new Date(data.start_time),
       endTime: data.end_time ? new Date(data.end_time) : undefined,
       duration: data.duration,
-      notes: data.notes || undefined
+      notes: data.notes || undefined,
+      billable: data.billable,
+      invoiceId: data.invoice_id || undefined,
+      isFocusSession: data.focus_session
     };
   } catch (error) {
     console.error(`Error adding manual time tracking for task ${tracking.taskId}:`, error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'add time to this task');
+    }
     return handleSupabaseError(error, 'Failed to add manual time tracking');
   }
 }
@@ -225,17 +239,20 @@ export async function updateTimeTracking(tracking: TimeTracking): Promise<void>
     console.log(`Duration difference: ${durationDifference} minutes`);
     
     // Update the time tracking entry
-    const { error } = await supabase
+    const { data: updatedRows, error } = await supabase
       .from('time_trackings')
       .update({
         start_time: tracking.startTime.toISOString(),
         end_time: tracking.endTime?.toISOString(),
         duration: tracking.duration,
-        notes: tracking.notes
+        notes: tracking.notes,
+        billable: tracking.billable ?? true
       })
-      .eq('id', tracking.id);
+      .eq('id', tracking.id)
+      .select('id');
     
     if (error) throw error;
+    assertRowsAffected(updatedRows, 'time tracking entry');
     
     // Update the task's total tracked time if duration changed
     if (durationDifference !== 0) {
@@ -267,6 +284,9 @@ export async function updateTimeTracking(tracking: TimeTracking): Promise<void>
     console.error(`Error updating time tracking ${tracking.id}:`, error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'update this time entry');
+    }
     handleSupabaseError(error, 'Failed to update time tracking');
   }
 }
@@ -322,6 +342,26 @@ export async function deleteTimeTracking(trackingId: string): Promise<void> {
     console.error(`Error deleting time tracking ${trackingId}:`, error);
     if (error.message) console.error('Error message:', error.message);
     if (error.details) console.error('Error details:', error.details);
+    if (isPermissionDeniedError(error)) {
+      return handlePermissionDeniedError(error, 'delete this time entry');
+    }
     handleSupabaseError(error, 'Failed to delete time tracking');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a time_trackings row to a TimeTracking
+ */
+export function mapTimeTrackingRow(row: Tables<'time_trackings'>): TimeTracking {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    startTime: new Date(row.start_time),
+    endTime: row.end_time ? new Date(row.end_time) : undefined,
+    duration: row.duration,
+    notes: row.notes || undefined,
+    billable: row.billable,
+    invoiceId: row.invoice_id || undefined,
+    isFocusSession: row.focus_session
+  };
+}
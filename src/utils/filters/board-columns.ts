@@ -0,0 +1,108 @@
+
+import { Task, TaskStatus, Priority } from '@/context/TaskTypes';
+import { DateGroup, GroupBy } from '@/context/FilterContext';
+import { getProjectStatuses, getTaskStatus } from '@/lib/status-utils';
+import { dateGroupOrder, dateGroupTitles, getDateGroup, getDueDateForGroup } from './date-groups';
+import { TaskGroup } from './types';
+
+export type BoardColumnBy = GroupBy.STATUS | GroupBy.PRIORITY | GroupBy.DATE;
+
+export interface BoardColumn extends TaskGroup {
+  color?: string;
+  // Whether cards can be dropped into the column
+  acceptsDrop: boolean;
+}
+
+const priorityColumns: { id: Priority; title: string }[] = [
+  { id: 'high', title: 'High Priority' },
+  { id: 'medium', title: 'Medium Priority' },
+  { id: 'low', title: 'Low Priority' },
+];
+
+// Statuses of all given projects, merged by key like groupTasksByStatus does
+const getStatusColumns = (projectIds: string[], projectStatuses: TaskStatus[]): TaskStatus[] => {
+  const statusesByKey = new Map<string, TaskStatus>();
+
+  projectIds.forEach(projectId => {
+    getProjectStatuses(projectId, projectStatuses).forEach(status => {
+      if (!statusesByKey.has(status.key)) {
+        statusesByKey.set(status.key, status);
+      }
+    });
+  });
+
+  return [...statusesByKey.values()].sort((a, b) =>
+    Number(a.isDone) - Number(b.isDone) || a.position - b.position
+  );
+};
+
+/**
+ * Split tasks into board columns. Unlike the list groups, empty columns are
+ * kept so cards can be dropped into them.
+ */
+export const getBoardColumns = (
+  tasks: Task[],
+  columnBy: BoardColumnBy,
+  projectIds: string[],
+  projectStatuses: TaskStatus[] = []
+): BoardColumn[] => {
+  switch (columnBy) {
+    case GroupBy.STATUS:
+      return getStatusColumns(projectIds, projectStatuses).map(status => ({
+        id: status.key,
+        title: status.name,
+        color: status.color,
+        acceptsDrop: true,
+        tasks: tasks.filter(task => getTaskStatus(task, projectStatuses).key === status.key),
+      }));
+
+    case GroupBy.PRIORITY:
+      return priorityColumns.map(column => ({
+        ...column,
+        acceptsDrop: true,
+        tasks: tasks.filter(task => task.priority === column.id),
+      }));
+
+    case GroupBy.DATE:
+      return dateGroupOrder
+        .map(group => ({
+          id: group,
+          title: dateGroupTitles[group],
+          acceptsDrop: getDueDateForGroup(group) !== null,
+          tasks: tasks.filter(task => getDateGroup(task.dueDate, task.completed) === group),
+        }))
+        .filter(column => column.acceptsDrop || column.tasks.length > 0);
+  }
+};
+
+/**
+ * The task as it would be after dropping it into a column, or null when the
+ * column does not apply to it (e.g. a status its project does not have)
+ */
+export const moveTaskToColumn = (
+  task: Task,
+  columnBy: BoardColumnBy,
+  columnId: string,
+  projectStatuses: TaskStatus[] = []
+): Task | null => {
+  switch (columnBy) {
+    case GroupBy.STATUS: {
+      const status = getProjectStatuses(task.projectId, projectStatuses)
+        .find(projectStatus => projectStatus.key === columnId);
+      return status ? { ...task, status: status.key, completed: status.isDone } : null;
+    }
+
+    case GroupBy.PRIORITY:
+      return { ...task, priority: columnId as Priority };
+
+    case GroupBy.DATE: {
+      const dueDate = getDueDateForGroup(columnId as DateGroup);
+      if (dueDate === null) return null;
+      return {
+        ...task,
+        dueDate,
+        timeSlot: dueDate ? task.timeSlot : undefined,
+      };
+    }
+  }
+};
@@ -36,13 +36,52 @@ export const groupTasksByDate = (tasks: Task[]): TaskGroup[] => {
     groups[dateGroup].push(task);
   });
   
-  return [
-    { id: DateGroup.OVERDUE, title: 'Overdue', tasks: groups[DateGroup.OVERDUE] },
-    { id: DateGroup.TODAY, title: 'Today', tasks: groups[DateGroup.TODAY] },
-    { id: DateGroup.TOMORROW, title: 'Tomorrow', tasks: groups[DateGroup.TOMORROW] },
-    { id: DateGroup.THIS_WEEK, title: 'This Week', tasks: groups[DateGroup.THIS_WEEK] },
-    { id: DateGroup.NEXT_WEEK, title: 'Next Week', tasks: groups[DateGroup.NEXT_WEEK] },
-    { id: DateGroup.LATER, title: 'Later', tasks: groups[DateGroup.LATER] },
-    { id: DateGroup.NO_DATE, title: 'No Due Date', tasks: groups[DateGroup.NO_DATE] },
-  ].filter(group => group.tasks.length > 0);
+  return dateGroupOrder
+    .map(group => ({ id: group, title: dateGroupTitles[group], tasks: groups[group] }))
+    .filter(group => group.tasks.length > 0);
+};
+
+export const dateGroupOrder: DateGroup[] = [
+  DateGroup.OVERDUE,
+  DateGroup.TODAY,
+  DateGroup.TOMORROW,
+  DateGroup.THIS_WEEK,
+  DateGroup.NEXT_WEEK,
+  DateGroup.LATER,
+  DateGroup.NO_DATE,
+];
+
+export const dateGroupTitles: Record<DateGroup, string> = {
+  [DateGroup.OVERDUE]: 'Overdue',
+  [DateGroup.TODAY]: 'Today',
+  [DateGroup.TOMORROW]: 'Tomorrow',
+  [DateGroup.THIS_WEEK]: 'This Week',
+  [DateGroup.NEXT_WEEK]: 'Next Week',
+  [DateGroup.LATER]: 'Later',
+  [DateGroup.NO_DATE]: 'No Due Date',
+};
+
+/**
+ * A due date that puts a task in the given group: null when the group has no
+ * single sensible date (Overdue, Later, or This Week once it is nearly over).
+ */
+export const getDueDateForGroup = (group: DateGroup): Date | undefined | null => {
+  const today = startOfDay(new Date());
+  
+  switch (group) {
+    case DateGroup.TODAY:
+      return today;
+    case DateGroup.TOMORROW:
+      return addDays(today, 1);
+    case DateGroup.THIS_WEEK: {
+      const date = addDays(today, 2);
+      return isThisWeek(date) ? date : null;
+    }
+    case DateGroup.NEXT_WEEK:
+      return addDays(startOfWeek(addWeeks(today, 1)), 1);
+    case DateGroup.NO_DATE:
+      return undefined;
+    default:
+      return null;
+  }
 };
@@ -5,4 +5,7 @@ export * from './task-groups';
 export * from './date-groups';
 export * from './priority-groups';
 export * from './project-groups';
+export * from './label-groups';
+export * from './status-groups';
+export * from './board-columns';
 export * from './types';
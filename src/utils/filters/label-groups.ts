@@ -0,0 +1,39 @@
+
+import { Task, Label } from '@/context/TaskTypes';
+import { TaskGroup } from './types';
+
+// A task with several labels shows up in the group of each of them
+export const groupTasksByLabel = (tasks: Task[], labels: Label[]): TaskGroup[] => {
+  const labelGroups: Record<string, Task[]> = {};
+  const unlabeled: Task[] = [];
+  
+  tasks.forEach(task => {
+    const knownLabelIds = (task.labelIds || []).filter(id => labels.some(label => label.id === id));
+    
+    if (knownLabelIds.length === 0) {
+      unlabeled.push(task);
+      return;
+    }
+    
+    knownLabelIds.forEach(labelId => {
+      if (!labelGroups[labelId]) {
+        labelGroups[labelId] = [];
+      }
+      labelGroups[labelId].push(task);
+    });
+  });
+  
+  const groups: TaskGroup[] = labels
+    .filter(label => labelGroups[label.id])
+    .map(label => ({
+      id: label.id,
+      title: label.name,
+      tasks: labelGroups[label.id],
+    }));
+  
+  if (unlabeled.length > 0) {
+    groups.push({ id: 'no-label', title: 'No Label', tasks: unlabeled });
+  }
+  
+  return groups;
+};
@@ -0,0 +1,28 @@
+
+import { Task, TaskStatus } from '@/context/TaskTypes';
+import { getTaskStatus } from '@/lib/status-utils';
+import { TaskGroup } from './types';
+
+// Tasks from different projects share a group when their statuses have the same key
+export const groupTasksByStatus = (tasks: Task[], projectStatuses: TaskStatus[]): TaskGroup[] => {
+  const statusGroups: Record<string, { status: TaskStatus; tasks: Task[] }> = {};
+  
+  tasks.forEach(task => {
+    const status = getTaskStatus(task, projectStatuses);
+    if (!statusGroups[status.key]) {
+      statusGroups[status.key] = { status, tasks: [] };
+    }
+    statusGroups[status.key].tasks.push(task);
+  });
+  
+  // Open statuses first in workflow order, done statuses last
+  return Object.values(statusGroups)
+    .sort((a, b) =>
+      Number(a.status.isDone) - Number(b.status.isDone) || a.status.position - b.status.position
+    )
+    .map(({ status, tasks }) => ({
+      id: status.key,
+      title: status.name,
+      tasks,
+    }));
+};
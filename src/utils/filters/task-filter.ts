@@ -1,9 +1,21 @@
 
-import { Task } from '@/context/TaskTypes';
+import { Task, TaskStatus } from '@/context/TaskTypes';
 import { Filter, FilterType, FilterOperator, DateGroup } from '@/context/FilterContext';
+import { isTaskBlocked } from '@/lib/dependency-utils';
+import { getTaskStatus } from '@/lib/status-utils';
 import { isBefore, isToday, isTomorrow, isThisWeek, isAfter, startOfDay, addDays, endOfDay, startOfWeek, endOfWeek, addWeeks } from 'date-fns';
 
-export const filterTasks = (tasks: Task[], filters: Filter[], excludeCompleted: boolean): Task[] => {
+/**
+ * Filter tasks by the active filters.
+ * Blockers can live anywhere, also outside the tasks being filtered, so tasksById must hold all tasks.
+ */
+export const filterTasks = (
+  tasks: Task[],
+  filters: Filter[],
+  excludeCompleted: boolean,
+  tasksById: Map<string, Task>,
+  projectStatuses: TaskStatus[] = []
+): Task[] => {
   return tasks.filter(task => {
     // Skip completed tasks if excludeCompleted is true
     if (excludeCompleted && task.completed) {
@@ -18,11 +30,24 @@ export const filterTasks = (tasks: Task[], filters: Filter[], excludeCompleted:
             ? task.priority === filter.value
             : task.priority !== filter.value;
         
+        case FilterType.STATUS:
+          return filter.operator === FilterOperator.NOT_EQUALS
+            ? getTaskStatus(task, projectStatuses).key !== filter.value
+            : getTaskStatus(task, projectStatuses).key === filter.value;
+        
         case FilterType.PROJECT:
           return filter.operator === FilterOperator.EQUALS
             ? task.projectId === filter.value
             : task.projectId !== filter.value;
         
+        case FilterType.LABEL:
+          return filter.operator === FilterOperator.NOT_EQUALS
+            ? !(task.labelIds || []).includes(filter.value)
+            : (task.labelIds || []).includes(filter.value);
+        
+        case FilterType.IS_BLOCKED:
+          return isTaskBlocked(task, tasksById) === filter.value;
+        
         case FilterType.DUE_DATE:
           // No due date filtering
           if (!task.dueDate) {
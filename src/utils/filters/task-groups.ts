@@ -1,15 +1,19 @@
 
-import { Task } from '@/context/TaskTypes';
+import { Task, Label, TaskStatus } from '@/context/TaskTypes';
 import { GroupBy } from '@/context/FilterContext';
 import { TaskGroup } from './types';
 import { groupTasksByDate } from './date-groups';
 import { groupTasksByPriority } from './priority-groups';
 import { groupTasksByProject } from './project-groups';
+import { groupTasksByLabel } from './label-groups';
+import { groupTasksByStatus } from './status-groups';
 
 export const groupTasks = (
   tasks: Task[], 
   groupBy: GroupBy, 
-  projects: any[]
+  projects: any[],
+  labels: Label[] = [],
+  projectStatuses: TaskStatus[] = []
 ): TaskGroup[] => {
   switch (groupBy) {
     case GroupBy.DATE:
@@ -18,6 +22,10 @@ export const groupTasks = (
       return groupTasksByPriority(tasks);
     case GroupBy.PROJECT:
       return groupTasksByProject(tasks, projects);
+    case GroupBy.LABEL:
+      return groupTasksByLabel(tasks, labels);
+    case GroupBy.STATUS:
+      return groupTasksByStatus(tasks, projectStatuses);
     default:
       return [{ id: 'all', title: 'All Tasks', tasks }];
   }
@@ -0,0 +1,235 @@
+/**
+ * Writing of tasks and time blocks as iCalendar data, shared by the export in
+ * the app and the calendar-feed Edge Function.
+ */
+import { addDays } from 'date-fns';
+import { Priority, Project, RecurrenceOverride, Task, TimeBlock, flattenTasks } from './tasks';
+import { getRecurrenceRule, isAfterCompletionRecurrence } from './recurrence';
+import { formatRRule } from './rrule';
+import { getCalendarDay, zonedTimeToDate } from './timezone';
+import {
+  ICalComponent,
+  ICalProperty,
+  escapeICalText,
+  formatICalDate,
+  formatICalLocalDateTime,
+  formatICalUtcDateTime,
+  formatICalendar,
+} from './ical';
+
+export const ICAL_PRODUCT_ID = '-//Khonja//Tasks//EN';
+
+// Length of a timed task without an estimate
+const DEFAULT_EVENT_MINUTES = 30;
+
+const ICAL_PRIORITIES: Record<Priority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+export interface ICalExportOptions {
+  projectId?: string;
+  from?: Date; // First calendar day, inclusive
+  to?: Date; // Last calendar day, inclusive
+  calendarName?: string;
+}
+
+const property = (name: string, value: string, params: Record<string, string> = {}): ICalProperty =>
+  ({ name, params, value });
+
+const textProperty = (name: string, text: string): ICalProperty => property(name, escapeICalText(text));
+
+// DTSTART, DUE, EXDATE, ...: a DATE without a time slot, otherwise wall time in the zone
+const dateProperty = (name: string, days: Date[], timeSlot?: string, timeZone?: string): ICalProperty => {
+  if (!timeSlot) {
+    return property(name, days.map(formatICalDate).join(','), { VALUE: 'DATE' });
+  }
+  const value = days.map(day => formatICalLocalDateTime(day, timeSlot)).join(',');
+  return property(name, value, timeZone ? { TZID: timeZone } : {});
+};
+
+// UNTIL has to have the same value type as DTSTART, and be in UTC when DTSTART has a zone
+const formatUntil = (until: Date, timeSlot?: string, timeZone?: string): string => {
+  if (!timeSlot) return formatICalDate(until);
+  if (!timeZone) return `${formatICalDate(until)}T235959`;
+  return formatICalUtcDateTime(
+    zonedTimeToDate(until.getFullYear(), until.getMonth(), until.getDate(), 23, 59, timeZone)
+  );
+};
+
+const getRRuleValue = (task: Task, startDay: Date): string => {
+  const rule = getRecurrenceRule(task.recurrencePattern!, startDay);
+  const value = formatRRule({ ...rule, until: undefined });
+  return rule.until ? `${value};UNTIL=${formatUntil(rule.until, task.timeSlot, task.timeZone)}` : value;
+};
+
+const isInRange = (day: Date, options: ICalExportOptions): boolean =>
+  (!options.from || day >= options.from) && (!options.to || day <= options.to);
+
+// A series is exported when any part of it can fall in the range
+const isSeriesInRange = (task: Task, startDay: Date, options: ICalExportOptions): boolean => {
+  const until = getRecurrenceRule(task.recurrencePattern!, startDay).until;
+  return (!options.to || startDay <= options.to) && (!options.from || !until || until >= options.from);
+};
+
+// Timed tasks block time, so they become events; the others stay to-dos
+const getTaskComponentName = (task: Task): string => (task.timeSlot ? 'VEVENT' : 'VTODO');
+
+const getScheduleProperties = (
+  componentName: string,
+  day: Date,
+  timeSlot: string | undefined,
+  timeZone: string | undefined,
+  estimatedTime: number | undefined,
+  isRecurring: boolean
+): ICalProperty[] => {
+  if (componentName === 'VEVENT') {
+    return [
+      dateProperty('DTSTART', [day], timeSlot, timeZone),
+      property('DURATION', `PT${estimatedTime || DEFAULT_EVENT_MINUTES}M`),
+    ];
+  }
+
+  // A recurring to-do needs DTSTART for its rule to start from
+  return [
+    ...(isRecurring ? [dateProperty('DTSTART', [day], timeSlot, timeZone)] : []),
+    dateProperty('DUE', [day], timeSlot, timeZone),
+  ];
+};
+
+const getCommonProperties = (
+  uid: string,
+  title: string,
+  description: string | undefined,
+  stamp: string
+): ICalProperty[] => [
+  property('UID', uid),
+  property('DTSTAMP', stamp),
+  textProperty('SUMMARY', title),
+  ...(description ? [textProperty('DESCRIPTION', description)] : []),
+];
+
+const getStatusProperties = (componentName: string, completed: boolean | undefined): ICalProperty[] =>
+  componentName === 'VTODO' ? [property('STATUS', completed ? 'COMPLETED' : 'NEEDS-ACTION')] : [];
+
+const createOverrideComponent = (
+  task: Task,
+  componentName: string,
+  override: RecurrenceOverride,
+  stamp: string
+): ICalComponent => {
+  // An empty time slot means the occurrence was made all-day
+  const timeSlot = override.timeSlot === undefined ? task.timeSlot : override.timeSlot || undefined;
+  const day = override.dueDate ? getCalendarDay(override.dueDate, task.timeZone) : override.originalDate;
+
+  return {
+    name: componentName,
+    properties: [
+      ...getCommonProperties(task.id, override.title ?? task.title, override.notes ?? task.description, stamp),
+      dateProperty('RECURRENCE-ID', [override.originalDate], task.timeSlot, task.timeZone),
+      ...getScheduleProperties(componentName, day, timeSlot, task.timeZone, task.estimatedTime, false),
+      ...getStatusProperties(componentName, override.completed),
+    ],
+    components: [],
+  };
+};
+
+const createTaskComponents = (
+  task: Task,
+  projectName: string | undefined,
+  stamp: string
+): ICalComponent[] => {
+  const day = getCalendarDay(task.dueDate!, task.timeZone);
+  const componentName = getTaskComponentName(task);
+  const isSeries = !!task.isRecurring && !!task.recurrencePattern && !isAfterCompletionRecurrence(task);
+
+  const properties = [
+    ...getCommonProperties(task.id, task.title, task.description, stamp),
+    ...getScheduleProperties(componentName, day, task.timeSlot, task.timeZone, task.estimatedTime, isSeries),
+    property('PRIORITY', ICAL_PRIORITIES[task.priority].toString()),
+    ...getStatusProperties(componentName, task.completed),
+    ...(projectName ? [textProperty('CATEGORIES', projectName)] : []),
+  ];
+
+  if (!isSeries) {
+    return [{ name: componentName, properties, components: [] }];
+  }
+
+  properties.push(property('RRULE', getRRuleValue(task, day)));
+  if (task.recurrenceExceptions?.length) {
+    properties.push(dateProperty('EXDATE', task.recurrenceExceptions, task.timeSlot, task.timeZone));
+  }
+
+  return [
+    { name: componentName, properties, components: [] },
+    ...(task.recurrenceOverrides || []).map(override =>
+      createOverrideComponent(task, componentName, override, stamp)
+    ),
+  ];
+};
+
+const createTimeBlockComponent = (block: TimeBlock, task: Task, stamp: string): ICalComponent => {
+  const day = getCalendarDay(block.date, block.timeZone);
+  // Blocks ending at or before their start run past midnight
+  const endDay = block.endTime <= block.startTime ? addDays(day, 1) : day;
+
+  return {
+    name: 'VEVENT',
+    properties: [
+      ...getCommonProperties(block.id, task.title, undefined, stamp),
+      dateProperty('DTSTART', [day], block.startTime, block.timeZone),
+      dateProperty('DTEND', [endDay], block.endTime, block.timeZone),
+      property('RELATED-TO', task.id),
+    ],
+    components: [],
+  };
+};
+
+/**
+ * Build an iCalendar file of the scheduled tasks and time blocks. Timed tasks
+ * become VEVENTs and all-day tasks VTODOs; recurring tasks keep their RRULE,
+ * EXDATEs and per-occurrence overrides. Undated tasks are left out.
+ *
+ * Zones are referenced by their IANA name (TZID) without VTIMEZONE
+ * definitions, which calendar apps resolve themselves.
+ */
+export function createICalendar(
+  tasks: Task[],
+  timeBlocks: TimeBlock[],
+  projects: Project[],
+  options: ICalExportOptions = {}
+): string {
+  const stamp = formatICalUtcDateTime(new Date());
+  const projectNames = new Map(projects.map(project => [project.id, project.name]));
+  const exportedTasks = flattenTasks(tasks).filter(task =>
+    !options.projectId || task.projectId === options.projectId
+  );
+  const tasksById = new Map(exportedTasks.map(task => [task.id, task]));
+
+  const taskComponents = exportedTasks
+    .filter(task => {
+      if (!task.dueDate) return false;
+      const day = getCalendarDay(task.dueDate, task.timeZone);
+      return task.isRecurring && task.recurrencePattern && !isAfterCompletionRecurrence(task)
+        ? isSeriesInRange(task, day, options)
+        : isInRange(day, options);
+    })
+    .flatMap(task => createTaskComponents(task, projectNames.get(task.projectId), stamp));
+
+  const timeBlockComponents = timeBlocks
+    .filter(block => tasksById.has(block.taskId) && isInRange(getCalendarDay(block.date, block.timeZone), options))
+    .map(block => createTimeBlockComponent(block, tasksById.get(block.taskId)!, stamp));
+
+  return formatICalendar({
+    name: 'VCALENDAR',
+    properties: [
+      property('VERSION', '2.0'),
+      property('PRODID', ICAL_PRODUCT_ID),
+      property('CALSCALE', 'GREGORIAN'),
+      property('METHOD', 'PUBLISH'),
+      ...(options.calendarName ? [textProperty('X-WR-CALNAME', options.calendarName)] : []),
+    ],
+    components: [...taskComponents, ...timeBlockComponents],
+  });
+}
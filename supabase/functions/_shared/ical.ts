@@ -0,0 +1,222 @@
+/**
+ * Reading and writing of RFC 5545 iCalendar data: content lines, property
+ * parameters and nested components. Mapping to tasks lives in ical-export
+ * and, for imports, in the app's ical-utils.
+ */
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+// Content lines are folded after 75 octets (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0');
+
+/**
+ * Escape a TEXT value
+ */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Unescape a TEXT value
+ */
+export const unescapeICalText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatParamValue = (value: string): string =>
+  /[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+const formatProperty = (property: ICalProperty): string => {
+  const params = Object.entries(property.params)
+    .map(([name, value]) => `;${name}=${formatParamValue(value)}`)
+    .join('');
+  return foldLine(`${property.name}${params}:${property.value}`);
+};
+
+const formatComponentLines = (component: ICalComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(formatProperty),
+  ...component.components.flatMap(formatComponentLines),
+  `END:${component.name}`,
+];
+
+/**
+ * Serialize a component (usually a VCALENDAR) with CRLF line endings
+ */
+export function formatICalendar(calendar: ICalComponent): string {
+  return formatComponentLines(calendar).join('\r\n') + '\r\n';
+}
+
+// Split "NAME;PARAM=a;PARAM2="b:c":value" at the first colon outside quotes
+const parseContentLine = (line: string): ICalProperty => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      colonIndex = index;
+      break;
+    }
+  }
+  if (colonIndex === -1) {
+    throw new Error(`Invalid content line "${line}"`);
+  }
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equalsIndex = rawParam.indexOf('=');
+    if (equalsIndex === -1) continue;
+    params[rawParam.slice(0, equalsIndex).toUpperCase()] = rawParam.slice(equalsIndex + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: (name || '').toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+/**
+ * Parse iCalendar data into its top-level components. Throws when the data
+ * is not iCalendar or its components are not nested properly.
+ */
+export function parseICalendar(data: string): ICalComponent[] {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const lines = data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+
+  const root: ICalComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack: ICalComponent[] = [root];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    const current = stack[stack.length - 1];
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length === 1 || current.name !== property.value.toUpperCase()) {
+        throw new Error(`Unexpected END:${property.value}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Missing END:${stack[stack.length - 1].name}`);
+  }
+  if (!root.components.some(component => component.name === 'VCALENDAR')) {
+    throw new Error('No VCALENDAR found');
+  }
+
+  return root.components;
+}
+
+/**
+ * The first property with the given name
+ */
+export const getICalProperty = (component: ICalComponent, name: string): ICalProperty | undefined =>
+  component.properties.find(property => property.name === name);
+
+/**
+ * All properties with the given name
+ */
+export const getICalProperties = (component: ICalComponent, name: string): ICalProperty[] =>
+  component.properties.filter(property => property.name === name);
+
+/**
+ * Format a calendar day as a DATE value (20250630)
+ */
+export const formatICalDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+/**
+ * Format a wall-clock time on a calendar day as a local DATE-TIME value (20250630T090000)
+ */
+export const formatICalLocalDateTime = (day: Date, timeSlot: string): string => {
+  const [hours, minutes] = timeSlot.split(':').map(Number);
+  return `${formatICalDate(day)}T${pad(hours)}${pad(minutes)}00`;
+};
+
+/**
+ * Format an instant as a UTC DATE-TIME value (20250630T070000Z)
+ */
+export const formatICalUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export interface ICalDateValue {
+  year: number;
+  month: number; // 0 (January) to 11, like Date.getMonth()
+  day: number;
+  hours?: number; // Unset for DATE values
+  minutes?: number;
+  seconds?: number;
+  utc?: boolean;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into its parts
+ */
+export function parseICalDateValue(value: string): ICalDateValue {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid date value "${value}"`);
+  }
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  if (!match[4]) {
+    return { year, month: month - 1, day };
+  }
+
+  return {
+    year,
+    month: month - 1,
+    day,
+    hours: Number(match[4]),
+    minutes: Number(match[5]),
+    seconds: Number(match[6]),
+    utc: !!match[7],
+  };
+}
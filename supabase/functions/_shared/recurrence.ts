@@ -0,0 +1,68 @@
+import { startOfDay } from 'date-fns';
+import { RecurrencePattern, Task } from './tasks';
+import { RRule, RRuleFrequency, parseRRule } from './rrule';
+
+const LEGACY_FREQUENCIES: Record<RecurrencePattern['frequency'], RRuleFrequency> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+/**
+ * The recurrence rule of a pattern. Patterns saved before RRULE support only
+ * have the structured fields; they are converted without changing which days
+ * they occur on, which needs the start date for weekly intervals.
+ */
+export function getRecurrenceRule(pattern: RecurrencePattern, startDate?: Date): RRule {
+  if (pattern.rrule) {
+    try {
+      return parseRRule(pattern.rrule);
+    } catch (error) {
+      console.error(`Invalid recurrence rule "${pattern.rrule}":`, error);
+    }
+  }
+
+  const rule: RRule = {
+    freq: LEGACY_FREQUENCIES[pattern.frequency],
+    interval: pattern.interval || 1,
+  };
+
+  switch (pattern.frequency) {
+    case 'weekly':
+      if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+        rule.byDay = pattern.daysOfWeek.map(weekday => ({ weekday }));
+      }
+      // Weeks used to be counted in blocks of seven days from the start date
+      if (startDate && rule.interval > 1) {
+        rule.wkst = startDate.getDay();
+      }
+      break;
+    case 'monthly':
+      if (pattern.dayOfMonth) {
+        rule.byMonthDay = [pattern.dayOfMonth];
+      }
+      break;
+    case 'yearly':
+      if (pattern.monthOfYear !== undefined && pattern.dayOfMonth !== undefined) {
+        rule.byMonth = [pattern.monthOfYear + 1];
+        rule.byMonthDay = [pattern.dayOfMonth];
+      }
+      break;
+  }
+
+  if (pattern.endDate) {
+    rule.until = startOfDay(pattern.endDate);
+  } else if (pattern.occurrences) {
+    rule.count = pattern.occurrences;
+  }
+
+  return rule;
+}
+
+/**
+ * Whether completing the task moves it to a due date counted from the completion
+ */
+export function isAfterCompletionRecurrence(task: Task): boolean {
+  return !!task.isRecurring && task.recurrencePattern?.mode === 'afterCompletion';
+}
@@ -0,0 +1,374 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  getDaysInMonth,
+  startOfDay,
+} from 'date-fns';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0 (Sunday) to 6 (Saturday), like Date.getDay()
+  ordinal?: number; // e.g. 2 for the second, -1 for the last; MONTHLY and YEARLY only
+}
+
+/**
+ * The parts of an RFC 5545 recurrence rule the app supports. Occurrences are
+ * whole days; time-of-day parts (BYHOUR, BYMINUTE, ...) are not supported.
+ */
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[]; // 1 to 31, or -1 (last day) to -31
+  byMonth?: number[]; // 1 (January) to 12
+  bySetPos?: number[];
+  count?: number;
+  until?: Date; // Inclusive
+  wkst?: number; // First day of the week, 0 (Sunday) to 6; RFC 5545 defaults to Monday
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const DEFAULT_WKST = 1;
+
+// Upper bound on the periods walked for one expansion, e.g. ~13 years of a daily rule
+const MAX_PERIODS = 5000;
+
+const parseInteger = (name: string, value: string, min: number, max: number): number => {
+  const number = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || number < min || number > max || number === 0) {
+    throw new Error(`Invalid ${name} value "${value}"`);
+  }
+  return number;
+};
+
+const parseIntegerList = (name: string, value: string, min: number, max: number): number[] =>
+  value.split(',').map(item => parseInteger(name, item, min, max));
+
+const parseWeekdayCode = (code: string): number => {
+  const weekday = WEEKDAY_CODES.indexOf(code);
+  if (weekday === -1) {
+    throw new Error(`Invalid weekday "${code}"`);
+  }
+  return weekday;
+};
+
+const parseWeekday = (value: string): RRuleWeekday => {
+  const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${value}"`);
+  }
+  const weekday = parseWeekdayCode(match[2]);
+  return match[1]
+    ? { weekday, ordinal: parseInteger('BYDAY', match[1], -53, 53) }
+    : { weekday };
+};
+
+// UNTIL is either a DATE (20250630) or a UTC DATE-TIME (20250630T235959Z)
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(part => Number(part || 0));
+  const date = match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day);
+  return startOfDay(date);
+};
+
+/**
+ * Parse an RRULE value such as "FREQ=MONTHLY;BYDAY=2TU". A leading "RRULE:"
+ * is allowed. Throws on parts that are invalid or not supported.
+ */
+export function parseRRule(value: string): RRule {
+  const rule: Partial<RRule> = { interval: 1 };
+  const source = value.trim().replace(/^RRULE:/i, '');
+
+  for (const part of source.split(';')) {
+    if (!part) continue;
+
+    const [rawName, rawValue] = part.split('=');
+    const name = rawName.trim().toUpperCase();
+    const partValue = rawValue?.trim().toUpperCase();
+    if (!partValue) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+
+    switch (name) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(partValue as RRuleFrequency)) {
+          throw new Error(`Unsupported frequency "${partValue}"`);
+        }
+        rule.freq = partValue as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, partValue, 1, Number.MAX_SAFE_INTEGER);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, partValue, 1, Number.MAX_SAFE_INTEGER);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, partValue, -31, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(name, partValue, 1, 12);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, partValue, -366, 366);
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekdayCode(partValue);
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${name}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('RRULE is missing FREQ');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('RRULE cannot have both COUNT and UNTIL');
+  }
+  if (rule.byDay?.some(day => day.ordinal) && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    throw new Error('BYDAY ordinals are only allowed with MONTHLY and YEARLY rules');
+  }
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+    throw new Error('BYMONTHDAY is not allowed with WEEKLY rules');
+  }
+
+  return rule as RRule;
+}
+
+/**
+ * Format a rule as an RRULE value (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, 'yyyyMMdd')}`);
+  if (rule.wkst !== undefined) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+
+  return parts.join(';');
+}
+
+const sortUniqueDates = (dates: Date[]): Date[] => {
+  const byTime = new Map(dates.map(date => [date.getTime(), date]));
+  return [...byTime.keys()].sort((a, b) => a - b).map(time => byTime.get(time)!);
+};
+
+// Pick the nth (1-based, negative from the end) item of a list
+const pickOrdinal = <T>(items: T[], ordinal: number): T | undefined =>
+  ordinal > 0 ? items[ordinal - 1] : items[items.length + ordinal];
+
+// Dates between first and last (inclusive) that fall on one of the weekdays
+const getWeekdayDates = (first: Date, last: Date, day: RRuleWeekday): Date[] => {
+  const dates: Date[] = [];
+  for (let date = addDays(first, (day.weekday - first.getDay() + 7) % 7); date <= last; date = addDays(date, 7)) {
+    dates.push(date);
+  }
+  if (day.ordinal) {
+    const picked = pickOrdinal(dates, day.ordinal);
+    return picked ? [picked] : [];
+  }
+  return dates;
+};
+
+const getByDayDates = (first: Date, last: Date, byDay: RRuleWeekday[]): Date[] =>
+  byDay.flatMap(day => getWeekdayDates(first, last, day));
+
+// BYMONTHDAY values resolved against a month; days the month does not have are dropped
+const getMonthDayDates = (year: number, month: number, byMonthDay: number[]): Date[] => {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+  return byMonthDay
+    .map(day => (day > 0 ? day : daysInMonth + day + 1))
+    .filter(day => day >= 1 && day <= daysInMonth)
+    .map(day => new Date(year, month, day));
+};
+
+// Candidate days of one month for MONTHLY rules and YEARLY rules with BYMONTH
+const getMonthCandidates = (rule: RRule, year: number, month: number, start: Date): Date[] => {
+  const first = new Date(year, month, 1);
+  const last = new Date(year, month, getDaysInMonth(first));
+
+  if (rule.byDay && rule.byMonthDay) {
+    const monthDays = new Set(getMonthDayDates(year, month, rule.byMonthDay).map(date => date.getTime()));
+    return getByDayDates(first, last, rule.byDay).filter(date => monthDays.has(date.getTime()));
+  }
+  if (rule.byDay) return getByDayDates(first, last, rule.byDay);
+  if (rule.byMonthDay) return getMonthDayDates(year, month, rule.byMonthDay);
+
+  return getMonthDayDates(year, month, [start.getDate()]);
+};
+
+const getYearCandidates = (rule: RRule, year: number, start: Date): Date[] => {
+  if (rule.byMonth) {
+    return rule.byMonth.flatMap(month => getMonthCandidates(rule, year, month - 1, start));
+  }
+
+  const months = Array.from({ length: 12 }, (_, month) => month);
+
+  // Without BYMONTH, BYDAY ordinals count within the year
+  if (rule.byDay) {
+    const dates = getByDayDates(new Date(year, 0, 1), new Date(year, 11, 31), rule.byDay);
+    if (!rule.byMonthDay) return dates;
+
+    const monthDays = new Set(
+      months.flatMap(month => getMonthDayDates(year, month, rule.byMonthDay!)).map(date => date.getTime())
+    );
+    return dates.filter(date => monthDays.has(date.getTime()));
+  }
+  if (rule.byMonthDay) {
+    return months.flatMap(month => getMonthDayDates(year, month, rule.byMonthDay!));
+  }
+
+  return getMonthDayDates(year, start.getMonth(), [start.getDate()]);
+};
+
+const getWeekStart = (date: Date, wkst: number): Date =>
+  addDays(date, -((date.getDay() - wkst + 7) % 7));
+
+// First day of the i-th period (day, week, month or year) counted from the rule start
+const getPeriodStart = (rule: RRule, start: Date, index: number): Date => {
+  const step = index * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(start, step);
+    case 'WEEKLY':
+      return addDays(getWeekStart(start, rule.wkst ?? DEFAULT_WKST), step * 7);
+    case 'MONTHLY':
+      return addMonths(new Date(start.getFullYear(), start.getMonth(), 1), step);
+    case 'YEARLY':
+      return new Date(start.getFullYear() + step, 0, 1);
+  }
+};
+
+// Index of the period containing date, so expansions can skip straight to a range
+const getPeriodIndex = (rule: RRule, start: Date, date: Date): number => {
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.floor(differenceInCalendarDays(date, start) / rule.interval);
+    case 'WEEKLY':
+      return Math.floor(
+        differenceInCalendarDays(date, getWeekStart(start, rule.wkst ?? DEFAULT_WKST)) / 7 / rule.interval
+      );
+    case 'MONTHLY':
+      return Math.floor(differenceInCalendarMonths(date, start) / rule.interval);
+    case 'YEARLY':
+      return Math.floor((date.getFullYear() - start.getFullYear()) / rule.interval);
+  }
+};
+
+const getPeriodCandidates = (rule: RRule, start: Date, periodStart: Date): Date[] => {
+  let candidates: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      candidates = [periodStart];
+      break;
+    case 'WEEKLY': {
+      const days = Array.from({ length: 7 }, (_, offset) => addDays(periodStart, offset));
+      candidates = rule.byDay
+        ? days.filter(date => rule.byDay!.some(day => day.weekday === date.getDay()))
+        : days.filter(date => date.getDay() === start.getDay());
+      break;
+    }
+    case 'MONTHLY':
+      candidates = getMonthCandidates(rule, periodStart.getFullYear(), periodStart.getMonth(), start);
+      break;
+    case 'YEARLY':
+      candidates = getYearCandidates(rule, periodStart.getFullYear(), start);
+      break;
+  }
+
+  // BYMONTH limits the frequencies it does not expand
+  if (rule.byMonth && rule.freq !== 'YEARLY') {
+    candidates = candidates.filter(date => rule.byMonth!.includes(date.getMonth() + 1));
+  }
+  if (rule.freq === 'DAILY') {
+    if (rule.byMonthDay) {
+      const monthDays = getMonthDayDates(periodStart.getFullYear(), periodStart.getMonth(), rule.byMonthDay);
+      candidates = candidates.filter(date => monthDays.some(day => day.getTime() === date.getTime()));
+    }
+    if (rule.byDay) {
+      candidates = candidates.filter(date => rule.byDay!.some(day => day.weekday === date.getDay()));
+    }
+  }
+
+  candidates = sortUniqueDates(candidates);
+
+  if (rule.bySetPos) {
+    candidates = sortUniqueDates(
+      rule.bySetPos
+        .map(position => pickOrdinal(candidates, position))
+        .filter((date): date is Date => !!date)
+    );
+  }
+
+  return candidates;
+};
+
+/**
+ * The days a rule starting on dtstart occurs on within [from, to] (inclusive).
+ * Like most RRULE implementations, dtstart itself only counts when it matches
+ * the rule. Stops after limit occurrences when given.
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: Date,
+  from: Date,
+  to: Date,
+  limit?: number
+): Date[] {
+  const start = startOfDay(dtstart);
+  const rangeStart = startOfDay(from);
+  const end = rule.until && rule.until < to ? startOfDay(rule.until) : startOfDay(to);
+  const occurrences: Date[] = [];
+
+  if (end < start || end < rangeStart) return occurrences;
+
+  // COUNT has to be counted from the start; other rules can skip to the range
+  const firstIndex = rule.count ? 0 : Math.max(0, getPeriodIndex(rule, start, rangeStart) - 1);
+  let seen = 0;
+
+  for (let index = firstIndex; index < firstIndex + MAX_PERIODS; index++) {
+    const periodStart = getPeriodStart(rule, start, index);
+    if (periodStart > end) break;
+
+    for (const date of getPeriodCandidates(rule, start, periodStart)) {
+      if (date < start) continue;
+      if (date > end) return occurrences;
+
+      seen++;
+      if (rule.count && seen > rule.count) return occurrences;
+
+      if (date >= rangeStart) {
+        occurrences.push(date);
+        if (limit && occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
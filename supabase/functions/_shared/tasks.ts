@@ -0,0 +1,92 @@
+/**
+ * Task data shared by the app and the Edge Functions. Kept free of React and
+ * browser APIs so it runs in Deno as well.
+ */
+
+export type Priority = 'low' | 'medium' | 'high';
+
+// 'schedule' repeats on the days of the rule, 'afterCompletion' counts from the day the task was completed
+export type RecurrenceMode = 'schedule' | 'afterCompletion';
+
+export interface RecurrencePattern {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number; // Every X days/weeks/months/years
+  daysOfWeek?: number[]; // For weekly: 0 (Sunday) to 6 (Saturday)
+  dayOfMonth?: number; // For monthly
+  monthOfYear?: number; // For yearly
+  endDate?: Date; // Optional end date
+  occurrences?: number; // Optional number of occurrences
+  rrule?: string; // RFC 5545 RRULE, e.g. "FREQ=MONTHLY;BYDAY=2TU"; takes precedence over the fields above
+  mode?: RecurrenceMode; // Defaults to 'schedule'
+}
+
+// Changes made to a single occurrence of a recurring task; unset fields keep the recurring task's value
+export interface RecurrenceOverride {
+  originalDate: Date; // Day the occurrence falls on according to the rule
+  dueDate?: Date; // Set when the occurrence was moved
+  title?: string;
+  notes?: string;
+  timeSlot?: string;
+  completed?: boolean;
+  status?: string;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  priority: Priority;
+  parentId?: string;
+  projectId: string;
+  children: Task[];
+  isExpanded?: boolean;
+  notes?: string;
+  estimatedTime?: number;
+  hourlyRate?: number; // Overrides the project's rate for the task and its subtasks
+  timeTracked: number;
+  completed?: boolean; // Derived from the status when the project has a workflow
+  status?: string; // Key of the task's status in its project's workflow
+  timeSlot?: string; // Format: "HH:MM" - specific time for the task on its due date
+  timeZone?: string; // IANA zone the due date and time slot are in; floating local time when unset
+  isRecurring?: boolean;
+  recurrencePattern?: RecurrencePattern;
+  recurrenceParentId?: string; // For generated recurring task instances and completed after-completion occurrences
+  recurrenceExceptions?: Date[]; // Dates where the recurring task is skipped
+  recurrenceOverrides?: RecurrenceOverride[];
+  recurrenceDate?: Date; // Original day of a generated recurring task instance
+  updatedAt?: Date; // Server version the local copy is based on
+  labelIds?: string[];
+  blockedByIds?: string[]; // Tasks that must be completed before this one
+  icalUid?: string; // UID of the iCalendar event or to-do the task was imported from
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  isExpanded?: boolean;
+  hourlyRate?: number; // Rate time on the project is billed at, in the project's currency
+  currency?: string; // ISO 4217 code, e.g. "EUR"
+}
+
+export interface TimeBlock {
+  id: string;
+  taskId: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  timeZone?: string; // IANA zone the date and times are in; floating local time when unset
+  icalUid?: string; // UID of the iCalendar event the block was imported from
+}
+
+// Every task in the hierarchy, parents before their children
+export const flattenTasks = (tasks: Task[], result: Task[] = []): Task[] => {
+  for (const task of tasks) {
+    result.push(task);
+    if (task.children && task.children.length > 0) {
+      flattenTasks(task.children, result);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,108 @@
+import { startOfDay } from 'date-fns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check whether a string is a time zone the runtime understands
+ */
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock parts of an instant in a time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/**
+ * Get the offset of a time zone from UTC at an instant, in milliseconds
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * Get the instant at which a wall-clock time occurs in a time zone.
+ * Times skipped by a DST change resolve to the hour after the gap;
+ * times repeated by one resolve to their first occurrence.
+ */
+export const zonedTimeToDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date => {
+  const asUtc = Date.UTC(year, month, day, hours, minutes);
+
+  // Offset changes are months apart, so the offsets a day either side are the only candidates
+  const candidates = [-DAY_MS, DAY_MS]
+    .map(shift => asUtc - getTimeZoneOffset(new Date(asUtc + shift), timeZone))
+    .sort((a, b) => a - b);
+
+  const valid = candidates.find(instant => asUtc - getTimeZoneOffset(new Date(instant), timeZone) === instant);
+  return new Date(valid ?? candidates[candidates.length - 1]);
+};
+
+/**
+ * Get the calendar day an instant falls on in a time zone, as local midnight.
+ * Without a zone the date is treated as floating local time.
+ */
+export const getCalendarDay = (date: Date, timeZone?: string): Date => {
+  if (!timeZone) return startOfDay(date);
+  const parts = getZonedParts(date, timeZone);
+  return new Date(parts.year, parts.month, parts.day);
+};
+
+/**
+ * Get the instant a calendar day starts in a time zone
+ */
+export const fromCalendarDay = (day: Date, timeZone?: string): Date => {
+  if (!timeZone) return startOfDay(day);
+  return zonedTimeToDate(day.getFullYear(), day.getMonth(), day.getDate(), 0, 0, timeZone);
+};
@@ -0,0 +1,257 @@
+/**
+ * Serves a read-only iCalendar feed of a user's tasks and time blocks, or of
+ * one of their projects, to calendar apps subscribed to it:
+ *
+ *   GET /functions/v1/calendar-feed?token=<feed token>
+ *
+ * Calendar apps cannot sign in, so the secret token in the URL is the only
+ * credential and rows are read with the service role. The events are built
+ * by the same createICalendar as the export in the app.
+ *
+ * Run locally with `supabase functions serve calendar-feed`.
+ *
+ * The database types are a copy of the generated src/integrations/supabase/types.ts,
+ * as functions cannot import from src. Run `npm run sync:function-types` after
+ * regenerating them.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { Database, Tables } from '../_shared/database.types';
+import { Project, RecurrenceOverride, RecurrencePattern, Task, TimeBlock } from '../_shared/tasks';
+import { createICalendar } from '../_shared/ical-export';
+import { getCalendarDay, isValidTimeZone } from '../_shared/timezone';
+import { parseISO, subDays } from 'date-fns';
+
+// Past events calendar apps still get; everything upcoming is included
+const FEED_HISTORY_DAYS = 90;
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// Keep the id lists short enough for the request URL
+const ID_CHUNK_SIZE = 200;
+
+const supabase = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const textResponse = (status: number, body: string): Response =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+// Rows without a zone were saved by a browser as local midnight; they are read
+// in the zone of the user's profile, which is the best guess for that browser
+const createTaskMapper = (timeZone: string | undefined) => {
+  const toDay = (value: string) => getCalendarDay(new Date(value), timeZone);
+
+  const mapPattern = (row: Tables<'recurrence_patterns'>): RecurrencePattern => ({
+    frequency: row.frequency as RecurrencePattern['frequency'],
+    interval: row.interval,
+    daysOfWeek: row.days_of_week || undefined,
+    dayOfMonth: row.day_of_month || undefined,
+    monthOfYear: row.month_of_year ?? undefined,
+    endDate: row.end_date ? toDay(row.end_date) : undefined,
+    occurrences: row.occurrences || undefined,
+    rrule: row.rrule || undefined,
+    mode: row.mode === 'after_completion' ? 'afterCompletion' : 'schedule',
+  });
+
+  const mapOverride = (row: Tables<'recurrence_overrides'>): RecurrenceOverride => ({
+    originalDate: parseISO(row.original_date),
+    dueDate: row.due_date ? new Date(row.due_date) : undefined,
+    title: row.title ?? undefined,
+    notes: row.notes ?? undefined,
+    timeSlot: row.time_slot ?? undefined,
+    completed: row.completed ?? undefined,
+    status: row.status ?? undefined,
+  });
+
+  const mapTask = (row: Tables<'tasks'>): Task => ({
+    id: row.id,
+    title: row.title,
+    description: row.description || undefined,
+    dueDate: row.due_date ? new Date(row.due_date) : undefined,
+    priority: row.priority as Task['priority'],
+    projectId: row.project_id,
+    parentId: row.parent_id || undefined,
+    children: [],
+    isExpanded: false,
+    notes: row.notes || undefined,
+    estimatedTime: row.estimated_time || undefined,
+    timeTracked: row.time_tracked || 0,
+    completed: row.completed || false,
+    timeSlot: row.time_slot || undefined,
+    timeZone: row.time_zone || timeZone,
+    status: row.status || undefined,
+    isRecurring: row.is_recurring || false,
+    recurrenceParentId: row.recurrence_parent_id || undefined,
+  });
+
+  const mapTimeBlock = (row: Tables<'time_blocks'>): TimeBlock => ({
+    id: row.id,
+    taskId: row.task_id,
+    date: new Date(row.date),
+    startTime: row.start_time,
+    endTime: row.end_time,
+    timeZone: row.time_zone || timeZone,
+  });
+
+  return { toDay, mapPattern, mapOverride, mapTask, mapTimeBlock };
+};
+
+type PagedResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>;
+
+// Every row of a query, a page at a time; the query has to have a stable order
+async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PagedResult<T>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...data!);
+    if (data!.length < PAGE_SIZE) return rows;
+  }
+}
+
+// The same for the rows belonging to a list of ids, a chunk of ids at a time
+async function fetchRowsByIds<T>(
+  ids: string[],
+  fetchPage: (ids: string[], from: number, to: number) => PagedResult<T>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+    rows.push(...await fetchAllRows((from, to) => fetchPage(chunk, from, to)));
+  }
+  return rows;
+}
+
+async function loadFeedData(userId: string) {
+  // A day of slack, as the calendar days are only known once the rows are read in their zones
+  const cutoff = subDays(new Date(), FEED_HISTORY_DAYS + 1).toISOString();
+
+  const [profile, projects, recentTasks, timeBlocks] = await Promise.all([
+    supabase.from('profiles').select('time_zone').eq('id', userId).maybeSingle(),
+    fetchAllRows((from, to) =>
+      supabase.from('projects').select('*').eq('user_id', userId).order('id').range(from, to)
+    ),
+    // Recurring tasks can start long before the cutoff and still have upcoming occurrences
+    fetchAllRows((from, to) =>
+      supabase.from('tasks').select('*').eq('user_id', userId)
+        .or(`due_date.gte."${cutoff}",is_recurring.eq.true`)
+        .order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from('time_blocks').select('*').eq('user_id', userId).gte('date', cutoff)
+        .order('id').range(from, to)
+    ),
+  ]);
+
+  if (profile.error) throw profile.error;
+
+  // Blocks are shown under the title of their task, whenever that one is due
+  const loadedTaskIds = new Set(recentTasks.map(task => task.id));
+  const blockTaskIds = [...new Set(timeBlocks.map(block => block.task_id))].filter(id => !loadedTaskIds.has(id));
+  const tasks = [
+    ...recentTasks,
+    ...await fetchRowsByIds(blockTaskIds, (ids, from, to) =>
+      supabase.from('tasks').select('*').eq('user_id', userId).in('id', ids).order('id').range(from, to)
+    ),
+  ];
+
+  const recurringTaskIds = tasks.filter(task => task.is_recurring).map(task => task.id);
+  const [patterns, exceptions, overrides] = await Promise.all([
+    fetchRowsByIds(recurringTaskIds, (ids, from, to) =>
+      supabase.from('recurrence_patterns').select('*').in('task_id', ids).order('id').range(from, to)
+    ),
+    fetchRowsByIds(recurringTaskIds, (ids, from, to) =>
+      supabase.from('recurrence_exceptions').select('*').in('task_id', ids).order('id').range(from, to)
+    ),
+    fetchRowsByIds(recurringTaskIds, (ids, from, to) =>
+      supabase.from('recurrence_overrides').select('*').in('task_id', ids).order('id').range(from, to)
+    ),
+  ]);
+
+  const profileTimeZone = profile.data?.time_zone;
+  const mapper = createTaskMapper(isValidTimeZone(profileTimeZone) ? profileTimeZone : undefined);
+
+  const mappedTasks = tasks.map(mapper.mapTask);
+  const tasksById = new Map(mappedTasks.map(task => [task.id, task]));
+
+  for (const row of patterns) {
+    const task = tasksById.get(row.task_id);
+    if (task) task.recurrencePattern = mapper.mapPattern(row);
+  }
+  for (const row of exceptions) {
+    const task = tasksById.get(row.task_id);
+    if (task) task.recurrenceExceptions = [...(task.recurrenceExceptions || []), mapper.toDay(row.exception_date)];
+  }
+  for (const row of overrides) {
+    const task = tasksById.get(row.task_id);
+    if (task) task.recurrenceOverrides = [...(task.recurrenceOverrides || []), mapper.mapOverride(row)];
+  }
+
+  const mappedProjects: Project[] = projects.map(row => ({
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    isExpanded: false,
+  }));
+
+  return {
+    projects: mappedProjects,
+    tasks: mappedTasks,
+    timeBlocks: timeBlocks.map(mapper.mapTimeBlock),
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return textResponse(405, 'Method not allowed');
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return textResponse(401, 'Missing feed token');
+  }
+
+  try {
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    // Unknown and revoked tokens look the same
+    if (!feed) {
+      return textResponse(404, 'Feed not found');
+    }
+
+    const { projects, tasks, timeBlocks } = await loadFeedData(feed.user_id);
+
+    const body = createICalendar(tasks, timeBlocks, projects, {
+      projectId: feed.project_id || undefined,
+      from: subDays(new Date(), FEED_HISTORY_DAYS),
+      calendarName: feed.name,
+    });
+
+    await supabase
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    return new Response(req.method === 'HEAD' ? null : body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="khonja.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return textResponse(500, 'Failed to build calendar feed');
+  }
+});
@@ -0,0 +1,100 @@
+/*
+  # Link Profiles to Supabase Auth Users
+
+  1. Changes
+     - Adds an email column to the profiles table
+     - Links profiles.id to auth.users(id) (NOT VALID, so existing anonymous profiles are kept)
+     - Creates a profile automatically whenever a new auth user signs up
+     - Adds claim_anonymous_data() which moves rows owned by a legacy
+       localStorage user ID to the signed-in account
+
+  2. Security
+     - claim_anonymous_data runs as SECURITY DEFINER but only ever writes
+       auth.uid() as the new owner, and refuses to claim a profile that
+       already belongs to a real auth user
+*/
+
+-- Store the sign-in email on the profile for display purposes
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS email text;
+
+-- Link profiles to auth users. NOT VALID skips the check for existing
+-- anonymous rows, which are removed once their data has been claimed.
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_id_fkey;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_id_fkey
+FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+
+-- Create a profile for every new auth user
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+    NEW.email
+  )
+  ON CONFLICT (id) DO UPDATE SET email = EXCLUDED.email;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Move everything owned by an anonymous user ID to the signed-in user
+CREATE OR REPLACE FUNCTION public.claim_anonymous_data(p_anonymous_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_claimed integer := 0;
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_anonymous_id = v_user_id THEN
+    RETURN 0;
+  END IF;
+
+  -- Never claim data that belongs to a real account
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = p_anonymous_id) THEN
+    RAISE EXCEPTION 'User ID belongs to a registered account' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE projects SET user_id = v_user_id WHERE user_id = p_anonymous_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_claimed := v_claimed + v_count;
+
+  UPDATE tasks SET user_id = v_user_id WHERE user_id = p_anonymous_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_claimed := v_claimed + v_count;
+
+  UPDATE time_blocks SET user_id = v_user_id WHERE user_id = p_anonymous_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_claimed := v_claimed + v_count;
+
+  UPDATE time_trackings SET user_id = v_user_id WHERE user_id = p_anonymous_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_claimed := v_claimed + v_count;
+
+  DELETE FROM profiles WHERE id = p_anonymous_id;
+
+  RETURN v_claimed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_anonymous_data(uuid) TO authenticated;
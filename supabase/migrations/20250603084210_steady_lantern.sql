@@ -0,0 +1,137 @@
+/*
+  # Re-enable Row Level Security with Owner-Based Policies
+
+  1. Changes
+     - Enables row level security on profiles, projects, tasks, time_blocks,
+       time_trackings, recurrence_patterns and recurrence_exceptions
+     - Replaces any previous policies with owner-based ones:
+       - profiles: a user can only see and edit their own profile
+       - projects, tasks, time_blocks, time_trackings: rows are owned through user_id
+       - recurrence_patterns, recurrence_exceptions: rows are owned through their task
+     - Adds indexes on user_id so the policies stay cheap
+
+  2. Security
+     - Reverts the public access introduced by the earlier "disable RLS" migrations
+     - The anon role can no longer read or write any user data
+*/
+
+-- Indexes used by the policies
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks(user_id);
+CREATE INDEX IF NOT EXISTS idx_time_blocks_user_id ON time_blocks(user_id);
+CREATE INDEX IF NOT EXISTS idx_time_trackings_user_id ON time_trackings(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurrence_patterns_task_id ON recurrence_patterns(task_id);
+CREATE INDEX IF NOT EXISTS idx_recurrence_exceptions_task_id ON recurrence_exceptions(task_id);
+
+-- Enable RLS on every table
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_trackings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurrence_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurrence_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Profiles: only your own
+DROP POLICY IF EXISTS "Users can view their own profile" ON profiles;
+CREATE POLICY "Users can view their own profile"
+  ON profiles FOR SELECT TO authenticated
+  USING (id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert their own profile" ON profiles;
+CREATE POLICY "Users can insert their own profile"
+  ON profiles FOR INSERT TO authenticated
+  WITH CHECK (id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own profile" ON profiles;
+CREATE POLICY "Users can update their own profile"
+  ON profiles FOR UPDATE TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- Projects
+DROP POLICY IF EXISTS "Users can manage their own projects" ON projects;
+CREATE POLICY "Users can manage their own projects"
+  ON projects FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Tasks: the project must belong to the same user
+DROP POLICY IF EXISTS "Users can manage their own tasks" ON tasks;
+CREATE POLICY "Users can manage their own tasks"
+  ON tasks FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = tasks.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Time blocks: the task must belong to the same user
+DROP POLICY IF EXISTS "Users can manage their own time blocks" ON time_blocks;
+CREATE POLICY "Users can manage their own time blocks"
+  ON time_blocks FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = time_blocks.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Time trackings: the task must belong to the same user
+DROP POLICY IF EXISTS "Users can manage their own time trackings" ON time_trackings;
+CREATE POLICY "Users can manage their own time trackings"
+  ON time_trackings FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = time_trackings.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Recurrence patterns: owned through their task
+DROP POLICY IF EXISTS "Users can manage recurrence patterns of their tasks" ON recurrence_patterns;
+CREATE POLICY "Users can manage recurrence patterns of their tasks"
+  ON recurrence_patterns FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_patterns.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_patterns.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Recurrence exceptions: owned through their task
+DROP POLICY IF EXISTS "Users can manage recurrence exceptions of their tasks" ON recurrence_exceptions;
+CREATE POLICY "Users can manage recurrence exceptions of their tasks"
+  ON recurrence_exceptions FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_exceptions.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_exceptions.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,53 @@
+/*
+  # Keep updated_at Current on Every Write
+
+  1. Changes
+     - Adds a set_updated_at() trigger function
+     - Bumps updated_at on every UPDATE of profiles, projects, tasks,
+       time_blocks, time_trackings and recurrence_patterns
+     - updated_at is used by the client as the row version when replaying
+       offline edits, so a stale edit can be detected and merged
+
+  2. Security
+     - No policy changes
+*/
+
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_profiles_updated_at ON profiles;
+CREATE TRIGGER set_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_projects_updated_at ON projects;
+CREATE TRIGGER set_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_tasks_updated_at ON tasks;
+CREATE TRIGGER set_tasks_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_time_blocks_updated_at ON time_blocks;
+CREATE TRIGGER set_time_blocks_updated_at
+  BEFORE UPDATE ON time_blocks
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_time_trackings_updated_at ON time_trackings;
+CREATE TRIGGER set_time_trackings_updated_at
+  BEFORE UPDATE ON time_trackings
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS set_recurrence_patterns_updated_at ON recurrence_patterns;
+CREATE TRIGGER set_recurrence_patterns_updated_at
+  BEFORE UPDATE ON recurrence_patterns
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
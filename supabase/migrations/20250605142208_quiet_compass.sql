@@ -0,0 +1,116 @@
+/*
+  # Tombstones and Indexes for Incremental Sync
+
+  1. Changes
+     - Adds a deleted_rows table that records every deleted project, task,
+       time block and time tracking together with its owner
+     - Adds record_deleted_row() and AFTER DELETE triggers that write the tombstones,
+       including rows removed by ON DELETE CASCADE
+     - Adds (user_id, updated_at) indexes so clients can fetch only rows changed
+       since their last sync
+     - Adds prune_deleted_rows() to drop tombstones older than 30 days; clients
+       whose last sync is older than that fall back to a full sync
+     - Touches the parent task when its recurrence pattern or exceptions change
+
+  2. Security
+     - RLS on deleted_rows: users can only read their own tombstones
+     - Tombstones are written by a SECURITY DEFINER trigger, clients cannot insert them
+*/
+
+CREATE TABLE IF NOT EXISTS deleted_rows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  deleted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deleted_rows_user_table_deleted_at
+  ON deleted_rows(user_id, table_name, deleted_at);
+
+ALTER TABLE deleted_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own tombstones" ON deleted_rows;
+CREATE POLICY "Users can view their own tombstones"
+  ON deleted_rows FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Indexes for "changed since" queries
+CREATE INDEX IF NOT EXISTS idx_projects_user_updated_at ON projects(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_updated_at ON tasks(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_time_blocks_user_updated_at ON time_blocks(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_time_trackings_user_updated_at ON time_trackings(user_id, updated_at);
+
+CREATE OR REPLACE FUNCTION public.record_deleted_row()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO deleted_rows (table_name, row_id, user_id)
+  VALUES (TG_TABLE_NAME, OLD.id, OLD.user_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_projects_deletion ON projects;
+CREATE TRIGGER record_projects_deletion
+  AFTER DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+DROP TRIGGER IF EXISTS record_tasks_deletion ON tasks;
+CREATE TRIGGER record_tasks_deletion
+  AFTER DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+DROP TRIGGER IF EXISTS record_time_blocks_deletion ON time_blocks;
+CREATE TRIGGER record_time_blocks_deletion
+  AFTER DELETE ON time_blocks
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+DROP TRIGGER IF EXISTS record_time_trackings_deletion ON time_trackings;
+CREATE TRIGGER record_time_trackings_deletion
+  AFTER DELETE ON time_trackings
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+-- Meant to be run from a scheduled job
+CREATE OR REPLACE FUNCTION public.prune_deleted_rows()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM deleted_rows WHERE deleted_at < now() - interval '30 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_deleted_rows() FROM PUBLIC, anon, authenticated;
+
+-- Recurrence rows live in their own tables, so touch the task when they change
+-- to make the task show up in the next incremental sync
+CREATE OR REPLACE FUNCTION public.touch_parent_task()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE tasks SET updated_at = now()
+  WHERE id = COALESCE(NEW.task_id, OLD.task_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_task_on_recurrence_pattern ON recurrence_patterns;
+CREATE TRIGGER touch_task_on_recurrence_pattern
+  AFTER INSERT OR UPDATE OR DELETE ON recurrence_patterns
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_task();
+
+DROP TRIGGER IF EXISTS touch_task_on_recurrence_exception ON recurrence_exceptions;
+CREATE TRIGGER touch_task_on_recurrence_exception
+  AFTER INSERT OR UPDATE OR DELETE ON recurrence_exceptions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_task();
@@ -0,0 +1,85 @@
+/*
+  # Task Labels
+
+  1. Changes
+     - Adds a labels table with a name and color per user
+     - Adds a task_labels join table linking tasks to labels; rows are removed
+       together with their task or label
+     - Bumps labels.updated_at on every UPDATE and records deleted labels in
+       deleted_rows so they take part in incremental sync
+     - Touches the task when its labels change so the task shows up in the
+       next incremental sync
+
+  2. Security
+     - RLS on labels: rows are owned through user_id
+     - RLS on task_labels: rows are owned through their task, and the label
+       must belong to the same user
+*/
+
+CREATE TABLE IF NOT EXISTS labels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#64748b',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labels_user_name ON labels(user_id, lower(name));
+CREATE INDEX IF NOT EXISTS idx_labels_user_updated_at ON labels(user_id, updated_at);
+
+CREATE TABLE IF NOT EXISTS task_labels (
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  label_id uuid NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_labels_label_id ON task_labels(label_id);
+
+ALTER TABLE labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_labels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own labels" ON labels;
+CREATE POLICY "Users can manage their own labels"
+  ON labels FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage labels of their tasks" ON task_labels;
+CREATE POLICY "Users can manage labels of their tasks"
+  ON task_labels FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_labels.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_labels.task_id
+        AND tasks.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM labels
+      WHERE labels.id = task_labels.label_id
+        AND labels.user_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_labels_updated_at ON labels;
+CREATE TRIGGER set_labels_updated_at
+  BEFORE UPDATE ON labels
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS record_labels_deletion ON labels;
+CREATE TRIGGER record_labels_deletion
+  AFTER DELETE ON labels
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+DROP TRIGGER IF EXISTS touch_task_on_task_label ON task_labels;
+CREATE TRIGGER touch_task_on_task_label
+  AFTER INSERT OR UPDATE OR DELETE ON task_labels
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_task();
@@ -0,0 +1,82 @@
+/*
+  # Task Dependencies
+
+  1. Changes
+     - Adds a task_dependencies table: task_id cannot be done before
+       blocked_by_task_id. Tasks may depend on tasks in other projects.
+     - Rejects self-dependencies with a CHECK constraint and dependency cycles
+       with a BEFORE INSERT OR UPDATE trigger
+     - Rows are removed together with either task
+     - Touches the blocked task when its dependencies change so it shows up
+       in the next incremental sync
+
+  2. Security
+     - RLS on task_dependencies: both tasks must belong to the user
+*/
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  blocked_by_task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, blocked_by_task_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_task_id);
+
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage dependencies between their tasks" ON task_dependencies;
+CREATE POLICY "Users can manage dependencies between their tasks"
+  ON task_dependencies FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_dependencies.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_dependencies.task_id
+        AND tasks.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_dependencies.blocked_by_task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Walk the blockers of the new blocker; reaching the blocked task means a cycle
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE blockers(id) AS (
+      SELECT NEW.blocked_by_task_id
+      UNION
+      SELECT d.blocked_by_task_id
+      FROM task_dependencies d
+      JOIN blockers b ON d.task_id = b.id
+    )
+    SELECT 1 FROM blockers WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_task_dependency_cycle ON task_dependencies;
+CREATE TRIGGER prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+DROP TRIGGER IF EXISTS touch_task_on_task_dependency ON task_dependencies;
+CREATE TRIGGER touch_task_on_task_dependency
+  AFTER INSERT OR UPDATE OR DELETE ON task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_task();
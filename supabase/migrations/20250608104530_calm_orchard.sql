@@ -0,0 +1,57 @@
+/*
+  # Per-project Status Workflows
+
+  1. Changes
+     - Adds a project_statuses table holding the ordered status columns of a
+       project. Each status has a key that is unique within the project and an
+       is_done flag marking the statuses that count as completed.
+       Projects without rows use the built-in To Do / In Progress / Done set.
+     - Adds tasks.status holding the key of the task's status, backfilled from
+       completed. completed stays the source of truth for older clients and is
+       kept in line with is_done by the app.
+     - Bumps project_statuses.updated_at on every UPDATE and records deleted
+       statuses in deleted_rows so they take part in incremental sync
+
+  2. Security
+     - RLS on project_statuses: rows are owned through user_id
+*/
+
+CREATE TABLE IF NOT EXISTS project_statuses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#64748b',
+  position integer NOT NULL DEFAULT 0,
+  is_done boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_statuses_user_updated_at ON project_statuses(user_id, updated_at);
+
+ALTER TABLE project_statuses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own project statuses" ON project_statuses;
+CREATE POLICY "Users can manage their own project statuses"
+  ON project_statuses FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS set_project_statuses_updated_at ON project_statuses;
+CREATE TRIGGER set_project_statuses_updated_at
+  BEFORE UPDATE ON project_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS record_project_statuses_deletion ON project_statuses;
+CREATE TRIGGER record_project_statuses_deletion
+  AFTER DELETE ON project_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.record_deleted_row();
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS status text;
+
+UPDATE tasks
+SET status = CASE WHEN completed THEN 'done' ELSE 'todo' END
+WHERE status IS NULL;
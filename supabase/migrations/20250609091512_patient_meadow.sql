@@ -0,0 +1,17 @@
+/*
+  # RRULE Recurrence
+
+  1. Changes
+     - Adds recurrence_patterns.rrule holding the RFC 5545 RRULE of the
+       pattern (e.g. FREQ=MONTHLY;BYDAY=2TU). When set it takes precedence over
+       the structured columns, which the app keeps filled in as far as they can
+       express the rule for older clients.
+     - Existing rows keep rrule NULL and are converted by the app when read;
+       the conversion needs the local weekday of the task's due date, which is
+       not known here
+
+  2. Security
+     - No changes; recurrence_patterns stays owned through its task
+*/
+
+ALTER TABLE recurrence_patterns ADD COLUMN IF NOT EXISTS rrule text;
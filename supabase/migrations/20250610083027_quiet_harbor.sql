@@ -0,0 +1,25 @@
+/*
+  # After-completion Recurrence
+
+  1. Changes
+     - Adds recurrence_patterns.mode. 'schedule' (the default, and what all
+       existing patterns keep) repeats on the days of the rule; with
+       'after_completion' the next due date is counted from the day the task
+       was completed, using the rule's frequency and interval
+     - Adds tasks.recurrence_parent_id linking a completed occurrence of an
+       after-completion task to the recurring task it was completed from, so
+       the completion history is kept while the recurring task moves on.
+       Deleting the recurring task keeps its history
+
+  2. Security
+     - No changes; both tables keep their existing policies
+*/
+
+ALTER TABLE recurrence_patterns
+  ADD COLUMN IF NOT EXISTS mode text NOT NULL DEFAULT 'schedule'
+  CHECK (mode IN ('schedule', 'after_completion'));
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id uuid REFERENCES tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_recurrence_parent_id_idx ON tasks(recurrence_parent_id);
@@ -0,0 +1,63 @@
+/*
+  # Recurrence Overrides
+
+  1. Changes
+     - Adds recurrence_overrides, holding the changes made to a single
+       occurrence of a recurring task. Rows are keyed by the recurring task and
+       the day the occurrence falls on according to its rule (original_date),
+       so they still apply when the occurrences are generated again
+     - A NULL column keeps the value of the recurring task; due_date moves the
+       occurrence to another day and completed/status track its completion
+     - Changing an override touches its task so it shows up in the next
+       incremental sync, like the other recurrence tables
+
+  2. Security
+     - RLS enabled; rows are owned through their task like recurrence_exceptions
+*/
+
+CREATE TABLE IF NOT EXISTS recurrence_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  original_date date NOT NULL,
+  due_date timestamptz,
+  title text,
+  notes text,
+  time_slot text,
+  completed boolean,
+  status text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, original_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurrence_overrides_task_id ON recurrence_overrides(task_id);
+
+ALTER TABLE recurrence_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage recurrence overrides of their tasks" ON recurrence_overrides;
+CREATE POLICY "Users can manage recurrence overrides of their tasks"
+  ON recurrence_overrides FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_overrides.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = recurrence_overrides.task_id
+        AND tasks.user_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS touch_task_on_recurrence_override ON recurrence_overrides;
+CREATE TRIGGER touch_task_on_recurrence_override
+  AFTER INSERT OR UPDATE OR DELETE ON recurrence_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.touch_parent_task();
+
+DROP TRIGGER IF EXISTS set_recurrence_overrides_updated_at ON recurrence_overrides;
+CREATE TRIGGER set_recurrence_overrides_updated_at
+  BEFORE UPDATE ON recurrence_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,23 @@
+/*
+  # Time Zones
+
+  1. Changes
+     - Adds tasks.time_zone and time_blocks.time_zone, the IANA zone the task's
+       due day and time slot (or the block's date and times) are expressed in.
+       When set, due_date is midnight of the due day in that zone
+     - Adds profiles.time_zone, the zone a user's new tasks are created in and
+       the calendar is shown in
+     - Existing rows keep NULL, meaning floating local time as before
+
+  2. Security
+     - No changes; all tables keep their existing policies
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS time_zone text;
+
+ALTER TABLE time_blocks
+  ADD COLUMN IF NOT EXISTS time_zone text;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS time_zone text;
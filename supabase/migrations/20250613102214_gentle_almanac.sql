@@ -0,0 +1,24 @@
+/*
+  # iCalendar UIDs
+
+  1. Changes
+     - Adds tasks.ical_uid and time_blocks.ical_uid, the UID of the iCalendar
+       event or to-do the row was imported from. Importing the same file again
+       updates these rows instead of creating duplicates
+     - Each UID is unique per user
+
+  2. Security
+     - No changes; both tables keep their existing policies
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS ical_uid text;
+
+ALTER TABLE time_blocks
+  ADD COLUMN IF NOT EXISTS ical_uid text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tasks_user_id_ical_uid_idx
+  ON tasks(user_id, ical_uid) WHERE ical_uid IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS time_blocks_user_id_ical_uid_idx
+  ON time_blocks(user_id, ical_uid) WHERE ical_uid IS NOT NULL;
@@ -0,0 +1,43 @@
+/*
+  # Calendar Feeds
+
+  1. Changes
+     - Adds calendar_feeds, the subscription URLs a user has handed out to
+       calendar apps. A feed covers all of the user's tasks and time blocks, or
+       only those of one project when project_id is set
+     - The feed is looked up by its secret token; setting a new token or
+       deleting the row revokes the old URL
+     - last_accessed_at is set by the calendar-feed Edge Function each time
+       the feed is fetched
+
+  2. Security
+     - RLS enabled; users can only manage their own feeds
+     - The Edge Function reads feeds with the service role, as calendar apps
+       cannot sign in
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token text NOT NULL UNIQUE,
+  last_accessed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON calendar_feeds(user_id);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own calendar feeds" ON calendar_feeds;
+CREATE POLICY "Users can manage their own calendar feeds"
+  ON calendar_feeds FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS set_calendar_feeds_updated_at ON calendar_feeds;
+CREATE TRIGGER set_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,109 @@
+/*
+  # Billable Rates and Invoices
+
+  1. Changes
+     - projects.hourly_rate and projects.currency, the rate time on the project
+       is billed at
+     - tasks.hourly_rate overrides the rate of the project, and is inherited by
+       subtasks without a rate of their own
+     - time_trackings.billable; entries are billable unless marked otherwise
+     - Adds invoices, a summary of the billable time of one project over a
+       period, with its line items and total as they were when it was created
+     - time_trackings.invoice_id links an entry to the invoice it was billed on.
+       Deleting the invoice frees its entries to be billed again
+     - create_invoice() inserts an invoice and links its entries in one
+       transaction, and fails when any entry is not billable or already
+       invoiced, so time cannot be billed twice
+
+  2. Security
+     - RLS enabled on invoices; users can only manage their own invoices
+     - create_invoice() runs with the caller's rights, so RLS applies to the
+       entries it links
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS hourly_rate numeric(10, 2) CHECK (hourly_rate >= 0);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD';
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS hourly_rate numeric(10, 2) CHECK (hourly_rate >= 0);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE SET NULL,
+  number text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  currency text NOT NULL,
+  total numeric(12, 2) NOT NULL DEFAULT 0,
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own invoices" ON invoices;
+CREATE POLICY "Users can manage their own invoices"
+  ON invoices FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS set_invoices_updated_at ON invoices;
+CREATE TRIGGER set_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE time_trackings ADD COLUMN IF NOT EXISTS billable boolean NOT NULL DEFAULT true;
+ALTER TABLE time_trackings ADD COLUMN IF NOT EXISTS invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_time_trackings_invoice_id ON time_trackings(invoice_id);
+
+-- Create an invoice and mark its time entries as invoiced
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_project_id uuid,
+  p_number text,
+  p_period_start date,
+  p_period_end date,
+  p_currency text,
+  p_total numeric,
+  p_line_items jsonb,
+  p_time_tracking_ids uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice_id uuid;
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO invoices (user_id, project_id, number, period_start, period_end, currency, total, line_items)
+  VALUES (v_user_id, p_project_id, p_number, p_period_start, p_period_end, p_currency, p_total, p_line_items)
+  RETURNING id INTO v_invoice_id;
+
+  UPDATE time_trackings
+  SET invoice_id = v_invoice_id
+  WHERE id = ANY(p_time_tracking_ids)
+    AND user_id = v_user_id
+    AND billable
+    AND invoice_id IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Rolls back the invoice too
+  IF v_count <> COALESCE(array_length(p_time_tracking_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some time entries are not billable or were already invoiced' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_invoice(uuid, text, date, date, text, numeric, jsonb, uuid[]) TO authenticated;
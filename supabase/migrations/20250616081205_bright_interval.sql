@@ -0,0 +1,14 @@
+/*
+  # Focus Sessions
+
+  1. Changes
+     - time_trackings.focus_session marks entries recorded for a completed
+       work interval of focus mode, so reports can count focus sessions per
+       task. Work cut short by stopping focus mode is recorded as a regular
+       entry
+
+  2. Security
+     - No changes; time_trackings keeps its row-level security
+*/
+
+ALTER TABLE time_trackings ADD COLUMN IF NOT EXISTS focus_session boolean NOT NULL DEFAULT false;